@@ -0,0 +1,554 @@
+/**
+ * API Extractor
+ * Lists the public API of a TypeScript package with the TypeScript compiler:
+ * the exports of its `types` / `exports` entry with their signatures and TSDoc.
+ * The API Reference is rendered from this, so the README only documents
+ * functions and classes that exist. The model may write around the rendered
+ * block but the block itself is put back as rendered.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import type * as ts from 'typescript';
+import { ReadmeDocument } from '../generator/readmeDocument';
+
+export type ApiExportKind = 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+
+export interface ApiDocTag {
+    // Tag name without the @ (param, returns, example, deprecated, ...)
+    name: string;
+    text: string;
+}
+
+export interface ApiMember {
+    name: string;
+    // As declared, e.g. "static from(value: string): Color"
+    signature: string;
+    description?: string;
+}
+
+export interface ApiExport {
+    // Exported name ('default' for the default export)
+    name: string;
+    kind: ApiExportKind;
+    // Declaration without bodies, one line per overload
+    signature: string;
+    description?: string;
+    tags: ApiDocTag[];
+    // Public members of classes, properties of interfaces, members of enums
+    members: ApiMember[];
+    // File the export is declared in
+    relativePath: string;
+}
+
+export interface ApiReference {
+    // The entry the exports were read from, relative to the project root
+    entryPath: string;
+    exports: ApiExport[];
+}
+
+// Limits for the reference
+const MAX_EXPORTS = 80;
+const MAX_MEMBERS_PER_EXPORT = 30;
+const MAX_TYPE_TEXT = 300;
+
+// Markers around the rendered reference in the README
+const API_BLOCK_START = '<!-- readme-gen:api -->';
+const API_BLOCK_END = '<!-- /readme-gen:api -->';
+const API_BLOCK_PATTERN = /<!--\s*readme-gen:api\s*-->[\s\S]*?<!--\s*\/readme-gen:api\s*-->/;
+
+// Headings for each kind, in the order they are listed
+const KIND_HEADINGS: Array<[ApiExportKind, string]> = [
+    ['function', 'Functions'],
+    ['class', 'Classes'],
+    ['interface', 'Interfaces'],
+    ['type', 'Types'],
+    ['enum', 'Enums'],
+    ['variable', 'Constants']
+];
+
+// Output folders whose sources usually live in src/
+const BUILD_FOLDERS = /^(\.\/)?(dist|lib|build|out)\//;
+
+// Local files loaded into the program, following the entry's relative imports
+const MAX_SOURCE_FILES = 100;
+
+// Only the core libs, so signatures print real types without loading every lib file.
+// These (and the decorators libs lib.es5.d.ts references) are the only lib files .vscodeignore packages.
+const COMPILER_LIBS = ['lib.es5.d.ts', 'lib.es2015.collection.d.ts', 'lib.es2015.iterable.d.ts', 'lib.es2015.promise.d.ts', 'lib.es2015.symbol.d.ts'];
+
+// The compiler is loaded on first use, so a missing typescript package can't break activation
+let compiler: typeof ts;
+let typeFormat: ts.TypeFormatFlags;
+
+/**
+ * Load the TypeScript compiler, or return false if it isn't available
+ */
+async function loadCompiler(): Promise<boolean> {
+    if (compiler) {
+        return true;
+    }
+    try {
+        compiler = await import('typescript');
+        typeFormat = compiler.TypeFormatFlags.NoTruncation | compiler.TypeFormatFlags.UseAliasDefinedOutsideCurrentScope;
+        return true;
+    } catch (e) {
+        return false;
+    }
+}
+
+// ============================================================================
+// ENTRY RESOLUTION
+// ============================================================================
+
+/**
+ * Paths named by an exports field, type conditions first
+ */
+function getExportsPaths(exportsField: unknown): string[] {
+    if (typeof exportsField === 'string') {
+        return [exportsField];
+    }
+    if (typeof exportsField !== 'object' || exportsField === null || Array.isArray(exportsField)) {
+        return [];
+    }
+
+    const field = exportsField as Record<string, unknown>;
+    // Subpath exports: only the package root "." is the public entry
+    if (Object.keys(field).some(key => key.startsWith('.'))) {
+        return field['.'] !== undefined ? getExportsPaths(field['.']) : [];
+    }
+    const conditions = ['types', 'typings', 'import', 'require', 'node', 'default'];
+    return [
+        ...conditions.filter(c => c in field).flatMap(c => getExportsPaths(field[c])),
+        ...Object.keys(field).filter(c => !conditions.includes(c)).flatMap(c => getExportsPaths(field[c]))
+    ];
+}
+
+/**
+ * TypeScript files a declared entry may correspond to: itself, its declaration file
+ * and its source in src/ when the entry points into an unbuilt output folder
+ */
+function getEntryCandidates(entry: string): string[] {
+    const normalized = entry.replace(/^\.\//, '');
+    const withoutExtension = normalized.replace(/\.d\.[mc]?ts$|\.[mc]?[jt]sx?$/, '');
+    const sourceBase = withoutExtension.replace(BUILD_FOLDERS, 'src/');
+    return [
+        normalized,
+        `${withoutExtension}.d.ts`,
+        `${withoutExtension}.ts`,
+        `${sourceBase}.ts`,
+        `${sourceBase}.tsx`,
+        `${sourceBase}/index.ts`,
+        `${withoutExtension}/index.ts`,
+        `${withoutExtension}/index.d.ts`
+    ].filter(candidate => /\.(d\.)?[mc]?tsx?$/.test(candidate));
+}
+
+/**
+ * Find the TypeScript entry of a package: types/typings, exports, main/module, then src/index.ts
+ */
+function findEntryFile(rootPath: string, packageJson: any): string | undefined {
+    const declared = [
+        packageJson?.types,
+        packageJson?.typings,
+        ...getExportsPaths(packageJson?.exports),
+        packageJson?.module,
+        packageJson?.main
+    ].filter((entry): entry is string => typeof entry === 'string' && entry.length > 0);
+
+    const candidates = [...declared.flatMap(getEntryCandidates), 'src/index.ts', 'index.ts', 'lib/index.ts'];
+    for (const candidate of candidates) {
+        const fullPath = path.join(rootPath, candidate);
+        try {
+            if (fs.statSync(fullPath).isFile()) {
+                return fullPath;
+            }
+        } catch (e) {
+            // Not there, try the next one
+        }
+    }
+    return undefined;
+}
+
+// ============================================================================
+// EXPORT READING
+// ============================================================================
+
+/**
+ * Shorten long type text so one export can't take over the reference
+ */
+function clip(text: string): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > MAX_TYPE_TEXT ? `${singleLine.substring(0, MAX_TYPE_TEXT)}…` : singleLine;
+}
+
+/**
+ * TSDoc summary and tags of a symbol
+ */
+function getDocs(symbol: ts.Symbol, checker: ts.TypeChecker): { description?: string; tags: ApiDocTag[] } {
+    return {
+        description: compiler.displayPartsToString(symbol.getDocumentationComment(checker)).trim() || undefined,
+        tags: symbol.getJsDocTags(checker).map(tag => ({
+            name: tag.name,
+            text: compiler.displayPartsToString(tag.text).trim()
+        }))
+    };
+}
+
+/**
+ * True if a member is not part of the public API (private, protected, #private or marked @internal)
+ */
+function isHiddenMember(member: ts.Node, symbol: ts.Symbol | undefined, checker: ts.TypeChecker): boolean {
+    const flags = compiler.getCombinedModifierFlags(member as ts.Declaration);
+    if (flags & (compiler.ModifierFlags.Private | compiler.ModifierFlags.Protected)) {
+        return true;
+    }
+    const name = (member as ts.NamedDeclaration).name;
+    if (name && compiler.isPrivateIdentifier(name)) {
+        return true;
+    }
+    return !!symbol && symbol.getJsDocTags(checker).some(tag => tag.name === 'internal' || tag.name === 'hidden');
+}
+
+/**
+ * Signature text of a class or interface member, or undefined for members that aren't listed
+ */
+function getMemberSignature(member: ts.Node, name: string, checker: ts.TypeChecker): string | undefined {
+    const isStatic = compiler.getCombinedModifierFlags(member as ts.Declaration) & compiler.ModifierFlags.Static ? 'static ' : '';
+    const isReadonly = compiler.getCombinedModifierFlags(member as ts.Declaration) & compiler.ModifierFlags.Readonly ? 'readonly ' : '';
+
+    if (compiler.isConstructorDeclaration(member) || compiler.isConstructSignatureDeclaration(member)) {
+        // Only the parameters; the return type is the class itself
+        const parameters = member.parameters.map(p => `${p.dotDotDotToken ? '...' : ''}${p.name.getText()}${p.questionToken || p.initializer ? '?' : ''}: ${clip(checker.typeToString(checker.getTypeAtLocation(p), undefined, typeFormat))}`);
+        return `constructor(${parameters.join(', ')})`;
+    }
+    if (compiler.isMethodDeclaration(member) || compiler.isMethodSignature(member)) {
+        const signature = checker.getSignatureFromDeclaration(member);
+        const optional = member.questionToken ? '?' : '';
+        return signature && `${isStatic}${name}${optional}${clip(checker.signatureToString(signature, undefined, typeFormat))}`;
+    }
+    if (compiler.isPropertyDeclaration(member) || compiler.isPropertySignature(member)) {
+        const optional = member.questionToken ? '?' : '';
+        return `${isStatic}${isReadonly}${name}${optional}: ${clip(checker.typeToString(checker.getTypeAtLocation(member), undefined, typeFormat))}`;
+    }
+    if (compiler.isGetAccessorDeclaration(member)) {
+        return `${isStatic}get ${name}(): ${clip(checker.typeToString(checker.getTypeAtLocation(member), undefined, typeFormat))}`;
+    }
+    if (compiler.isIndexSignatureDeclaration(member)) {
+        return clip(member.getText());
+    }
+    return undefined;
+}
+
+/**
+ * Public members of a class or interface declaration, with their TSDoc summary
+ */
+function getMembers(declaration: ts.ClassLikeDeclaration | ts.InterfaceDeclaration, checker: ts.TypeChecker): ApiMember[] {
+    const members: ApiMember[] = [];
+    for (const member of declaration.members) {
+        const symbol = member.name ? checker.getSymbolAtLocation(member.name) : undefined;
+        if (isHiddenMember(member, symbol, checker)) {
+            continue;
+        }
+        const name = member.name ? member.name.getText() : 'constructor';
+        const signature = getMemberSignature(member, name, checker);
+        if (!signature) {
+            continue;
+        }
+        // Constructors have no symbol of their own; their TSDoc is on the signature
+        const signatureDeclaration = compiler.isConstructorDeclaration(member) ? checker.getSignatureFromDeclaration(member) : undefined;
+        const documented = symbol || signatureDeclaration;
+        const description = documented
+            ? compiler.displayPartsToString(documented.getDocumentationComment(checker)).trim().split(/\n\s*\n/)[0].replace(/\s+/g, ' ')
+            : '';
+        members.push({ name, signature, description: description || undefined });
+        if (members.length >= MAX_MEMBERS_PER_EXPORT) {
+            break;
+        }
+    }
+    return members;
+}
+
+/**
+ * Type parameters and heritage clauses of a declaration as written ("<T> extends Base")
+ */
+function getDeclarationHeader(declaration: ts.ClassLikeDeclaration | ts.InterfaceDeclaration | ts.TypeAliasDeclaration): string {
+    const typeParameters = declaration.typeParameters ? `<${declaration.typeParameters.map(p => p.getText()).join(', ')}>` : '';
+    const heritage = 'heritageClauses' in declaration && declaration.heritageClauses
+        ? ` ${declaration.heritageClauses.map(h => h.getText()).join(' ')}`
+        : '';
+    return `${typeParameters}${heritage}`;
+}
+
+/**
+ * Read one exported symbol, or undefined if it is internal or not a listed kind (namespaces, re-exported modules)
+ */
+function readExport(exported: ts.Symbol, checker: ts.TypeChecker, rootPath: string): ApiExport | undefined {
+    const symbol = exported.flags & compiler.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+    const declaration = symbol.declarations?.[0];
+    if (!declaration) {
+        return undefined;
+    }
+
+    const { description, tags } = getDocs(symbol, checker);
+    if (tags.some(tag => tag.name === 'internal' || tag.name === 'hidden')) {
+        return undefined;
+    }
+
+    const name = exported.getName();
+    const base = {
+        name,
+        description,
+        tags,
+        members: [] as ApiMember[],
+        relativePath: path.relative(rootPath, declaration.getSourceFile().fileName).replace(/\\/g, '/')
+    };
+
+    if (symbol.flags & compiler.SymbolFlags.Class && compiler.isClassLike(declaration)) {
+        const abstract = compiler.getCombinedModifierFlags(declaration) & compiler.ModifierFlags.Abstract ? 'abstract ' : '';
+        return { ...base, kind: 'class', signature: `${abstract}class ${name}${getDeclarationHeader(declaration)}`, members: getMembers(declaration, checker) };
+    }
+    if (symbol.flags & compiler.SymbolFlags.Interface && compiler.isInterfaceDeclaration(declaration)) {
+        return { ...base, kind: 'interface', signature: `interface ${name}${getDeclarationHeader(declaration)}`, members: getMembers(declaration, checker) };
+    }
+    if (symbol.flags & compiler.SymbolFlags.TypeAlias && compiler.isTypeAliasDeclaration(declaration)) {
+        return { ...base, kind: 'type', signature: `type ${name}${getDeclarationHeader(declaration)} = ${clip(declaration.type.getText())}` };
+    }
+    if (symbol.flags & compiler.SymbolFlags.Enum && compiler.isEnumDeclaration(declaration)) {
+        const members = declaration.members.slice(0, MAX_MEMBERS_PER_EXPORT).map(member => {
+            const memberSymbol = checker.getSymbolAtLocation(member.name);
+            const memberDescription = memberSymbol ? compiler.displayPartsToString(memberSymbol.getDocumentationComment(checker)).trim() : '';
+            return { name: member.name.getText(), signature: clip(member.getText()), description: memberDescription || undefined };
+        });
+        return { ...base, kind: 'enum', signature: `enum ${name}`, members };
+    }
+
+    const type = checker.getTypeOfSymbolAtLocation(symbol, declaration);
+    const callSignatures = type.getCallSignatures();
+    // Functions, and constants that hold nothing but a function (export const fn = () => ...)
+    if (symbol.flags & compiler.SymbolFlags.Function || (symbol.flags & compiler.SymbolFlags.Variable && callSignatures.length > 0 && type.getProperties().length === 0)) {
+        const signature = callSignatures
+            .map(s => `function ${name}${clip(checker.signatureToString(s, undefined, typeFormat))}`)
+            .join('\n');
+        return { ...base, kind: 'function', signature };
+    }
+    if (symbol.flags & compiler.SymbolFlags.Variable) {
+        const keyword = compiler.isVariableDeclaration(declaration) && compiler.getCombinedNodeFlags(declaration) & compiler.NodeFlags.Const ? 'const' : 'let';
+        return { ...base, kind: 'variable', signature: `${keyword} ${name}: ${clip(checker.typeToString(type, undefined, typeFormat))}` };
+    }
+    return undefined;
+}
+
+/**
+ * The file a relative import points to, trying the TypeScript extensions and index files
+ */
+function resolveLocalImport(fromFile: string, specifier: string): string | undefined {
+    const base = path.resolve(path.dirname(fromFile), specifier).replace(/\.[mc]?js$/, '');
+    const candidates = [base, `${base}.ts`, `${base}.tsx`, `${base}.d.ts`, path.join(base, 'index.ts'), path.join(base, 'index.tsx'), path.join(base, 'index.d.ts')];
+    return candidates.find(candidate => /\.tsx?$/.test(candidate) && fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+}
+
+/**
+ * The entry and the local files it imports, directly or through other local files.
+ * Packages are never followed, so the program stays small.
+ */
+function collectSourceFiles(entry: string): string[] {
+    const files = [entry];
+    for (let i = 0; i < files.length && files.length < MAX_SOURCE_FILES; i++) {
+        let text: string;
+        try {
+            text = fs.readFileSync(files[i], 'utf-8');
+        } catch (e) {
+            continue;
+        }
+        for (const imported of compiler.preProcessFile(text, true, true).importedFiles) {
+            const resolved = imported.fileName.startsWith('.') ? resolveLocalImport(files[i], imported.fileName) : undefined;
+            if (resolved && !files.includes(resolved)) {
+                files.push(resolved);
+            }
+        }
+    }
+    return files;
+}
+
+/**
+ * Read the exported API of a TypeScript package, or undefined if it has no TypeScript
+ * entry or exports nothing (or the compiler isn't available). Only the local files the
+ * entry imports are loaded; imports of other packages are not resolved.
+ */
+export async function collectApiReference(rootPath: string, packageJson?: any): Promise<ApiReference | undefined> {
+    // A VS Code extension's entry exports activate/deactivate for the editor, not an API to import
+    if (packageJson?.engines?.vscode) {
+        return undefined;
+    }
+    const entry = findEntryFile(rootPath, packageJson);
+    if (!entry || !await loadCompiler()) {
+        return undefined;
+    }
+
+    let program: ts.Program;
+    try {
+        program = compiler.createProgram(collectSourceFiles(entry), {
+            noEmit: true,
+            noResolve: true,
+            skipLibCheck: true,
+            target: compiler.ScriptTarget.ES2020,
+            module: compiler.ModuleKind.CommonJS,
+            lib: COMPILER_LIBS,
+            types: [],
+            jsx: compiler.JsxEmit.Preserve,
+            esModuleInterop: true
+        });
+    } catch (e) {
+        // The compiler couldn't load the entry
+        return undefined;
+    }
+
+    const checker = program.getTypeChecker();
+    const sourceFile = program.getSourceFile(entry);
+    const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+    if (!moduleSymbol) {
+        return undefined;
+    }
+
+    const exports: ApiExport[] = [];
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+        const read = readExport(exported, checker, rootPath);
+        if (read) {
+            exports.push(read);
+        }
+        if (exports.length >= MAX_EXPORTS) {
+            break;
+        }
+    }
+
+    if (exports.length === 0) {
+        return undefined;
+    }
+
+    return {
+        entryPath: path.relative(rootPath, entry).replace(/\\/g, '/'),
+        exports
+    };
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+/**
+ * Escape a value for a Markdown table cell
+ */
+function tableCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Markdown for one export: signature, summary, parameters, return value, members and example
+ */
+function renderExport(api: ApiExport): string {
+    const heading = api.kind === 'function' ? `${api.name}()` : api.name;
+    const blocks = [`#### \`${heading}\``];
+
+    const deprecated = api.tags.find(tag => tag.name === 'deprecated');
+    if (deprecated) {
+        blocks.push(`> ⚠️ **Deprecated**${deprecated.text ? `: ${deprecated.text}` : ''}`);
+    }
+
+    blocks.push('```ts\n' + api.signature + '\n```');
+
+    if (api.description) {
+        blocks.push(api.description);
+    }
+
+    // "@param name - description" comes back as "name - description"
+    const params = api.tags
+        .filter(tag => tag.name === 'param')
+        .map(tag => tag.text.match(/^(\S+)\s*(?:-\s*)?([\s\S]*)$/))
+        .filter((match): match is RegExpMatchArray => !!match);
+    if (params.length > 0) {
+        blocks.push([
+            '| Parameter | Description |',
+            '|-----------|-------------|',
+            ...params.map(match => `| \`${tableCell(match[1])}\` | ${tableCell(match[2].trim())} |`)
+        ].join('\n'));
+    }
+
+    const returns = api.tags.find(tag => tag.name === 'returns' || tag.name === 'return');
+    if (returns?.text) {
+        blocks.push(`**Returns:** ${returns.text.replace(/\s+/g, ' ')}`);
+    }
+
+    if (api.members.length > 0) {
+        const label = api.kind === 'interface' ? 'Property' : 'Member';
+        blocks.push([
+            `| ${label} | Description |`,
+            `|${'-'.repeat(label.length + 2)}|-------------|`,
+            ...api.members.map(member => `| \`${tableCell(member.signature)}\` | ${tableCell(member.description || '')} |`)
+        ].join('\n'));
+    }
+
+    for (const example of api.tags.filter(tag => tag.name === 'example' && tag.text)) {
+        blocks.push(/^\s*```/.test(example.text) ? example.text : '```ts\n' + example.text + '\n```');
+    }
+
+    return blocks.join('\n\n');
+}
+
+/**
+ * Render the API Reference block, grouped by kind and wrapped in readme-gen:api markers
+ */
+export function renderApiReference(reference: ApiReference): string {
+    const groups = KIND_HEADINGS
+        .map(([kind, heading]) => ({ heading, exports: reference.exports.filter(e => e.kind === kind) }))
+        .filter(group => group.exports.length > 0)
+        .map(group => `### ${group.heading}\n\n${group.exports.map(renderExport).join('\n\n')}`);
+
+    return `${API_BLOCK_START}\n${groups.join('\n\n')}\n${API_BLOCK_END}`;
+}
+
+/**
+ * Format the exports for the AI prompt: where they come from and the rendered block
+ */
+export function getApiReferenceSummary(reference: ApiReference | undefined): string {
+    if (!reference) {
+        return '';
+    }
+    const files = Array.from(new Set(reference.exports.map(e => e.relativePath)));
+    return `Exported from ${reference.entryPath} (declared in ${files.slice(0, 5).join(', ')}${files.length > 5 ? ` and ${files.length - 5} more files` : ''})
+
+${renderApiReference(reference)}`;
+}
+
+/**
+ * Put the rendered reference into an API Reference section. The model's block between
+ * the markers is replaced; without markers, the model's own reference (from the first
+ * sub-heading or code block on) is replaced and its introduction kept.
+ */
+export function applyApiReference(sectionMarkdown: string, reference: ApiReference): string {
+    const rendered = renderApiReference(reference);
+    if (API_BLOCK_PATTERN.test(sectionMarkdown)) {
+        return sectionMarkdown.replace(API_BLOCK_PATTERN, () => rendered);
+    }
+
+    const lines = sectionMarkdown.split('\n');
+    const bodyStart = /^#{1,2}\s/.test(lines[0]) ? 1 : 0;
+    const referenceStart = lines.findIndex((line, i) => i >= bodyStart && /^(#{3,}\s|```|~~~)/.test(line));
+    const intro = referenceStart < 0 ? sectionMarkdown : lines.slice(0, referenceStart).join('\n');
+    return `${intro.trimEnd()}\n\n${rendered}\n`;
+}
+
+/**
+ * Put the rendered reference into the API Reference section of a README (if it has one)
+ */
+export function injectApiReference(readme: string, reference: ApiReference | undefined): string {
+    if (!reference) {
+        return readme;
+    }
+    const document = ReadmeDocument.parse(readme);
+    const section = document.find('api');
+    if (!section) {
+        return readme;
+    }
+    return document.replace('api', applyApiReference(section.raw, reference)).toString();
+}
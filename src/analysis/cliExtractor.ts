@@ -0,0 +1,992 @@
+/**
+ * CLI Extractor
+ * Statically reads command-line definitions (commander, yargs, oclif, clipanion,
+ * argparse, click, cobra and clap) to get the commands, options, defaults and
+ * descriptions a CLI really has. Nothing is executed; definitions built at
+ * runtime (loops, computed names) are simply not found.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { ProjectFile } from './workspaceScanner';
+
+export type CliFramework = 'commander' | 'yargs' | 'oclif' | 'clipanion' | 'argparse' | 'click' | 'cobra' | 'clap';
+
+export interface CliOption {
+    // As typed on the command line, e.g. "-p, --port <number>"
+    flags: string;
+    description?: string;
+    defaultValue?: string;
+    required: boolean;
+}
+
+export interface CliCommand {
+    // Command name below the program ('' for the program itself)
+    name: string;
+    // Positional arguments, e.g. ["<file>", "[dir]"]
+    arguments: string[];
+    description?: string;
+    options: CliOption[];
+    // File the command is defined in
+    relativePath: string;
+}
+
+export interface CliUsage {
+    framework: CliFramework;
+    // Name the CLI is run with
+    binName: string;
+    // The program itself (global options) first, then its commands
+    commands: CliCommand[];
+}
+
+// Commands found so far, and the program name if the code sets one
+interface CliDefinitions {
+    commands: CliCommand[];
+    programName?: string;
+}
+
+// Limits for reading source files
+const MAX_FILES_TO_READ = 300;
+const MAX_FILE_SIZE_BYTES = 256 * 1024;
+
+// How a source file shows it uses a CLI framework, most specific first
+const FRAMEWORK_MARKERS: Array<{ framework: CliFramework; extensions: string[]; pattern: RegExp }> = [
+    { framework: 'oclif', extensions: ['.ts', '.js', '.mjs', '.cjs'], pattern: /['"]@oclif\/(core|command)['"]/ },
+    { framework: 'clipanion', extensions: ['.ts', '.js', '.mjs', '.cjs'], pattern: /['"]clipanion['"]/ },
+    { framework: 'yargs', extensions: ['.ts', '.js', '.mjs', '.cjs'], pattern: /['"]yargs(\/yargs)?['"]/ },
+    { framework: 'commander', extensions: ['.ts', '.js', '.mjs', '.cjs'], pattern: /['"]commander['"]/ },
+    { framework: 'click', extensions: ['.py'], pattern: /^\s*(import click|from click import)/m },
+    { framework: 'argparse', extensions: ['.py'], pattern: /^\s*(import argparse|from argparse import)/m },
+    { framework: 'cobra', extensions: ['.go'], pattern: /"github\.com\/spf13\/cobra"/ },
+    { framework: 'clap', extensions: ['.rs'], pattern: /\buse clap\b|\bclap::/ }
+];
+
+// ============================================================================
+// SOURCE READING HELPERS
+// ============================================================================
+
+const OPENING = '([{';
+const CLOSING = ')]}';
+const QUOTES = '"\'`';
+
+/**
+ * Index of the quote closing the string that starts at `start`
+ */
+function skipString(content: string, start: number): number {
+    const quote = content[start];
+    let i = start + 1;
+    while (i < content.length && content[i] !== quote) {
+        i += content[i] === '\\' ? 2 : 1;
+    }
+    return i;
+}
+
+/**
+ * Index of the bracket closing the one at `open`, skipping strings and // comments
+ */
+function findClosing(content: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < content.length; i++) {
+        const char = content[i];
+        if (QUOTES.includes(char)) {
+            i = skipString(content, i);
+        } else if (char === '/' && content[i + 1] === '/') {
+            i = content.indexOf('\n', i);
+            if (i < 0) {
+                break;
+            }
+        } else if (OPENING.includes(char)) {
+            depth++;
+        } else if (CLOSING.includes(char)) {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return content.length;
+}
+
+/**
+ * Top-level comma separated arguments of the call whose "(" is at `open`, and the index of its ")"
+ */
+function readArguments(content: string, open: number): { args: string[]; end: number } {
+    const end = findClosing(content, open);
+    const args: string[] = [];
+    let start = open + 1;
+    for (let i = open + 1; i < end; i++) {
+        const char = content[i];
+        if (QUOTES.includes(char)) {
+            i = skipString(content, i);
+        } else if (OPENING.includes(char)) {
+            i = findClosing(content, i);
+        } else if (char === ',') {
+            args.push(content.substring(start, i).trim());
+            start = i + 1;
+        }
+    }
+    const last = content.substring(start, end).trim();
+    if (last) {
+        args.push(last);
+    }
+    return { args, end };
+}
+
+/**
+ * Value of a literal: the text of a string without interpolation, or a number, boolean or null
+ */
+function literalValue(raw: string | undefined): string | undefined {
+    if (raw === undefined) {
+        return undefined;
+    }
+    const trimmed = raw.trim();
+    const string = trimmed.match(/^[rbu]?(['"`])([\s\S]*)\1$/);
+    if (string) {
+        return string[1] === '`' && string[2].includes('${') ? undefined : string[2].replace(/\\(['"`\\])/g, '$1');
+    }
+    if (/^-?\d+(\.\d+)?$|^(true|false|True|False|null|None|nil)$/.test(trimmed)) {
+        return trimmed;
+    }
+    return undefined;
+}
+
+/**
+ * Value of a named property in an object literal or keyword arguments (`key: value` / `key=value`).
+ * Literals are unquoted and constants like DEFAULT_PORT kept as written; other expressions are skipped.
+ */
+function propertyValue(raw: string, names: string[]): string | undefined {
+    for (const name of names) {
+        const match = raw.match(new RegExp(`(?:^|[\\s,{(])${name}\\s*[:=]\\s*('(?:[^'\\\\]|\\\\.)*'|"(?:[^"\\\\]|\\\\.)*"|\`[^\`]*\`|[\\w.-]+(?![\\w.(]))`));
+        if (match) {
+            return literalValue(match[1]) ?? match[1];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Literal positional arguments and the keyword arguments of a Python call
+ */
+function splitPythonArguments(args: string[]): { positional: string[]; keywords: string } {
+    const isKeyword = (arg: string) => /^\w+\s*=(?!=)/.test(arg);
+    return {
+        positional: args.filter(a => !isKeyword(a)).map(a => literalValue(a)).filter((a): a is string => a !== undefined),
+        keywords: args.filter(isKeyword).join(', ')
+    };
+}
+
+/**
+ * Lowercase words joined with dashes (FooBar / foo_bar -> foo-bar)
+ */
+function toKebabCase(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/_/g, '-').toLowerCase();
+}
+
+/**
+ * Long and short flag names as typed on the command line
+ */
+function formatFlags(long: string | undefined, short: string | undefined): string {
+    return [short && `-${short}`, long && `--${long}`].filter(Boolean).join(', ');
+}
+
+/**
+ * Get (or add) the command with a name
+ */
+function getCommand(definitions: CliDefinitions, name: string, relativePath: string): CliCommand {
+    let command = definitions.commands.find(c => c.name === name);
+    if (!command) {
+        command = { name, arguments: [], options: [], relativePath };
+        definitions.commands.push(command);
+    }
+    return command;
+}
+
+/**
+ * Split "serve <port> [host]" into the command name and its arguments
+ */
+function splitUsage(usage: string): { name: string; args: string[] } {
+    const parts = usage.trim().split(/\s+/).filter(p => p && p !== '$0' && p !== '*');
+    const index = parts.findIndex(p => /^[<[]/.test(p));
+    return {
+        name: (index < 0 ? parts : parts.slice(0, index)).join(' '),
+        args: index < 0 ? [] : parts.slice(index)
+    };
+}
+
+// ============================================================================
+// JAVASCRIPT: COMMANDER AND YARGS
+// ============================================================================
+
+/**
+ * Read commander or yargs method chains.
+ * Commander options belong to the command the chain is on; yargs options belong to
+ * the program unless they are inside a command's builder.
+ */
+function parseCommanderOrYargs(content: string, relativePath: string, framework: 'commander' | 'yargs', definitions: CliDefinitions): void {
+    const root = getCommand(definitions, '', relativePath);
+
+    // `const init = program.command('init <name>')`
+    const variables = new Map<string, string>();
+    for (const match of content.matchAll(/(?:const|let|var)\s+([\w$]+)\s*=\s*[\w$.]+\s*\.\s*command\(\s*(['"`])([^'"`]+)\2/g)) {
+        variables.set(match[1], splitUsage(match[3]).name);
+    }
+
+    // yargs command builders still being read
+    const builders: Array<{ command: CliCommand; end: number }> = [];
+    let current = root;
+
+    for (const match of content.matchAll(/(\)|[\w$]+)\s*\.\s*(command|description|describe|summary|option|requiredOption|argument|name|scriptName)\s*\(/g)) {
+        const index = match.index ?? 0;
+        while (builders.length > 0 && builders[builders.length - 1].end < index) {
+            builders.pop();
+        }
+
+        if (builders.length > 0) {
+            current = builders[builders.length - 1].command;
+        } else if (match[1] !== ')') {
+            // A new chain: on a command variable or on the program
+            const name = variables.get(match[1]);
+            current = name !== undefined ? getCommand(definitions, name, relativePath) : root;
+        } else if (framework === 'yargs') {
+            current = root;
+        }
+
+        const { args, end } = readArguments(content, index + match[0].length - 1);
+        const first = literalValue(args[0]);
+        if (first === undefined) {
+            continue;
+        }
+
+        switch (match[2]) {
+            case 'command': {
+                const usage = splitUsage(first);
+                const command = usage.name ? getCommand(definitions, usage.name, relativePath) : root;
+                command.arguments = usage.args;
+                const description = literalValue(args[1]);
+                if (description) {
+                    command.description = description;
+                }
+                if (framework === 'yargs') {
+                    builders.push({ command, end });
+                } else {
+                    current = command;
+                }
+                break;
+            }
+            case 'description':
+            case 'describe':
+            case 'summary':
+                if (!current.description) {
+                    current.description = first;
+                }
+                break;
+            case 'name':
+            case 'scriptName':
+                if (current === root) {
+                    definitions.programName = first;
+                }
+                break;
+            case 'argument':
+                current.arguments.push(first);
+                break;
+            case 'option':
+            case 'requiredOption':
+                if (args[1]?.startsWith('{')) {
+                    // yargs: .option('port', { alias: 'p', describe: '...', default: 8080 })
+                    const alias = propertyValue(args[1], ['alias']);
+                    const names = alias ? [first, alias] : [first];
+                    current.options.push({
+                        flags: formatFlags(names.find(n => n.length > 1), names.find(n => n.length === 1)),
+                        description: propertyValue(args[1], ['describe', 'description', 'desc']),
+                        defaultValue: propertyValue(args[1], ['default']),
+                        required: propertyValue(args[1], ['demandOption', 'required']) === 'true'
+                    });
+                } else {
+                    // commander: .option('-p, --port <number>', 'Port', '8080')
+                    current.options.push({
+                        flags: first,
+                        description: literalValue(args[1]),
+                        defaultValue: literalValue(args[2]),
+                        required: match[2] === 'requiredOption'
+                    });
+                }
+                break;
+        }
+    }
+}
+
+// ============================================================================
+// JAVASCRIPT: OCLIF AND CLIPANION
+// ============================================================================
+
+/**
+ * Read an oclif command class. The command name is its path below commands/, joined with ":".
+ */
+function parseOclif(content: string, relativePath: string, definitions: CliDefinitions): void {
+    const segments = relativePath.replace(/\.[^.]+$/, '').split('/');
+    const commandsIndex = segments.lastIndexOf('commands');
+    if (commandsIndex < 0 || !/\bstatic\s+(flags|args|description|summary)\b/.test(content)) {
+        return;
+    }
+    const nameParts = segments.slice(commandsIndex + 1);
+    if (nameParts[nameParts.length - 1] === 'index') {
+        nameParts.pop();
+    }
+
+    const command = getCommand(definitions, nameParts.join(':'), relativePath);
+    command.description = literalValue(content.match(/static\s+(?:summary|description)\s*=\s*('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`[^`]*`)/)?.[1]);
+
+    for (const match of content.matchAll(/(['"]?)([\w-]+)\1\s*:\s*(Flags|flags|Args|args)\.\w+\(/g)) {
+        const { args } = readArguments(content, (match.index ?? 0) + match[0].length - 1);
+        const settings = args[0] || '';
+        if (match[3].toLowerCase() === 'args') {
+            command.arguments.push(propertyValue(settings, ['required']) === 'true' ? `<${match[2]}>` : `[${match[2]}]`);
+            continue;
+        }
+        command.options.push({
+            flags: formatFlags(match[2], propertyValue(settings, ['char'])),
+            description: propertyValue(settings, ['summary', 'description']),
+            defaultValue: propertyValue(settings, ['default']),
+            required: propertyValue(settings, ['required']) === 'true'
+        });
+    }
+}
+
+/**
+ * Read clipanion command classes (static paths, Command.Usage and Option.* fields)
+ */
+function parseClipanion(content: string, relativePath: string, definitions: CliDefinitions): void {
+    for (const classMatch of content.matchAll(/class\s+\w+\s+extends\s+Command\b[^{]*\{/g)) {
+        const open = (classMatch.index ?? 0) + classMatch[0].length - 1;
+        const body = content.substring(open, findClosing(content, open) + 1);
+
+        const paths = body.match(/static\s+paths\s*=\s*\[\s*\[([^\]]*)\]/);
+        const name = paths && !/Command\.Default/.test(paths[1])
+            ? Array.from(paths[1].matchAll(/['"]([^'"]+)['"]/g), m => m[1]).join(' ')
+            : '';
+        const command = getCommand(definitions, name, relativePath);
+
+        const usage = body.match(/static\s+usage\s*=\s*Command\.Usage\(/);
+        if (usage) {
+            const { args } = readArguments(body, (usage.index ?? 0) + usage[0].length - 1);
+            command.description = propertyValue(args[0] || '', ['description']);
+        }
+
+        for (const option of body.matchAll(/([\w$]+)\s*=\s*Option\.(\w+)\(/g)) {
+            const { args } = readArguments(body, (option.index ?? 0) + option[0].length - 1);
+            const flags = literalValue(args[0]);
+            const settings = args.find(a => a.startsWith('{')) || '';
+            if (flags && flags.startsWith('-')) {
+                command.options.push({
+                    flags: flags.split(',').map(f => f.trim()).join(', '),
+                    description: propertyValue(settings, ['description']),
+                    defaultValue: args[1] && !args[1].startsWith('{') ? literalValue(args[1]) : undefined,
+                    required: propertyValue(settings, ['required']) === 'true'
+                });
+            } else if (option[2] === 'String' && flags === undefined) {
+                // Option.String() without flags is a positional argument
+                command.arguments.push(propertyValue(settings, ['required']) === 'false' ? `[${option[1]}]` : `<${option[1]}>`);
+            }
+        }
+    }
+}
+
+// ============================================================================
+// PYTHON: ARGPARSE AND CLICK
+// ============================================================================
+
+/**
+ * Drop # comments, so quotes in them don't confuse the bracket matching
+ */
+function stripPythonComments(content: string): string {
+    return content.split('\n').map(line => {
+        let quote = '';
+        for (let i = 0; i < line.length; i++) {
+            const char = line[i];
+            if (quote) {
+                if (char === '\\') {
+                    i++;
+                } else if (char === quote) {
+                    quote = '';
+                }
+            } else if (char === '"' || char === '\'') {
+                quote = char;
+            } else if (char === '#') {
+                return line.substring(0, i);
+            }
+        }
+        return line;
+    }).join('\n');
+}
+
+/**
+ * Read argparse parsers, sub-parsers and add_argument calls
+ */
+function parseArgparse(content: string, relativePath: string, definitions: CliDefinitions): void {
+    const root = getCommand(definitions, '', relativePath);
+    const parsers = new Map<string, CliCommand>();
+
+    for (const match of content.matchAll(/(?:(\w+)\s*=\s*)?(?:argparse\.)?ArgumentParser\(/g)) {
+        const { args } = readArguments(content, (match.index ?? 0) + match[0].length - 1);
+        const { keywords } = splitPythonArguments(args);
+        root.description = root.description || propertyValue(keywords, ['description']);
+        definitions.programName = propertyValue(keywords, ['prog']) || definitions.programName;
+        if (match[1]) {
+            parsers.set(match[1], root);
+        }
+    }
+
+    for (const match of content.matchAll(/(?:(\w+)\s*=\s*)?\w+\.add_parser\(/g)) {
+        const { args } = readArguments(content, (match.index ?? 0) + match[0].length - 1);
+        const { positional, keywords } = splitPythonArguments(args);
+        if (!positional[0]) {
+            continue;
+        }
+        const command = getCommand(definitions, positional[0], relativePath);
+        command.description = propertyValue(keywords, ['help', 'description']);
+        if (match[1]) {
+            parsers.set(match[1], command);
+        }
+    }
+
+    for (const match of content.matchAll(/(\w+)\.add_argument\(/g)) {
+        const command = parsers.get(match[1]) || root;
+        const { args } = readArguments(content, (match.index ?? 0) + match[0].length - 1);
+        const { positional: names, keywords } = splitPythonArguments(args);
+        if (names.length === 0) {
+            continue;
+        }
+
+        if (!names[0].startsWith('-')) {
+            command.arguments.push(/nargs\s*=\s*['"][?*]['"]/.test(keywords) ? `[${names[0]}]` : `<${names[0]}>`);
+            continue;
+        }
+        command.options.push({
+            flags: names.join(', '),
+            description: propertyValue(keywords, ['help']),
+            defaultValue: propertyValue(keywords, ['default']),
+            required: propertyValue(keywords, ['required']) === 'True'
+        });
+    }
+}
+
+/**
+ * Read click decorators (@click.group / @x.command, @click.option and @click.argument)
+ * above each function, with the docstring as the description
+ */
+function parseClick(content: string, relativePath: string, definitions: CliDefinitions): void {
+    const decorators = Array.from(content.matchAll(/^[ \t]*@([\w.]+)(\()?/gm), match => ({
+        index: match.index ?? 0,
+        name: match[1],
+        args: match[2] ? readArguments(content, (match.index ?? 0) + match[0].length - 1).args : []
+    }));
+    const functions = Array.from(content.matchAll(/^[ \t]*(?:async\s+)?def\s+(\w+)\s*\([^)]*\)[^:\n]*:[ \t]*(?:\n\s*[rbu]?("""|''')([\s\S]*?)\2)?/gm));
+
+    // A single @click.group / @click.command is the program itself
+    const topLevel = decorators.filter(d => d.name === 'click.group' || d.name === 'click.command');
+
+    functions.forEach((fn, i) => {
+        const start = i > 0 ? (functions[i - 1].index ?? 0) : -1;
+        const own = decorators.filter(d => d.index > start && d.index < (fn.index ?? 0));
+        const definition = own.find(d => /(^|\.)(command|group)$/.test(d.name));
+        if (!definition) {
+            return;
+        }
+
+        const { positional, keywords } = splitPythonArguments(definition.args);
+        const isProgram = topLevel.length === 1 && topLevel[0] === definition;
+        const command = getCommand(definitions, isProgram ? '' : positional[0] || toKebabCase(fn[1]), relativePath);
+        command.description = propertyValue(keywords, ['help', 'short_help']) || fn[3]?.trim().split(/\n/)[0].trim() || undefined;
+
+        for (const decorator of own) {
+            const { positional: names, keywords: settings } = splitPythonArguments(decorator.args);
+            if (names.length === 0) {
+                continue;
+            }
+            if (/(^|\.)argument$/.test(decorator.name)) {
+                command.arguments.push(propertyValue(settings, ['required']) === 'False' ? `[${names[0]}]` : `<${names[0]}>`);
+            } else if (/(^|\.)option$/.test(decorator.name)) {
+                command.options.push({
+                    flags: names.filter(n => n.startsWith('-')).join(', ') || `--${toKebabCase(names[0])}`,
+                    description: propertyValue(settings, ['help']),
+                    defaultValue: propertyValue(settings, ['default']),
+                    required: propertyValue(settings, ['required']) === 'True'
+                });
+            }
+        }
+    });
+}
+
+// ============================================================================
+// GO: COBRA
+// ============================================================================
+
+/**
+ * Read cobra.Command literals and the flags registered on them
+ */
+function parseCobra(content: string, relativePath: string, definitions: CliDefinitions): void {
+    const byVariable = new Map<string, CliCommand>();
+
+    for (const match of content.matchAll(/(\w+)\s*(?::=|=)\s*&cobra\.Command\s*\{/g)) {
+        const open = (match.index ?? 0) + match[0].length - 1;
+        const body = content.substring(open, findClosing(content, open) + 1);
+        const use = literalValue(body.match(/\bUse:\s*("(?:[^"\\]|\\.)*"|`[^`]*`)/)?.[1]) || match[1];
+        const usage = splitUsage(use.replace(/\[flags\]/g, ''));
+
+        // The program is the root command: named so, or the one that is executed
+        const isProgram = /^root/i.test(match[1]) || new RegExp(`\\b${match[1]}\\.Execute(Context)?\\(`).test(content);
+        if (isProgram) {
+            definitions.programName = usage.name;
+        }
+        const command = getCommand(definitions, isProgram ? '' : usage.name, relativePath);
+        command.arguments = usage.args;
+        command.description = literalValue(body.match(/\bShort:\s*("(?:[^"\\]|\\.)*"|`[^`]*`)/)?.[1]);
+        byVariable.set(match[1], command);
+    }
+
+    for (const match of content.matchAll(/(\w+)\.(?:Persistent)?Flags\(\)\.(\w+)\(/g)) {
+        const command = byVariable.get(match[1]);
+        const { args } = readArguments(content, (match.index ?? 0) + match[0].length - 1);
+        const long = literalValue(/Var/.test(match[2]) ? args[1] : args[0]);
+        if (!command || !long || match[2].startsWith('Mark')) {
+            continue;
+        }
+
+        // StringVarP(&target, name, shorthand, default, usage), BoolP(name, shorthand, default, usage), Int(name, default, usage)
+        const rest = /Var/.test(match[2]) ? args.slice(2) : args.slice(1);
+        const [shorthand, defaultValue, usage] = /P$/.test(match[2]) ? rest : [undefined, ...rest];
+        command.options.push({
+            flags: formatFlags(long, literalValue(shorthand) || undefined),
+            description: literalValue(usage),
+            defaultValue: literalValue(defaultValue),
+            required: false
+        });
+    }
+
+    for (const match of content.matchAll(/(\w+)\.(?:Mark(?:Persistent)?FlagRequired|(?:Persistent)?Flags\(\)\.MarkFlagRequired)\(\s*"([^"]+)"/g)) {
+        const option = byVariable.get(match[1])?.options.find(o => o.flags.endsWith(`--${match[2]}`));
+        if (option) {
+            option.required = true;
+        }
+    }
+}
+
+// ============================================================================
+// RUST: CLAP
+// ============================================================================
+
+/**
+ * Read the fields of a clap derive struct (or struct variant) as options and positional arguments
+ */
+function parseClapFields(body: string, command: CliCommand): void {
+    let docs: string[] = [];
+    let attributes = '';
+    for (const line of body.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('///')) {
+            docs.push(trimmed.replace(/^\/\/\/\s?/, ''));
+            continue;
+        }
+        if (trimmed.startsWith('#[')) {
+            attributes += trimmed;
+            continue;
+        }
+
+        const field = trimmed.match(/^(?:pub\s+)?(\w+)\s*:\s*([^,]+),?$/);
+        if (field && !/\b(subcommand|flatten|skip)\b/.test(attributes)) {
+            const type = field[2].trim();
+            const description = docs.join(' ').trim() || undefined;
+            const rawDefault = attributes.match(/default_value(?:_t)?\s*=\s*("(?:[^"\\]|\\.)*"|[\w.:-]+)/)?.[1];
+            if (/\b(short|long)\b/.test(attributes)) {
+                const long = /\blong\b/.test(attributes) ? attributes.match(/\blong\s*=\s*"([^"]+)"/)?.[1] || toKebabCase(field[1]) : undefined;
+                const short = /\bshort\b/.test(attributes) ? attributes.match(/\bshort\s*=\s*'(.)'/)?.[1] || field[1][0] : undefined;
+                command.options.push({
+                    flags: formatFlags(long, short),
+                    description,
+                    defaultValue: rawDefault === undefined ? undefined : literalValue(rawDefault) ?? rawDefault,
+                    required: !/^(Option<|bool\b|Vec<|u8\b)/.test(type) && rawDefault === undefined
+                });
+            } else {
+                const placeholder = field[1].toUpperCase();
+                command.arguments.push(/^(Option<|Vec<)/.test(type) || rawDefault !== undefined ? `[${placeholder}]` : `<${placeholder}>`);
+            }
+        }
+        if (trimmed && !trimmed.startsWith('//')) {
+            docs = [];
+            attributes = '';
+        }
+    }
+}
+
+/**
+ * Read the variants of a clap Subcommand enum as commands.
+ * Tuple variants (`Serve(ServeArgs)`) are mapped to their Args struct.
+ */
+function parseClapSubcommands(body: string, relativePath: string, definitions: CliDefinitions, argsTypes: Map<string, CliCommand>): void {
+    let docs: string[] = [];
+    let attributes = '';
+    let index = 0;
+    while (index < body.length) {
+        const rest = body.substring(index);
+        const doc = rest.match(/^\s*\/\/\/([^\n]*)\n/);
+        if (doc) {
+            docs.push(doc[1].trim());
+            index += doc[0].length;
+            continue;
+        }
+        const attribute = rest.match(/^\s*(#\[[^\n]*\])\s*\n/);
+        if (attribute) {
+            attributes += attribute[1];
+            index += attribute[0].length;
+            continue;
+        }
+        const variant = rest.match(/^\s*(\w+)\s*([{(]?)/);
+        if (!variant) {
+            break;
+        }
+
+        const name = attributes.match(/\bname\s*=\s*"([^"]+)"/)?.[1] || toKebabCase(variant[1]);
+        const command = getCommand(definitions, name, relativePath);
+        command.description = docs.join(' ').trim() || attributes.match(/\babout\s*=\s*"([^"]*)"/)?.[1] || undefined;
+        docs = [];
+        attributes = '';
+        index += variant[0].length;
+
+        if (variant[2]) {
+            const open = index - 1;
+            const end = findClosing(body, open);
+            if (variant[2] === '{') {
+                parseClapFields(body.substring(open + 1, end), command);
+            } else {
+                argsTypes.set(body.substring(open + 1, end).trim(), command);
+            }
+            index = end + 1;
+        }
+        const comma = body.substring(index).match(/^\s*,/);
+        index += comma ? comma[0].length : 0;
+    }
+}
+
+/**
+ * Read clap definitions: derive(Parser/Subcommand/Args) types and the builder API
+ */
+function parseClap(content: string, relativePath: string, definitions: CliDefinitions): void {
+    // Lifetimes ('a, 'static) would read as unclosed char literals
+    const source = content.replace(/'[A-Za-z_]\w*\b(?!')/g, '');
+
+    // Derive API: subcommands first, so their Args structs can be mapped to them
+    const items = Array.from(source.matchAll(/((?:[ \t]*\/\/\/[^\n]*\n)*)[ \t]*#\[derive\(([^)]*)\)\]([\s\S]*?)\b(struct|enum)\s+(\w+)[^{;]*\{/g), match => {
+        const open = (match.index ?? 0) + match[0].length - 1;
+        return {
+            docs: match[1].split('\n').map(l => l.trim().replace(/^\/\/\/\s?/, '')).filter(Boolean).join(' '),
+            derives: match[2],
+            attributes: match[3],
+            kind: match[4],
+            name: match[5],
+            body: source.substring(open + 1, findClosing(source, open))
+        };
+    });
+
+    const argsTypes = new Map<string, CliCommand>();
+    for (const item of items) {
+        if (item.kind === 'enum' && /\bSubcommand\b/.test(item.derives)) {
+            parseClapSubcommands(item.body, relativePath, definitions, argsTypes);
+        }
+    }
+    for (const item of items) {
+        if (item.kind !== 'struct') {
+            continue;
+        }
+        if (/\bParser\b/.test(item.derives)) {
+            const root = getCommand(definitions, '', relativePath);
+            root.description = root.description || item.attributes.match(/\babout\s*=\s*"([^"]*)"/)?.[1] || item.docs || undefined;
+            definitions.programName = item.attributes.match(/\bname\s*=\s*"([^"]*)"/)?.[1] || definitions.programName;
+            parseClapFields(item.body, root);
+        } else if (/\bArgs\b/.test(item.derives) && argsTypes.has(item.name)) {
+            parseClapFields(item.body, argsTypes.get(item.name)!);
+        }
+    }
+
+    // Builder API: the first Command::new is the program, the ones inside .subcommand(...) its commands
+    const subcommands: Array<{ command: CliCommand; end: number }> = [];
+    const positionals = new Map<CliOption, string>();
+    let root: CliCommand | undefined;
+    let current: CliCommand | undefined;
+    let option: CliOption | undefined;
+
+    for (const match of source.matchAll(/(?:\b(?:Command|App)::new|\bArg::(?:new|with_name)|\.(subcommand|about|short|long|help|default_value|required))\s*\(/g)) {
+        const index = match.index ?? 0;
+        while (subcommands.length > 0 && subcommands[subcommands.length - 1].end < index) {
+            subcommands.pop();
+            current = subcommands.length > 0 ? subcommands[subcommands.length - 1].command : root;
+            option = undefined;
+        }
+        const { args, end } = readArguments(source, index + match[0].length - 1);
+        const value = literalValue(args[0]);
+
+        if (/^(Command|App)::/.test(match[0])) {
+            if (!value) {
+                continue;
+            }
+            if (!root) {
+                root = getCommand(definitions, '', relativePath);
+                definitions.programName = value;
+                current = root;
+            } else if (subcommands.length > 0) {
+                current = getCommand(definitions, value, relativePath);
+                subcommands[subcommands.length - 1].command = current;
+            }
+            option = undefined;
+            continue;
+        }
+
+        if (match[0].startsWith('Arg::')) {
+            option = undefined;
+            if (current && value) {
+                option = { flags: '', required: false };
+                positionals.set(option, value);
+                current.options.push(option);
+            }
+            continue;
+        }
+
+        switch (match[1]) {
+            case 'subcommand':
+                if (current) {
+                    subcommands.push({ command: current, end });
+                }
+                break;
+            case 'about':
+                if (current && !option && value) {
+                    current.description = value;
+                }
+                break;
+            case 'short':
+            case 'long':
+                if (option && value) {
+                    const short = match[1] === 'short' ? value : option.flags.match(/^-(\w)\b/)?.[1];
+                    const long = match[1] === 'long' ? value : option.flags.match(/--([\w-]+)/)?.[1];
+                    option.flags = formatFlags(long, short);
+                }
+                break;
+            case 'help':
+                if (option) {
+                    option.description = value;
+                }
+                break;
+            case 'default_value':
+                if (option) {
+                    option.defaultValue = value;
+                }
+                break;
+            case 'required':
+                if (option) {
+                    option.required = value === 'true';
+                }
+                break;
+        }
+    }
+
+    // Builder args without -/-- flags are positional
+    for (const command of definitions.commands) {
+        command.options = command.options.filter(o => {
+            const name = positionals.get(o);
+            if (name !== undefined && !o.flags) {
+                command.arguments.push(o.required ? `<${name.toUpperCase()}>` : `[${name.toUpperCase()}]`);
+                return false;
+            }
+            return true;
+        });
+    }
+}
+
+// ============================================================================
+// COLLECTION AND RENDERING
+// ============================================================================
+
+/**
+ * Name the CLI is run with: package.json bin, the name set in code, or the folder name
+ */
+function getBinName(packageJson: any, definitions: CliDefinitions, fallback: string): string {
+    const bin = packageJson?.bin;
+    if (typeof bin === 'object' && bin !== null && Object.keys(bin).length > 0) {
+        return Object.keys(bin)[0];
+    }
+    if (typeof bin === 'string' && packageJson?.name) {
+        return String(packageJson.name).replace(/^@[^/]+\//, '');
+    }
+    return definitions.programName || fallback;
+}
+
+/**
+ * Extract the commands and options of a CLI project, or undefined if none are defined
+ */
+export async function collectCliUsage(rootPath: string, files: ProjectFile[], packageJson?: any): Promise<CliUsage | undefined> {
+    const extensions = new Set(FRAMEWORK_MARKERS.flatMap(m => m.extensions));
+    const candidates = files
+        .filter(f => !f.isDirectory && extensions.has(f.extension) && !/\.(test|spec|d)\.\w+$|^test_/.test(f.name))
+        .slice(0, MAX_FILES_TO_READ);
+
+    const definitions: CliDefinitions = { commands: [] };
+    const fileCounts = new Map<CliFramework, number>();
+
+    for (const file of candidates) {
+        let content: string;
+        try {
+            const stat = await fs.promises.stat(file.path);
+            if (stat.size > MAX_FILE_SIZE_BYTES) {
+                continue;
+            }
+            content = await fs.promises.readFile(file.path, 'utf-8');
+        } catch (e) {
+            // Skip unreadable files
+            continue;
+        }
+
+        const marker = FRAMEWORK_MARKERS.find(m => m.extensions.includes(file.extension) && m.pattern.test(content));
+        if (!marker) {
+            continue;
+        }
+
+        const relativePath = file.relativePath.replace(/\\/g, '/');
+        switch (marker.framework) {
+            case 'commander':
+            case 'yargs':
+                parseCommanderOrYargs(content, relativePath, marker.framework, definitions);
+                break;
+            case 'oclif':
+                parseOclif(content, relativePath, definitions);
+                break;
+            case 'clipanion':
+                parseClipanion(content, relativePath, definitions);
+                break;
+            case 'argparse':
+                parseArgparse(stripPythonComments(content), relativePath, definitions);
+                break;
+            case 'click':
+                parseClick(stripPythonComments(content), relativePath, definitions);
+                break;
+            case 'cobra':
+                parseCobra(content, relativePath, definitions);
+                break;
+            case 'clap':
+                parseClap(content, relativePath, definitions);
+                break;
+        }
+        fileCounts.set(marker.framework, (fileCounts.get(marker.framework) || 0) + 1);
+    }
+
+    // A program entry without description, options or arguments says nothing
+    const commands = definitions.commands.filter(c => c.name || c.description || c.options.length > 0 || c.arguments.length > 0);
+    if (commands.length === 0) {
+        return undefined;
+    }
+
+    return {
+        framework: Array.from(fileCounts.entries()).sort((a, b) => b[1] - a[1])[0][0],
+        binName: getBinName(packageJson, definitions, path.basename(rootPath)),
+        commands: commands.sort((a, b) => (a.name === '' ? -1 : b.name === '' ? 1 : a.name.localeCompare(b.name)))
+    };
+}
+
+/**
+ * Escape a value for a Markdown table cell
+ */
+function tableCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Render the commands and their options as Markdown tables for the Usage section
+ */
+export function getCliUsageTable(usage: CliUsage): string {
+    const blocks: string[] = [];
+
+    const subcommands = usage.commands.filter(c => c.name);
+    if (subcommands.length > 0) {
+        const rows = subcommands.map(c => `| \`${tableCell([usage.binName, c.name, ...c.arguments].join(' '))}\` | ${tableCell(c.description || '')} |`);
+        blocks.push([
+            '| Command | Description |',
+            '|---------|-------------|',
+            ...rows
+        ].join('\n'));
+    }
+
+    const options = usage.commands.flatMap(c => c.options.map(o => ({ command: c, option: o })));
+    if (options.length > 0) {
+        const rows = options.map(({ command, option }) => `| \`${tableCell(option.flags)}\`${option.required ? ' (required)' : ''} | ${command.name ? `\`${tableCell(command.name)}\`` : 'All'} | ${tableCell(option.description || '')} | ${option.defaultValue !== undefined ? `\`${tableCell(option.defaultValue) || '""'}\`` : '-'} |`);
+        blocks.push([
+            '| Option | Command | Description | Default |',
+            '|--------|---------|-------------|---------|',
+            ...rows
+        ].join('\n'));
+    }
+
+    return blocks.join('\n\n');
+}
+
+/**
+ * Format the CLI definitions for the AI prompt: how it is run, where it is defined and the tables
+ */
+export function getCliUsageSummary(usage: CliUsage | undefined): string {
+    if (!usage) {
+        return '';
+    }
+
+    const program = usage.commands.find(c => !c.name);
+    const files = Array.from(new Set(usage.commands.map(c => c.relativePath)));
+    const lines = [
+        `Run as: ${[usage.binName, ...(program?.arguments || [])].join(' ')}`,
+        `Defined with ${usage.framework} in ${files.slice(0, 5).join(', ')}${files.length > 5 ? ` and ${files.length - 5} more files` : ''}`
+    ];
+    if (program?.description) {
+        lines.push(`Program description: ${program.description}`);
+    }
+
+    return `${lines.join('\n')}\n\n${getCliUsageTable(usage)}`;
+}
+
+/**
+ * Check a README command line that runs the CLI (without the binary name) against
+ * the definitions. Returns why it can't be verified, or undefined if it can.
+ */
+export function checkCliInvocation(usage: CliUsage, args: string[]): string | undefined {
+    const program = usage.commands.find(c => !c.name);
+    const subcommands = usage.commands.filter(c => c.name);
+
+    // Longest command name the line starts with ("remote add" before "remote"; oclif uses "remote:add")
+    const command = subcommands
+        .filter(c => args[0] === c.name || c.name.split(/[\s:]+/).every((word, i) => args[i] === word))
+        .sort((a, b) => b.name.length - a.name.length)[0];
+
+    // Only a plain word right after the binary can be a command; options may come first and take values
+    const first = args[0];
+    if (!command && first && /^[a-z][\w:-]*$/.test(first) && subcommands.length > 0
+        && !program?.arguments.length && !['help', 'version'].includes(first)) {
+        return `"${usage.binName}" has no "${first}" command`;
+    }
+
+    // Options of the command and the program's global ones; help and version are built in.
+    // With none read at all there is nothing to compare against.
+    const options = [...(program?.options || []), ...(command?.options || [])];
+    if (options.length === 0) {
+        return undefined;
+    }
+    const known = new Set(['--help', '-h', '--version', '-V', '-v']);
+    for (const option of options) {
+        for (const flag of option.flags.split(/[\s,|]+/)) {
+            const name = flag.match(/^(-{1,2}[\w-]+)/)?.[1];
+            if (name) {
+                known.add(name);
+                // commander and yargs accept the negated form of a boolean
+                known.add(name.replace(/^--(no-)?/, '--no-'));
+            }
+        }
+    }
+
+    const unknown = args.map(arg => arg.split('=')[0]).find(arg => /^(--[A-Za-z][\w-]*|-[A-Za-z])$/.test(arg) && !known.has(arg));
+    if (unknown) {
+        return `"${unknown}" is not an option of ${command ? `"${usage.binName} ${command.name}"` : `"${usage.binName}"`}`;
+    }
+    return undefined;
+}
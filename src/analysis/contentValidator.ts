@@ -0,0 +1,346 @@
+/**
+ * Content Validator
+ * Checks a generated README for claims the project scan can't back up: file
+ * paths, folders, npm scripts, environment variables, packages and shell
+ * commands. Models invent `client/` and `server/` folders no matter how often
+ * the prompt says not to, so the result is checked after generation instead.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { builtinModules } from 'module';
+import { ProjectInfo } from './workspaceScanner';
+import { DetectionResult } from './languageDetector';
+import { lintReadme, splitReadmeLines, ReadmeLine } from './readmeLinter';
+import { STANDARD_ENV_VARS } from './envVarCollector';
+import { checkCliInvocation } from './cliExtractor';
+
+export type ClaimKind = 'file' | 'directory' | 'script' | 'envVar' | 'package' | 'command';
+
+export interface UnverifiedClaim {
+    kind: ClaimKind;
+    // The path, name or command as written in the README
+    value: string;
+    // Why it couldn't be verified
+    reason: string;
+    // 1-based line in the README
+    line: number;
+    // Header of the section it appears in
+    section?: string;
+}
+
+const INLINE_CODE_PATTERN = /(`+)([^`]+?)\1/g;
+
+// Code block languages whose lines are shell commands
+const SHELL_LANGUAGES = new Set(['', 'bash', 'sh', 'shell', 'zsh', 'console', 'terminal', 'powershell', 'ps1', 'cmd', 'bat']);
+
+// Code block languages whose imports name packages
+const SCRIPT_LANGUAGES = new Set(['js', 'javascript', 'jsx', 'ts', 'typescript', 'tsx', 'mjs', 'cjs']);
+
+// File extensions that make a single token a file path claim
+const FILE_EXTENSIONS = /\.(js|jsx|ts|tsx|mjs|cjs|json|jsonc|md|mdx|yml|yaml|toml|ini|cfg|py|go|rs|java|kt|rb|php|cs|swift|dart|sh|ps1|bat|html|css|scss|vue|svelte|sql|prisma|graphql|txt|xml|gradle|lock)$/i;
+
+// First folders of nested paths that are claims even without a trailing slash (src/components)
+const SOURCE_FOLDERS = /^(src|lib|app|apps|packages|test|tests|__tests__|spec|docs|scripts|config|public|static|assets|server|client|api|components|pages|bin|cmd|internal|pkg|examples)\//;
+
+// Files the user creates themselves or that are generated on install
+const USER_CREATED_FILES = /^(\.env(\.local|\.development|\.production|\.test)?|package-lock\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb?)$/;
+
+const ENV_ASSIGNMENT_PATTERN = /^\s*(?:export\s+|set\s+|\$env:)?([A-Z][A-Z0-9_]*[A-Z0-9])\s*=/;
+const ENV_REFERENCE_PATTERN = /(?:process\.env\.|import\.meta\.env\.|os\.environ\[\s*['"]|os\.getenv\(\s*['"]|\$\{?)([A-Z][A-Z0-9_]*_[A-Z0-9_]+)/g;
+const ENV_NAME_PATTERN = /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+$/;
+const IMPORT_PATTERN = /(?:\bfrom\s+|\brequire\(\s*|\bimport\s+|\bimport\(\s*)['"]([^'"]+)['"]/g;
+
+// Limits for reading project files when looking up environment variables
+const MAX_FILES_TO_SEARCH = 400;
+const MAX_FILE_SIZE = 256 * 1024;
+
+/**
+ * Find the claims in a generated README that the project doesn't back up
+ */
+export async function validateGeneratedContent(
+    markdown: string,
+    projectInfo: ProjectInfo,
+    detection: DetectionResult
+): Promise<UnverifiedClaim[]> {
+    const files = new Set(projectInfo.files.filter(f => !f.isDirectory).map(f => normalizePath(f.relativePath)));
+    const directories = new Set(projectInfo.files.filter(f => f.isDirectory).map(f => normalizePath(f.relativePath)));
+    const fileNames = new Set(projectInfo.files.filter(f => !f.isDirectory).map(f => f.name));
+
+    // Ignored folders (dist, coverage, ...) aren't in the scan, so fall back to the disk
+    const pathExists = (relativePath: string): boolean => {
+        const normalized = normalizePath(relativePath);
+        return files.has(normalized)
+            || directories.has(normalized)
+            || fs.existsSync(path.join(projectInfo.rootPath, normalized));
+    };
+
+    // A bare file name ("index.ts") may refer to a file in any folder
+    const isPathLike = (token: string) => token.includes('/') || FILE_EXTENSIONS.test(token) || /^\.env\.\w+$/.test(token);
+
+    const pkg = projectInfo.packageJson;
+    const packages = new Set<string>([
+        ...Object.keys({ ...pkg?.dependencies, ...pkg?.devDependencies, ...pkg?.peerDependencies, ...pkg?.optionalDependencies }),
+        ...(pkg?.name ? [pkg.name] : [])
+    ]);
+
+    const lines = splitReadmeLines(markdown);
+    const claims: UnverifiedClaim[] = [];
+    const envVars = new Map<string, ReadmeLine>();
+
+    const add = (kind: ClaimKind, value: string, reason: string, line: ReadmeLine) => {
+        if (!claims.some(c => c.kind === kind && c.value === value)) {
+            claims.push({ kind, value, reason, line: line.index + 1, section: line.sectionName });
+        }
+    };
+
+    // Scripts and Project Structure folders are checked like the README linter does
+    for (const issue of lintReadme(markdown, projectInfo, detection, pathExists)) {
+        const line = lines[issue.range.startLine];
+        if (issue.code === 'unknown-script') {
+            add('script', issue.subject, issue.message, line);
+        } else if (issue.code === 'missing-directory') {
+            add('directory', issue.subject, issue.message, line);
+        }
+    }
+
+    const checkPath = (token: string, line: ReadmeLine) => {
+        const claimed = token.replace(/^\.\//, '').replace(/[,;:]+$/, '');
+        if (!claimed || claimed === '.' || claimed.startsWith('..') || claimed.startsWith('~') || /[<>{}*$]/.test(claimed)) {
+            return;
+        }
+        if (USER_CREATED_FILES.test(path.posix.basename(claimed)) || pathExists(claimed)) {
+            return;
+        }
+        if (!claimed.includes('/') && fileNames.has(claimed)) {
+            return;
+        }
+        const isDirectory = claimed.endsWith('/') || !/\.[\w-]+$/.test(path.posix.basename(claimed));
+        add(isDirectory ? 'directory' : 'file', claimed, `${isDirectory ? 'Folder' : 'File'} not found in the project`, line);
+    };
+
+    const checkPackage = (name: string, line: ReadmeLine, how: string) => {
+        if (!pkg || !name || name.startsWith('node:') || builtinModules.includes(name)) {
+            return;
+        }
+        // Subpath imports: "lodash/merge" -> "lodash", "@scope/pkg/sub" -> "@scope/pkg"
+        const packageName = name.startsWith('@')
+            ? name.split('/').slice(0, 2).join('/')
+            : name.split('/')[0];
+        if (!packages.has(packageName)) {
+            add('package', packageName, `${how}, but it isn't a dependency in package.json`, line);
+        }
+    };
+
+    const cliUsage = projectInfo.cliUsage;
+    let cloned = false;
+    for (const line of lines) {
+        if (line.templateSectionId === 'structure' && line.inCodeBlock) {
+            continue;
+        }
+
+        // Inline code outside code blocks: `src/utils/`, `config.json`, `DATABASE_URL`
+        if (!line.inCodeBlock) {
+            for (const match of line.text.matchAll(INLINE_CODE_PATTERN)) {
+                const code = match[2].trim();
+                if (/\s|:\/\//.test(code) || code.startsWith('@') || code.startsWith('-')) {
+                    continue;
+                }
+                if (ENV_NAME_PATTERN.test(code) && (line.templateSectionId === 'envvars' || line.templateSectionId === 'configuration')) {
+                    envVars.set(code, envVars.get(code) || line);
+                } else if (FILE_EXTENSIONS.test(code) && !/^\d/.test(code) || /^[\w./-]+\/$/.test(code) || SOURCE_FOLDERS.test(code.replace(/^\.\//, ''))) {
+                    checkPath(code, line);
+                }
+            }
+        }
+
+        for (const match of line.text.matchAll(ENV_REFERENCE_PATTERN)) {
+            envVars.set(match[1], envVars.get(match[1]) || line);
+        }
+
+        if (!line.inCodeBlock) {
+            continue;
+        }
+
+        const language = line.codeLanguage || '';
+
+        // .env examples and "export FOO=bar"
+        const assignment = line.text.match(ENV_ASSIGNMENT_PATTERN);
+        if (assignment && (language === 'env' || language === 'dotenv' || SHELL_LANGUAGES.has(language))) {
+            envVars.set(assignment[1], envVars.get(assignment[1]) || line);
+        }
+
+        if (SCRIPT_LANGUAGES.has(language)) {
+            for (const match of line.text.matchAll(IMPORT_PATTERN)) {
+                if (!match[1].startsWith('.') && !match[1].startsWith('/')) {
+                    checkPackage(match[1], line, `Imported from "${match[1]}"`);
+                }
+            }
+            continue;
+        }
+
+        if (!SHELL_LANGUAGES.has(language)) {
+            continue;
+        }
+
+        const tokens = line.text.replace(/^\s*(\$|>|PS>)\s+/, '').replace(/\s+#.*$/, '').trim().split(/\s+/);
+        const [command, ...args] = tokens;
+        const operands = args.filter(arg => !arg.startsWith('-'));
+
+        switch (command) {
+            case 'git':
+                cloned = cloned || args[0] === 'clone';
+                break;
+            case 'cd':
+                // The first "cd" after "git clone" enters the cloned folder
+                if (cloned) {
+                    cloned = false;
+                } else if (operands[0]) {
+                    checkPath(operands[0].replace(/\/?$/, '/'), line);
+                }
+                break;
+            case 'node':
+            case 'python':
+            case 'python3':
+            case 'ts-node':
+            case 'tsx':
+            case 'bash':
+            case 'sh':
+            case 'source':
+            case 'cat':
+            case 'cp':
+                if (operands[0] && isPathLike(operands[0])) {
+                    checkPath(operands[0], line);
+                }
+                break;
+            case 'make':
+                if (!pathExists('Makefile')) {
+                    add('command', line.text.trim(), 'There is no Makefile in the project', line);
+                } else if (operands[0] && !readFileSafe(path.join(projectInfo.rootPath, 'Makefile')).match(new RegExp(`^${escapeRegExp(operands[0])}\\s*:`, 'm'))) {
+                    add('command', line.text.trim(), `The Makefile has no "${operands[0]}" target`, line);
+                }
+                break;
+            case 'docker':
+            case 'docker-compose':
+                if ((command === 'docker-compose' || operands[0] === 'compose')
+                    && !['docker-compose.yml', 'docker-compose.yaml', 'compose.yml', 'compose.yaml'].some(pathExists)) {
+                    add('command', line.text.trim(), 'There is no Docker Compose file in the project', line);
+                } else if (operands[0] === 'build' && !args.includes('-f') && !pathExists('Dockerfile')) {
+                    add('command', line.text.trim(), 'There is no Dockerfile in the project', line);
+                }
+                break;
+            case 'npm':
+            case 'pnpm':
+            case 'yarn':
+            case 'bun':
+                // Package installs: global tools are fine, project packages must be dependencies
+                if (['install', 'i', 'add'].includes(operands[0]) && !args.some(arg => arg === '-g' || arg === '--global') && args[0] !== 'global') {
+                    for (const name of operands.slice(1)) {
+                        checkPackage(name.replace(/(.)@[^/]*$/, '$1'), line, `Installed with "${command} ${operands[0]}"`);
+                    }
+                }
+                break;
+            case 'npx': {
+                // npx runs a dependency's binary; "create-*" starters are downloaded on the fly
+                const bin = operands[0]?.replace(/(.)@[^/]*$/, '$1');
+                if (pkg && bin && !bin.startsWith('create-') && !packages.has(bin)
+                    && !(bin === 'tsc' && packages.has('typescript'))
+                    && !fs.existsSync(path.join(projectInfo.rootPath, 'node_modules', '.bin', bin))) {
+                    add('command', line.text.trim(), `"${bin}" is not a dependency in package.json`, line);
+                }
+                break;
+            }
+            default:
+                if (command && command.startsWith('./')) {
+                    checkPath(command, line);
+                } else if (cliUsage && command === cliUsage.binName) {
+                    // The project's own CLI: commands and options must be defined in the code
+                    const reason = checkCliInvocation(cliUsage, args);
+                    if (reason) {
+                        add('command', line.text.trim(), reason, line);
+                    }
+                }
+        }
+    }
+
+    // Environment variables have to appear somewhere in the project's files
+    const collected = new Set((projectInfo.envVars || []).map(v => v.name));
+    const unverified = Array.from(envVars.keys()).filter(name => !STANDARD_ENV_VARS.has(name) && !collected.has(name));
+    if (unverified.length > 0) {
+        const found = await findNamesInProject(projectInfo, unverified);
+        for (const name of unverified) {
+            if (!found.has(name)) {
+                add('envVar', name, 'Not used anywhere in the project\'s source or config files', envVars.get(name)!);
+            }
+        }
+    }
+
+    return claims.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Build a refinement instruction that removes or corrects only the unverified claims
+ */
+export function buildRepairInstruction(claims: UnverifiedClaim[]): string {
+    return [
+        'The README mentions things that do not exist in this project. Fix ONLY these references:',
+        ...claims.map(c => `- \`${c.value}\` (line ${c.line}${c.section ? `, "${c.section}" section` : ''}): ${c.reason}`),
+        '',
+        'Remove each reference, or replace it with what the project actually has (real files, real package.json scripts, real dependencies).',
+        'Do not invent replacements. Leave every other part of the README exactly as it is.'
+    ].join('\n');
+}
+
+function normalizePath(relativePath: string): string {
+    return relativePath.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function readFileSafe(filePath: string): string {
+    try {
+        return fs.readFileSync(filePath, 'utf-8');
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Look for names in the project's source files, config files and env templates
+ */
+async function findNamesInProject(projectInfo: ProjectInfo, names: string[]): Promise<Set<string>> {
+    const found = new Set<string>();
+    const candidates = [
+        ...projectInfo.files
+            .filter(f => !f.isDirectory && /^\.env\.(example|sample|template|defaults)$/i.test(f.name))
+            .map(f => f.relativePath),
+        ...projectInfo.configFiles,
+        ...projectInfo.sourceFiles
+    ];
+
+    for (const relativePath of candidates.slice(0, MAX_FILES_TO_SEARCH)) {
+        const filePath = path.join(projectInfo.rootPath, relativePath);
+        try {
+            const stat = await fs.promises.stat(filePath);
+            if (stat.size > MAX_FILE_SIZE) {
+                continue;
+            }
+            const content = await fs.promises.readFile(filePath, 'utf-8');
+            for (const name of names) {
+                if (!found.has(name) && content.includes(name)) {
+                    found.add(name);
+                }
+            }
+        } catch {
+            // Skip files that can't be read
+        }
+
+        if (found.size === names.length) {
+            break;
+        }
+    }
+
+    return found;
+}
@@ -0,0 +1,93 @@
+/**
+ * Dart Manifest Parser
+ * Reads pubspec.yaml into the common manifest model. Flutter apps are told
+ * apart from plain Dart packages by their flutter SDK dependency.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { ProjectFile } from './workspaceScanner';
+import { ProjectManifest, ManifestDependency, ManifestEntryPoint } from './manifest';
+
+/**
+ * A mapping of the parsed document, or an empty object
+ */
+function mapping(value: unknown): Record<string, any> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : {};
+}
+
+/**
+ * A non-empty scalar, or undefined
+ */
+function text(value: unknown): string | undefined {
+    return typeof value === 'string' ? value.trim() || undefined : undefined;
+}
+
+/**
+ * Parse a pubspec dependency map: `name: ^1.0`, `name: { version: ^1.0 }`, `name: { sdk: flutter }`, ...
+ */
+function parseDependencies(value: unknown, dev: boolean): ManifestDependency[] {
+    return Object.entries(mapping(value)).map(([name, spec]) => {
+        const settings = mapping(spec);
+        // SDK, git and path dependencies have no version; name where they come from instead
+        const source = settings.sdk ? 'sdk' : settings.git ? 'git' : settings.path ? 'path' : undefined;
+        return { name, version: text(spec) || text(settings.version), dev, group: source };
+    });
+}
+
+/**
+ * Read pubspec.yaml at the project root, or undefined if there is none
+ */
+export async function collectDartManifest(rootPath: string, files: ProjectFile[]): Promise<ProjectManifest | undefined> {
+    const relativePaths = new Set(files.filter(f => !f.isDirectory).map(f => f.relativePath.replace(/\\/g, '/')));
+    if (!relativePaths.has('pubspec.yaml')) {
+        return undefined;
+    }
+
+    let pubspec: Record<string, any>;
+    try {
+        // Every scalar as written, so versions like 2.0 don't turn into the number 2
+        pubspec = mapping(parseYaml(await fs.promises.readFile(path.join(rootPath, 'pubspec.yaml'), 'utf-8'), { schema: 'failsafe' }));
+    } catch (e) {
+        // Unreadable or invalid pubspec.yaml
+        return undefined;
+    }
+
+    const dependencies = [
+        ...parseDependencies(pubspec.dependencies, false),
+        ...parseDependencies(pubspec.dev_dependencies, true)
+    ];
+    const isFlutter = dependencies.some(d => d.name === 'flutter' && d.group === 'sdk');
+
+    // `executables: { tool: main }` runs bin/main.dart as `tool`; a null value means bin/tool.dart
+    const entryPoints: ManifestEntryPoint[] = Object.entries(mapping(pubspec.executables))
+        .map(([name, script]) => ({ name, target: `bin/${text(script) || name}.dart` }));
+    if (entryPoints.length === 0) {
+        for (const file of Array.from(relativePaths).sort()) {
+            const match = file.match(/^bin\/([\w-]+)\.dart$/);
+            if (match) {
+                entryPoints.push({ name: match[1], target: file });
+            }
+        }
+    }
+
+    const environment = mapping(pubspec.environment);
+    const workspace = Array.isArray(pubspec.workspace) ? pubspec.workspace.filter((m: unknown): m is string => typeof m === 'string') : [];
+
+    return {
+        ecosystem: 'dart',
+        sources: ['pubspec.yaml'],
+        name: text(pubspec.name),
+        version: text(pubspec.version),
+        description: text(pubspec.description),
+        runtimeVersion: text(environment.sdk),
+        dependencies,
+        entryPoints,
+        scripts: {},
+        packageManager: isFlutter ? 'flutter' : 'dart',
+        workspaceMembers: workspace,
+        // Published packages without an app entry point or commands
+        library: text(pubspec.publish_to) !== 'none' && !relativePaths.has('lib/main.dart') && entryPoints.length === 0
+    };
+}
@@ -0,0 +1,175 @@
+/**
+ * .NET Manifest Parser
+ * Reads a solution (.sln) and its SDK-style project files (.csproj, .fsproj,
+ * .vbproj) into the common manifest model. Properties set in
+ * Directory.Build.props or computed by MSBuild are not resolved.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { ProjectFile } from './workspaceScanner';
+import { ProjectManifest, ManifestDependency, ManifestEntryPoint } from './manifest';
+
+const PROJECT_FILE = /\.(cs|fs|vb)proj$/;
+
+// Packages that make a project a test project
+const TEST_PACKAGES = /^(Microsoft\.NET\.Test\.Sdk|xunit|NUnit|MSTest\.TestFramework)$/i;
+
+interface DotnetProject {
+    relativePath: string;
+    assemblyName: string;
+    version?: string;
+    description?: string;
+    license?: string;
+    targetFramework?: string;
+    dependencies: ManifestDependency[];
+    // Builds something that runs (console app, web app, worker)
+    isApplication: boolean;
+    isTest: boolean;
+}
+
+/**
+ * Read a file relative to the project root, or undefined if it isn't there
+ */
+async function readText(rootPath: string, relativePath: string): Promise<string | undefined> {
+    try {
+        return await fs.promises.readFile(path.join(rootPath, relativePath), 'utf-8');
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Text of the first <tag> element, or undefined
+ */
+function xmlValue(xml: string, tag: string): string | undefined {
+    const value = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>\\s*([^<]*?)\\s*</${tag}>`))?.[1];
+    return value || undefined;
+}
+
+/**
+ * Value of an attribute in an element's attribute list
+ */
+function xmlAttribute(attributes: string, name: string): string | undefined {
+    return attributes.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`))?.[1];
+}
+
+/**
+ * Read an SDK-style project file
+ */
+function parseProject(content: string, relativePath: string): DotnetProject {
+    const xml = content.replace(/<!--[\s\S]*?-->/g, '');
+    const sdk = xml.match(/<Project\s[^>]*\bSdk\s*=\s*"([^"]+)"/)?.[1] || '';
+    const outputType = xmlValue(xml, 'OutputType')?.toLowerCase();
+
+    const dependencies: ManifestDependency[] = [];
+    for (const match of xml.matchAll(/<PackageReference\b([^>]*?)(?:\/>|>([\s\S]*?)<\/PackageReference>)/g)) {
+        const name = xmlAttribute(match[1], 'Include');
+        if (name) {
+            dependencies.push({ name, version: xmlAttribute(match[1], 'Version') || xmlValue(match[2] || '', 'Version'), dev: false });
+        }
+    }
+    // Web projects get ASP.NET Core from the SDK instead of a package
+    const usesAspNetCore = /\bMicrosoft\.NET\.Sdk\.Web\b/.test(sdk) || /<FrameworkReference\s+Include\s*=\s*"Microsoft\.AspNetCore\.App"/.test(xml);
+    if (usesAspNetCore) {
+        dependencies.push({ name: 'Microsoft.AspNetCore.App', dev: false, group: 'framework' });
+    }
+
+    const isTest = xmlValue(xml, 'IsTestProject')?.toLowerCase() === 'true' || dependencies.some(d => TEST_PACKAGES.test(d.name));
+    if (isTest) {
+        dependencies.forEach(d => d.dev = true);
+    }
+
+    return {
+        relativePath,
+        assemblyName: xmlValue(xml, 'AssemblyName') || xmlValue(xml, 'PackageId') || path.basename(relativePath).replace(PROJECT_FILE, ''),
+        version: xmlValue(xml, 'Version') || xmlValue(xml, 'VersionPrefix'),
+        description: xmlValue(xml, 'Description'),
+        license: xmlValue(xml, 'PackageLicenseExpression'),
+        targetFramework: (xmlValue(xml, 'TargetFramework') || xmlValue(xml, 'TargetFrameworks'))?.split(';')[0],
+        dependencies,
+        isApplication: !isTest && (outputType === 'exe' || outputType === 'winexe' || usesAspNetCore || /\bMicrosoft\.NET\.Sdk\.Worker\b/.test(sdk)),
+        isTest
+    };
+}
+
+/**
+ * Project files listed in a solution, with forward slashes
+ */
+function getSolutionProjects(solution: string): string[] {
+    return Array.from(solution.matchAll(/^Project\("[^"]*"\)\s*=\s*"[^"]*",\s*"([^"]+)"/gm), m => m[1].replace(/\\/g, '/'))
+        .filter(p => PROJECT_FILE.test(p));
+}
+
+/**
+ * Runtime version from a target framework moniker: net8.0 -> 8.0, netcoreapp3.1 -> Core 3.1
+ */
+function getRuntimeVersion(targetFramework: string | undefined): string | undefined {
+    if (!targetFramework) {
+        return undefined;
+    }
+    const modern = targetFramework.match(/^net(\d+\.\d+)/);
+    if (modern) {
+        return modern[1];
+    }
+    const core = targetFramework.match(/^netcoreapp(\d+\.\d+)/);
+    return core ? `Core ${core[1]}` : targetFramework;
+}
+
+/**
+ * Read the solution at the project root (or the project files it contains), or undefined if there are none
+ */
+export async function collectDotnetManifest(rootPath: string, files: ProjectFile[]): Promise<ProjectManifest | undefined> {
+    const relativePaths = files.filter(f => !f.isDirectory).map(f => f.relativePath.replace(/\\/g, '/'));
+    const solutionFile = relativePaths.find(f => f.endsWith('.sln') && !f.includes('/'));
+    const solution = solutionFile ? await readText(rootPath, solutionFile) : undefined;
+
+    // The solution decides which projects belong to the build; without one, use the root project or all of them
+    const allProjects = relativePaths.filter(f => PROJECT_FILE.test(f));
+    const rootProjects = allProjects.filter(f => !f.includes('/'));
+    const projectFiles = (solution ? getSolutionProjects(solution) : rootProjects.length > 0 ? rootProjects : allProjects).slice(0, 20);
+    if (!solutionFile && projectFiles.length === 0) {
+        return undefined;
+    }
+
+    const projects: DotnetProject[] = [];
+    for (const projectFile of projectFiles) {
+        const content = await readText(rootPath, projectFile);
+        if (content !== undefined) {
+            projects.push(parseProject(content, projectFile));
+        }
+    }
+
+    const dependencies: ManifestDependency[] = [];
+    for (const dependency of projects.flatMap(p => p.dependencies)) {
+        const existing = dependencies.find(d => d.name === dependency.name);
+        if (!existing) {
+            dependencies.push(dependency);
+        } else if (!dependency.dev) {
+            // Used by an application or library project, not only by tests
+            existing.dev = false;
+        }
+    }
+
+    const applications = projects.filter(p => p.isApplication);
+    const entryPoints: ManifestEntryPoint[] = applications.map(p => ({ name: p.assemblyName, target: p.relativePath }));
+    // Package metadata comes from the first project that has it, applications first
+    const described = [...applications, ...projects.filter(p => !p.isApplication && !p.isTest), ...projects];
+    const firstValue = (field: 'version' | 'description' | 'license' | 'targetFramework') => described.find(p => p[field])?.[field];
+
+    return {
+        ecosystem: 'dotnet',
+        sources: [...(solutionFile ? [solutionFile] : []), ...projects.map(p => p.relativePath)],
+        name: solutionFile ? path.basename(solutionFile, '.sln') : described[0]?.assemblyName,
+        version: firstValue('version'),
+        description: firstValue('description'),
+        license: firstValue('license'),
+        runtimeVersion: getRuntimeVersion(firstValue('targetFramework')),
+        dependencies,
+        entryPoints,
+        scripts: {},
+        packageManager: 'dotnet',
+        workspaceMembers: projects.length > 1 ? projects.map(p => p.relativePath) : [],
+        library: applications.length === 0 && projects.some(p => !p.isTest)
+    };
+}
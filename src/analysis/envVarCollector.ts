@@ -0,0 +1,392 @@
+/**
+ * Environment Variable Collector
+ * Finds the environment variables a project reads (.env templates, process.env,
+ * os.environ / os.getenv, std::env::var, os.Getenv and docker-compose files),
+ * where they are used and whether the code falls back to a default.
+ * Real .env files are never read; only templates like .env.example are.
+ */
+
+import * as fs from 'fs';
+import { ProjectFile } from './workspaceScanner';
+
+export interface EnvVarUsage {
+    relativePath: string;
+    // 1-based line number
+    line: number;
+}
+
+export interface EnvVar {
+    name: string;
+    // Read in a way that fails when the variable is missing (os.environ['X'], process.env.X!,
+    // MustGetenv, env::var(...).unwrap(), ${X:?} in docker-compose)
+    required: boolean;
+    defaultValue?: string;
+    // Comment above the variable in the .env template
+    description?: string;
+    usages: EnvVarUsage[];
+}
+
+// Environment variables set by the OS, shells and CI rather than the project
+export const STANDARD_ENV_VARS = new Set(['NODE_ENV', 'PATH', 'HOME', 'PWD', 'CI', 'SHELL', 'USER', 'TERM', 'LANG', 'TZ', 'TMPDIR', 'NODE_OPTIONS']);
+
+// Limits for reading project files
+const MAX_FILES_TO_READ = 400;
+const MAX_FILE_SIZE_BYTES = 256 * 1024;
+const MAX_USAGES_PER_VAR = 5;
+
+// Templates that document variables; real .env files are never matched
+const ENV_TEMPLATE_FILE = /^\.env\.(example|sample|template|defaults|dist)$|^(example|sample)\.env$/i;
+const COMPOSE_FILE = /^(docker-)?compose(\.[\w-]+)?\.ya?ml$/i;
+
+const NAME = '([A-Za-z_][A-Za-z0-9_]*)';
+// A literal fallback: quoted string, number or boolean
+const LITERAL = `('[^']*'|"[^"]*"|\`[^\`$]*\`|-?\\d+(?:\\.\\d+)?|true|false)`;
+
+// A read of a variable; group 1 is the name, group 2 an optional literal default and group 3
+// a default that is the type's empty value (Rust's unwrap_or_default). failsWhenMissing is
+// checked against the code right after a read without a default.
+interface SourcePattern {
+    pattern: RegExp;
+    failsWhenMissing: boolean | RegExp;
+}
+
+const SOURCE_PATTERNS: Array<{ extensions: string[]; patterns: SourcePattern[] }> = [
+    {
+        extensions: ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.vue', '.svelte'],
+        patterns: [
+            // Only a non-null assertion (process.env.X!) fails; a plain read is undefined
+            {
+                pattern: new RegExp(`(?:process\\.env|import\\.meta\\.env)\\.${NAME}(?:\\s*(?:\\|\\||\\?\\?)\\s*${LITERAL})?`, 'g'),
+                failsWhenMissing: /^!(?!=)/
+            },
+            {
+                pattern: new RegExp(`(?:process\\.env|import\\.meta\\.env)\\[\\s*['"\`]${NAME}['"\`]\\s*\\](?:\\s*(?:\\|\\||\\?\\?)\\s*${LITERAL})?`, 'g'),
+                failsWhenMissing: /^!(?!=)/
+            }
+        ]
+    },
+    {
+        extensions: ['.py', '.pyw'],
+        patterns: [
+            // os.environ['X'] raises KeyError, unless the code assigns it
+            { pattern: new RegExp(`os\\.environ\\[\\s*['"]${NAME}['"]\\s*\\]`, 'g'), failsWhenMissing: /^(?!\s*=[^=])/ },
+            // os.environ.get and os.getenv return None
+            { pattern: new RegExp(`(?:os\\.environ\\.get|os\\.getenv)\\(\\s*['"]${NAME}['"](?:\\s*,\\s*${LITERAL})?`, 'g'), failsWhenMissing: false }
+        ]
+    },
+    {
+        extensions: ['.rs'],
+        patterns: [
+            {
+                pattern: new RegExp(`(?:std::)?env::var(?:_os)?\\(\\s*"${NAME}"\\s*\\)(?:\\s*\\.unwrap_or(?:_else)?\\(\\s*(?:\\|_\\|\\s*)?("[^"]*")|\\s*\\.(unwrap_or_default)\\(\\))?`, 'g'),
+                failsWhenMissing: /^\s*(?:\.unwrap\(\)|\.expect\(|\?)/
+            }
+        ]
+    },
+    {
+        extensions: ['.go'],
+        patterns: [
+            // os.Getenv returns "" and os.LookupEnv reports whether it is set
+            { pattern: new RegExp(`os\\.(?:Getenv|LookupEnv)\\(\\s*"${NAME}"\\s*\\)`, 'g'), failsWhenMissing: false },
+            { pattern: new RegExp(`\\bMust(?:Getenv|GetEnv|Get)\\(\\s*"${NAME}"\\s*\\)`, 'g'), failsWhenMissing: true }
+        ]
+    }
+];
+
+// `const { PORT = 3000, HOST } = process.env`
+const DESTRUCTURING_PATTERN = /(?:const|let|var)\s*\{([^}]*)\}\s*=\s*process\.env\b/g;
+
+// ${VAR}, ${VAR:-default}, ${VAR-default} and ${VAR:?error} in docker-compose files
+const COMPOSE_INTERPOLATION_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::?-([^}]*)|:?\?([^}]*))?\}/g;
+
+/**
+ * Strip the quotes of a literal default
+ */
+function unquote(literal: string): string {
+    return /^(['"`]).*\1$/s.test(literal) ? literal.slice(1, -1) : literal;
+}
+
+/**
+ * Blank out comments (line and block comments, or # and triple-quoted docstrings in Python)
+ * so examples in doc comments aren't read as variables. Comments become spaces and keep
+ * their line breaks, so offsets and line numbers stay the same. Other string literals are
+ * left as they are.
+ */
+function stripComments(content: string, extension: string): string {
+    const hashComments = extension === '.py' || extension === '.pyw';
+    let result = '';
+    let i = 0;
+
+    while (i < content.length) {
+        const char = content[i];
+        const next = content[i + 1];
+
+        // Python docstrings and other triple-quoted strings document rather than read
+        const triple = hashComments ? content.substring(i, i + 3) : '';
+        if (triple === '"""' || triple === "'''") {
+            const close = content.indexOf(triple, i + 3);
+            const end = close < 0 ? content.length : close + 3;
+            result += content.substring(i, end).replace(/[^\n]/g, ' ');
+            i = end;
+            continue;
+        }
+
+        if (char === '"' || char === '\'' || char === '`') {
+            // Only template literals span lines; an unterminated quote ends at the line break
+            let end = i + 1;
+            while (end < content.length && content[end] !== char && (char === '`' || content[end] !== '\n')) {
+                end += content[end] === '\\' ? 2 : 1;
+            }
+            result += content.substring(i, end + 1);
+            i = end + 1;
+            continue;
+        }
+
+        let commentEnd = -1;
+        if (hashComments ? char === '#' : char === '/' && next === '/') {
+            commentEnd = content.indexOf('\n', i);
+        } else if (!hashComments && char === '/' && next === '*') {
+            const close = content.indexOf('*/', i + 2);
+            commentEnd = close < 0 ? -1 : close + 2;
+        } else {
+            result += char;
+            i++;
+            continue;
+        }
+
+        if (commentEnd < 0) {
+            commentEnd = content.length;
+        }
+        result += content.substring(i, commentEnd).replace(/[^\n]/g, ' ');
+        i = commentEnd;
+    }
+
+    return result;
+}
+
+/**
+ * Line number (1-based) of an offset, from the offsets where each line starts
+ */
+function lineAt(lineStarts: number[], offset: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (lineStarts[middle] <= offset) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return low + 1;
+}
+
+/**
+ * Offsets where each line of a file starts
+ */
+function getLineStarts(content: string): number[] {
+    const lineStarts = [0];
+    for (let i = 0; i < content.length; i++) {
+        if (content.charCodeAt(i) === 10) {
+            lineStarts.push(i + 1);
+        }
+    }
+    return lineStarts;
+}
+
+/**
+ * Collect the environment variables a project reads
+ */
+export async function collectEnvVars(files: ProjectFile[]): Promise<EnvVar[]> {
+    const variables = new Map<string, EnvVar & { hasDefault: boolean }>();
+
+    const record: RecordUsage = (name, relativePath, line, defaultValue, failsWhenMissing = false) => {
+        if (STANDARD_ENV_VARS.has(name)) {
+            return;
+        }
+        let variable = variables.get(name);
+        if (!variable) {
+            variable = { name, required: false, usages: [], hasDefault: false };
+            variables.set(name, variable);
+        }
+        if (failsWhenMissing) {
+            variable.required = true;
+        }
+        if (defaultValue !== undefined && !variable.hasDefault) {
+            variable.hasDefault = true;
+            variable.defaultValue = defaultValue;
+        }
+        if (variable.usages.length < MAX_USAGES_PER_VAR && !variable.usages.some(u => u.relativePath === relativePath && u.line === line)) {
+            variable.usages.push({ relativePath, line });
+        }
+    };
+
+    const readable = files
+        .filter(f => !f.isDirectory && (ENV_TEMPLATE_FILE.test(f.name) || COMPOSE_FILE.test(f.name)
+            || SOURCE_PATTERNS.some(p => p.extensions.includes(f.extension))))
+        // Templates and compose files first, they document the variables best
+        .sort((a, b) => Number(SOURCE_PATTERNS.some(p => p.extensions.includes(a.extension)))
+            - Number(SOURCE_PATTERNS.some(p => p.extensions.includes(b.extension))))
+        .slice(0, MAX_FILES_TO_READ);
+
+    for (const file of readable) {
+        let content: string;
+        try {
+            const stat = await fs.promises.stat(file.path);
+            if (stat.size > MAX_FILE_SIZE_BYTES) {
+                continue;
+            }
+            content = await fs.promises.readFile(file.path, 'utf-8');
+        } catch (e) {
+            // Skip unreadable files
+            continue;
+        }
+
+        const relativePath = file.relativePath.replace(/\\/g, '/');
+
+        if (ENV_TEMPLATE_FILE.test(file.name)) {
+            collectFromEnvTemplate(content, relativePath, record, variables);
+        } else if (COMPOSE_FILE.test(file.name)) {
+            collectFromCompose(content, relativePath, record);
+        } else {
+            collectFromSource(content, file.extension, relativePath, record);
+        }
+    }
+
+    return Array.from(variables.values())
+        .map(({ hasDefault, ...variable }) => variable)
+        .sort((a, b) => Number(b.required) - Number(a.required) || a.name.localeCompare(b.name));
+}
+
+type RecordUsage = (name: string, relativePath: string, line: number, defaultValue?: string, failsWhenMissing?: boolean) => void;
+
+/**
+ * KEY=value lines of a .env template, with the comment above each as its description.
+ * Template values are examples, not defaults.
+ */
+function collectFromEnvTemplate(content: string, relativePath: string, record: RecordUsage, variables: Map<string, EnvVar>): void {
+    let comment: string[] = [];
+    content.split(/\r?\n/).forEach((text, index) => {
+        const trimmed = text.trim();
+        if (trimmed.startsWith('#')) {
+            comment.push(trimmed.replace(/^#+\s*/, ''));
+            return;
+        }
+
+        const match = trimmed.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/);
+        if (match) {
+            record(match[1], relativePath, index + 1);
+            const variable = variables.get(match[1]);
+            const description = comment.filter(Boolean).join(' ');
+            if (variable && description && !variable.description) {
+                variable.description = description;
+            }
+        }
+        comment = [];
+    });
+}
+
+/**
+ * environment: entries and ${VAR:-default} interpolations of a docker-compose file
+ */
+function collectFromCompose(content: string, relativePath: string, record: RecordUsage): void {
+    const lines = content.split(/\r?\n/);
+    let environmentIndent = -1;
+
+    lines.forEach((text, index) => {
+        const indent = text.search(/\S/);
+        if (indent < 0) {
+            return;
+        }
+
+        if (environmentIndent >= 0 && indent <= environmentIndent) {
+            environmentIndent = -1;
+        }
+
+        if (/^\s*environment:\s*$/.test(text)) {
+            environmentIndent = indent;
+            return;
+        }
+
+        if (environmentIndent >= 0) {
+            // "- KEY=value", "- KEY" or "KEY: value"; literal values may be secrets and are not kept
+            const match = text.match(/^\s*-\s*['"]?([A-Za-z_][A-Za-z0-9_]*)(?:=|['"]?\s*$)/)
+                || text.match(/^\s*['"]?([A-Za-z_][A-Za-z0-9_]*)['"]?\s*:/);
+            if (match) {
+                record(match[1], relativePath, index + 1);
+            }
+        }
+
+        for (const interpolation of text.matchAll(COMPOSE_INTERPOLATION_PATTERN)) {
+            record(interpolation[1], relativePath, index + 1, interpolation[2], interpolation[3] !== undefined);
+        }
+    });
+}
+
+/**
+ * Variable reads in source code
+ */
+function collectFromSource(source: string, extension: string, relativePath: string, record: RecordUsage): void {
+    const language = SOURCE_PATTERNS.find(p => p.extensions.includes(extension));
+    if (!language) {
+        return;
+    }
+
+    const content = stripComments(source, extension);
+    const lineStarts = getLineStarts(content);
+
+    for (const { pattern, failsWhenMissing } of language.patterns) {
+        for (const match of content.matchAll(pattern)) {
+            const offset = match.index ?? 0;
+            const defaultValue = match[3] !== undefined ? '' : match[2] !== undefined ? unquote(match[2]) : undefined;
+            const fails = defaultValue === undefined && (typeof failsWhenMissing === 'boolean'
+                ? failsWhenMissing
+                : failsWhenMissing.test(content.substring(offset + match[0].length, offset + match[0].length + 40)));
+            record(match[1], relativePath, lineAt(lineStarts, offset), defaultValue, fails);
+        }
+    }
+
+    if (extension !== '.py' && extension !== '.rs' && extension !== '.go') {
+        for (const match of content.matchAll(DESTRUCTURING_PATTERN)) {
+            const line = lineAt(lineStarts, match.index ?? 0);
+            for (const property of match[1].split(',')) {
+                const binding = property.trim().match(new RegExp(`^${NAME}(?:\\s*:\\s*\\w+)?(?:\\s*=\\s*${LITERAL})?$`));
+                if (binding) {
+                    record(binding[1], relativePath, line, binding[2] !== undefined ? unquote(binding[2]) : undefined);
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Escape a value for a Markdown table cell
+ */
+function tableCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Render the Environment Variables table. Descriptions from .env templates are
+ * used; the others get a placeholder for the model (or the user) to fill in.
+ */
+export function getEnvVarTable(envVars: EnvVar[]): string {
+    const rows = envVars.map(v => `| \`${v.name}\` | ${v.required ? 'Yes' : 'No'} | ${v.defaultValue !== undefined ? `\`${tableCell(v.defaultValue) || '""'}\`` : '-'} | ${v.description ? tableCell(v.description) : '_Add a description_'} |`);
+    return [
+        '| Variable | Required | Default | Description |',
+        '|----------|----------|---------|-------------|',
+        ...rows
+    ].join('\n');
+}
+
+/**
+ * Format the variables for the AI prompt: the table plus where each one is used
+ */
+export function getEnvVarSummary(envVars: EnvVar[]): string {
+    if (envVars.length === 0) {
+        return '';
+    }
+
+    const usages = envVars.map(v => `- ${v.name}: ${v.usages.map(u => `${u.relativePath}:${u.line}`).join(', ')}`);
+    return `${getEnvVarTable(envVars)}\n\nUsed in:\n${usages.join('\n')}`;
+}
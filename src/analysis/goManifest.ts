@@ -0,0 +1,104 @@
+/**
+ * Go Manifest Parser
+ * Reads go.mod (module path, go and toolchain directives, requirements) and
+ * go.work into the common manifest model. Binaries are the main packages at
+ * the root and under cmd/.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { ProjectFile } from './workspaceScanner';
+import { ProjectManifest, ManifestDependency, ManifestEntryPoint } from './manifest';
+
+/**
+ * Read a file relative to the project root, or undefined if it isn't there
+ */
+async function readText(rootPath: string, relativePath: string): Promise<string | undefined> {
+    try {
+        return await fs.promises.readFile(path.join(rootPath, relativePath), 'utf-8');
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Arguments of a directive, in single-line (`require a v1`) and block form (`require ( ... )`)
+ */
+function getDirectiveLines(content: string, directive: string): string[] {
+    const lines: string[] = [];
+    for (const match of content.matchAll(new RegExp(`^${directive}\\s*\\(([\\s\\S]*?)^\\)`, 'gm'))) {
+        lines.push(...match[1].split(/\r?\n/));
+    }
+    for (const match of content.matchAll(new RegExp(`^${directive}\\s+([^(\\s][^\\n]*)$`, 'gm'))) {
+        lines.push(match[1]);
+    }
+    return lines.map(line => line.trim()).filter(line => line && !line.startsWith('//'));
+}
+
+/**
+ * Direct requirements; `// indirect` ones are dependencies of dependencies
+ */
+function parseRequirements(content: string): ManifestDependency[] {
+    return getDirectiveLines(content, 'require')
+        .filter(line => !/\/\/\s*indirect\b/.test(line))
+        .map(line => line.match(/^(\S+)\s+(\S+)/))
+        .filter((match): match is RegExpMatchArray => !!match)
+        .map(match => ({ name: match[1], version: match[2], dev: false }));
+}
+
+/**
+ * Project name from a module path: its last element, skipping a major version suffix (/v2)
+ */
+function getModuleName(modulePath: string): string {
+    const parts = modulePath.split('/');
+    const last = parts.length - 1;
+    return /^v\d+$/.test(parts[last]) && last > 0 ? parts[last - 1] : parts[last];
+}
+
+/**
+ * Main packages: main.go at the root (named after the module) and cmd/<name>/main.go,
+ * with their import paths as targets
+ */
+function getBinaries(modulePath: string | undefined, files: Set<string>): ManifestEntryPoint[] {
+    const binaries: ManifestEntryPoint[] = [];
+    if (modulePath && files.has('main.go')) {
+        binaries.push({ name: getModuleName(modulePath), target: modulePath });
+    }
+    for (const file of Array.from(files).sort()) {
+        const match = file.match(/^cmd\/([\w.-]+)\/main\.go$/);
+        if (match) {
+            binaries.push({ name: match[1], target: modulePath ? `${modulePath}/cmd/${match[1]}` : `./cmd/${match[1]}` });
+        }
+    }
+    return binaries;
+}
+
+/**
+ * Read go.mod (and go.work) at the project root, or undefined if there is neither
+ */
+export async function collectGoManifest(rootPath: string, files: ProjectFile[]): Promise<ProjectManifest | undefined> {
+    const relativePaths = new Set(files.filter(f => !f.isDirectory).map(f => f.relativePath.replace(/\\/g, '/')));
+    const goMod = relativePaths.has('go.mod') ? await readText(rootPath, 'go.mod') : undefined;
+    const goWork = relativePaths.has('go.work') ? await readText(rootPath, 'go.work') : undefined;
+    if (goMod === undefined && goWork === undefined) {
+        return undefined;
+    }
+
+    const content = goMod || '';
+    const modulePath = content.match(/^module\s+"?([^\s"]+)"?/m)?.[1];
+    // The toolchain directive names the Go release actually used ("go1.22.1")
+    const toolchain = content.match(/^toolchain\s+go(\S+)/m)?.[1];
+    const goVersion = (goMod ?? goWork ?? '').match(/^go\s+(\d[\w.]*)/m)?.[1];
+
+    return {
+        ecosystem: 'go',
+        sources: [...(goMod !== undefined ? ['go.mod'] : []), ...(goWork !== undefined ? ['go.work'] : [])],
+        name: modulePath && getModuleName(modulePath),
+        dependencies: parseRequirements(content),
+        entryPoints: getBinaries(modulePath, relativePaths),
+        scripts: {},
+        packageManager: 'go mod',
+        runtimeVersion: goVersion && (toolchain ? `${goVersion} (toolchain ${toolchain})` : goVersion),
+        workspaceMembers: goWork ? getDirectiveLines(goWork, 'use').map(line => line.replace(/^\.\//, '')) : []
+    };
+}
@@ -0,0 +1,188 @@
+/**
+ * JVM Manifest Parser
+ * Reads pom.xml and build.gradle / build.gradle.kts (with settings.gradle) into
+ * the common manifest model. Both are read with patterns, not evaluated, so
+ * values computed in Groovy/Kotlin or inherited from a parent POM are missed.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { ProjectFile } from './workspaceScanner';
+import { ProjectManifest, ManifestDependency, ManifestEntryPoint } from './manifest';
+
+// Gradle configurations that are only for tests or builds
+const DEV_CONFIGURATION = /^(test|androidTest|testFixtures|integrationTest)\w*|^(annotationProcessor|kapt|ksp|compileOnly)$/;
+
+/**
+ * Read a file relative to the project root, or undefined if it isn't there
+ */
+async function readText(rootPath: string, relativePath: string): Promise<string | undefined> {
+    try {
+        return await fs.promises.readFile(path.join(rootPath, relativePath), 'utf-8');
+    } catch (e) {
+        return undefined;
+    }
+}
+
+// ============================================================================
+// MAVEN
+// ============================================================================
+
+/**
+ * Text of the first <tag> element, or undefined
+ */
+function xmlValue(xml: string, tag: string): string | undefined {
+    const value = xml.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`))?.[1];
+    return value || undefined;
+}
+
+/**
+ * Inner XML of every <tag> element
+ */
+function xmlBlocks(xml: string, tag: string): string[] {
+    return Array.from(xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g')), m => m[1]);
+}
+
+/**
+ * Read pom.xml: project coordinates, licenses, Java version, dependencies, modules and main class
+ */
+function parsePom(content: string): ProjectManifest {
+    const xml = content.replace(/<!--[\s\S]*?-->/g, '');
+    // Top-level fields: the parent, dependency, build and profile blocks have their own <version>, <name>, ...
+    const topLevel = xml.replace(/<(parent|dependencies|dependencyManagement|build|profiles|reporting|licenses|developers|modules|properties|pluginRepositories|repositories|distributionManagement|scm)>[\s\S]*?<\/\1>/g, '');
+    const parent = xmlBlocks(xml, 'parent')[0] || '';
+
+    const properties = new Map<string, string>();
+    for (const match of (xmlBlocks(xml, 'properties')[0] || '').matchAll(/<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g)) {
+        properties.set(match[1], match[2]);
+    }
+    const version = xmlValue(topLevel, 'version') || xmlValue(parent, 'version');
+    properties.set('project.version', version || '');
+    // ${property} placeholders resolved from <properties>; unknown ones are left as written
+    const resolve = (value: string | undefined) => value?.replace(/\$\{([\w.-]+)\}/g, (placeholder, name) => properties.get(name) || placeholder);
+
+    const dependencies: ManifestDependency[] = xmlBlocks(xmlBlocks(xml.replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, ''), 'dependencies')[0] || '', 'dependency')
+        .map(dependency => {
+            const scope = xmlValue(dependency, 'scope');
+            return {
+                name: `${xmlValue(dependency, 'groupId')}:${xmlValue(dependency, 'artifactId')}`,
+                version: resolve(xmlValue(dependency, 'version')),
+                dev: scope === 'test' || scope === 'provided',
+                group: scope
+            };
+        });
+
+    const mainClass = resolve(xmlValue(xml, 'mainClass') || properties.get('start-class') || properties.get('exec.mainClass'));
+    const artifactId = xmlValue(topLevel, 'artifactId');
+    const entryPoints: ManifestEntryPoint[] = mainClass && artifactId ? [{ name: artifactId, target: mainClass }] : [];
+
+    return {
+        ecosystem: 'jvm',
+        sources: ['pom.xml'],
+        name: resolve(xmlValue(topLevel, 'name')) || artifactId,
+        version: resolve(version),
+        description: resolve(xmlValue(topLevel, 'description')),
+        license: xmlValue(xmlBlocks(xml, 'licenses')[0] || '', 'name'),
+        runtimeVersion: resolve(properties.get('java.version') || properties.get('maven.compiler.release') || properties.get('maven.compiler.source')),
+        dependencies,
+        entryPoints,
+        scripts: {},
+        packageManager: 'maven',
+        workspaceMembers: xmlBlocks(xmlBlocks(xml, 'modules')[0] || '', 'module').map(m => m.trim())
+    };
+}
+
+// ============================================================================
+// GRADLE
+// ============================================================================
+
+/**
+ * A string assigned to a property in Groovy (`name = 'x'`, `name 'x'`) or Kotlin (`name = "x"`, `name.set("x")`)
+ */
+function gradleValue(content: string, name: string): string | undefined {
+    return content.match(new RegExp(`(?:^|[{;])\\s*${name.replace(/\./g, '\\.')}(?:\\s*=\\s*|\\s+|\\.set\\(\\s*)(['"])([^'"$]+)\\1`, 'm'))?.[2];
+}
+
+/**
+ * Dependencies declared with string coordinates: `implementation 'g:a:v'` or `implementation("g:a:v")`
+ */
+function parseGradleDependencies(content: string): ManifestDependency[] {
+    const dependencies: ManifestDependency[] = [];
+    for (const match of content.matchAll(/^\s*(\w+)\s*\(?\s*(?:platform\(\s*)?(['"])([\w.-]+):([\w.-]+)(?::([^'"@]+))?(?:@\w+)?\2/gm)) {
+        const configuration = match[1];
+        if (configuration === 'classpath' || configuration === 'id') {
+            continue;
+        }
+        dependencies.push({
+            name: `${match[3]}:${match[4]}`,
+            version: match[5],
+            dev: DEV_CONFIGURATION.test(configuration),
+            group: configuration
+        });
+    }
+    return dependencies;
+}
+
+/**
+ * Java version from a toolchain, a release setting or source compatibility
+ */
+function getJavaVersion(content: string): string | undefined {
+    return content.match(/JavaLanguageVersion\.of\(\s*(\d+)\s*\)/)?.[1]
+        || content.match(/options\.release(?:\s*=\s*|\.set\(\s*)(\d+)/)?.[1]
+        || content.match(/jvmToolchain\(\s*(\d+)\s*\)/)?.[1]
+        || content.match(/sourceCompatibility\s*=\s*(?:JavaVersion\.VERSION_)?['"]?(\d[\d_.]*)/)?.[1]?.replace(/^1_/, '1.').replace(/_/g, '.');
+}
+
+/**
+ * Read build.gradle(.kts) and settings.gradle(.kts)
+ */
+function parseGradle(build: string, settings: string, sources: string[]): ProjectManifest {
+    const stripComments = (content: string) => content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:])\/\/.*$/gm, '$1');
+    const script = stripComments(build);
+    const settingsScript = stripComments(settings);
+
+    const mainClass = gradleValue(script, 'mainClass') || gradleValue(script, 'mainClassName')
+        || script.match(/['"]Main-Class['"]\s*(?::|,|to)\s*(['"])([^'"$]+)\1/)?.[2];
+    const name = gradleValue(settingsScript, 'rootProject.name');
+
+    // include 'app', ':lib' / include("app", "lib")
+    const members = Array.from(settingsScript.matchAll(/^\s*include\s*\(?([^)\n]+)\)?/gm))
+        .flatMap(match => Array.from(match[1].matchAll(/['"]:?([^'"]+)['"]/g), m => m[1].replace(/:/g, '/')));
+
+    return {
+        ecosystem: 'jvm',
+        sources,
+        name,
+        version: gradleValue(script, 'version'),
+        description: gradleValue(script, 'description'),
+        runtimeVersion: getJavaVersion(script),
+        dependencies: parseGradleDependencies(script),
+        entryPoints: mainClass ? [{ name: name || 'app', target: mainClass }] : [],
+        scripts: {},
+        packageManager: 'gradle',
+        workspaceMembers: members
+    };
+}
+
+/**
+ * Read pom.xml or the Gradle build at the project root, or undefined if there is neither
+ */
+export async function collectJvmManifest(rootPath: string, files: ProjectFile[]): Promise<ProjectManifest | undefined> {
+    const relativePaths = new Set(files.filter(f => !f.isDirectory).map(f => f.relativePath.replace(/\\/g, '/')));
+
+    if (relativePaths.has('pom.xml')) {
+        const pom = await readText(rootPath, 'pom.xml');
+        if (pom !== undefined) {
+            return parsePom(pom);
+        }
+    }
+
+    const buildFile = ['build.gradle.kts', 'build.gradle'].find(f => relativePaths.has(f));
+    const settingsFile = ['settings.gradle.kts', 'settings.gradle'].find(f => relativePaths.has(f));
+    if (!buildFile && !settingsFile) {
+        return undefined;
+    }
+    const build = buildFile ? await readText(rootPath, buildFile) || '' : '';
+    const settings = settingsFile ? await readText(rootPath, settingsFile) || '' : '';
+    return parseGradle(build, settings, [buildFile, settingsFile].filter((f): f is string => !!f));
+}
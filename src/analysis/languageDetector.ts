@@ -4,6 +4,7 @@
  */
 
 import { ProjectInfo } from './workspaceScanner';
+import { hasManifestDependency } from './manifest';
 
 export interface LanguageInfo {
     name: string;
@@ -168,6 +169,7 @@ const FRAMEWORK_RULES: FrameworkRule[] = [
         name: 'Django',
         category: 'Backend Framework',
         detect: (info) => {
+            if (hasManifestDependency(info.manifest, 'django')) return 1;
             if (info.configFiles.includes('manage.py')) return 0.9;
             if (info.files.some(f => f.name === 'settings.py')) return 0.7;
             return 0;
@@ -177,18 +179,16 @@ const FRAMEWORK_RULES: FrameworkRule[] = [
         name: 'Flask',
         category: 'Backend Framework',
         detect: (info) => {
-            // Check requirements.txt or similar
-            const hasFlask = info.files.some(f => 
-                f.name === 'requirements.txt' || f.name === 'Pipfile'
-            );
-            return hasFlask ? 0.5 : 0;
+            if (hasManifestDependency(info.manifest, 'flask')) return 1;
+            return 0;
         }
     },
     {
         name: 'FastAPI',
         category: 'Backend Framework',
         detect: (info) => {
-            return 0; // Would need to read requirements.txt content
+            if (hasManifestDependency(info.manifest, 'fastapi')) return 1;
+            return 0;
         }
     },
     // Other Frameworks
@@ -196,6 +196,7 @@ const FRAMEWORK_RULES: FrameworkRule[] = [
         name: 'Flutter',
         category: 'Mobile Framework',
         detect: (info) => {
+            if (info.manifest?.ecosystem === 'dart') return info.manifest.packageManager === 'flutter' ? 1 : 0;
             if (info.files.some(f => f.name === 'pubspec.yaml')) return 1;
             return 0;
         }
@@ -204,12 +205,118 @@ const FRAMEWORK_RULES: FrameworkRule[] = [
         name: 'Spring Boot',
         category: 'Backend Framework',
         detect: (info) => {
-            if (info.configFiles.includes('pom.xml') || info.configFiles.includes('build.gradle')) {
+            if (hasManifestDependency(info.manifest, /^org\.springframework\.boot:/)) return 1;
+            if (info.configFiles.includes('pom.xml') || info.configFiles.some(f => f.startsWith('build.gradle'))) {
                 return 0.5;
             }
             return 0;
         }
     },
+    // .NET Frameworks
+    {
+        name: 'ASP.NET Core',
+        category: 'Backend Framework',
+        detect: (info) => {
+            if (hasManifestDependency(info.manifest, /^Microsoft\.AspNetCore\./)) return 1;
+            return 0;
+        }
+    },
+    // PHP Frameworks
+    {
+        name: 'Laravel',
+        category: 'Backend Framework',
+        detect: (info) => {
+            if (hasManifestDependency(info.manifest, 'laravel/framework')) return 1;
+            if (info.files.some(f => f.relativePath === 'artisan')) return 0.8;
+            return 0;
+        }
+    },
+    {
+        name: 'Symfony',
+        category: 'Backend Framework',
+        detect: (info) => {
+            if (hasManifestDependency(info.manifest, /^symfony\/(framework-bundle|symfony)$/)) return 1;
+            if (info.files.some(f => f.relativePath === 'symfony.lock')) return 0.8;
+            return 0;
+        }
+    },
+    // Ruby Frameworks
+    {
+        name: 'Ruby on Rails',
+        category: 'Backend Framework',
+        detect: (info) => {
+            if (hasManifestDependency(info.manifest, 'rails') || hasManifestDependency(info.manifest, 'railties')) return 1;
+            if (info.files.some(f => f.relativePath === 'config/application.rb')) return 0.7;
+            return 0;
+        }
+    },
+    {
+        name: 'Sinatra',
+        category: 'Backend Framework',
+        detect: (info) => {
+            if (hasManifestDependency(info.manifest, 'sinatra')) return 1;
+            return 0;
+        }
+    },
+    // Swift Frameworks
+    {
+        name: 'Vapor',
+        category: 'Backend Framework',
+        detect: (info) => {
+            if (hasManifestDependency(info.manifest, 'vapor')) return 1;
+            return 0;
+        }
+    },
+    // Rust Frameworks
+    {
+        name: 'Actix Web',
+        category: 'Backend Framework',
+        detect: (info) => {
+            if (hasManifestDependency(info.manifest, 'actix-web')) return 1;
+            return 0;
+        }
+    },
+    {
+        name: 'Axum',
+        category: 'Backend Framework',
+        detect: (info) => {
+            if (hasManifestDependency(info.manifest, 'axum')) return 1;
+            return 0;
+        }
+    },
+    {
+        name: 'Rocket',
+        category: 'Backend Framework',
+        detect: (info) => {
+            if (hasManifestDependency(info.manifest, 'rocket')) return 1;
+            return 0;
+        }
+    },
+    // Go Frameworks
+    {
+        name: 'Gin',
+        category: 'Backend Framework',
+        detect: (info) => {
+            if (hasManifestDependency(info.manifest, 'github.com/gin-gonic/gin')) return 1;
+            return 0;
+        }
+    },
+    {
+        name: 'Echo',
+        category: 'Backend Framework',
+        detect: (info) => {
+            if (hasManifestDependency(info.manifest, /^github\.com\/labstack\/echo(\/v\d+)?$/)) return 1;
+            return 0;
+        }
+    },
+    {
+        name: 'Fiber',
+        category: 'Backend Framework',
+        detect: (info) => {
+            if (hasManifestDependency(info.manifest, /^github\.com\/gofiber\/fiber(\/v\d+)?$/)) return 1;
+            return 0;
+        }
+    },
     // Build Tools as Frameworks
     {
         name: 'Vite',
@@ -323,18 +430,26 @@ export function detectFrameworks(projectInfo: ProjectInfo): FrameworkInfo[] {
 export function detectPackageManager(projectInfo: ProjectInfo): string | null {
     const files = projectInfo.files.map(f => f.name);
     
+    // Laravel, Symfony, Rails and ASP.NET apps ship a package.json for their front-end assets only
+    const manifest = projectInfo.manifest;
+    if (manifest?.packageManager && ['dotnet', 'php', 'ruby'].includes(manifest.ecosystem)) return manifest.packageManager;
+    
     if (files.includes('pnpm-lock.yaml')) return 'pnpm';
     if (files.includes('yarn.lock')) return 'yarn';
     if (files.includes('package-lock.json')) return 'npm';
     if (files.includes('bun.lockb')) return 'bun';
     if (files.includes('package.json')) return 'npm'; // Default for Node.js
+    if (manifest?.packageManager) return manifest.packageManager;
     if (files.includes('requirements.txt') || files.includes('Pipfile')) return 'pip';
     if (files.includes('Cargo.toml')) return 'cargo';
     if (files.includes('go.mod')) return 'go mod';
     if (files.includes('Gemfile')) return 'bundler';
     if (files.includes('composer.json')) return 'composer';
     if (files.includes('pom.xml')) return 'maven';
-    if (files.includes('build.gradle')) return 'gradle';
+    if (files.includes('build.gradle') || files.includes('build.gradle.kts')) return 'gradle';
+    if (files.some(f => /\.(sln|csproj|fsproj|vbproj)$/.test(f))) return 'dotnet';
+    if (files.includes('pubspec.yaml')) return 'dart';
+    if (files.includes('Package.swift')) return 'swift';
     
     return null;
 }
@@ -386,6 +501,14 @@ export function detectTestFrameworks(projectInfo: ProjectInfo): string[] {
     if (pkg?.devDependencies?.['@testing-library/react']) frameworks.push('React Testing Library');
     if (pkg?.devDependencies?.jasmine) frameworks.push('Jasmine');
     if (pkg?.devDependencies?.ava) frameworks.push('AVA');
+    if (hasManifestDependency(projectInfo.manifest, 'pytest')) frameworks.push('Pytest');
+    if (hasManifestDependency(projectInfo.manifest, /^(junit:junit|org\.junit\.jupiter:)/)) frameworks.push('JUnit');
+    if (hasManifestDependency(projectInfo.manifest, 'xunit')) frameworks.push('xUnit');
+    if (hasManifestDependency(projectInfo.manifest, 'NUnit')) frameworks.push('NUnit');
+    if (hasManifestDependency(projectInfo.manifest, 'phpunit/phpunit')) frameworks.push('PHPUnit');
+    if (hasManifestDependency(projectInfo.manifest, 'pestphp/pest')) frameworks.push('Pest');
+    if (hasManifestDependency(projectInfo.manifest, 'rspec') || hasManifestDependency(projectInfo.manifest, 'rspec-rails')) frameworks.push('RSpec');
+    if (hasManifestDependency(projectInfo.manifest, 'minitest')) frameworks.push('Minitest');
     
     return frameworks;
 }
@@ -0,0 +1,204 @@
+/**
+ * Project Manifest
+ * A common model for the manifests of ecosystems other than Node (pyproject.toml,
+ * Cargo.toml, go.mod, pom.xml, .csproj, composer.json, Gemfile, pubspec.yaml, ...), so the prompt, badges and offline
+ * template read name, version, dependencies and entry points the same way for
+ * every ecosystem. Node projects keep using ProjectInfo.packageJson.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { ProjectFile } from './workspaceScanner';
+import { collectPythonManifest } from './pythonManifest';
+import { collectRustManifest } from './rustManifest';
+import { collectGoManifest } from './goManifest';
+import { collectJvmManifest } from './jvmManifest';
+import { collectDotnetManifest } from './dotnetManifest';
+import { collectPhpManifest } from './phpManifest';
+import { collectRubyManifest } from './rubyManifest';
+import { collectDartManifest } from './dartManifest';
+import { collectSwiftManifest } from './swiftManifest';
+
+export type ManifestEcosystem = 'python' | 'rust' | 'go' | 'jvm' | 'dotnet' | 'php' | 'ruby' | 'dart' | 'swift';
+
+export interface ManifestDependency {
+    name: string;
+    // Version requirement as written (">=2.0", "^1.4"), if any
+    version?: string;
+    // Only needed for development (tests, linting, docs)
+    dev: boolean;
+    // Extra or dependency group it belongs to
+    group?: string;
+}
+
+export interface ManifestEntryPoint {
+    // Command the package installs or binary it builds
+    name: string;
+    // What it runs, e.g. "mytool.cli:main", "src/main.rs" or a main class
+    target: string;
+}
+
+export interface ProjectManifest {
+    ecosystem: ManifestEcosystem;
+    // Manifest files that were read, relative to the project root
+    sources: string[];
+    name?: string;
+    version?: string;
+    description?: string;
+    license?: string;
+    dependencies: ManifestDependency[];
+    // Commands installed with the package (console scripts, binaries, main classes)
+    entryPoints: ManifestEntryPoint[];
+    // Task runner scripts (pdm, hatch, Pipfile, Composer), name -> command
+    scripts: Record<string, string>;
+    // Tool the dependencies are installed with (poetry, uv, pip, cargo, go mod, maven, gradle, dotnet, composer, bundler, flutter, swift, ...)
+    packageManager?: string;
+    // Required language or toolchain version, e.g. ">=3.10", "1.74" or "17"
+    runtimeVersion?: string;
+    // Workspace members or modules as written in the manifest (globs are not resolved)
+    workspaceMembers?: string[];
+    // Publishes a library (gem, class library, Composer library, Swift library product) rather than an app
+    library?: boolean;
+}
+
+// Manifest readers, tried in order; the first ecosystem found describes the project
+const MANIFEST_READERS: Array<(rootPath: string, files: ProjectFile[]) => Promise<ProjectManifest | undefined>> = [
+    collectPythonManifest,
+    collectRustManifest,
+    collectGoManifest,
+    collectJvmManifest,
+    collectDotnetManifest,
+    collectPhpManifest,
+    collectRubyManifest,
+    collectDartManifest,
+    collectSwiftManifest
+];
+
+// Language each ecosystem's runtime version refers to
+const RUNTIME_NAMES: Record<ManifestEcosystem, string> = {
+    python: 'Python',
+    rust: 'Rust',
+    go: 'Go',
+    jvm: 'Java',
+    dotnet: '.NET',
+    php: 'PHP',
+    ruby: 'Ruby',
+    dart: 'Dart',
+    swift: 'Swift tools'
+};
+
+const LICENSE_FILE = /^(LICEN[SC]E|COPYING)(\.(md|txt|rst))?$/i;
+
+// Recognizable opening text of common licenses, most specific first
+const LICENSE_TEXTS: Array<[RegExp, string]> = [
+    [/GNU AFFERO GENERAL PUBLIC LICENSE\s+Version 3/i, 'AGPL-3.0'],
+    [/GNU LESSER GENERAL PUBLIC LICENSE\s+Version 3/i, 'LGPL-3.0'],
+    [/GNU GENERAL PUBLIC LICENSE\s+Version 3/i, 'GPL-3.0'],
+    [/GNU GENERAL PUBLIC LICENSE\s+Version 2/i, 'GPL-2.0'],
+    [/Apache License,?\s+Version 2\.0/i, 'Apache-2.0'],
+    [/Mozilla Public License,?\s+(Version|v\.)\s*2\.0/i, 'MPL-2.0'],
+    [/Permission is hereby granted, free of charge/i, 'MIT'],
+    [/Permission to use, copy, modify, and\/or distribute this software/i, 'ISC'],
+    [/Redistribution and use in source and binary forms[\s\S]*Neither the name/i, 'BSD-3-Clause'],
+    [/Redistribution and use in source and binary forms/i, 'BSD-2-Clause'],
+    [/This is free and unencumbered software released into the public domain/i, 'Unlicense']
+];
+
+/**
+ * License named by a LICENSE / COPYING file at the project root, for manifests without one
+ */
+async function detectLicenseFile(rootPath: string, files: ProjectFile[]): Promise<string | undefined> {
+    const file = files.find(f => !f.isDirectory && f.relativePath === f.name && LICENSE_FILE.test(f.name));
+    if (!file) {
+        return undefined;
+    }
+    try {
+        const content = await fs.promises.readFile(path.join(rootPath, file.relativePath), 'utf-8');
+        return LICENSE_TEXTS.find(([pattern]) => pattern.test(content.substring(0, 4000)))?.[1];
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Read the project's manifests into the common model, or undefined if it has none
+ */
+export async function collectManifest(rootPath: string, files: ProjectFile[]): Promise<ProjectManifest | undefined> {
+    for (const read of MANIFEST_READERS) {
+        const manifest = await read(rootPath, files);
+        if (manifest) {
+            manifest.license = manifest.license || await detectLicenseFile(rootPath, files);
+            return manifest;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Normalize a package name for comparison (PEP 503: case and -_. runs don't matter)
+ */
+export function normalizePackageName(name: string): string {
+    return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/**
+ * True if the manifest lists a dependency with this name (or one matching the pattern,
+ * for coordinates like "org.springframework.boot:spring-boot-starter-web")
+ */
+export function hasManifestDependency(manifest: ProjectManifest | undefined, name: string | RegExp): boolean {
+    if (name instanceof RegExp) {
+        return !!manifest?.dependencies.some(d => name.test(d.name));
+    }
+    const normalized = normalizePackageName(name);
+    return !!manifest?.dependencies.some(d => normalizePackageName(d.name) === normalized);
+}
+
+/**
+ * Format the manifest for the AI prompt
+ */
+export function getManifestSummary(manifest: ProjectManifest): string {
+    const summary: string[] = [`Manifests: ${manifest.sources.join(', ')}`];
+
+    if (manifest.version) {
+        summary.push(`Version: ${manifest.version}`);
+    }
+    if (manifest.description) {
+        summary.push(`Description: ${manifest.description}`);
+    }
+    if (manifest.license) {
+        summary.push(`License: ${manifest.license}`);
+    }
+    if (manifest.runtimeVersion) {
+        summary.push(`Requires ${RUNTIME_NAMES[manifest.ecosystem]}: ${manifest.runtimeVersion}`);
+    }
+    if (manifest.packageManager) {
+        summary.push(`Installed with: ${manifest.packageManager}`);
+    }
+
+    const formatDependency = (d: ManifestDependency) => `  - ${d.name}${d.version ? ` ${d.version}` : ''}${d.group ? ` (${d.group})` : ''}`;
+    const runtime = manifest.dependencies.filter(d => !d.dev);
+    const dev = manifest.dependencies.filter(d => d.dev);
+    if (runtime.length > 0) {
+        summary.push(`\nDependencies:\n${runtime.slice(0, 15).map(formatDependency).join('\n')}`);
+        if (runtime.length > 15) {
+            summary.push(`  ... and ${runtime.length - 15} more`);
+        }
+    }
+    if (dev.length > 0) {
+        summary.push(`\nDev Dependencies:\n${dev.slice(0, 10).map(formatDependency).join('\n')}`);
+    }
+
+    if (manifest.workspaceMembers && manifest.workspaceMembers.length > 0) {
+        summary.push(`\nWorkspace members:\n${manifest.workspaceMembers.slice(0, 15).map(m => `  - ${m}`).join('\n')}`);
+    }
+
+    if (manifest.entryPoints.length > 0) {
+        summary.push(`\n${manifest.ecosystem === 'python' ? 'Commands installed by the package' : 'Binaries / main classes'}:\n${manifest.entryPoints.slice(0, 10).map(e => `  - ${e.name}: ${e.target}`).join('\n')}`);
+    }
+    const scripts = Object.entries(manifest.scripts);
+    if (scripts.length > 0) {
+        summary.push(`\nScripts (${manifest.packageManager || 'task runner'}):\n${scripts.slice(0, 10).map(([name, command]) => `  - ${name}: ${command}`).join('\n')}`);
+    }
+
+    return summary.join('\n');
+}
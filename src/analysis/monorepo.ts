@@ -0,0 +1,406 @@
+/**
+ * Monorepo Detector
+ * Resolves the packages of a monorepo from its workspace configuration (npm / yarn /
+ * pnpm workspaces, lerna.json, Cargo workspaces, go.work, Nx project.json files) so
+ * each package can be listed in the root README and analyzed on its own.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { ProjectFile } from './workspaceScanner';
+import { ProjectManifest, collectManifest } from './manifest';
+import { ReadmeDocument } from '../generator/readmeDocument';
+
+export type WorkspaceTool = 'npm' | 'yarn' | 'pnpm' | 'bun' | 'lerna' | 'cargo' | 'go' | 'nx' | 'turborepo';
+
+export interface WorkspacePackage {
+    name: string;
+    // Package folder relative to the monorepo root, with forward slashes
+    relativePath: string;
+    version?: string;
+    description?: string;
+    private?: boolean;
+    // Manifest the package was read from (package.json, Cargo.toml, project.json, ...)
+    manifestFile: string;
+}
+
+export interface MonorepoInfo {
+    // Tools whose configuration defines or orchestrates the workspace
+    tools: WorkspaceTool[];
+    // Workspace patterns as written, including negations
+    patterns: string[];
+    packages: WorkspacePackage[];
+}
+
+// Files that make a folder matched by a workspace pattern a package
+const PACKAGE_MANIFESTS = ['package.json', 'Cargo.toml', 'go.mod', 'project.json', 'pyproject.toml', 'pom.xml', 'build.gradle', 'build.gradle.kts', 'pubspec.yaml'];
+
+// Folders never searched for packages
+const SKIPPED_FOLDERS = new Set(['node_modules', 'dist', 'build', 'out', 'target', 'vendor', 'coverage']);
+
+// How deep `**` patterns and the Nx project search go
+const MAX_SEARCH_DEPTH = 6;
+
+const PACKAGES_BLOCK_START = '<!-- readme-gen:packages -->';
+const PACKAGES_BLOCK_END = '<!-- /readme-gen:packages -->';
+const PACKAGES_BLOCK_PATTERN = /<!--\s*readme-gen:packages\s*-->[\s\S]*?<!--\s*\/readme-gen:packages\s*-->/;
+
+/**
+ * Read a JSON file relative to the root, or undefined if it is missing or invalid
+ */
+async function readJson(rootPath: string, relativePath: string): Promise<any | undefined> {
+    try {
+        return JSON.parse(await fs.promises.readFile(path.join(rootPath, relativePath), 'utf-8'));
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Subfolders that may hold packages (no dot folders, dependencies or build output)
+ */
+async function listFolders(dirPath: string): Promise<string[]> {
+    try {
+        const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+        return entries
+            .filter(e => e.isDirectory() && !e.name.startsWith('.') && !SKIPPED_FOLDERS.has(e.name))
+            .map(e => e.name)
+            .sort();
+    } catch (e) {
+        return [];
+    }
+}
+
+/**
+ * Expand one level of braces: "packages/{ui,core}" -> ["packages/ui", "packages/core"]
+ */
+function expandBraces(pattern: string): string[] {
+    const match = pattern.match(/\{([^{}]*)\}/);
+    if (!match || match.index === undefined) {
+        return [pattern];
+    }
+    const before = pattern.substring(0, match.index);
+    const after = pattern.substring(match.index + match[0].length);
+    return match[1].split(',').flatMap(option => expandBraces(before + option + after));
+}
+
+/**
+ * Regular expression for a glob: `*` within a folder name, `**` across folders
+ */
+function globToRegExp(glob: string): RegExp {
+    const source = glob
+        .split('/')
+        .map(segment => segment === '**'
+            ? '(?:.*)'
+            : segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]'))
+        .join('/')
+        .replace(/\/\(\?:\.\*\)/g, '(?:/.*)?')
+        .replace(/^\(\?:\.\*\)\//, '(?:.*/)?');
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Normalize a workspace pattern: forward slashes, no leading "./" or trailing "/"
+ */
+function normalizePattern(pattern: string): string {
+    return pattern.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Folders matching a glob, relative to the root
+ */
+async function resolveGlob(rootPath: string, glob: string): Promise<string[]> {
+    const segments = normalizePattern(glob).split('/').filter(s => s && s !== '.');
+    const results: string[] = [];
+
+    const walk = async (relativeDir: string, index: number, depth: number): Promise<void> => {
+        if (index === segments.length) {
+            results.push(relativeDir);
+            return;
+        }
+        const segment = segments[index];
+        const absoluteDir = path.join(rootPath, relativeDir);
+
+        if (segment === '**') {
+            // Zero folders, or one more folder and still inside the **
+            await walk(relativeDir, index + 1, depth);
+            if (depth < MAX_SEARCH_DEPTH) {
+                for (const folder of await listFolders(absoluteDir)) {
+                    await walk(relativeDir ? `${relativeDir}/${folder}` : folder, index, depth + 1);
+                }
+            }
+            return;
+        }
+        if (!/[*?[]/.test(segment)) {
+            const next = relativeDir ? `${relativeDir}/${segment}` : segment;
+            if (fs.existsSync(path.join(rootPath, next))) {
+                await walk(next, index + 1, depth + 1);
+            }
+            return;
+        }
+        const pattern = globToRegExp(segment);
+        for (const folder of await listFolders(absoluteDir)) {
+            if (pattern.test(folder)) {
+                await walk(relativeDir ? `${relativeDir}/${folder}` : folder, index + 1, depth + 1);
+            }
+        }
+    };
+
+    await walk('', 0, 0);
+    return results;
+}
+
+/**
+ * Resolve workspace patterns to package folders. Patterns starting with "!" exclude
+ * folders; only folders with a package manifest are kept.
+ */
+export async function resolveWorkspacePatterns(rootPath: string, patterns: string[]): Promise<string[]> {
+    const includes = patterns.filter(p => !p.trim().startsWith('!')).flatMap(expandBraces);
+    const excludes = patterns
+        .filter(p => p.trim().startsWith('!'))
+        .flatMap(p => expandBraces(normalizePattern(p.trim().substring(1))))
+        .map(globToRegExp);
+
+    const folders = new Set<string>();
+    for (const include of includes) {
+        for (const folder of await resolveGlob(rootPath, include)) {
+            if (folder && !excludes.some(exclude => exclude.test(folder))
+                && PACKAGE_MANIFESTS.some(manifest => fs.existsSync(path.join(rootPath, folder, manifest)))) {
+                folders.add(folder);
+            }
+        }
+    }
+    return Array.from(folders).sort();
+}
+
+/**
+ * Folders with an Nx project.json, searched below the root
+ */
+async function findNxProjects(rootPath: string): Promise<string[]> {
+    const projects: string[] = [];
+    const walk = async (relativeDir: string, depth: number) => {
+        for (const folder of await listFolders(path.join(rootPath, relativeDir))) {
+            const next = relativeDir ? `${relativeDir}/${folder}` : folder;
+            if (fs.existsSync(path.join(rootPath, next, 'project.json'))) {
+                projects.push(next);
+            }
+            if (depth < MAX_SEARCH_DEPTH) {
+                await walk(next, depth + 1);
+            }
+        }
+    };
+    await walk('', 1);
+    return projects.sort();
+}
+
+/**
+ * The files of a package folder, one level deep, for its manifest reader
+ */
+async function listPackageFiles(packagePath: string): Promise<ProjectFile[]> {
+    const files: ProjectFile[] = [];
+    const add = async (relativeDir: string, depth: number) => {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(path.join(packagePath, relativeDir), { withFileTypes: true });
+        } catch (e) {
+            return;
+        }
+        for (const entry of entries) {
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            files.push({
+                path: path.join(packagePath, relativePath),
+                relativePath,
+                name: entry.name,
+                extension: path.extname(entry.name).toLowerCase(),
+                isDirectory: entry.isDirectory()
+            });
+            if (entry.isDirectory() && depth < 1 && !entry.name.startsWith('.') && !SKIPPED_FOLDERS.has(entry.name)) {
+                await add(relativePath, depth + 1);
+            }
+        }
+    };
+    await add('', 0);
+    return files;
+}
+
+/**
+ * Name, version and description of a package folder from its manifest
+ */
+async function readPackage(rootPath: string, relativePath: string): Promise<WorkspacePackage> {
+    const packagePath = path.join(rootPath, relativePath);
+    const packageJson = await readJson(packagePath, 'package.json');
+    const nxProject = await readJson(packagePath, 'project.json');
+    const manifest: ProjectManifest | undefined = packageJson ? undefined : await collectManifest(packagePath, await listPackageFiles(packagePath));
+
+    return {
+        name: packageJson?.name || nxProject?.name || manifest?.name || path.basename(relativePath),
+        relativePath,
+        version: packageJson?.version || manifest?.version,
+        description: packageJson?.description || manifest?.description,
+        private: packageJson?.private === true || undefined,
+        manifestFile: packageJson ? 'package.json' : manifest?.sources[0] || (nxProject ? 'project.json' : PACKAGE_MANIFESTS.find(m => fs.existsSync(path.join(packagePath, m))) || '')
+    };
+}
+
+/**
+ * Detect a monorepo at the root and resolve its packages, or undefined if the project
+ * has no workspace configuration (or it matches no package)
+ */
+export async function collectMonorepo(
+    rootPath: string,
+    files: ProjectFile[],
+    packageJson: any | undefined,
+    manifest: ProjectManifest | undefined
+): Promise<MonorepoInfo | undefined> {
+    const rootFiles = new Set(files.filter(f => !f.isDirectory && !f.relativePath.includes(path.sep) && !f.relativePath.includes('/')).map(f => f.name));
+    const tools: WorkspaceTool[] = [];
+    const patterns: string[] = [];
+    const folders = new Set<string>();
+    const addPatterns = (tool: WorkspaceTool, added: unknown) => {
+        const valid = Array.isArray(added) ? added.filter((p): p is string => typeof p === 'string' && !!p.trim()) : [];
+        if (valid.length > 0) {
+            tools.push(tool);
+            patterns.push(...valid.filter(p => !patterns.includes(p)));
+        }
+    };
+
+    // npm, yarn and bun: "workspaces": [...] or { "packages": [...] }
+    const workspaces = Array.isArray(packageJson?.workspaces) ? packageJson.workspaces : packageJson?.workspaces?.packages;
+    addPatterns(rootFiles.has('yarn.lock') ? 'yarn' : rootFiles.has('bun.lockb') || rootFiles.has('bun.lock') ? 'bun' : 'npm', workspaces);
+
+    if (rootFiles.has('pnpm-workspace.yaml')) {
+        try {
+            const pnpmWorkspace = parseYaml(await fs.promises.readFile(path.join(rootPath, 'pnpm-workspace.yaml'), 'utf-8'));
+            addPatterns('pnpm', pnpmWorkspace?.packages);
+        } catch (e) {
+            // Ignore parse errors
+        }
+    }
+
+    if (rootFiles.has('lerna.json')) {
+        const lerna = await readJson(rootPath, 'lerna.json');
+        // Lerna defaults to packages/* unless it defers to the package manager's workspaces
+        addPatterns('lerna', lerna?.packages || (patterns.length === 0 ? ['packages/*'] : []));
+    }
+
+    // Cargo workspace members and go.work directories are read with the root manifest
+    if (manifest?.ecosystem === 'rust' || manifest?.ecosystem === 'go') {
+        addPatterns(manifest.ecosystem === 'rust' ? 'cargo' : 'go', manifest.workspaceMembers);
+    }
+
+    for (const folder of await resolveWorkspacePatterns(rootPath, patterns)) {
+        folders.add(folder);
+    }
+
+    // Nx finds projects by their project.json, with or without package manager workspaces
+    if (rootFiles.has('nx.json')) {
+        const nxProjects = await findNxProjects(rootPath);
+        if (nxProjects.length > 0 || folders.size > 0) {
+            tools.push('nx');
+        }
+        nxProjects.forEach(folder => folders.add(folder));
+    }
+
+    // Turborepo runs tasks across the package manager's workspaces
+    if (rootFiles.has('turbo.json') && folders.size > 0) {
+        tools.push('turborepo');
+    }
+
+    if (folders.size === 0) {
+        return undefined;
+    }
+
+    const packages: WorkspacePackage[] = [];
+    for (const folder of Array.from(folders).sort()) {
+        packages.push(await readPackage(rootPath, folder));
+    }
+    return { tools, patterns, packages };
+}
+
+/**
+ * Display names of the workspace tools, e.g. "pnpm workspaces, Turborepo"
+ */
+export function describeWorkspaceTools(monorepo: MonorepoInfo): string {
+    const names: Record<WorkspaceTool, string> = {
+        npm: 'npm workspaces',
+        yarn: 'Yarn workspaces',
+        pnpm: 'pnpm workspaces',
+        bun: 'Bun workspaces',
+        lerna: 'Lerna',
+        cargo: 'Cargo workspace',
+        go: 'Go workspace (go.work)',
+        nx: 'Nx',
+        turborepo: 'Turborepo'
+    };
+    return monorepo.tools.map(tool => names[tool]).join(', ');
+}
+
+/**
+ * Escape a value for a Markdown table cell
+ */
+function tableCell(value: string | undefined): string {
+    return (value || '').replace(/\r?\n/g, ' ').replace(/\|/g, '\\|').trim() || '-';
+}
+
+/**
+ * Render the package index table, wrapped in readme-gen:packages markers.
+ * Package names link to their folders.
+ */
+export function renderPackageIndex(monorepo: MonorepoInfo): string {
+    const rows = monorepo.packages.map(p => {
+        const description = [p.description, p.private ? '*(private)*' : undefined].filter(Boolean).join(' ');
+        return `| [\`${tableCell(p.name)}\`](${encodeURI(p.relativePath)}) | \`${p.relativePath}\` | ${tableCell(p.version)} | ${tableCell(description)} |`;
+    });
+    return `${PACKAGES_BLOCK_START}
+| Package | Path | Version | Description |
+|---------|------|---------|-------------|
+${rows.join('\n')}
+${PACKAGES_BLOCK_END}`;
+}
+
+/**
+ * Format the monorepo for the AI prompt: its tools and the rendered package index
+ */
+export function getMonorepoSummary(monorepo: MonorepoInfo | undefined): string {
+    if (!monorepo) {
+        return '';
+    }
+    return `Monorepo managed with ${describeWorkspaceTools(monorepo)}: ${monorepo.packages.length} package${monorepo.packages.length === 1 ? '' : 's'}
+Workspace patterns: ${monorepo.patterns.join(', ') || '(Nx project.json files)'}
+
+${renderPackageIndex(monorepo)}`;
+}
+
+/**
+ * Put the rendered index into a Packages section. The model's block between the markers
+ * is replaced; without markers, the model's own table (from the first table row or
+ * sub-heading on) is replaced and its introduction kept.
+ */
+export function applyPackageIndex(sectionMarkdown: string, monorepo: MonorepoInfo): string {
+    const rendered = renderPackageIndex(monorepo);
+    if (PACKAGES_BLOCK_PATTERN.test(sectionMarkdown)) {
+        return sectionMarkdown.replace(PACKAGES_BLOCK_PATTERN, () => rendered);
+    }
+
+    const lines = sectionMarkdown.split('\n');
+    const bodyStart = /^#{1,2}\s/.test(lines[0]) ? 1 : 0;
+    const indexStart = lines.findIndex((line, i) => i >= bodyStart && /^(#{3,}\s|\||```|~~~)/.test(line.trim()));
+    const intro = indexStart < 0 ? sectionMarkdown : lines.slice(0, indexStart).join('\n');
+    return `${intro.trimEnd()}\n\n${rendered}\n`;
+}
+
+/**
+ * Put the rendered index into the Packages section of a README (if it has one)
+ */
+export function injectPackageIndex(readme: string, monorepo: MonorepoInfo | undefined): string {
+    if (!monorepo) {
+        return readme;
+    }
+    const document = ReadmeDocument.parse(readme);
+    const section = document.find('packages');
+    if (!section) {
+        return readme;
+    }
+    return document.replace('packages', applyPackageIndex(section.raw, monorepo)).toString();
+}
@@ -0,0 +1,89 @@
+/**
+ * PHP Manifest Parser
+ * Reads composer.json into the common manifest model: package metadata,
+ * require / require-dev, vendor binaries and Composer scripts.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { ProjectFile } from './workspaceScanner';
+import { ProjectManifest, ManifestDependency } from './manifest';
+
+// Platform requirements (PHP extensions, system libraries, Composer itself) aren't packages
+const PLATFORM_PACKAGE = /^(php|hhvm|ext-.+|lib-.+|composer(-plugin|-runtime)?-api|composer)$/i;
+
+/**
+ * Parse a Composer requirement map ("vendor/package": "^1.0")
+ */
+function parseRequirements(value: unknown, dev: boolean): ManifestDependency[] {
+    if (!value || typeof value !== 'object') {
+        return [];
+    }
+    return Object.entries(value as Record<string, unknown>)
+        .filter(([name]) => !PLATFORM_PACKAGE.test(name))
+        .map(([name, version]) => ({ name, version: typeof version === 'string' ? version : undefined, dev }));
+}
+
+/**
+ * Composer scripts as single commands; a list of commands is joined with &&
+ */
+function parseScripts(value: unknown): Record<string, string> {
+    const scripts: Record<string, string> = {};
+    if (!value || typeof value !== 'object') {
+        return scripts;
+    }
+    for (const [name, command] of Object.entries(value as Record<string, unknown>)) {
+        if (typeof command === 'string') {
+            scripts[name] = command;
+        } else if (Array.isArray(command)) {
+            scripts[name] = command.filter(c => typeof c === 'string').join(' && ');
+        }
+    }
+    return scripts;
+}
+
+/**
+ * Read composer.json at the project root, or undefined if there is none
+ */
+export async function collectPhpManifest(rootPath: string, files: ProjectFile[]): Promise<ProjectManifest | undefined> {
+    const relativePaths = new Set(files.filter(f => !f.isDirectory).map(f => f.relativePath.replace(/\\/g, '/')));
+    if (!relativePaths.has('composer.json')) {
+        return undefined;
+    }
+
+    let composer: Record<string, any>;
+    try {
+        composer = JSON.parse(await fs.promises.readFile(path.join(rootPath, 'composer.json'), 'utf-8'));
+    } catch (e) {
+        // Unreadable or invalid composer.json
+        return undefined;
+    }
+
+    const require = composer.require && typeof composer.require === 'object' ? composer.require : {};
+    const bin: unknown[] = Array.isArray(composer.bin) ? composer.bin : (typeof composer.bin === 'string' ? [composer.bin] : []);
+    const license = Array.isArray(composer.license) ? composer.license.join(' OR ') : composer.license;
+    // Composer's default package type is "library"; applications usually say "project"
+    const type = typeof composer.type === 'string' ? composer.type : 'library';
+    const hasFrontController = relativePaths.has('artisan') || relativePaths.has('public/index.php');
+
+    return {
+        ecosystem: 'php',
+        sources: ['composer.json'],
+        // "vendor/package" -> "package"
+        name: typeof composer.name === 'string' ? composer.name.split('/').pop() : undefined,
+        version: typeof composer.version === 'string' ? composer.version : undefined,
+        description: typeof composer.description === 'string' ? composer.description : undefined,
+        license: typeof license === 'string' ? license : undefined,
+        runtimeVersion: typeof require.php === 'string' ? require.php : undefined,
+        dependencies: [
+            ...parseRequirements(composer.require, false),
+            ...parseRequirements(composer['require-dev'], true)
+        ],
+        entryPoints: bin
+            .filter((b): b is string => typeof b === 'string')
+            .map(b => ({ name: path.basename(b, '.php'), target: b })),
+        scripts: parseScripts(composer.scripts),
+        packageManager: 'composer',
+        library: type === 'library' && !hasFrontController
+    };
+}
@@ -0,0 +1,235 @@
+/**
+ * Project Snapshot
+ * Records what the README was generated from (dependencies, scripts, files,
+ * detected stack) so a later scan can tell which README sections went stale.
+ */
+
+import { ProjectInfo } from './workspaceScanner';
+import { DetectionResult } from './languageDetector';
+
+export interface ProjectSnapshot {
+    timestamp: number;
+    name: string;
+    description?: string;
+    version?: string;
+    license?: string;
+    dependencies: string[];
+    scripts: Record<string, string>;
+    engines: Record<string, string>;
+    files: string[];
+    languages: string[];
+    frameworks: string[];
+    packageManager: string | null;
+    buildTools: string[];
+    testFrameworks: string[];
+}
+
+export interface StaleSection {
+    // Template section id (see README_SECTIONS)
+    sectionId: string;
+    // Human-readable changes that make the section stale
+    reasons: string[];
+}
+
+// How deep the file layout is compared for the Project Structure section
+const STRUCTURE_DEPTH = 2;
+
+// Files whose appearance or removal affects one specific section
+const FILE_SECTION_RULES: Array<{ pattern: RegExp; sectionIds: string[] }> = [
+    { pattern: /(^|\/)(Dockerfile|docker-compose\.ya?ml|compose\.ya?ml|Procfile|vercel\.json|netlify\.toml|fly\.toml|app\.yaml)$/i, sectionIds: ['deployment'] },
+    { pattern: /(^|\/)\.github\/workflows\//, sectionIds: ['deployment'] },
+    { pattern: /(^|\/)\.env\.(example|sample|template)$/i, sectionIds: ['envvars', 'configuration'] },
+    { pattern: /^(LICENSE|LICENCE|COPYING)(\.\w+)?$/i, sectionIds: ['license'] },
+    { pattern: /^CONTRIBUTING(\.\w+)?$/i, sectionIds: ['contributing'] },
+    { pattern: /^CHANGELOG(\.\w+)?$/i, sectionIds: ['changelog'] }
+];
+
+// Scripts that belong to a section beyond installation/usage
+const SCRIPT_SECTION_RULES: Array<{ pattern: RegExp; sectionIds: string[] }> = [
+    { pattern: /test|spec|coverage|e2e/i, sectionIds: ['testing'] },
+    { pattern: /deploy|release|publish|docker/i, sectionIds: ['deployment'] }
+];
+
+/**
+ * Capture the parts of a scan that README sections are written from
+ */
+export function createProjectSnapshot(projectInfo: ProjectInfo, detection: DetectionResult): ProjectSnapshot {
+    const pkg = projectInfo.packageJson || {};
+    const manifest = projectInfo.manifest;
+
+    const toStringMap = (value: unknown): Record<string, string> => {
+        const map: Record<string, string> = {};
+        if (value && typeof value === 'object') {
+            for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+                map[key] = String(entry);
+            }
+        }
+        return map;
+    };
+
+    return {
+        timestamp: Date.now(),
+        name: pkg.name || projectInfo.name,
+        description: pkg.description || manifest?.description,
+        version: pkg.version || manifest?.version,
+        license: pkg.license || manifest?.license,
+        dependencies: Array.from(new Set([
+            ...Object.keys({ ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies }),
+            ...(manifest?.dependencies.map(d => d.name) || [])
+        ])).sort(),
+        scripts: toStringMap({ ...manifest?.scripts, ...pkg.scripts }),
+        engines: toStringMap(pkg.engines),
+        files: projectInfo.files
+            .filter(f => !f.isDirectory)
+            .map(f => f.relativePath.replace(/\\/g, '/'))
+            .sort(),
+        languages: detection.languages.map(l => l.name),
+        frameworks: detection.frameworks.map(f => f.name),
+        packageManager: detection.packageManager,
+        buildTools: [...detection.buildTools],
+        testFrameworks: [...detection.testFrameworks]
+    };
+}
+
+/**
+ * Format a list of names for a reason, shortening long lists
+ */
+function formatList(items: string[], max: number = 5): string {
+    const shown = items.slice(0, max).join(', ');
+    return items.length > max ? `${shown} and ${items.length - max} more` : shown;
+}
+
+/**
+ * Describe what was added to and removed from a list
+ */
+function describeListChange(label: string, previous: string[], current: string[]): string | null {
+    const added = current.filter(item => !previous.includes(item));
+    const removed = previous.filter(item => !current.includes(item));
+
+    const parts: string[] = [];
+    if (added.length > 0) {
+        parts.push(`added ${formatList(added)}`);
+    }
+    if (removed.length > 0) {
+        parts.push(`removed ${formatList(removed)}`);
+    }
+    return parts.length > 0 ? `${label}: ${parts.join('; ')}` : null;
+}
+
+/**
+ * Describe changed entries of a name -> value map
+ */
+function describeMapChange(label: string, previous: Record<string, string>, current: Record<string, string>): { reason: string; keys: string[] } | null {
+    const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(current)]));
+    const added = keys.filter(key => !(key in previous));
+    const removed = keys.filter(key => !(key in current));
+    const changed = keys.filter(key => key in previous && key in current && previous[key] !== current[key]);
+
+    const parts: string[] = [];
+    if (added.length > 0) {
+        parts.push(`added ${formatList(added)}`);
+    }
+    if (removed.length > 0) {
+        parts.push(`removed ${formatList(removed)}`);
+    }
+    if (changed.length > 0) {
+        parts.push(`changed ${formatList(changed)}`);
+    }
+
+    if (parts.length === 0) {
+        return null;
+    }
+    return { reason: `${label}: ${parts.join('; ')}`, keys: [...added, ...removed, ...changed] };
+}
+
+/**
+ * Compare two snapshots and work out which README sections no longer match the project.
+ * Sections are returned in the order their first change was found.
+ */
+export function findStaleSections(previous: ProjectSnapshot, current: ProjectSnapshot): StaleSection[] {
+    const stale = new Map<string, string[]>();
+
+    const mark = (sectionIds: string[], reason: string) => {
+        for (const sectionId of sectionIds) {
+            const reasons = stale.get(sectionId) || [];
+            if (!reasons.includes(reason)) {
+                reasons.push(reason);
+            }
+            stale.set(sectionId, reasons);
+        }
+    };
+
+    // Project identity
+    for (const field of ['name', 'description', 'version'] as const) {
+        if ((previous[field] || '') !== (current[field] || '')) {
+            mark(['title', 'description'], `${field} changed from "${previous[field] || ''}" to "${current[field] || ''}"`);
+        }
+    }
+    if ((previous.license || '') !== (current.license || '')) {
+        mark(['license', 'title'], `license changed from "${previous.license || 'none'}" to "${current.license || 'none'}"`);
+    }
+
+    // Dependencies and detected stack
+    const dependencies = describeListChange('Dependencies', previous.dependencies, current.dependencies);
+    if (dependencies) {
+        mark(['techstack'], dependencies);
+    }
+
+    const stack = [
+        describeListChange('Languages', previous.languages, current.languages),
+        describeListChange('Frameworks', previous.frameworks, current.frameworks),
+        describeListChange('Build tools', previous.buildTools, current.buildTools)
+    ];
+    for (const reason of stack) {
+        if (reason) {
+            mark(['techstack', 'prerequisites'], reason);
+        }
+    }
+
+    const testFrameworks = describeListChange('Test frameworks', previous.testFrameworks, current.testFrameworks);
+    if (testFrameworks) {
+        mark(['testing', 'techstack'], testFrameworks);
+    }
+
+    if (previous.packageManager !== current.packageManager) {
+        mark(['installation', 'prerequisites'], `Package manager changed from ${previous.packageManager || 'none'} to ${current.packageManager || 'none'}`);
+    }
+
+    const engines = describeMapChange('Engines', previous.engines, current.engines);
+    if (engines) {
+        mark(['prerequisites'], engines.reason);
+    }
+
+    // Scripts
+    const scripts = describeMapChange('Scripts', previous.scripts, current.scripts);
+    if (scripts) {
+        mark(['installation', 'usage'], scripts.reason);
+        for (const rule of SCRIPT_SECTION_RULES) {
+            if (scripts.keys.some(key => rule.pattern.test(key))) {
+                mark(rule.sectionIds, scripts.reason);
+            }
+        }
+    }
+
+    // Files
+    for (const rule of FILE_SECTION_RULES) {
+        const change = describeListChange(
+            'Files',
+            previous.files.filter(file => rule.pattern.test(file)),
+            current.files.filter(file => rule.pattern.test(file))
+        );
+        if (change) {
+            mark(rule.sectionIds, change);
+        }
+    }
+
+    const layout = (files: string[]) => Array.from(new Set(
+        files.map(file => file.split('/').slice(0, STRUCTURE_DEPTH).join('/'))
+    ));
+    const structure = describeListChange('Project layout', layout(previous.files), layout(current.files));
+    if (structure) {
+        mark(['structure'], structure);
+    }
+
+    return Array.from(stale.entries()).map(([sectionId, reasons]) => ({ sectionId, reasons }));
+}
@@ -5,6 +5,7 @@
 
 import { ProjectInfo } from './workspaceScanner';
 import { DetectionResult } from './languageDetector';
+import { describeWorkspaceTools } from './monorepo';
 
 export type ProjectType = 
     | 'web-app'
@@ -35,6 +36,17 @@ export function detectProjectType(
     const frameworks = detection.frameworks;
     const files = projectInfo.files;
     
+    // Workspace configuration that resolved to packages
+    if (projectInfo.monorepo) {
+        const packageCount = projectInfo.monorepo.packages.length;
+        return {
+            type: 'monorepo',
+            displayName: 'Monorepo',
+            confidence: 0.95,
+            reason: `${describeWorkspaceTools(projectInfo.monorepo)} with ${packageCount} package${packageCount === 1 ? '' : 's'}`
+        };
+    }
+    
     // Check for monorepo indicators
     const hasWorkspaces = pkg?.workspaces || 
         files.some(f => f.name === 'lerna.json' || f.name === 'pnpm-workspace.yaml');
@@ -124,7 +136,11 @@ export function detectProjectType(
     const hasFrontendFramework = frameworks.some(f => frontendFrameworks.includes(f.name));
     
     // Check for backend frameworks
-    const backendFrameworks = ['Express.js', 'Fastify', 'NestJS', 'Django', 'Flask', 'FastAPI', 'Spring Boot'];
+    const backendFrameworks = [
+        'Express.js', 'Fastify', 'NestJS', 'Django', 'Flask', 'FastAPI', 'Spring Boot',
+        'ASP.NET Core', 'Laravel', 'Symfony', 'Ruby on Rails', 'Sinatra', 'Vapor',
+        'Actix Web', 'Axum', 'Rocket', 'Gin', 'Echo', 'Fiber'
+    ];
     const hasBackendFramework = frameworks.some(f => backendFrameworks.includes(f.name));
     
     if (hasFrontendFramework && hasBackendFramework) {
@@ -154,6 +170,27 @@ export function detectProjectType(
         };
     }
     
+    // Check the manifests of other ecosystems: installed commands make a CLI tool,
+    // a published package without them a library
+    const manifest = projectInfo.manifest;
+    if (manifest && manifest.entryPoints.length > 0 && ['python', 'ruby', 'php', 'dart'].includes(manifest.ecosystem)) {
+        return {
+            type: 'cli',
+            displayName: 'CLI Tool',
+            confidence: 0.75,
+            reason: `Installs commands: ${manifest.entryPoints.map(e => e.name).slice(0, 3).join(', ')}`
+        };
+    }
+    
+    if (manifest?.library) {
+        return {
+            type: 'library',
+            displayName: 'Library/Package',
+            confidence: 0.75,
+            reason: `Manifest publishes a library (${manifest.sources.join(', ')})`
+        };
+    }
+    
     // Check file structure
     const hasPublicFolder = files.some(f => f.name === 'public' && f.isDirectory);
     const hasSrcFolder = files.some(f => f.name === 'src' && f.isDirectory);
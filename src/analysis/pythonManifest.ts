@@ -0,0 +1,437 @@
+/**
+ * Python Manifest Parser
+ * Reads pyproject.toml (PEP 621 [project], Poetry, PDM, Hatch and uv tables),
+ * setup.cfg, setup.py, Pipfile and requirements*.txt into the common manifest
+ * model. setup.py is only read for literal keyword arguments; it is never run.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { parse as parseToml } from 'smol-toml';
+import { ProjectFile } from './workspaceScanner';
+import { ProjectManifest, ManifestDependency, ManifestEntryPoint, normalizePackageName } from './manifest';
+
+// The parts of a manifest one file contributes
+type PartialManifest = Partial<Omit<ProjectManifest, 'ecosystem' | 'sources'>>;
+
+// Dependency groups and extras that are only for development
+const DEV_GROUP = /^(dev|develop|development|test|tests|testing|lint|linting|docs?|typing|types|style|check|ci)$/i;
+
+// requirements.txt, requirements-dev.txt, requirements/base.txt, ...
+const REQUIREMENTS_FILE = /^requirements([-_.][\w.-]+)?\.txt$|^requirements\/[\w.-]+\.txt$/i;
+const DEV_REQUIREMENTS_FILE = /dev|test|lint|doc|ci/i;
+
+// "requests[socks] >= 2.0 ; python_version < '3.8'" -> name and version requirement
+const REQUIREMENT_PATTERN = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*\(?\s*([^;@)]*?)\s*\)?\s*(?:@\s*\S+)?\s*(?:;.*)?$/;
+
+// License classifier: "License :: OSI Approved :: MIT License"
+const LICENSE_CLASSIFIER = /^License :: (?:OSI Approved :: )?(.+?)(?: License)?$/;
+
+/**
+ * Read a file relative to the project root, or undefined if it isn't there
+ */
+async function readText(rootPath: string, relativePath: string): Promise<string | undefined> {
+    try {
+        return await fs.promises.readFile(path.join(rootPath, relativePath), 'utf-8');
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Whether a file exists at the project root (lockfiles are left out of the scan)
+ */
+function existsAtRoot(rootPath: string, name: string): boolean {
+    return fs.existsSync(path.join(rootPath, name));
+}
+
+/**
+ * A table of a parsed TOML document, or an empty object
+ */
+function table(value: unknown): Record<string, any> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : {};
+}
+
+/**
+ * A string value, or undefined for anything else
+ */
+function text(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Parse a PEP 508 requirement string
+ */
+function parseRequirement(requirement: string, dev: boolean, group?: string): ManifestDependency | undefined {
+    const match = requirement.match(REQUIREMENT_PATTERN);
+    if (!match) {
+        return undefined;
+    }
+    return { name: match[1], version: match[2] || undefined, dev, group };
+}
+
+/**
+ * Parse a list of PEP 508 requirement strings
+ */
+function parseRequirementList(value: unknown, dev: boolean, group?: string): ManifestDependency[] {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    return value
+        .filter((entry): entry is string => typeof entry === 'string')
+        .map(entry => parseRequirement(entry, dev, group))
+        .filter((d): d is ManifestDependency => !!d);
+}
+
+/**
+ * Parse a Poetry or Pipfile dependency table (name = "^1.0" or name = { version = "^1.0", ... })
+ */
+function parseDependencyTable(value: unknown, dev: boolean, group?: string): ManifestDependency[] {
+    return Object.entries(table(value))
+        .filter(([name]) => name.toLowerCase() !== 'python')
+        .map(([name, spec]) => {
+            const version = typeof spec === 'string' ? spec : text(table(spec).version);
+            return { name, version: version && version !== '*' ? version : undefined, dev, group };
+        });
+}
+
+/**
+ * Entry points from a name -> target table (values may be tables with callable/reference)
+ */
+function parseEntryPointTable(value: unknown): ManifestEntryPoint[] {
+    return Object.entries(table(value))
+        .map(([name, target]) => ({ name, target: typeof target === 'string' ? target : text(table(target).callable) || text(table(target).reference) || '' }))
+        .filter(entry => entry.target);
+}
+
+/**
+ * Task runner scripts: strings, arrays of commands or tables with cmd/shell/call/composite
+ */
+function parseScriptTable(value: unknown): Record<string, string> {
+    const scripts: Record<string, string> = {};
+    for (const [name, script] of Object.entries(table(value))) {
+        if (name.startsWith('_')) {
+            continue;
+        }
+        const spec = table(script);
+        const command = typeof script === 'string' ? script
+            : Array.isArray(script) ? script.filter(s => typeof s === 'string').join(' && ')
+            : text(spec.cmd) || text(spec.shell) || (text(spec.call) && `python -c "${spec.call}"`) || (Array.isArray(spec.composite) ? spec.composite.join(' && ') : undefined)
+                || (Array.isArray(spec.cmd) ? spec.cmd.join(' ') : undefined);
+        if (command) {
+            scripts[name] = command;
+        }
+    }
+    return scripts;
+}
+
+/**
+ * License from a PEP 621 / Poetry license field or the trove classifiers
+ */
+function parseLicense(license: unknown, classifiers: unknown): string | undefined {
+    const direct = text(license) || text(table(license).text);
+    if (direct && !direct.includes('\n')) {
+        return direct;
+    }
+    if (Array.isArray(classifiers)) {
+        for (const classifier of classifiers) {
+            const match = typeof classifier === 'string' ? classifier.match(LICENSE_CLASSIFIER) : null;
+            if (match) {
+                return match[1];
+            }
+        }
+    }
+    return undefined;
+}
+
+// ============================================================================
+// PYPROJECT.TOML
+// ============================================================================
+
+/**
+ * Read pyproject.toml: the PEP 621 [project] table first, then tool tables
+ */
+function parsePyproject(content: string): PartialManifest & { tools: string[] } {
+    const data = table(parseToml(content));
+    const project = table(data.project);
+    const tool = table(data.tool);
+    const poetry = table(tool.poetry);
+    const pdm = table(tool.pdm);
+    const hatch = table(tool.hatch);
+    const uv = table(tool.uv);
+
+    const dependencies: ManifestDependency[] = [
+        ...parseRequirementList(project.dependencies, false),
+        ...Object.entries(table(project['optional-dependencies']))
+            .flatMap(([group, list]) => parseRequirementList(list, DEV_GROUP.test(group), group)),
+        // PEP 735 dependency groups
+        ...Object.entries(table(data['dependency-groups']))
+            .flatMap(([group, list]) => parseRequirementList(list, true, group)),
+        ...parseDependencyTable(poetry.dependencies, false),
+        ...parseDependencyTable(poetry['dev-dependencies'], true),
+        ...Object.entries(table(poetry.group))
+            .flatMap(([group, settings]) => parseDependencyTable(table(settings).dependencies, group !== 'main', group)),
+        ...Object.entries(table(pdm['dev-dependencies']))
+            .flatMap(([group, list]) => parseRequirementList(list, true, group)),
+        ...parseRequirementList(uv['dev-dependencies'], true)
+    ];
+
+    const hatchEnvs = table(hatch.envs);
+    const scripts = {
+        ...parseScriptTable(table(hatchEnvs.default).scripts),
+        ...parseScriptTable(pdm.scripts),
+        ...parseScriptTable(table(tool.poe).tasks)
+    };
+
+    const tools = [
+        ...(Object.keys(poetry).length > 0 ? ['poetry'] : []),
+        ...(Object.keys(pdm).length > 0 ? ['pdm'] : []),
+        ...(Object.keys(uv).length > 0 ? ['uv'] : []),
+        ...(Object.keys(hatchEnvs).length > 0 ? ['hatch'] : [])
+    ];
+
+    return {
+        name: text(project.name) || text(poetry.name),
+        version: text(project.version) || text(poetry.version),
+        description: text(project.description) || text(poetry.description),
+        license: parseLicense(project.license, project.classifiers) || parseLicense(poetry.license, poetry.classifiers),
+        runtimeVersion: text(project['requires-python']) || text(table(poetry.dependencies).python),
+        dependencies,
+        entryPoints: [
+            ...parseEntryPointTable(project.scripts),
+            ...parseEntryPointTable(project['gui-scripts']),
+            ...parseEntryPointTable(poetry.scripts)
+        ],
+        scripts,
+        tools
+    };
+}
+
+// ============================================================================
+// SETUP.CFG AND SETUP.PY
+// ============================================================================
+
+/**
+ * Read an INI file into sections of keys; indented lines continue the previous value
+ */
+function parseIni(content: string): Map<string, Map<string, string>> {
+    const sections = new Map<string, Map<string, string>>();
+    let current: Map<string, string> | undefined;
+    let key: string | undefined;
+
+    for (const line of content.split(/\r?\n/)) {
+        if (/^\s*[#;]/.test(line) || !line.trim()) {
+            continue;
+        }
+        const section = line.match(/^\[([^\]]+)\]\s*$/);
+        if (section) {
+            current = new Map();
+            sections.set(section[1].trim(), current);
+            key = undefined;
+            continue;
+        }
+        if (!current) {
+            continue;
+        }
+        if (/^\s/.test(line) && key) {
+            current.set(key, `${current.get(key)}\n${line.trim()}`);
+            continue;
+        }
+        const entry = line.match(/^([^=:]+?)\s*[=:]\s*(.*)$/);
+        if (entry) {
+            key = entry[1].trim();
+            current.set(key, entry[2].trim());
+        }
+    }
+    return sections;
+}
+
+/**
+ * Lines of a multi-line INI value
+ */
+function iniList(value: string | undefined): string[] {
+    return (value || '').split('\n').map(v => v.trim()).filter(v => v && !v.startsWith('#'));
+}
+
+/**
+ * Read setup.cfg [metadata], [options], extras and console_scripts
+ */
+function parseSetupCfg(content: string): PartialManifest {
+    const sections = parseIni(content);
+    const metadata = sections.get('metadata') || new Map<string, string>();
+    const options = sections.get('options') || new Map<string, string>();
+    const extras = sections.get('options.extras_require') || new Map<string, string>();
+    const entryPoints = sections.get('options.entry_points') || new Map<string, string>();
+
+    const literal = (value: string | undefined) => value && !value.startsWith('attr:') && !value.startsWith('file:') ? value : undefined;
+
+    return {
+        name: literal(metadata.get('name')),
+        version: literal(metadata.get('version')),
+        description: literal(metadata.get('description')),
+        license: literal(metadata.get('license')) || parseLicense(undefined, iniList(metadata.get('classifiers'))),
+        runtimeVersion: options.get('python_requires'),
+        dependencies: [
+            ...iniList(options.get('install_requires')).map(r => parseRequirement(r, false)),
+            ...Array.from(extras.entries()).flatMap(([group, list]) => iniList(list).map(r => parseRequirement(r, DEV_GROUP.test(group), group)))
+        ].filter((d): d is ManifestDependency => !!d),
+        entryPoints: iniList(entryPoints.get('console_scripts'))
+            .map(line => line.match(/^([\w.-]+)\s*=\s*(.+)$/))
+            .filter((m): m is RegExpMatchArray => !!m)
+            .map(m => ({ name: m[1], target: m[2].trim() })),
+        scripts: {}
+    };
+}
+
+/**
+ * Strings in a Python list literal
+ */
+function pythonStrings(list: string | undefined): string[] {
+    return Array.from((list || '').matchAll(/(['"])((?:(?!\1).)*)\1/g), m => m[2]);
+}
+
+/**
+ * Read literal keyword arguments of setup() in setup.py
+ */
+function parseSetupPy(content: string): PartialManifest {
+    const start = content.search(/\bsetup\s*\(/);
+    const call = start >= 0 ? content.substring(start) : '';
+    const keyword = (name: string) => call.match(new RegExp(`\\b${name}\\s*=\\s*(['"])((?:(?!\\1).)*)\\1`))?.[2];
+    const list = (name: string) => call.match(new RegExp(`\\b${name}\\s*=\\s*\\[([^\\]]*)\\]`))?.[1];
+    const consoleScripts = call.match(/['"]console_scripts['"]\s*:\s*\[([^\]]*)\]/)?.[1];
+
+    return {
+        name: keyword('name'),
+        version: keyword('version'),
+        description: keyword('description'),
+        license: keyword('license'),
+        runtimeVersion: keyword('python_requires'),
+        dependencies: pythonStrings(list('install_requires'))
+            .map(r => parseRequirement(r, false))
+            .filter((d): d is ManifestDependency => !!d),
+        entryPoints: pythonStrings(consoleScripts)
+            .map(line => line.match(/^([\w.-]+)\s*=\s*(.+)$/))
+            .filter((m): m is RegExpMatchArray => !!m)
+            .map(m => ({ name: m[1], target: m[2].trim() })),
+        scripts: {}
+    };
+}
+
+// ============================================================================
+// PIPFILE AND REQUIREMENTS
+// ============================================================================
+
+/**
+ * Read Pipfile [packages], [dev-packages], [requires] and [scripts]
+ */
+function parsePipfile(content: string): PartialManifest {
+    const data = table(parseToml(content));
+    const requires = table(data.requires);
+    return {
+        runtimeVersion: text(requires.python_full_version) || text(requires.python_version),
+        dependencies: [
+            ...parseDependencyTable(data.packages, false),
+            ...parseDependencyTable(data['dev-packages'], true)
+        ],
+        entryPoints: [],
+        scripts: parseScriptTable(data.scripts)
+    };
+}
+
+/**
+ * Read a requirements file; options, includes and URLs without a name are skipped
+ */
+function parseRequirementsTxt(content: string, dev: boolean): ManifestDependency[] {
+    return content.split(/\r?\n/)
+        .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+        .filter(line => line && !line.startsWith('-') && !/^[a-z+]+:\/\//i.test(line))
+        .map(line => parseRequirement(line, dev))
+        .filter((d): d is ManifestDependency => !!d);
+}
+
+// ============================================================================
+// COLLECTION
+// ============================================================================
+
+/**
+ * Tool the dependencies are installed with: lockfiles first, then tool tables
+ */
+function detectPythonPackageManager(rootPath: string, tools: string[], hasPipfile: boolean): string {
+    if (existsAtRoot(rootPath, 'uv.lock')) return 'uv';
+    if (existsAtRoot(rootPath, 'poetry.lock')) return 'poetry';
+    if (existsAtRoot(rootPath, 'pdm.lock')) return 'pdm';
+    if (existsAtRoot(rootPath, 'Pipfile.lock') || hasPipfile) return 'pipenv';
+    return tools[0] || 'pip';
+}
+
+/**
+ * Read the Python manifests at the project root, or undefined if there are none
+ */
+export async function collectPythonManifest(rootPath: string, files: ProjectFile[]): Promise<ProjectManifest | undefined> {
+    const rootFiles = new Set(files.filter(f => !f.isDirectory).map(f => f.relativePath.replace(/\\/g, '/')));
+    const sources: string[] = [];
+    const parts: PartialManifest[] = [];
+    let tools: string[] = [];
+
+    const read = async (name: string, parse: (content: string) => PartialManifest) => {
+        if (!rootFiles.has(name)) {
+            return;
+        }
+        const content = await readText(rootPath, name);
+        if (content === undefined) {
+            return;
+        }
+        try {
+            parts.push(parse(content));
+            sources.push(name);
+        } catch (e) {
+            // Ignore parse errors; the other manifests are still read
+        }
+    };
+
+    await read('pyproject.toml', content => {
+        const pyproject = parsePyproject(content);
+        tools = pyproject.tools;
+        return pyproject;
+    });
+    await read('setup.cfg', parseSetupCfg);
+    await read('setup.py', parseSetupPy);
+    await read('Pipfile', parsePipfile);
+
+    const requirementsFiles = Array.from(rootFiles).filter(f => REQUIREMENTS_FILE.test(f)).sort();
+    for (const name of requirementsFiles) {
+        await read(name, content => ({ dependencies: parseRequirementsTxt(content, DEV_REQUIREMENTS_FILE.test(name)) }));
+    }
+
+    if (sources.length === 0) {
+        return undefined;
+    }
+
+    // The first manifest that sets a field wins; dependencies are merged without duplicates
+    const first = <K extends keyof PartialManifest>(key: K) => parts.map(p => p[key]).find(value => value !== undefined && value !== '') as PartialManifest[K];
+    const seen = new Set<string>();
+    const dependencies = parts.flatMap(p => p.dependencies || []).filter(d => {
+        const key = `${normalizePackageName(d.name)}:${d.dev}`;
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+    // A package listed for runtime isn't repeated as a dev dependency
+    const runtime = new Set(dependencies.filter(d => !d.dev).map(d => normalizePackageName(d.name)));
+
+    return {
+        ecosystem: 'python',
+        sources,
+        name: first('name'),
+        version: first('version'),
+        description: first('description'),
+        license: first('license'),
+        runtimeVersion: first('runtimeVersion'),
+        dependencies: dependencies.filter(d => !d.dev || !runtime.has(normalizePackageName(d.name))),
+        entryPoints: parts.flatMap(p => p.entryPoints || []).filter((e, i, all) => all.findIndex(o => o.name === e.name) === i),
+        scripts: Object.assign({}, ...parts.map(p => p.scripts || {}).reverse()),
+        packageManager: detectPythonPackageManager(rootPath, tools, sources.includes('Pipfile'))
+    };
+}
@@ -0,0 +1,434 @@
+/**
+ * README Linter
+ * Cross-checks an existing README against the current project scan and
+ * reports references that no longer hold: scripts that aren't in package.json,
+ * directories in the Project Structure tree that don't exist, badges for
+ * removed dependencies and a license that doesn't match package.json.
+ */
+
+import { ProjectInfo } from './workspaceScanner';
+import { DetectionResult } from './languageDetector';
+import { ReadmeDocument } from '../generator/readmeDocument';
+import { getDependencyBadgeKey, isBadgeKeyDetected } from '../generator/badgeGenerator';
+
+export type ReadmeIssueCode = 'unknown-script' | 'missing-directory' | 'stale-badge' | 'license-mismatch';
+
+export interface ReadmeRange {
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+}
+
+export interface ReadmeFix {
+    title: string;
+    range: ReadmeRange;
+    newText: string;
+}
+
+export interface ReadmeIssue {
+    code: ReadmeIssueCode;
+    message: string;
+    // The script command, folder, badge label or license the issue is about
+    subject: string;
+    range: ReadmeRange;
+    // Section the reference is in (ReadmeDocumentSection.id), so it can be regenerated
+    sectionId?: string;
+    sectionName?: string;
+    // Edit that removes or corrects the reference
+    fix?: ReadmeFix;
+}
+
+export interface ReadmeLine {
+    text: string;
+    index: number;
+    inCodeBlock: boolean;
+    // Info string of the code block the line is in (e.g. "bash"), lowercased
+    codeLanguage?: string;
+    sectionId?: string;
+    sectionName?: string;
+    // Template section id of the section the line is in
+    templateSectionId?: string;
+}
+
+// Package manager subcommands that are not package.json scripts
+const PACKAGE_MANAGER_COMMANDS = new Set([
+    'add', 'audit', 'bin', 'cache', 'ci', 'config', 'create', 'dedupe', 'dlx', 'env', 'exec',
+    'global', 'help', 'i', 'import', 'info', 'init', 'install', 'link', 'list', 'login', 'logout',
+    'ls', 'outdated', 'pack', 'patch', 'prune', 'publish', 'rebuild', 'remove', 'rm', 'set', 'store',
+    'unlink', 'up', 'update', 'upgrade', 'version', 'why', 'workspace', 'workspaces', 'x'
+]);
+
+// npm commands that run a package.json script without "run"
+const NPM_SCRIPT_SHORTCUTS = new Set(['start', 'test', 'stop', 'restart']);
+
+const SCRIPT_COMMAND_PATTERN = /\b(npm|pnpm|yarn|bun)\s+(?:(run(?:-script)?)\s+)?([A-Za-z0-9_][\w:.\-]*)/g;
+const INLINE_CODE_PATTERN = /(`+)([^`]+?)\1/g;
+const BADGE_PATTERN = /\[!\[([^\]]*)\]\(([^)\s]+)[^)]*\)\]\([^)]*\)|!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g;
+const LICENSE_PATTERN = /\b(MIT|ISC|Apache(?:[- ]License)?[- ]v?(?:ersion )?2\.0|(?:A|L)?GPL[- ]?v?[23](?:\.0)?(?:[- ](?:only|or[- ]later))?|BSD[- ][023][- ]Clause|MPL[- ]2\.0|Unlicense|CC0[- ]1\.0)\b/i;
+
+/**
+ * Lint a README against the project. pathExists is asked about directories
+ * relative to the project root.
+ */
+export function lintReadme(
+    markdown: string,
+    projectInfo: ProjectInfo,
+    detection: DetectionResult,
+    pathExists: (relativePath: string) => boolean
+): ReadmeIssue[] {
+    const lines = splitReadmeLines(markdown);
+
+    return [
+        ...checkScripts(lines, projectInfo),
+        ...checkProjectStructure(lines, pathExists),
+        ...checkBadges(lines, projectInfo, detection),
+        ...checkLicense(lines, projectInfo)
+    ];
+}
+
+/**
+ * Split a README into lines, tagged with their section and whether they are inside a code block
+ */
+export function splitReadmeLines(markdown: string): ReadmeLine[] {
+    const texts = markdown.split(/\r?\n/);
+    const lines: ReadmeLine[] = [];
+
+    // First line of every section
+    const starts: Array<{ line: number; id: string; name: string; templateId: string }> = [];
+    let line = 0;
+    for (const section of ReadmeDocument.parse(markdown).sections) {
+        starts.push({ line, id: section.id, name: section.heading || section.section.name, templateId: section.section.id });
+        line += (section.raw.match(/\n/g) || []).length;
+    }
+
+    let fence: string | null = null;
+    let language = '';
+    let sectionIndex = -1;
+    texts.forEach((text, index) => {
+        while (sectionIndex + 1 < starts.length && starts[sectionIndex + 1].line <= index) {
+            sectionIndex++;
+        }
+        const section = sectionIndex >= 0 ? starts[sectionIndex] : undefined;
+
+        const match = text.match(/^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/);
+        const marker = match?.[1];
+        const isFence = !!marker && (fence === null || marker[0] === fence[0] && marker.length >= fence.length);
+        const inCodeBlock = fence !== null && !isFence;
+
+        lines.push({
+            text,
+            index,
+            inCodeBlock,
+            codeLanguage: inCodeBlock ? language : undefined,
+            sectionId: section?.id,
+            sectionName: section?.name,
+            templateSectionId: section?.templateId
+        });
+
+        if (isFence) {
+            fence = fence === null ? marker! : null;
+            language = fence !== null ? match![2].toLowerCase() : '';
+        }
+    });
+
+    return lines;
+}
+
+/**
+ * Range covering a whole line including its line break
+ */
+function wholeLine(line: ReadmeLine): ReadmeRange {
+    return { startLine: line.index, startColumn: 0, endLine: line.index + 1, endColumn: 0 };
+}
+
+/**
+ * Range within one line
+ */
+function inLine(line: ReadmeLine, start: number, end: number): ReadmeRange {
+    return { startLine: line.index, startColumn: start, endLine: line.index, endColumn: end };
+}
+
+/**
+ * Issue fields that locate the reference's section
+ */
+function sectionOf(line: ReadmeLine): Pick<ReadmeIssue, 'sectionId' | 'sectionName'> {
+    return { sectionId: line.sectionId, sectionName: line.sectionName };
+}
+
+// ============================================================================
+// SCRIPTS
+// ============================================================================
+
+/**
+ * Find `npm run foo`-style commands for scripts that aren't in package.json.
+ * Only code blocks and inline code are checked, prose is left alone.
+ */
+function checkScripts(lines: ReadmeLine[], projectInfo: ProjectInfo): ReadmeIssue[] {
+    const pkg = projectInfo.packageJson;
+    if (!pkg) {
+        return [];
+    }
+
+    const scripts = Object.keys(pkg.scripts || {});
+    const hasServerJs = projectInfo.files.some(f => f.relativePath === 'server.js');
+    const issues: ReadmeIssue[] = [];
+
+    const isMissingScript = (manager: string, run: string | undefined, name: string): boolean => {
+        if (scripts.includes(name)) {
+            return false;
+        }
+        if (run) {
+            // "bun run" also runs files
+            return !(manager === 'bun' && /[./]/.test(name));
+        }
+        if (manager === 'npm') {
+            // "npm start" falls back to node server.js
+            return NPM_SCRIPT_SHORTCUTS.has(name) && !(name === 'start' && hasServerJs);
+        }
+        // "bun test" and "bun build" are built in, so bun scripts are only checked with "run"
+        return manager !== 'bun' && !PACKAGE_MANAGER_COMMANDS.has(name);
+    };
+
+    // Check one piece of code, starting at column offset within the line
+    const checkCode = (line: ReadmeLine, code: string, offset: number, removal: ReadmeRange) => {
+        for (const match of code.matchAll(SCRIPT_COMMAND_PATTERN)) {
+            const [command, manager, run] = match;
+            const name = match[3].replace(/[.:-]+$/, '');
+            if (!isMissingScript(manager, run, name)) {
+                continue;
+            }
+
+            const start = offset + (match.index ?? 0);
+            issues.push({
+                code: 'unknown-script',
+                subject: command,
+                message: `"${name}" is not a script in package.json${scripts.length > 0 ? ` (available: ${scripts.slice(0, 8).join(', ')})` : ''}`,
+                range: inLine(line, start, start + command.length),
+                ...sectionOf(line),
+                fix: { title: `Remove \`${command.trim()}\``, range: removal, newText: '' }
+            });
+        }
+    };
+
+    for (const line of lines) {
+        if (line.inCodeBlock) {
+            checkCode(line, line.text, 0, wholeLine(line));
+            continue;
+        }
+
+        for (const match of line.text.matchAll(INLINE_CODE_PATTERN)) {
+            const start = match.index ?? 0;
+            checkCode(line, match[2], start + match[1].length, inLine(line, start, start + match[0].length));
+        }
+    }
+
+    return issues;
+}
+
+// ============================================================================
+// PROJECT STRUCTURE
+// ============================================================================
+
+/**
+ * Check the directories listed in the Project Structure tree.
+ * Works with `tree` output (├── │ └──), ASCII trees (|-- `--) and plain indentation.
+ */
+function checkProjectStructure(lines: ReadmeLine[], pathExists: (relativePath: string) => boolean): ReadmeIssue[] {
+    const issues: ReadmeIssue[] = [];
+
+    // Entries of each code block in the structure section
+    const blocks: Array<Array<{ line: ReadmeLine; indent: number; name: string; isDirectory: boolean }>> = [];
+    let current: typeof blocks[number] | null = null;
+
+    for (const line of lines) {
+        if (line.templateSectionId !== 'structure' || !line.inCodeBlock) {
+            current = null;
+            continue;
+        }
+        if (!current) {
+            current = [];
+            blocks.push(current);
+        }
+
+        const match = line.text.match(/^([\s│├└─|`+\-]*)(\S+)/);
+        if (!match) {
+            continue;
+        }
+        const name = match[2];
+        // Placeholders and patterns can't be checked
+        if (/^\.{2,}$|…|[*<>{}]/.test(name)) {
+            continue;
+        }
+        current.push({ line, indent: match[1].length, name: name.replace(/\/$/, ''), isDirectory: name.endsWith('/') });
+    }
+
+    for (const entries of blocks) {
+        // An entry with children is a directory even without a trailing slash
+        entries.forEach((entry, i) => {
+            if (i + 1 < entries.length && entries[i + 1].indent > entry.indent) {
+                entry.isDirectory = true;
+            }
+        });
+
+        // A single top-level entry wrapping everything is the project folder itself
+        let rest = entries;
+        if (entries.length > 1 && entries.slice(1).every(e => e.indent > entries[0].indent)) {
+            rest = entries.slice(1);
+        }
+
+        const parents: Array<{ indent: number; name: string }> = [];
+        for (const entry of rest) {
+            while (parents.length > 0 && parents[parents.length - 1].indent >= entry.indent) {
+                parents.pop();
+            }
+
+            const relativePath = [...parents.map(p => p.name), entry.name].join('/');
+            if (entry.isDirectory) {
+                parents.push({ indent: entry.indent, name: entry.name });
+
+                if (entry.name !== '.' && !pathExists(relativePath)) {
+                    const start = entry.line.text.indexOf(entry.name, entry.indent);
+                    issues.push({
+                        code: 'missing-directory',
+                        subject: `${relativePath}/`,
+                        message: `Directory "${relativePath}/" in the project structure doesn't exist`,
+                        range: inLine(entry.line, start, start + entry.name.length),
+                        ...sectionOf(entry.line),
+                        fix: { title: `Remove "${relativePath}/" from the tree`, range: wholeLine(entry.line), newText: '' }
+                    });
+                }
+            }
+        }
+    }
+
+    return issues;
+}
+
+// ============================================================================
+// BADGES
+// ============================================================================
+
+/**
+ * Get the label of a badge: the shields.io label if there is one, otherwise the alt text
+ */
+function getBadgeLabel(alt: string, url: string): string {
+    const shields = url.match(/img\.shields\.io\/badge\/([^?]+)/)?.[1];
+    if (shields) {
+        // shields.io: "--" is a dash, "__" an underscore and "_" a space; the label is everything before the first lone "-"
+        const label = shields.split(/(?<!-)-(?!-)/)[0].replace(/--/g, '-').replace(/__/g, '\u0000').replace(/_/g, ' ').replace(/\u0000/g, '_');
+        try {
+            return decodeURIComponent(label);
+        } catch {
+            return label;
+        }
+    }
+    return alt;
+}
+
+/**
+ * Find badges for dependencies the project no longer has
+ */
+function checkBadges(lines: ReadmeLine[], projectInfo: ProjectInfo, detection: DetectionResult): ReadmeIssue[] {
+    if (!projectInfo.packageJson) {
+        return [];
+    }
+
+    const issues: ReadmeIssue[] = [];
+    for (const line of lines) {
+        if (line.inCodeBlock) {
+            continue;
+        }
+
+        for (const match of line.text.matchAll(BADGE_PATTERN)) {
+            const alt = match[1] ?? match[3];
+            const url = match[2] ?? match[4];
+            const label = getBadgeLabel(alt, url);
+            const key = getDependencyBadgeKey(label);
+            if (!key || isBadgeKeyDetected(key, projectInfo, detection)) {
+                continue;
+            }
+
+            const start = match.index ?? 0;
+            // Take one separating space along with the badge
+            const end = start + match[0].length + (line.text[start + match[0].length] === ' ' ? 1 : 0);
+            issues.push({
+                code: 'stale-badge',
+                subject: label,
+                message: `Badge for ${label}, which is no longer a dependency in package.json`,
+                range: inLine(line, start, start + match[0].length),
+                ...sectionOf(line),
+                fix: { title: `Remove the ${label} badge`, range: inLine(line, start, end), newText: '' }
+            });
+        }
+    }
+
+    return issues;
+}
+
+// ============================================================================
+// LICENSE
+// ============================================================================
+
+/**
+ * Normalize a license name for comparison ("Apache License 2.0" and "Apache-2.0" match)
+ */
+function normalizeLicense(license: string): string {
+    return license
+        .toLowerCase()
+        .replace(/\.0\b/g, '')
+        .replace(/license|version|only/g, '')
+        .replace(/v(?=\d)/g, '')
+        .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Check license badges and the License section against package.json
+ */
+function checkLicense(lines: ReadmeLine[], projectInfo: ProjectInfo): ReadmeIssue[] {
+    const license = projectInfo.packageJson?.license;
+    // Expressions like "(MIT OR Apache-2.0)" or "SEE LICENSE IN ..." aren't compared
+    if (typeof license !== 'string' || !/^[\w.+-]+$/.test(license)) {
+        return [];
+    }
+
+    const issues: ReadmeIssue[] = [];
+    const mismatch = (line: ReadmeLine, mentioned: string, start: number, end: number, newText: string) => {
+        issues.push({
+            code: 'license-mismatch',
+            subject: mentioned,
+            message: `README says the license is ${mentioned}, but package.json says ${license}`,
+            range: inLine(line, start, end),
+            ...sectionOf(line),
+            fix: { title: `Change to ${license}`, range: inLine(line, start, end), newText }
+        });
+    };
+
+    for (const line of lines) {
+        if (line.inCodeBlock) {
+            continue;
+        }
+
+        // License badges: img.shields.io/badge/License-MIT-blue
+        for (const match of line.text.matchAll(/img\.shields\.io\/badge\/license-([^-?)\s]+(?:--[^-?)\s]+)*)-/gi)) {
+            const encoded = match[1];
+            const mentioned = decodeURIComponent(encoded.replace(/--/g, '-'));
+            if (normalizeLicense(mentioned) !== normalizeLicense(license)) {
+                const start = (match.index ?? 0) + match[0].length - encoded.length - 1;
+                mismatch(line, mentioned, start, start + encoded.length, encodeURIComponent(license).replace(/-/g, '--'));
+            }
+        }
+
+        // First license name mentioned in the License section
+        if (line.templateSectionId === 'license' && !/^\s*#/.test(line.text)) {
+            const text = line.text.replace(/!?\[[^\]]*\]\([^)]*\)/g, match => ' '.repeat(match.length));
+            const match = text.match(LICENSE_PATTERN);
+            if (match && normalizeLicense(match[1]) !== normalizeLicense(license)) {
+                const start = match.index ?? 0;
+                mismatch(line, match[1], start, start + match[1].length, license);
+            }
+        }
+    }
+
+    return issues;
+}
@@ -0,0 +1,165 @@
+/**
+ * Ruby Manifest Parser
+ * Reads the Gemfile and the *.gemspec at the project root into the common
+ * manifest model. Both are Ruby code; only literal values are read, nothing
+ * is evaluated.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { ProjectFile } from './workspaceScanner';
+import { ProjectManifest, ManifestDependency, ManifestEntryPoint } from './manifest';
+
+// Gemfile groups that are only for development
+const DEV_GROUP = /^(development|test)$/;
+
+/**
+ * Read a file relative to the project root, or undefined if it isn't there
+ */
+async function readText(rootPath: string, relativePath: string): Promise<string | undefined> {
+    try {
+        return await fs.promises.readFile(path.join(rootPath, relativePath), 'utf-8');
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Quoted strings of a Ruby argument list, in order
+ */
+function rubyStrings(args: string): string[] {
+    return Array.from(args.matchAll(/(['"])([^'"]*)\1/g), m => m[2]);
+}
+
+/**
+ * Read gem declarations from a Gemfile, with the group blocks they are in
+ */
+function parseGemfile(content: string): { dependencies: ManifestDependency[]; rubyVersion?: string } {
+    const dependencies: ManifestDependency[] = [];
+    // Open do-blocks; group blocks hold their group names, others (platforms, source, ...) null
+    const blocks: Array<string[] | null> = [];
+    let rubyVersion: string | undefined;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+        if (!line) {
+            continue;
+        }
+        const group = line.match(/^group\s+(.+?)\s+do\b/);
+        if (group) {
+            blocks.push(Array.from(group[1].matchAll(/:(\w+)/g), m => m[1]));
+            continue;
+        }
+        if (/\bdo(\s*\|[^|]*\|)?$/.test(line)) {
+            blocks.push(null);
+            continue;
+        }
+        if (line === 'end') {
+            blocks.pop();
+            continue;
+        }
+
+        const ruby = line.match(/^ruby\s+(['"])([^'"]+)\1/);
+        if (ruby) {
+            rubyVersion = ruby[2];
+            continue;
+        }
+        const gem = line.match(/^gem\s*\(?\s*(['"])([^'"]+)\1(.*)$/);
+        if (gem) {
+            // Inline `group: :test` / `groups: [:development, :test]` options count like blocks
+            const inlineGroups = Array.from(gem[3].match(/groups?:\s*(\[[^\]]*\]|:\w+)/)?.[1].matchAll(/:(\w+)/g) || [], m => m[1]);
+            const groups = [...blocks.flatMap(b => b || []), ...inlineGroups];
+            const versions = rubyStrings(gem[3].replace(/\w+:\s*(['"])[^'"]*\1/g, ''));
+            dependencies.push({
+                name: gem[2],
+                version: versions.length > 0 ? versions.join(', ') : undefined,
+                dev: groups.length > 0 && groups.every(g => DEV_GROUP.test(g)),
+                group: groups.length > 0 ? groups.join(', ') : undefined
+            });
+        }
+    }
+
+    return { dependencies, rubyVersion };
+}
+
+/**
+ * A literal string assigned to a gemspec attribute (`spec.summary = "..."`)
+ */
+function gemspecValue(content: string, attribute: string): string | undefined {
+    return content.match(new RegExp(`\\.${attribute}\\s*=\\s*(['"])([^'"]+)\\1`))?.[2];
+}
+
+/**
+ * Read a gemspec: metadata, runtime and development dependencies and executables
+ */
+function parseGemspec(content: string, files: Set<string>) {
+    const dependencies: ManifestDependency[] = [];
+    for (const match of content.matchAll(/\.add_(runtime_|development_)?dependency\s*\(?\s*(['"])([^'"]+)\2([^\n]*)/g)) {
+        const versions = rubyStrings(match[4]);
+        dependencies.push({ name: match[3], version: versions.length > 0 ? versions.join(', ') : undefined, dev: match[1] === 'development_' });
+    }
+
+    // `spec.executables = ["tool"]` / `%w[tool]`, or the usual `spec.files.grep(%r{\Aexe/})` over exe/
+    const listed = content.match(/\.executables\s*=\s*(\[[^\]]*\]|%w[[(]([^\])]*)[\])])/);
+    const executables = listed
+        ? (listed[2] !== undefined ? listed[2].split(/\s+/).filter(Boolean) : rubyStrings(listed[1]))
+        : (/\.executables\s*=/.test(content) ? Array.from(files).filter(f => /^exe\/[^/]+$/.test(f)).map(f => f.substring(4)) : []);
+    const bindir = gemspecValue(content, 'bindir') || 'exe';
+
+    return {
+        name: gemspecValue(content, 'name'),
+        version: gemspecValue(content, 'version'),
+        description: gemspecValue(content, 'summary') || gemspecValue(content, 'description'),
+        license: gemspecValue(content, 'license') || content.match(/\.licenses\s*=\s*\[\s*(['"])([^'"]+)\1/)?.[2],
+        rubyVersion: gemspecValue(content, 'required_ruby_version'),
+        dependencies,
+        entryPoints: executables.map((name): ManifestEntryPoint => ({ name, target: `${bindir}/${name}` }))
+    };
+}
+
+/**
+ * Read the Gemfile and gemspec at the project root, or undefined if there is neither
+ */
+export async function collectRubyManifest(rootPath: string, files: ProjectFile[]): Promise<ProjectManifest | undefined> {
+    const relativePaths = new Set(files.filter(f => !f.isDirectory).map(f => f.relativePath.replace(/\\/g, '/')));
+    const gemspecFile = Array.from(relativePaths).find(f => f.endsWith('.gemspec') && !f.includes('/'));
+    const gemfile = relativePaths.has('Gemfile') ? await readText(rootPath, 'Gemfile') : undefined;
+    const gemspecContent = gemspecFile ? await readText(rootPath, gemspecFile) : undefined;
+    if (gemfile === undefined && gemspecContent === undefined) {
+        return undefined;
+    }
+
+    const fromGemfile = parseGemfile(gemfile || '');
+    const gemspec = gemspecContent !== undefined ? parseGemspec(gemspecContent, relativePaths) : undefined;
+
+    // A gem's version is usually a constant in lib/<name>/version.rb
+    let version = gemspec?.version;
+    const versionFile = gemspec?.name && `lib/${gemspec.name.replace(/-/g, '/')}/version.rb`;
+    if (gemspec && !version && versionFile && relativePaths.has(versionFile)) {
+        version = (await readText(rootPath, versionFile))?.match(/VERSION\s*=\s*(['"])([^'"]+)\1/)?.[2];
+    }
+
+    // The gemspec lists the gem's dependencies; the Gemfile adds the ones only this checkout uses
+    const dependencies = [...(gemspec?.dependencies || [])];
+    for (const dependency of fromGemfile.dependencies) {
+        if (!dependencies.some(d => d.name === dependency.name)) {
+            dependencies.push(dependency);
+        }
+    }
+    const rubyVersionFile = relativePaths.has('.ruby-version') ? (await readText(rootPath, '.ruby-version'))?.trim() : undefined;
+
+    return {
+        ecosystem: 'ruby',
+        sources: [...(gemfile !== undefined ? ['Gemfile'] : []), ...(gemspecFile && gemspecContent !== undefined ? [gemspecFile] : [])],
+        name: gemspec?.name,
+        version,
+        description: gemspec?.description,
+        license: gemspec?.license,
+        runtimeVersion: fromGemfile.rubyVersion || gemspec?.rubyVersion || rubyVersionFile || undefined,
+        dependencies,
+        entryPoints: gemspec?.entryPoints || [],
+        scripts: {},
+        packageManager: 'bundler',
+        library: !!gemspec
+    };
+}
@@ -0,0 +1,127 @@
+/**
+ * Rust Manifest Parser
+ * Reads Cargo.toml into the common manifest model: [package] metadata (with
+ * values inherited from [workspace.package]), dependencies, binaries and
+ * workspace members. Member globs are kept as written.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { parse as parseToml } from 'smol-toml';
+import { ProjectFile } from './workspaceScanner';
+import { ProjectManifest, ManifestDependency, ManifestEntryPoint } from './manifest';
+
+/**
+ * A table of a parsed TOML document, or an empty object
+ */
+function table(value: unknown): Record<string, any> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : {};
+}
+
+/**
+ * A string value, or undefined for anything else
+ */
+function text(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Parse a Cargo dependency table (name = "1.0" or name = { version = "1.0", workspace = true, ... })
+ */
+function parseDependencies(value: unknown, dev: boolean, group?: string, inherited: Record<string, any> = {}): ManifestDependency[] {
+    return Object.entries(table(value)).map(([name, spec]) => {
+        const settings = table(spec);
+        // `package = "real-name"` renames a dependency
+        const realName = text(settings.package) || name;
+        const version = typeof spec === 'string'
+            ? spec
+            : text(settings.version) || (settings.workspace === true ? text(table(inherited[name]).version) || text(inherited[name]) : undefined);
+        return { name: realName, version, dev, group };
+    });
+}
+
+/**
+ * Binaries: [[bin]] targets, src/main.rs (named after the package) and src/bin/*.rs
+ */
+function getBinaries(data: Record<string, any>, packageName: string | undefined, files: Set<string>): ManifestEntryPoint[] {
+    const binaries: ManifestEntryPoint[] = [];
+    const add = (name: string | undefined, target: string) => {
+        if (name && !binaries.some(b => b.name === name)) {
+            binaries.push({ name, target });
+        }
+    };
+
+    if (Array.isArray(data.bin)) {
+        for (const bin of data.bin) {
+            const name = text(table(bin).name);
+            add(name, text(table(bin).path) || (name === packageName ? 'src/main.rs' : `src/bin/${name}.rs`));
+        }
+    }
+    if (table(data.package).autobins !== false) {
+        if (files.has('src/main.rs')) {
+            add(packageName, 'src/main.rs');
+        }
+        for (const file of files) {
+            const match = file.match(/^src\/bin\/([\w-]+)(?:\.rs|\/main\.rs)$/);
+            if (match) {
+                add(match[1], file);
+            }
+        }
+    }
+    return binaries;
+}
+
+/**
+ * Read Cargo.toml at the project root, or undefined if there is none
+ */
+export async function collectRustManifest(rootPath: string, files: ProjectFile[]): Promise<ProjectManifest | undefined> {
+    const relativePaths = new Set(files.filter(f => !f.isDirectory).map(f => f.relativePath.replace(/\\/g, '/')));
+    if (!relativePaths.has('Cargo.toml')) {
+        return undefined;
+    }
+
+    let data: Record<string, any>;
+    try {
+        data = table(parseToml(await fs.promises.readFile(path.join(rootPath, 'Cargo.toml'), 'utf-8')));
+    } catch (e) {
+        // Unreadable or invalid Cargo.toml
+        return undefined;
+    }
+
+    const pkg = table(data.package);
+    const workspace = table(data.workspace);
+    const inheritedPackage = table(workspace.package);
+    const inheritedDependencies = table(workspace.dependencies);
+    // `version.workspace = true` takes the value from [workspace.package]
+    const field = (name: string) => text(pkg[name]) || (table(pkg[name]).workspace === true ? text(inheritedPackage[name]) : undefined);
+
+    const name = text(pkg.name);
+    const dependencies = [
+        ...parseDependencies(data.dependencies, false, undefined, inheritedDependencies),
+        ...parseDependencies(data['dev-dependencies'], true, undefined, inheritedDependencies),
+        ...parseDependencies(data['build-dependencies'], true, 'build', inheritedDependencies)
+    ];
+    // A virtual workspace has no [package]; its shared dependencies describe the project
+    if (!name) {
+        dependencies.push(...parseDependencies(inheritedDependencies, false));
+    }
+
+    const members = Array.isArray(workspace.members)
+        ? workspace.members.filter((m: unknown): m is string => typeof m === 'string')
+        : [];
+
+    return {
+        ecosystem: 'rust',
+        sources: ['Cargo.toml'],
+        name,
+        version: field('version'),
+        description: field('description'),
+        license: field('license'),
+        runtimeVersion: field('rust-version'),
+        dependencies,
+        entryPoints: getBinaries(data, name, relativePaths),
+        scripts: {},
+        packageManager: 'cargo',
+        workspaceMembers: members
+    };
+}
@@ -0,0 +1,306 @@
+/**
+ * Source Context Collector
+ * Picks the project's entry points and extracts real code excerpts,
+ * exported symbols and top-of-file doc comments for the AI prompt,
+ * so the model describes what the code actually does.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { ProjectFile } from './workspaceScanner';
+
+export interface SourceExcerpt {
+    relativePath: string;
+    reason: string;
+    docComment?: string;
+    exports: string[];
+    excerpt: string;
+}
+
+export interface SourceContext {
+    excerpts: SourceExcerpt[];
+}
+
+// Limits for collecting excerpts
+const MAX_ENTRY_POINTS = 6;
+const MAX_FILE_SIZE_BYTES = 200 * 1024;
+const MAX_EXCERPT_LINES = 60;
+const MAX_EXCERPT_CHARS = 2500;
+const MAX_EXPORTS_PER_FILE = 25;
+
+// Default character budget for the prompt summary
+const DEFAULT_SUMMARY_BUDGET = 6000;
+
+// Conventional entry point locations, in priority order
+const CONVENTIONAL_ENTRY_POINTS: { pattern: RegExp; reason: string }[] = [
+    { pattern: /^src[\\/]index\.(ts|tsx|js|jsx|mjs|cjs)$/, reason: 'src/index entry point' },
+    { pattern: /^index\.(ts|tsx|js|jsx|mjs|cjs)$/, reason: 'index entry point' },
+    { pattern: /^src[\\/]main\.(ts|tsx|js|jsx|rs|py)$/, reason: 'src/main entry point' },
+    { pattern: /^src[\\/]lib\.rs$/, reason: 'Rust library root' },
+    { pattern: /^main\.py$/, reason: 'main.py entry point' },
+    { pattern: /^app\.py$/, reason: 'app.py entry point' },
+    { pattern: /^[^\\/]+[\\/]__main__\.py$/, reason: 'Python package __main__' },
+    { pattern: /^main\.go$/, reason: 'main.go entry point' },
+    { pattern: /^cmd[\\/][^\\/]+[\\/]main\.go$/, reason: 'cmd/*/main.go command' }
+];
+
+// Directories that usually hold compiled output of a src/ folder
+const BUILD_OUTPUT_DIRS = ['out', 'dist', 'build', 'lib'];
+
+/**
+ * Normalize a relative path from package.json (strip ./ and use OS separators)
+ */
+function normalizeManifestPath(manifestPath: string): string {
+    return path.normalize(manifestPath.replace(/^\.\//, ''));
+}
+
+/**
+ * Resolve a package.json path (which may point at compiled output) to a scanned source file
+ */
+function resolveToSourceFile(manifestPath: string, sourceFiles: Set<string>): string | undefined {
+    const normalized = normalizeManifestPath(manifestPath);
+    const candidates = [normalized];
+
+    // Map compiled output (out/extension.js) back to its source (src/extension.ts)
+    const parts = normalized.split(path.sep);
+    if (parts.length > 1 && BUILD_OUTPUT_DIRS.includes(parts[0])) {
+        candidates.push(['src', ...parts.slice(1)].join(path.sep));
+    }
+
+    // Try TypeScript variants of JavaScript paths and extensionless paths
+    for (const candidate of [...candidates]) {
+        const withoutExt = candidate.replace(/\.(js|mjs|cjs)$/, '');
+        candidates.push(`${withoutExt}.ts`, `${withoutExt}.tsx`, `${withoutExt}.js`);
+        candidates.push(path.join(candidate, 'index.ts'), path.join(candidate, 'index.js'));
+    }
+
+    return candidates.find(c => sourceFiles.has(c));
+}
+
+/**
+ * Pick entry point files for the project
+ */
+function pickEntryPoints(files: ProjectFile[], packageJson?: any): { relativePath: string; reason: string }[] {
+    const sourceFiles = new Set(files.filter(f => !f.isDirectory).map(f => f.relativePath));
+    const picked: { relativePath: string; reason: string }[] = [];
+
+    const add = (relativePath: string | undefined, reason: string) => {
+        if (relativePath && !picked.some(p => p.relativePath === relativePath)) {
+            picked.push({ relativePath, reason });
+        }
+    };
+
+    // 1. package.json "main" and "bin"
+    if (packageJson) {
+        if (typeof packageJson.main === 'string') {
+            add(resolveToSourceFile(packageJson.main, sourceFiles), 'package.json main');
+        }
+
+        if (typeof packageJson.bin === 'string') {
+            add(resolveToSourceFile(packageJson.bin, sourceFiles), 'package.json bin');
+        } else if (packageJson.bin && typeof packageJson.bin === 'object') {
+            for (const [command, binPath] of Object.entries(packageJson.bin)) {
+                if (typeof binPath === 'string') {
+                    add(resolveToSourceFile(binPath, sourceFiles), `package.json bin "${command}"`);
+                }
+            }
+        }
+    }
+
+    // 2. Conventional entry points
+    for (const { pattern, reason } of CONVENTIONAL_ENTRY_POINTS) {
+        for (const file of sourceFiles) {
+            if (pattern.test(file)) {
+                add(file, reason);
+            }
+        }
+    }
+
+    return picked.slice(0, MAX_ENTRY_POINTS);
+}
+
+/**
+ * Extract the top-of-file doc comment (JSDoc block, line comments, Python docstring, Rust //!)
+ */
+export function extractDocComment(content: string, extension: string): string | undefined {
+    // Skip shebang and blank lines
+    const text = content.replace(/^#!.*\n/, '').replace(/^\s+/, '');
+
+    if (extension === '.py') {
+        const docstring = text.match(/^(?:"""|''')([\s\S]*?)(?:"""|''')/);
+        return docstring ? docstring[1].trim() || undefined : undefined;
+    }
+
+    const block = text.match(/^\/\*\*?([\s\S]*?)\*\//);
+    if (block) {
+        const cleaned = block[1]
+            .split('\n')
+            .map(line => line.replace(/^\s*\*\s?/, '').trimEnd())
+            .join('\n')
+            .trim();
+        return cleaned || undefined;
+    }
+
+    const lineComments: string[] = [];
+    for (const line of text.split('\n')) {
+        const match = line.match(/^\s*\/\/[!/]?\s?(.*)$/) || (extension === '.rb' ? line.match(/^\s*#\s?(.*)$/) : null);
+        if (!match) break;
+        lineComments.push(match[1]);
+    }
+    const joined = lineComments.join('\n').trim();
+    return joined || undefined;
+}
+
+/**
+ * Extract exported / public symbols from source code
+ */
+export function extractExports(content: string, extension: string): string[] {
+    const symbols: string[] = [];
+    const add = (name: string | undefined) => {
+        if (name && !symbols.includes(name)) {
+            symbols.push(name);
+        }
+    };
+
+    switch (extension) {
+        case '.ts':
+        case '.tsx':
+        case '.js':
+        case '.jsx':
+        case '.mjs':
+        case '.cjs': {
+            const declPattern = /^export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|const|let|var|interface|type|enum)\s+([A-Za-z_$][\w$]*)/gm;
+            for (const match of content.matchAll(declPattern)) {
+                add(`${match[1].replace('*', '')} ${match[2]}`);
+            }
+            const listPattern = /^export\s*\{([^}]+)\}/gm;
+            for (const match of content.matchAll(listPattern)) {
+                for (const item of match[1].split(',')) {
+                    add(item.trim().split(/\s+as\s+/).pop());
+                }
+            }
+            const cjsObject = content.match(/module\.exports\s*=\s*\{([^}]+)\}/);
+            if (cjsObject) {
+                for (const item of cjsObject[1].split(',')) {
+                    add(item.split(':')[0].trim());
+                }
+            }
+            for (const match of content.matchAll(/^(?:module\.)?exports\.([A-Za-z_$][\w$]*)\s*=/gm)) {
+                add(match[1]);
+            }
+            break;
+        }
+        case '.py': {
+            for (const match of content.matchAll(/^(?:async\s+)?(def|class)\s+([A-Za-z]\w*)/gm)) {
+                add(`${match[1]} ${match[2]}`);
+            }
+            break;
+        }
+        case '.go': {
+            for (const match of content.matchAll(/^func\s+(?:\([^)]*\)\s*)?([A-Z]\w*)/gm)) {
+                add(`func ${match[1]}`);
+            }
+            for (const match of content.matchAll(/^type\s+([A-Z]\w*)/gm)) {
+                add(`type ${match[1]}`);
+            }
+            break;
+        }
+        case '.rs': {
+            for (const match of content.matchAll(/^pub\s+(?:async\s+)?(fn|struct|enum|trait|mod|type|const)\s+([A-Za-z_]\w*)/gm)) {
+                add(`${match[1]} ${match[2]}`);
+            }
+            break;
+        }
+    }
+
+    return symbols.slice(0, MAX_EXPORTS_PER_FILE);
+}
+
+/**
+ * Take the first lines of a file as an excerpt
+ */
+function makeExcerpt(content: string): string {
+    let excerpt = content.split('\n').slice(0, MAX_EXCERPT_LINES).join('\n');
+    if (excerpt.length > MAX_EXCERPT_CHARS) {
+        excerpt = excerpt.substring(0, MAX_EXCERPT_CHARS);
+    }
+    return excerpt.trimEnd();
+}
+
+/**
+ * Collect source context (entry points, exports, doc comments) for a project
+ */
+export async function collectSourceContext(
+    rootPath: string,
+    files: ProjectFile[],
+    packageJson?: any
+): Promise<SourceContext> {
+    const excerpts: SourceExcerpt[] = [];
+
+    for (const entry of pickEntryPoints(files, packageJson)) {
+        const fullPath = path.join(rootPath, entry.relativePath);
+
+        try {
+            const stat = await fs.promises.stat(fullPath);
+            if (stat.size > MAX_FILE_SIZE_BYTES) {
+                continue;
+            }
+
+            const content = await fs.promises.readFile(fullPath, 'utf-8');
+            const extension = path.extname(entry.relativePath).toLowerCase();
+
+            excerpts.push({
+                relativePath: entry.relativePath,
+                reason: entry.reason,
+                docComment: extractDocComment(content, extension),
+                exports: extractExports(content, extension),
+                excerpt: makeExcerpt(content)
+            });
+        } catch (e) {
+            // Skip unreadable files
+        }
+    }
+
+    return { excerpts };
+}
+
+/**
+ * Format source context for the AI prompt, staying within a character budget.
+ * Doc comments and exports are kept before code excerpts, which are cut first.
+ */
+export function getSourceContextSummary(context: SourceContext | undefined, maxChars: number = DEFAULT_SUMMARY_BUDGET): string {
+    if (!context || context.excerpts.length === 0) {
+        return '';
+    }
+
+    // Split the budget evenly between entry points
+    const perFileBudget = Math.floor(maxChars / context.excerpts.length);
+    const blocks: string[] = [];
+
+    for (const excerpt of context.excerpts) {
+        const language = path.extname(excerpt.relativePath).replace('.', '') || 'text';
+        let header = `### ${excerpt.relativePath} (${excerpt.reason})`;
+
+        if (excerpt.docComment) {
+            header += `\nDoc comment: ${excerpt.docComment.replace(/\s*\n\s*/g, ' ').substring(0, 400)}`;
+        }
+        if (excerpt.exports.length > 0) {
+            header += `\nExports: ${excerpt.exports.join(', ')}`;
+        }
+
+        const remaining = perFileBudget - header.length - 20;
+        if (remaining < 200) {
+            blocks.push(header.substring(0, perFileBudget));
+            continue;
+        }
+
+        let code = excerpt.excerpt;
+        if (code.length > remaining) {
+            code = code.substring(0, remaining).replace(/\n[^\n]*$/, '') + '\n// ... (truncated)';
+        }
+
+        blocks.push(`${header}\n\`\`\`${language}\n${code}\n\`\`\``);
+    }
+
+    return blocks.join('\n\n');
+}
@@ -0,0 +1,85 @@
+/**
+ * Swift Manifest Parser
+ * Reads Package.swift into the common manifest model with patterns: the tools
+ * version, package name, package dependencies and executable products. The
+ * manifest is Swift code and is never compiled.
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { ProjectFile } from './workspaceScanner';
+import { ProjectManifest, ManifestDependency, ManifestEntryPoint } from './manifest';
+
+/**
+ * Package dependencies: `.package(url: "https://github.com/vapor/vapor.git", from: "4.0.0")`,
+ * `.package(url: ..., .upToNextMajor(from: "1.0.0"))`, `.package(path: "../Local")`, ...
+ */
+function parseDependencies(manifest: string): ManifestDependency[] {
+    const dependencies: ManifestDependency[] = [];
+    for (const match of manifest.matchAll(/\.package\(\s*(?:name:\s*"([^"]+)"\s*,\s*)?(url|path):\s*"([^"]+)"((?:[^()]|\([^()]*\))*)\)/g)) {
+        // Named after the repository or folder: ".../swift-nio.git" -> "swift-nio"
+        const name = match[1] || path.basename(match[3].replace(/\/+$/, '')).replace(/\.git$/, '');
+        dependencies.push({
+            name,
+            version: match[4].match(/"(\d[^"]*)"/)?.[1],
+            dev: false,
+            group: match[2] === 'path' ? 'path' : undefined
+        });
+    }
+    return dependencies;
+}
+
+/**
+ * Read Package.swift at the project root, or undefined if there is none
+ */
+export async function collectSwiftManifest(rootPath: string, files: ProjectFile[]): Promise<ProjectManifest | undefined> {
+    if (!files.some(f => !f.isDirectory && f.relativePath === 'Package.swift')) {
+        return undefined;
+    }
+
+    let content: string;
+    try {
+        content = await fs.promises.readFile(path.join(rootPath, 'Package.swift'), 'utf-8');
+    } catch (e) {
+        return undefined;
+    }
+
+    // The tools version is the first line's comment, so read it before comments are stripped
+    const toolsVersion = content.match(/^\/\/\s*swift-tools-version\s*:\s*([\d.]+)/m)?.[1];
+    const manifest = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:])\/\/.*$/gm, '$1');
+
+    // Source folder of each target: its path: argument, or Sources/<name>
+    const targetPaths = new Map<string, string>();
+    for (const match of manifest.matchAll(/\.(?:executableTarget|target)\(\s*name:\s*"([^"]+)"((?:[^()]|\([^()]*\))*)\)/g)) {
+        targetPaths.set(match[1], match[2].match(/\bpath:\s*"([^"]+)"/)?.[1]?.replace(/\/+$/, '') || `Sources/${match[1]}`);
+    }
+
+    // Executable products first, built from their first target; executable targets
+    // that no product builds also make a command
+    const entryPoints: ManifestEntryPoint[] = [];
+    const productTargets = new Set<string>();
+    for (const match of manifest.matchAll(/\.executable\(\s*name:\s*"([^"]+)"((?:[^()]|\([^()]*\))*)\)/g)) {
+        const target = match[2].match(/\btargets:\s*\[\s*"([^"]+)"/)?.[1] || match[1];
+        productTargets.add(target);
+        if (!entryPoints.some(e => e.name === match[1])) {
+            entryPoints.push({ name: match[1], target: targetPaths.get(target) || `Sources/${target}` });
+        }
+    }
+    for (const match of manifest.matchAll(/\.executableTarget\(\s*name:\s*"([^"]+)"/g)) {
+        if (!productTargets.has(match[1]) && !entryPoints.some(e => e.name === match[1])) {
+            entryPoints.push({ name: match[1], target: targetPaths.get(match[1])! });
+        }
+    }
+
+    return {
+        ecosystem: 'swift',
+        sources: ['Package.swift'],
+        name: manifest.match(/Package\(\s*name:\s*"([^"]+)"/)?.[1],
+        runtimeVersion: toolsVersion,
+        dependencies: parseDependencies(manifest),
+        entryPoints,
+        scripts: {},
+        packageManager: 'swift',
+        library: entryPoints.length === 0 && /\.library\(\s*name:/.test(manifest)
+    };
+}
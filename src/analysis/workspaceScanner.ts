@@ -8,6 +8,12 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import ignore, { Ignore } from 'ignore';
+import { SourceContext, collectSourceContext } from './sourceContext';
+import { EnvVar, collectEnvVars } from './envVarCollector';
+import { CliUsage, collectCliUsage } from './cliExtractor';
+import { ApiReference, collectApiReference } from './apiExtractor';
+import { ProjectManifest, collectManifest, getManifestSummary } from './manifest';
+import { MonorepoInfo, collectMonorepo, describeWorkspaceTools } from './monorepo';
 
 export interface ProjectFile {
     path: string;
@@ -27,6 +33,14 @@ export interface ProjectInfo {
     configFiles: string[];
     sourceFiles: string[];
     totalFiles: number;
+    sourceContext?: SourceContext;
+    envVars?: EnvVar[];
+    cliUsage?: CliUsage;
+    apiReference?: ApiReference;
+    // Manifest of a non-Node project (pyproject.toml, setup.cfg, ...)
+    manifest?: ProjectManifest;
+    // Workspace packages when the project is a monorepo
+    monorepo?: MonorepoInfo;
 }
 
 // Files and directories to always exclude
@@ -57,6 +71,9 @@ const ALWAYS_EXCLUDE = [
     '.readme-generator'
 ];
 
+// Scans whose API reference was already looked for
+const apiReferenceRead = new WeakSet<ProjectInfo>();
+
 // Config files to detect
 const CONFIG_FILES = [
     'package.json',
@@ -76,12 +93,24 @@ const CONFIG_FILES = [
     'Pipfile',
     'pyproject.toml',
     'setup.py',
+    'setup.cfg',
     'Cargo.toml',
     'go.mod',
     'Gemfile',
+    '.gemspec',
+    '.csproj',
+    '.sln',
     'composer.json',
+    'pubspec.yaml',
+    'Package.swift',
     'pom.xml',
     'build.gradle',
+    'settings.gradle',
+    'go.work',
+    'pnpm-workspace.yaml',
+    'lerna.json',
+    'nx.json',
+    'turbo.json',
     'CMakeLists.txt',
     'Makefile',
     'Dockerfile',
@@ -251,6 +280,9 @@ export async function scanWorkspace(folderPath?: string): Promise<ProjectInfo |
     // Read package.json
     const packageJson = await readPackageJson(rootPath);
     
+    // Read the manifests of other ecosystems
+    const manifest = await collectManifest(rootPath, files);
+    
     // Check for README
     const existingReadmeContent = await readExistingReadme(rootPath);
     const hasReadme = !!existingReadmeContent;
@@ -264,8 +296,26 @@ export async function scanWorkspace(folderPath?: string): Promise<ProjectInfo |
         .filter(f => !f.isDirectory && SOURCE_EXTENSIONS.includes(f.extension))
         .map(f => f.relativePath);
     
-    return {
-        name: packageJson?.name || path.basename(rootPath),
+    // Collect entry point excerpts so the AI describes real code
+    const sourceContext = await collectSourceContext(rootPath, files, packageJson);
+    
+    // Environment variables the code reads, for the Environment Variables table
+    const envVars = await collectEnvVars(files);
+    
+    // Commands and options of a CLI, for the Usage section
+    const cliUsage = await collectCliUsage(rootPath, files, packageJson);
+    
+    // Exports of a package that publishes type declarations, for the API Reference section.
+    // Other packages are only read when the API Reference section is generated (ensureApiReference).
+    const apiReference = packageJson && (packageJson.types || packageJson.typings)
+        ? await collectApiReference(rootPath, packageJson)
+        : undefined;
+    
+    // Packages of a monorepo, for the package index and per-package READMEs
+    const monorepo = await collectMonorepo(rootPath, files, packageJson, manifest);
+    
+    const projectInfo: ProjectInfo = {
+        name: packageJson?.name || manifest?.name || path.basename(rootPath),
         rootPath: rootPath,
         files: files,
         packageJson: packageJson,
@@ -273,8 +323,33 @@ export async function scanWorkspace(folderPath?: string): Promise<ProjectInfo |
         existingReadmeContent: existingReadmeContent,
         configFiles: configFiles,
         sourceFiles: sourceFiles,
-        totalFiles: files.filter(f => !f.isDirectory).length
+        totalFiles: files.filter(f => !f.isDirectory).length,
+        sourceContext: sourceContext,
+        envVars: envVars,
+        cliUsage: cliUsage,
+        apiReference: apiReference,
+        manifest: manifest,
+        monorepo: monorepo
     };
+    if (apiReference || !packageJson) {
+        apiReferenceRead.add(projectInfo);
+    }
+    return projectInfo;
+}
+
+/**
+ * Read the API reference of a package when the scan skipped it (no types / typings).
+ * Called before the API Reference section is generated; reads at most once per scan.
+ */
+export async function ensureApiReference(projectInfo: ProjectInfo): Promise<void> {
+    if (apiReferenceRead.has(projectInfo)) {
+        return;
+    }
+    apiReferenceRead.add(projectInfo);
+    const pkg = projectInfo.packageJson;
+    if (pkg && (pkg.types || pkg.typings || pkg.exports || pkg.main)) {
+        projectInfo.apiReference = await collectApiReference(projectInfo.rootPath, pkg);
+    }
 }
 
 /**
@@ -333,6 +408,20 @@ export function getProjectSummary(projectInfo: ProjectInfo): string {
         }
     }
     
+    // Add manifest info for other ecosystems
+    if (projectInfo.manifest) {
+        summary.push(`\n${getManifestSummary(projectInfo.manifest)}`);
+    }
+    
+    // Add the workspace layout of a monorepo
+    if (projectInfo.monorepo) {
+        const packages = projectInfo.monorepo.packages;
+        summary.push(`\nMonorepo (${describeWorkspaceTools(projectInfo.monorepo)}), ${packages.length} packages:\n${packages.slice(0, 20).map(p => `  - ${p.name} (${p.relativePath})${p.description ? `: ${p.description}` : ''}`).join('\n')}`);
+        if (packages.length > 20) {
+            summary.push(`  ... and ${packages.length - 20} more`);
+        }
+    }
+    
     // Add directory structure (top level)
     const topLevelDirs = projectInfo.files
         .filter(f => f.isDirectory && !f.relativePath.includes(path.sep))
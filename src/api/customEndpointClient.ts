@@ -0,0 +1,237 @@
+/**
+ * Custom Endpoint Client
+ * Talks to any OpenAI-compatible server (Ollama, LM Studio, llama.cpp server, vLLM, ...).
+ * Lets the extension run fully local so code never leaves the machine.
+ *
+ * Ollama:    http://localhost:11434/v1
+ * LM Studio: http://localhost:1234/v1
+ * llama.cpp: http://localhost:8080/v1
+ */
+
+import * as vscode from 'vscode';
+import { getProviderApiKey, setProviderApiKey, deleteProviderApiKey } from '../utils/secretStorage';
+import { ChatMessage, StreamCallback, LlmProvider } from './llmProvider';
+import { readChatCompletionStream } from './sseStream';
+import { getModelOrder, getGenerationParameters, fetchModelIds } from './modelSettings';
+
+const CUSTOM_PROVIDER_ID = 'custom';
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Get the configured base URL (with a /v1-style version suffix, no trailing slash)
+ */
+export function getCustomEndpointBaseUrl(): string {
+    const config = vscode.workspace.getConfiguration('ai-readme');
+    const baseUrl = (config.get<string>('customEndpoint.baseUrl') || '').trim().replace(/\/+$/, '');
+
+    if (!baseUrl) {
+        return '';
+    }
+
+    // Accept both "http://host:port" and "http://host:port/v1"
+    return /\/v\d+$/.test(baseUrl) ? baseUrl : `${baseUrl}/v1`;
+}
+
+/**
+ * Get the configured model (empty means "first model the server reports").
+ * A primary model picked in ai-readme.providerSettings takes precedence.
+ */
+function getConfiguredModel(): string {
+    const config = vscode.workspace.getConfiguration('ai-readme');
+    const model = (config.get<string>('customEndpoint.model') || '').trim();
+    return getModelOrder(CUSTOM_PROVIDER_ID, model ? [model] : [])[0] || '';
+}
+
+/**
+ * Build request headers (the API key is optional for local servers)
+ */
+async function getHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = await getProviderApiKey(CUSTOM_PROVIDER_ID);
+    if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return headers;
+}
+
+/**
+ * Discover the models served by the endpoint via GET /v1/models
+ */
+export async function listCustomEndpointModels(signal?: AbortSignal): Promise<string[]> {
+    const baseUrl = getCustomEndpointBaseUrl();
+    if (!baseUrl) {
+        return [];
+    }
+
+    return fetchModelIds(`${baseUrl}/models`, await getProviderApiKey(CUSTOM_PROVIDER_ID), signal);
+}
+
+/**
+ * Generate README content using a custom OpenAI-compatible endpoint with streaming
+ */
+export async function generateWithCustomEndpoint(
+    messages: ChatMessage[],
+    callbacks: StreamCallback,
+    signal?: AbortSignal
+): Promise<void> {
+    const baseUrl = getCustomEndpointBaseUrl();
+
+    if (!baseUrl) {
+        callbacks.onError(new Error('Custom endpoint not configured. Set "ai-readme.customEndpoint.baseUrl" (e.g. http://localhost:11434/v1).'));
+        return;
+    }
+
+    const { temperature, maxTokens } = getGenerationParameters(CUSTOM_PROVIDER_ID);
+
+    try {
+        let model = getConfiguredModel();
+        if (!model) {
+            const models = await listCustomEndpointModels(signal);
+            if (models.length === 0) {
+                callbacks.onError(new Error(`No models found at ${baseUrl}/models. Pull or load a model first.`));
+                return;
+            }
+            model = models[0];
+        }
+
+        callbacks.onToken(`🖥️ Using local model: **${model}**\n\n`);
+
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: await getHeaders(),
+            body: JSON.stringify({
+                model,
+                messages,
+                stream: true,
+                temperature,
+                max_tokens: maxTokens
+            }),
+            signal
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+
+            if (response.status === 401 || response.status === 403) {
+                callbacks.onError(new Error('❌ The endpoint rejected the API key. Please check it with "AI README: Select AI Provider".'));
+                return;
+            }
+
+            if (response.status === 404) {
+                callbacks.onError(new Error(`❌ Model "${model}" not found at ${baseUrl}. Check "ai-readme.customEndpoint.model".`));
+                return;
+            }
+
+            callbacks.onError(new Error(`Custom endpoint error (${response.status}): ${errorText}`));
+            return;
+        }
+
+        const { content: fullContent } = await readChatCompletionStream(response, callbacks.onToken, signal);
+
+        if (fullContent.trim().length === 0) {
+            callbacks.onError(new Error(`${model} returned an empty response.`));
+            return;
+        }
+
+        callbacks.onComplete(fullContent);
+    } catch (error) {
+        // Cancelled by the user
+        if (signal?.aborted) {
+            return;
+        }
+        // fetch rejects with a TypeError when the server can't be reached
+        if (error instanceof TypeError) {
+            callbacks.onError(new Error(`❌ Could not reach ${baseUrl}. Is the server running?`));
+            return;
+        }
+        callbacks.onError(error instanceof Error ? error : new Error(String(error)));
+    }
+}
+
+/**
+ * Test connection to the custom endpoint
+ */
+export async function testCustomEndpointConnection(): Promise<boolean> {
+    try {
+        await listCustomEndpointModels();
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Ask for base URL, optional API key and model, then save them
+ */
+async function configureCustomEndpoint(): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration('ai-readme');
+
+    const baseUrl = await vscode.window.showInputBox({
+        title: 'OpenAI-Compatible Endpoint',
+        prompt: 'Base URL of the server (Ollama, LM Studio, llama.cpp, ...)',
+        value: config.get<string>('customEndpoint.baseUrl') || DEFAULT_BASE_URL,
+        ignoreFocusOut: true,
+        validateInput: (value) => {
+            return /^https?:\/\/\S+$/.test(value.trim()) ? null : 'Enter a URL starting with http:// or https://';
+        }
+    });
+
+    if (!baseUrl) {
+        return false;
+    }
+
+    const apiKey = await vscode.window.showInputBox({
+        title: 'OpenAI-Compatible Endpoint',
+        prompt: 'API key (leave empty if the server does not need one)',
+        password: true,
+        ignoreFocusOut: true
+    });
+
+    if (apiKey === undefined) {
+        return false;
+    }
+
+    await config.update('customEndpoint.baseUrl', baseUrl.trim(), vscode.ConfigurationTarget.Global);
+    if (apiKey.trim()) {
+        await setProviderApiKey(CUSTOM_PROVIDER_ID, apiKey.trim());
+    } else {
+        await deleteProviderApiKey(CUSTOM_PROVIDER_ID);
+    }
+
+    let models: string[] = [];
+    try {
+        models = await listCustomEndpointModels();
+    } catch (error) {
+        vscode.window.showWarningMessage(`Could not list models: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (models.length > 0) {
+        const model = await vscode.window.showQuickPick(models, {
+            title: 'Select Model',
+            placeHolder: 'Model used for README generation'
+        });
+        if (model) {
+            await config.update('customEndpoint.model', model, vscode.ConfigurationTarget.Global);
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Custom OpenAI-compatible endpoint as a pluggable LLM provider
+ */
+export const customEndpointProvider: LlmProvider = {
+    id: CUSTOM_PROVIDER_ID,
+    displayName: 'OpenAI-Compatible Endpoint (Local)',
+    get models() {
+        const model = getConfiguredModel();
+        return model ? [model] : [];
+    },
+    requiresApiKey: false,
+    isConfigured: async () => !!getCustomEndpointBaseUrl(),
+    configure: configureCustomEndpoint,
+    generate: generateWithCustomEndpoint,
+    testConnection: testCustomEndpointConnection,
+    listModels: listCustomEndpointModels
+};
@@ -1,64 +1,49 @@
 /**
  * Groq API Client
  * Uses Groq's free tier with generous rate limits
- * OpenAI-compatible API format, much simpler than HuggingFace
+ * OpenAI-compatible API format with SSE streaming, much simpler than HuggingFace
  * 
  * Free tier: 30 requests/minute, 14,400 requests/day
  * Get API key: https://console.groq.com/keys
  */
 
-import { getHuggingFaceApiKey } from '../utils/secretStorage';
+import { getProviderApiKey, hasProviderApiKey } from '../utils/secretStorage';
+import { ChatMessage, StreamCallback, LlmProvider } from './llmProvider';
+import { RetryTracker, waitForRetry } from './retryPolicy';
+import { ModelCursor, getModelOrder, getGenerationParameters, fetchModelIds, getRetryPolicy } from './modelSettings';
+import { readChatCompletionStream } from './sseStream';
+import { messagesFitModel } from '../generator/tokenBudget';
 
 // Groq API endpoint (OpenAI-compatible)
 const GROQ_API_BASE = 'https://api.groq.com/openai/v1/chat/completions';
+const GROQ_MODELS_URL = 'https://api.groq.com/openai/v1/models';
 
-// Groq free models (sorted by quality)
-const GROQ_MODELS = [
-    'llama-3.3-70b-versatile',      // Best quality, 32k context
+// Groq free models (sorted by quality), used when no model is configured
+export const GROQ_MODELS = [
+    'llama-3.3-70b-versatile',      // Best quality, 128k context
     'llama-3.1-8b-instant',          // Fast, good quality
-    'mixtral-8x7b-32768',            // Mixtral, 32k context
-    'gemma2-9b-it',                   // Google Gemma 2
 ];
 
-let currentModelIndex = 0;
+// Non-chat models returned by the models endpoint
+const NON_CHAT_MODEL_PATTERN = /whisper|tts|guard|playai/i;
 
-function getCurrentModel(): string {
-    return GROQ_MODELS[currentModelIndex];
-}
-
-function getModelDisplayName(): string {
-    const model = getCurrentModel();
+function getModelDisplayName(model: string): string {
     return model.split('-').slice(0, 2).join('-');
 }
 
-function switchToNextModel(): boolean {
-    if (currentModelIndex < GROQ_MODELS.length - 1) {
-        currentModelIndex++;
-        return true;
-    }
-    return false;
-}
-
-function resetToFirstModel(): void {
-    currentModelIndex = 0;
-}
-
-export interface ChatMessage {
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-}
-
-export interface StreamCallback {
-    onToken: (token: string) => void;
-    onComplete: (fullContent: string) => void;
-    onError: (error: Error) => void;
-}
-
 /**
- * Sleep for a given number of milliseconds
+ * Sleep for a given number of milliseconds (resolves early if aborted)
  */
-function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+    });
 }
 
 /**
@@ -67,26 +52,48 @@ function sleep(ms: number): Promise<void> {
  */
 export async function generateWithGroq(
     messages: ChatMessage[],
-    callbacks: StreamCallback
+    callbacks: StreamCallback,
+    signal?: AbortSignal
 ): Promise<void> {
-    // We're reusing the HuggingFace key storage for Groq key
-    const apiKey = await getHuggingFaceApiKey();
+    const apiKey = await getProviderApiKey(groqProvider.id);
     
     if (!apiKey) {
         callbacks.onError(new Error('Groq API key not configured. Please set your Groq API key.'));
         return;
     }
 
-    // Reset to first model at the start of each generation
-    resetToFirstModel();
+    // Models in the order they are tried (defaults unless overridden in settings)
+    const models = new ModelCursor(groqProvider.models);
+    const { temperature, maxTokens } = getGenerationParameters(groqProvider.id);
+    const retry = new RetryTracker(getRetryPolicy(groqProvider.id));
+    let announcedModel = '';
 
     // Try each model in sequence
     while (true) {
-        const currentModel = getCurrentModel();
-        const modelName = getModelDisplayName();
+        // Stop immediately when cancelled
+        if (signal?.aborted) {
+            return;
+        }
+        
+        const currentModel = models.current;
+        const modelName = getModelDisplayName(currentModel);
+        
+        // Skip models whose context window can't hold this prompt
+        if (!messagesFitModel(messages, currentModel, maxTokens)) {
+            if (models.next()) {
+                callbacks.onToken(`\n⚠️ Prompt too large for **${modelName}**. Trying **${getModelDisplayName(models.current)}**...\n\n`);
+                continue;
+            }
+            callbacks.onError(new Error('Prompt is too large for every Groq model. Disable some sections or try a provider with a larger context window.'));
+            return;
+        }
         
         try {
-            callbacks.onToken(`🤖 Using Groq model: **${modelName}**\n\n`);
+            // Announce each model once (retries reuse the same model)
+            if (announcedModel !== currentModel) {
+                callbacks.onToken(`🤖 Using Groq model: **${modelName}**\n\n`);
+                announcedModel = currentModel;
+            }
             
             const response = await fetch(GROQ_API_BASE, {
                 method: 'POST',
@@ -97,10 +104,11 @@ export async function generateWithGroq(
                 body: JSON.stringify({
                     model: currentModel,
                     messages: messages,
-                    max_tokens: 4096,
-                    temperature: 0.7,
-                    stream: false, // Non-streaming for simplicity
-                })
+                    max_tokens: maxTokens,
+                    temperature: temperature,
+                    stream: true,
+                }),
+                signal
             });
 
             // Check for errors
@@ -108,15 +116,19 @@ export async function generateWithGroq(
                 const errorData = await response.json().catch(() => ({})) as { error?: { message?: string } };
                 const errorMessage = errorData.error?.message || `HTTP ${response.status}`;
                 
-                // Rate limit - try next model
+                // Rate limit - wait and retry the same model, then try next model
                 if (response.status === 429) {
-                    if (switchToNextModel()) {
-                        const nextModel = getModelDisplayName();
+                    const delay = retry.nextDelay(response.headers);
+                    if (delay !== undefined) {
+                        await waitForRetry(delay, `rate limit (${modelName})`, status => callbacks.onStatus?.(status), signal);
+                        continue;
+                    }
+                    if (models.next()) {
+                        retry.resetAttempts();
+                        const nextModel = getModelDisplayName(models.current);
                         callbacks.onToken(`\n⚠️ Rate limited. Switching to **${nextModel}**...\n\n`);
-                        await sleep(1500);
                         continue;
                     } else {
-                        resetToFirstModel();
                         callbacks.onError(new Error(
                             '⏳ Rate limit reached on all models.\n\n' +
                             'Please wait a moment and try again.'
@@ -127,10 +139,10 @@ export async function generateWithGroq(
                 
                 // Model not found - try next
                 if (response.status === 404) {
-                    if (switchToNextModel()) {
-                        const nextModel = getModelDisplayName();
+                    if (models.next()) {
+                        const nextModel = getModelDisplayName(models.current);
                         callbacks.onToken(`\n⚠️ Model unavailable. Trying **${nextModel}**...\n\n`);
-                        await sleep(500);
+                        await sleep(500, signal);
                         continue;
                     }
                 }
@@ -146,46 +158,42 @@ export async function generateWithGroq(
                 return;
             }
 
-            // Parse response (OpenAI-compatible format)
-            const result = await response.json() as {
-                choices?: Array<{
-                    message?: {
-                        content?: string;
-                    };
-                }>;
-            };
-            
-            const generatedText = result.choices?.[0]?.message?.content || '';
+            // Stream the response as it is generated
+            const result = await readChatCompletionStream(response, callbacks.onToken, signal);
+            const generatedText = result.content;
             
             // Check if we got content
             if (!generatedText || generatedText.trim().length === 0) {
-                if (switchToNextModel()) {
-                    const nextModel = getModelDisplayName();
+                if (models.next()) {
+                    const nextModel = getModelDisplayName(models.current);
                     callbacks.onToken(`\n⚠️ No response. Trying **${nextModel}**...\n\n`);
-                    await sleep(500);
+                    await sleep(500, signal);
                     continue;
                 }
+                callbacks.onError(new Error('No Groq model returned any content. Please try again.'));
+                return;
             }
             
-            // Stream the content (simulate streaming for better UX)
-            const words = generatedText.split(' ');
-            const chunkSize = 3;
-            
-            for (let i = 0; i < words.length; i += chunkSize) {
-                const chunk = words.slice(i, i + chunkSize).join(' ') + ' ';
-                callbacks.onToken(chunk);
-                await sleep(15); // Small delay for streaming effect
+            // Connection dropped mid-stream: keep the partial output visible but don't treat it as a README
+            if (!result.completed) {
+                callbacks.onError(new Error(`Groq stream was cut off after ${generatedText.length} characters. The partial output was not saved, please try again.`));
+                return;
             }
             
             callbacks.onComplete(generatedText);
             return; // Success!
             
         } catch (error) {
+            // Cancelled by the user - don't fall back to another model
+            if (signal?.aborted) {
+                return;
+            }
+            
             // Network error - try next model
-            if (switchToNextModel()) {
-                const nextModel = getModelDisplayName();
+            if (models.next()) {
+                const nextModel = getModelDisplayName(models.current);
                 callbacks.onToken(`\n⚠️ Connection error. Trying **${nextModel}**...\n\n`);
-                await sleep(1000);
+                await sleep(1000, signal);
                 continue;
             }
             
@@ -199,7 +207,7 @@ export async function generateWithGroq(
  * Test connection to Groq API
  */
 export async function testGroqConnection(): Promise<boolean> {
-    const apiKey = await getHuggingFaceApiKey();
+    const apiKey = await getProviderApiKey(groqProvider.id);
     
     if (!apiKey) {
         return false;
@@ -213,7 +221,7 @@ export async function testGroqConnection(): Promise<boolean> {
                 'Content-Type': 'application/json',
             },
             body: JSON.stringify({
-                model: GROQ_MODELS[0],
+                model: groqProvider.models[0],
                 messages: [{ role: 'user', content: 'Hi' }],
                 max_tokens: 5
             })
@@ -225,3 +233,31 @@ export async function testGroqConnection(): Promise<boolean> {
         return false;
     }
 }
+
+/**
+ * List chat models available to this Groq API key
+ */
+export async function listGroqModels(signal?: AbortSignal): Promise<string[]> {
+    const apiKey = await getProviderApiKey(groqProvider.id);
+    const models = await fetchModelIds(GROQ_MODELS_URL, apiKey, signal);
+    return models.filter(id => !NON_CHAT_MODEL_PATTERN.test(id)).sort();
+}
+
+/**
+ * Groq as a pluggable LLM provider
+ */
+export const groqProvider: LlmProvider = {
+    id: 'groq',
+    displayName: 'Groq',
+    get models() {
+        return getModelOrder('groq', GROQ_MODELS);
+    },
+    requiresApiKey: true,
+    apiKeyUrl: 'https://console.groq.com/keys',
+    apiKeyPlaceholder: 'gsk_...',
+    maxConcurrentRequests: 2,
+    isConfigured: () => hasProviderApiKey('groq'),
+    generate: generateWithGroq,
+    testConnection: testGroqConnection,
+    listModels: listGroqModels
+};
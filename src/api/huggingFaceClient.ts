@@ -6,13 +6,17 @@
  * Free tier: 1000 requests/day with generous rate limits
  */
 
-import { getHuggingFaceApiKey } from '../utils/secretStorage';
+import { getProviderApiKey, hasProviderApiKey } from '../utils/secretStorage';
+import { ChatMessage, StreamCallback, LlmProvider } from './llmProvider';
+import { RetryTracker, waitForRetry } from './retryPolicy';
+import { ModelCursor, getModelOrder, getGenerationParameters, getRetryPolicy } from './modelSettings';
+import { messagesFitModel } from '../generator/tokenBudget';
 
 // HuggingFace Router API endpoint (new endpoint as of late 2024)
 const HF_API_BASE = 'https://router.huggingface.co/hf-inference/models';
 
 // Models available via HuggingFace Inference API (sorted by quality)
-const HF_MODELS = [
+export const HF_MODELS = [
     'mistralai/Mistral-7B-Instruct-v0.3',      // Best quality, fast
     'HuggingFaceH4/zephyr-7b-beta',            // Very capable
     'microsoft/Phi-3-mini-4k-instruct',        // Microsoft model
@@ -20,45 +24,23 @@ const HF_MODELS = [
     'tiiuae/falcon-7b-instruct',               // Falcon model
 ];
 
-let currentModelIndex = 0;
-
-function getCurrentModel(): string {
-    return HF_MODELS[currentModelIndex];
-}
-
-function getModelDisplayName(): string {
-    const model = getCurrentModel();
+function getModelDisplayName(model: string): string {
     return model.split('/')[1] || model;
 }
 
-function switchToNextModel(): boolean {
-    if (currentModelIndex < HF_MODELS.length - 1) {
-        currentModelIndex++;
-        return true;
-    }
-    return false;
-}
-
-function resetToFirstModel(): void {
-    currentModelIndex = 0;
-}
-
-export interface ChatMessage {
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-}
-
-export interface StreamCallback {
-    onToken: (token: string) => void;
-    onComplete: (fullContent: string) => void;
-    onError: (error: Error) => void;
-}
-
 /**
- * Sleep for a given number of milliseconds
+ * Sleep for a given number of milliseconds (resolves early if aborted)
  */
-function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+    });
 }
 
 /**
@@ -87,27 +69,50 @@ function formatPrompt(messages: ChatMessage[]): string {
  */
 export async function generateWithHuggingFace(
     messages: ChatMessage[],
-    callbacks: StreamCallback
+    callbacks: StreamCallback,
+    signal?: AbortSignal
 ): Promise<void> {
-    const apiKey = await getHuggingFaceApiKey();
+    const apiKey = await getProviderApiKey(huggingFaceProvider.id);
     
     if (!apiKey) {
         callbacks.onError(new Error('HuggingFace API key not configured. Please set your HuggingFace API key.'));
         return;
     }
 
-    // Reset to first model at the start of each generation
-    resetToFirstModel();
+    // Models in the order they are tried (defaults unless overridden in settings)
+    const models = new ModelCursor(huggingFaceProvider.models);
+    const { temperature, maxTokens } = getGenerationParameters(huggingFaceProvider.id);
+    const retry = new RetryTracker(getRetryPolicy(huggingFaceProvider.id));
+    let announcedModel = '';
     
     const prompt = formatPrompt(messages);
 
     // Try each model in sequence
     while (true) {
-        const currentModel = getCurrentModel();
-        const modelName = getModelDisplayName();
+        // Stop immediately when cancelled
+        if (signal?.aborted) {
+            return;
+        }
+        
+        const currentModel = models.current;
+        const modelName = getModelDisplayName(currentModel);
+        
+        // Skip models whose context window can't hold this prompt
+        if (!messagesFitModel(messages, currentModel, maxTokens)) {
+            if (models.next()) {
+                callbacks.onToken(`\n⚠️ Prompt too large for ${modelName}. Trying **${getModelDisplayName(models.current)}**...\n\n`);
+                continue;
+            }
+            callbacks.onError(new Error('Prompt is too large for every HuggingFace model. Disable some sections and try again.'));
+            return;
+        }
         
         try {
-            callbacks.onToken(`🤖 Using HuggingFace model: **${modelName}**\n\n`);
+            // Announce each model once (retries reuse the same model)
+            if (announcedModel !== currentModel) {
+                callbacks.onToken(`🤖 Using HuggingFace model: **${modelName}**\n\n`);
+                announcedModel = currentModel;
+            }
             
             const response = await fetch(`${HF_API_BASE}/${currentModel}`, {
                 method: 'POST',
@@ -118,8 +123,8 @@ export async function generateWithHuggingFace(
                 body: JSON.stringify({
                     inputs: prompt,
                     parameters: {
-                        max_new_tokens: 4096,
-                        temperature: 0.7,
+                        max_new_tokens: maxTokens,
+                        temperature: temperature,
                         top_p: 0.95,
                         do_sample: true,
                         return_full_text: false,
@@ -128,7 +133,8 @@ export async function generateWithHuggingFace(
                         wait_for_model: true,
                         use_cache: false,
                     }
-                })
+                }),
+                signal
             });
 
             // Check for errors
@@ -136,15 +142,19 @@ export async function generateWithHuggingFace(
                 const errorData = await response.json().catch(() => ({})) as { error?: string };
                 const errorMessage = errorData.error || `HTTP ${response.status}`;
                 
-                // Model loading or busy - try next model
+                // Model loading or busy - wait and retry, then try next model
                 if (response.status === 503 || errorMessage.includes('loading') || errorMessage.includes('busy')) {
-                    if (switchToNextModel()) {
-                        const nextModel = getModelDisplayName();
+                    const delay = retry.nextDelay(response.headers);
+                    if (delay !== undefined) {
+                        await waitForRetry(delay, `${modelName} to load`, status => callbacks.onStatus?.(status), signal);
+                        continue;
+                    }
+                    if (models.next()) {
+                        retry.resetAttempts();
+                        const nextModel = getModelDisplayName(models.current);
                         callbacks.onToken(`\n⚠️ ${modelName} is loading. Switching to **${nextModel}**...\n\n`);
-                        await sleep(1000);
                         continue;
                     } else {
-                        resetToFirstModel();
                         callbacks.onError(new Error(
                             '⏳ All models are currently loading.\n\n' +
                             'HuggingFace models need to warm up. Please try again in 30 seconds.'
@@ -153,12 +163,17 @@ export async function generateWithHuggingFace(
                     }
                 }
                 
-                // Rate limit
+                // Rate limit - wait and retry, then try next model
                 if (response.status === 429) {
-                    if (switchToNextModel()) {
-                        const nextModel = getModelDisplayName();
+                    const delay = retry.nextDelay(response.headers);
+                    if (delay !== undefined) {
+                        await waitForRetry(delay, `rate limit (${modelName})`, status => callbacks.onStatus?.(status), signal);
+                        continue;
+                    }
+                    if (models.next()) {
+                        retry.resetAttempts();
+                        const nextModel = getModelDisplayName(models.current);
                         callbacks.onToken(`\n⚠️ Rate limited. Switching to **${nextModel}**...\n\n`);
-                        await sleep(1500);
                         continue;
                     }
                 }
@@ -190,12 +205,14 @@ export async function generateWithHuggingFace(
             
             // Check if we got content
             if (!generatedText || generatedText.trim().length === 0) {
-                if (switchToNextModel()) {
-                    const nextModel = getModelDisplayName();
+                if (models.next()) {
+                    const nextModel = getModelDisplayName(models.current);
                     callbacks.onToken(`\n⚠️ No response from ${modelName}. Trying **${nextModel}**...\n\n`);
-                    await sleep(500);
+                    await sleep(500, signal);
                     continue;
                 }
+                callbacks.onError(new Error('No Hugging Face model returned any content. Please try again.'));
+                return;
             }
             
             // Stream the content (simulate streaming for better UX)
@@ -204,19 +221,27 @@ export async function generateWithHuggingFace(
             
             for (let i = 0; i < words.length; i += chunkSize) {
                 const chunk = words.slice(i, i + chunkSize).join(' ') + ' ';
+                if (signal?.aborted) {
+                    return;
+                }
                 callbacks.onToken(chunk);
-                await sleep(20); // Small delay for streaming effect
+                await sleep(20, signal); // Small delay for streaming effect
             }
             
             callbacks.onComplete(generatedText);
             return; // Success!
             
         } catch (error) {
+            // Cancelled by the user - don't fall back to another model
+            if (signal?.aborted) {
+                return;
+            }
+            
             // Network error - try next model
-            if (switchToNextModel()) {
-                const nextModel = getModelDisplayName();
+            if (models.next()) {
+                const nextModel = getModelDisplayName(models.current);
                 callbacks.onToken(`\n⚠️ Connection error. Trying **${nextModel}**...\n\n`);
-                await sleep(1000);
+                await sleep(1000, signal);
                 continue;
             }
             
@@ -230,14 +255,14 @@ export async function generateWithHuggingFace(
  * Test connection to HuggingFace API
  */
 export async function testHuggingFaceConnection(): Promise<boolean> {
-    const apiKey = await getHuggingFaceApiKey();
+    const apiKey = await getProviderApiKey(huggingFaceProvider.id);
     
     if (!apiKey) {
         return false;
     }
 
     try {
-        const response = await fetch(`${HF_API_BASE}/${HF_MODELS[0]}`, {
+        const response = await fetch(`${HF_API_BASE}/${huggingFaceProvider.models[0]}`, {
             method: 'POST',
             headers: {
                 'Authorization': `Bearer ${apiKey}`,
@@ -255,3 +280,20 @@ export async function testHuggingFaceConnection(): Promise<boolean> {
         return false;
     }
 }
+
+/**
+ * HuggingFace Inference API as a pluggable LLM provider
+ */
+export const huggingFaceProvider: LlmProvider = {
+    id: 'huggingface',
+    displayName: 'HuggingFace',
+    get models() {
+        return getModelOrder('huggingface', HF_MODELS);
+    },
+    requiresApiKey: true,
+    apiKeyUrl: 'https://huggingface.co/settings/tokens',
+    apiKeyPlaceholder: 'hf_...',
+    isConfigured: () => hasProviderApiKey('huggingface'),
+    generate: generateWithHuggingFace,
+    testConnection: testHuggingFaceConnection
+};
@@ -0,0 +1,41 @@
+/**
+ * LLM Provider Interface
+ * Common contract implemented by every AI backend (Groq, OpenRouter, HuggingFace, ...)
+ * so the generator and webview never depend on a specific client.
+ */
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface StreamCallback {
+    onToken: (token: string) => void;
+    onComplete: (fullContent: string) => void;
+    onError: (error: Error) => void;
+    // Transient progress such as "⏳ Waiting 12s for rate limit..." (empty string clears it)
+    onStatus?: (status: string) => void;
+}
+
+export interface LlmProvider {
+    /** Stable identifier, also used as the secret storage and settings key */
+    readonly id: string;
+    readonly displayName: string;
+    /** Models in fallback order (first is preferred), including the user's settings */
+    readonly models: string[];
+    readonly requiresApiKey: boolean;
+    /** Where users can get an API key (shown when prompting for one) */
+    readonly apiKeyUrl?: string;
+    readonly apiKeyPlaceholder?: string;
+    /** Requests that may run at once when generating section by section (default 1) */
+    readonly maxConcurrentRequests?: number;
+
+    /** Whether the provider has everything it needs to generate */
+    isConfigured(): Promise<boolean>;
+    /** Interactive setup, used instead of the API key prompt. Returns true if configured. */
+    configure?(): Promise<boolean>;
+    generate(messages: ChatMessage[], callbacks: StreamCallback, signal?: AbortSignal): Promise<void>;
+    testConnection(): Promise<boolean>;
+    /** Fetch the models currently offered by the provider's models endpoint (if it has one) */
+    listModels?(signal?: AbortSignal): Promise<string[]>;
+}
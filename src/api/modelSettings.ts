@@ -0,0 +1,155 @@
+/**
+ * Model Settings
+ * Per-provider model order (primary + ordered fallbacks) and generation
+ * parameters from the ai-readme.providerSettings setting, plus model discovery
+ * from OpenAI-compatible /models endpoints. Also reads the per-provider
+ * ai-readme.retryPolicy setting.
+ */
+
+import * as vscode from 'vscode';
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from './retryPolicy';
+
+export interface ProviderSettings {
+    model?: string;
+    fallbackModels?: string[];
+    temperature?: number;
+    maxTokens?: number;
+}
+
+export interface GenerationParameters {
+    temperature: number;
+    maxTokens: number;
+}
+
+// Settings shape for ai-readme.retryPolicy (seconds are friendlier than ms)
+interface RetryPolicySettings {
+    maxRetries?: number;
+    initialDelaySeconds?: number;
+    maxDelaySeconds?: number;
+    maxTotalWaitSeconds?: number;
+}
+
+export const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Get the saved settings for a provider
+ */
+export function getProviderSettings(providerId: string): ProviderSettings {
+    const config = vscode.workspace.getConfiguration('ai-readme');
+    const all = config.get<Record<string, ProviderSettings>>('providerSettings') || {};
+    return all[providerId] || {};
+}
+
+/**
+ * Save the settings for a provider (user settings)
+ */
+export async function updateProviderSettings(providerId: string, settings: ProviderSettings): Promise<void> {
+    const config = vscode.workspace.getConfiguration('ai-readme');
+    const all = { ...(config.get<Record<string, ProviderSettings>>('providerSettings') || {}) };
+    all[providerId] = settings;
+    await config.update('providerSettings', all, vscode.ConfigurationTarget.Global);
+}
+
+/**
+ * Get the models to try in order: the primary model, then the fallbacks.
+ * Without settings, the provider's default list is used.
+ */
+export function getModelOrder(providerId: string, defaultModels: string[]): string[] {
+    const settings = getProviderSettings(providerId);
+    const primary = settings.model?.trim() || defaultModels[0];
+    const fallbacks = Array.isArray(settings.fallbackModels)
+        ? settings.fallbackModels
+        : defaultModels;
+
+    const order: string[] = [];
+    for (const model of [primary, ...fallbacks]) {
+        const trimmed = typeof model === 'string' ? model.trim() : '';
+        if (trimmed && !order.includes(trimmed)) {
+            order.push(trimmed);
+        }
+    }
+    return order;
+}
+
+/**
+ * Get temperature and max tokens for a provider
+ */
+export function getGenerationParameters(providerId: string): GenerationParameters {
+    const settings = getProviderSettings(providerId);
+
+    const temperature = typeof settings.temperature === 'number'
+        ? Math.min(Math.max(settings.temperature, 0), 2)
+        : DEFAULT_TEMPERATURE;
+    const maxTokens = typeof settings.maxTokens === 'number' && settings.maxTokens > 0
+        ? Math.floor(settings.maxTokens)
+        : DEFAULT_MAX_TOKENS;
+
+    return { temperature, maxTokens };
+}
+
+/**
+ * Get the retry policy for a provider (defaults merged with the user's settings)
+ */
+export function getRetryPolicy(providerId: string): RetryPolicy {
+    const config = vscode.workspace.getConfiguration('ai-readme');
+    const all = config.get<Record<string, RetryPolicySettings>>('retryPolicy') || {};
+    const settings = all[providerId] || {};
+
+    const seconds = (value: number | undefined, fallbackMs: number) =>
+        typeof value === 'number' && value >= 0 ? value * 1000 : fallbackMs;
+
+    return {
+        maxRetries: typeof settings.maxRetries === 'number' && settings.maxRetries >= 0
+            ? Math.floor(settings.maxRetries)
+            : DEFAULT_RETRY_POLICY.maxRetries,
+        initialDelayMs: seconds(settings.initialDelaySeconds, DEFAULT_RETRY_POLICY.initialDelayMs),
+        maxDelayMs: seconds(settings.maxDelaySeconds, DEFAULT_RETRY_POLICY.maxDelayMs),
+        maxTotalWaitMs: seconds(settings.maxTotalWaitSeconds, DEFAULT_RETRY_POLICY.maxTotalWaitMs)
+    };
+}
+
+/**
+ * Fetch model ids from an OpenAI-compatible GET /models endpoint
+ */
+export async function fetchModelIds(url: string, apiKey?: string, signal?: AbortSignal): Promise<string[]> {
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(url, { headers, signal });
+    if (!response.ok) {
+        throw new Error(`Could not load models (HTTP ${response.status})`);
+    }
+
+    const result = await response.json() as { data?: Array<{ id?: string }> };
+    return (result.data || [])
+        .map(m => m.id)
+        .filter((id): id is string => !!id);
+}
+
+/**
+ * Walks a model fallback order for one request.
+ * Kept per request so parallel generations don't move each other's position.
+ */
+export class ModelCursor {
+    private _index = 0;
+
+    constructor(private readonly _models: string[]) {}
+
+    public get current(): string {
+        return this._models[this._index];
+    }
+
+    /**
+     * Move to the next fallback model. Returns false if there is none.
+     */
+    public next(): boolean {
+        if (this._index < this._models.length - 1) {
+            this._index++;
+            return true;
+        }
+        return false;
+    }
+}
@@ -5,12 +5,18 @@
  * Includes automatic retry with exponential backoff for rate limits.
  */
 
-import { getApiKey } from '../utils/secretStorage';
+import { getProviderApiKey, hasProviderApiKey } from '../utils/secretStorage';
+import { ChatMessage, StreamCallback, LlmProvider } from './llmProvider';
+import { RetryTracker, waitForRetry } from './retryPolicy';
+import { ModelCursor, getModelOrder, getGenerationParameters, fetchModelIds, getRetryPolicy } from './modelSettings';
+import { readChatCompletionStream } from './sseStream';
+import { messagesFitModel } from '../generator/tokenBudget';
 
 const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const OPENROUTER_MODELS_URL = 'https://openrouter.ai/api/v1/models';
 
 // Primary model and fallbacks (all free - more options = better availability)
-const MODELS = [
+export const OPENROUTER_MODELS = [
     'google/gemini-2.0-flash-exp:free',           // Best quality, primary
     'google/gemma-2-9b-it:free',                   // Good quality fallback
     'meta-llama/llama-3.2-3b-instruct:free',      // Fast fallback
@@ -20,42 +26,6 @@ const MODELS = [
     'openchat/openchat-7b:free',                   // OpenChat fallback
     'huggingfaceh4/zephyr-7b-beta:free'           // Zephyr fallback
 ];
-
-let currentModelIndex = 0;
-
-function getCurrentModel(): string {
-    return MODELS[currentModelIndex];
-}
-
-function switchToNextModel(): boolean {
-    if (currentModelIndex < MODELS.length - 1) {
-        currentModelIndex++;
-        return true;
-    }
-    return false;
-}
-
-function resetToFirstModel(): void {
-    currentModelIndex = 0;
-}
-
-// Retry configuration
-const MAX_RETRIES = 3;
-const INITIAL_DELAY_MS = 2000; // 2 seconds
-const MAX_DELAY_MS = 30000; // 30 seconds
-
-export interface ChatMessage {
-    role: 'system' | 'user' | 'assistant';
-    content: string;
-}
-
-export interface StreamCallback {
-    onToken: (token: string) => void;
-    onComplete: (fullContent: string) => void;
-    onError: (error: Error) => void;
-    onRetry?: (attempt: number, delayMs: number) => void;
-}
-
 // Interface for project details
 export interface ProjectDetails {
     name: string;
@@ -66,10 +36,18 @@ export interface ProjectDetails {
 }
 
 /**
- * Sleep for a given number of milliseconds
+ * Sleep for a given number of milliseconds (resolves early if aborted)
  */
-function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+    });
 }
 
 /**
@@ -78,29 +56,53 @@ function sleep(ms: number): Promise<void> {
  */
 export async function generateWithStreaming(
     messages: ChatMessage[],
-    callbacks: StreamCallback
+    callbacks: StreamCallback,
+    signal?: AbortSignal
 ): Promise<void> {
-    const apiKey = await getApiKey();
+    const apiKey = await getProviderApiKey(openRouterProvider.id);
     
     if (!apiKey) {
-        callbacks.onError(new Error('API key not configured. Please set your Groq API key.'));
+        callbacks.onError(new Error('OpenRouter API key not configured. Please set your OpenRouter API key.'));
         return;
     }
 
-    // Reset to first model at the start of each generation
-    resetToFirstModel();
+    // Models in the order they are tried (defaults unless overridden in settings)
+    const models = new ModelCursor(openRouterProvider.models);
+    const { temperature, maxTokens } = getGenerationParameters(openRouterProvider.id);
+    const retry = new RetryTracker(getRetryPolicy(openRouterProvider.id));
+    let announcedModel = '';
     
     // Try each model in sequence
     while (true) {
-        const currentModel = getCurrentModel();
+        // Stop immediately when cancelled
+        if (signal?.aborted) {
+            return;
+        }
+        
+        const currentModel = models.current;
         const modelName = currentModel.split('/')[1]?.split(':')[0] || currentModel;
         
+        // Skip models whose context window can't hold this prompt
+        if (!messagesFitModel(messages, currentModel, maxTokens)) {
+            if (models.next()) {
+                const nextModel = models.current.split('/')[1]?.split(':')[0] || models.current;
+                callbacks.onToken(`\n⚠️ Prompt too large for ${modelName}. Trying **${nextModel}**...\n\n`);
+                continue;
+            }
+            callbacks.onError(new Error('Prompt is too large for every available model. Disable some sections and try again.'));
+            return;
+        }
+        
         try {
             // Use onToken to send status updates (mapped from onToken in interface)
             // Note: The interface has onToken, but here we might abuse it for status or add a status callback?
             // "callbacks.onToken" is likely expected to receive just content.
             // However, the original code sent "🤖 Using model..." via onToken.
-            callbacks.onToken(`🤖 Using model: **${modelName}**\n\n`);
+            // Announce each model once (retries reuse the same model)
+            if (announcedModel !== currentModel) {
+                callbacks.onToken(`🤖 Using model: **${modelName}**\n\n`);
+                announcedModel = currentModel;
+            }
             
             const response = await fetch(OPENROUTER_API_URL, {
                 method: 'POST',
@@ -114,25 +116,30 @@ export async function generateWithStreaming(
                     model: currentModel,
                     messages: messages, // Pass messages directly
                     stream: true,
-                    temperature: 0.7,
-                    max_tokens: 4096
-                })
+                    temperature: temperature,
+                    max_tokens: maxTokens
+                }),
+                signal
             });
 
             // Check for errors
             if (!response.ok) {
                 const errorText = await response.text();
                 
-                // Rate limit (429) or model busy - try next model
+                // Rate limit (429) or model busy - wait and retry, then try next model
                 if (response.status === 429 || errorText.includes('busy') || errorText.includes('overloaded')) {
-                    if (switchToNextModel()) {
-                        const nextModel = getCurrentModel().split('/')[1]?.split(':')[0] || getCurrentModel();
+                    const delay = retry.nextDelay(response.headers);
+                    if (delay !== undefined) {
+                        await waitForRetry(delay, `rate limit (${modelName})`, status => callbacks.onStatus?.(status), signal);
+                        continue; // Retry same model
+                    }
+                    if (models.next()) {
+                        retry.resetAttempts();
+                        const nextModel = models.current.split('/')[1]?.split(':')[0] || models.current;
                         callbacks.onToken(`\n⚠️ ${modelName} is busy. Switching to **${nextModel}**...\n\n`);
-                        await sleep(1500); // Brief pause before trying next model
                         continue; // Try next model
                     } else {
                         // All models exhausted
-                        resetToFirstModel();
                         callbacks.onError(new Error(
                             '⏳ All free models are currently busy.\n\n' +
                             'Please wait 1-2 minutes and try again.\n' +
@@ -144,17 +151,17 @@ export async function generateWithStreaming(
                 
                 // Model not found (404) - try next model
                 if (response.status === 404) {
-                    if (switchToNextModel()) {
-                        const nextModel = getCurrentModel().split('/')[1]?.split(':')[0] || getCurrentModel();
+                    if (models.next()) {
+                        const nextModel = models.current.split('/')[1]?.split(':')[0] || models.current;
                         callbacks.onToken(`\n⚠️ ${modelName} unavailable. Trying **${nextModel}**...\n\n`);
-                        await sleep(500);
+                        await sleep(500, signal);
                         continue;
                     }
                 }
                 
                 // Auth error
                 if (response.status === 401) {
-                    callbacks.onError(new Error('❌ Invalid API key. Please check your Groq API key in settings.'));
+                    callbacks.onError(new Error('❌ Invalid API key. Please check your OpenRouter API key.'));
                     return;
                 }
                 
@@ -163,80 +170,35 @@ export async function generateWithStreaming(
                 return;
             }
 
-            if (!response.body) {
-                callbacks.onError(new Error('No response body received'));
-                return;
-            }
-
             // Successfully connected - stream the response
-            const reader = response.body.getReader();
-            const decoder = new TextDecoder();
-            let fullContent = '';
-            let buffer = '';
-            let hasReceivedContent = false;
-
-            while (true) {
-                const { done, value } = await reader.read();
-                
-                if (done) {
-                    break;
-                }
-
-                buffer += decoder.decode(value, { stream: true });
-                const lines = buffer.split('\n');
-                buffer = lines.pop() || '';
-
-                for (const line of lines) {
-                    if (line.startsWith('data: ')) {
-                        const data = line.slice(6);
-                        
-                        if (data === '[DONE]') {
-                            continue;
-                        }
-
-                        try {
-                            const json = JSON.parse(data);
-                            const token = json.choices?.[0]?.delta?.content;
-                            
-                            if (token) {
-                                if (!hasReceivedContent) {
-                                    // Clear the "Using model" message once content starts
-                                    hasReceivedContent = true;
-                                }
-                                fullContent += token;
-                                callbacks.onToken(token); // Use onToken
-                            }
-                            
-                            // Check for error in response
-                            if (json.error) {
-                                throw new Error(json.error.message || 'API returned an error');
-                            }
-                        } catch (e) {
-                            // Skip malformed JSON chunks
-                        }
-                    }
-                }
-            }
+            const { content: fullContent } = await readChatCompletionStream(response, callbacks.onToken, signal);
 
             // Check if we got any content
             if (fullContent.trim().length === 0) {
-                if (switchToNextModel()) {
-                    const nextModel = getCurrentModel().split('/')[1]?.split(':')[0] || getCurrentModel();
+                if (models.next()) {
+                    const nextModel = models.current.split('/')[1]?.split(':')[0] || models.current;
                     callbacks.onToken(`\n⚠️ No response from ${modelName}. Trying **${nextModel}**...\n\n`);
-                    await sleep(500);
+                    await sleep(500, signal);
                     continue;
                 }
+                callbacks.onError(new Error('No OpenRouter model returned any content. Please try again.'));
+                return;
             }
 
             callbacks.onComplete(fullContent); // Use onComplete
             return; // Success!
             
         } catch (error) {
+            // Cancelled by the user - don't fall back to another model
+            if (signal?.aborted) {
+                return;
+            }
+            
             // Network error - try next model
-            if (switchToNextModel()) {
-                const nextModel = getCurrentModel().split('/')[1]?.split(':')[0] || getCurrentModel();
+            if (models.next()) {
+                const nextModel = models.current.split('/')[1]?.split(':')[0] || models.current;
                 callbacks.onToken(`\n⚠️ Connection error. Trying **${nextModel}**...\n\n`);
-                await sleep(1000);
+                await sleep(1000, signal);
                 continue;
             }
             
@@ -247,11 +209,11 @@ export async function generateWithStreaming(
 }
 
 /**
- * Test connection to Groq API
+ * Test connection to OpenRouter API
  */
 export async function testConnection(): Promise<boolean> {
     try {
-        const apiKey = await getApiKey();
+        const apiKey = await getProviderApiKey(openRouterProvider.id);
         
         if (!apiKey) {
             return false;
@@ -267,7 +229,7 @@ export async function testConnection(): Promise<boolean> {
                 'X-Title': 'AI README Generator - VS Code Extension'
             },
             body: JSON.stringify({
-                model: 'google/gemini-2.0-flash-exp:free',
+                model: openRouterProvider.models[0],
                 messages: [{ role: 'user', content: 'Hi' }],
                 max_tokens: 5
             })
@@ -279,3 +241,31 @@ export async function testConnection(): Promise<boolean> {
         return false;
     }
 }
+
+/**
+ * List OpenRouter models (free models first)
+ */
+export async function listOpenRouterModels(signal?: AbortSignal): Promise<string[]> {
+    const models = await fetchModelIds(OPENROUTER_MODELS_URL, undefined, signal);
+    const isFree = (id: string) => id.endsWith(':free');
+    return models.sort((a, b) => Number(isFree(b)) - Number(isFree(a)) || a.localeCompare(b));
+}
+
+/**
+ * OpenRouter as a pluggable LLM provider
+ */
+export const openRouterProvider: LlmProvider = {
+    id: 'openrouter',
+    displayName: 'OpenRouter',
+    get models() {
+        return getModelOrder('openrouter', OPENROUTER_MODELS);
+    },
+    requiresApiKey: true,
+    apiKeyUrl: 'https://openrouter.ai/keys',
+    apiKeyPlaceholder: 'sk-or-...',
+    maxConcurrentRequests: 2,
+    isConfigured: () => hasProviderApiKey('openrouter'),
+    generate: generateWithStreaming,
+    testConnection,
+    listModels: listOpenRouterModels
+};
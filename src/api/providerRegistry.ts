@@ -0,0 +1,68 @@
+/**
+ * Provider Registry
+ * Keeps track of available LLM providers and resolves which one to use.
+ * New providers only need to be registered here.
+ */
+
+import { LlmProvider } from './llmProvider';
+import { groqProvider } from './groqClient';
+import { openRouterProvider } from './openRouterClient';
+import { huggingFaceProvider } from './huggingFaceClient';
+import { customEndpointProvider } from './customEndpointClient';
+import { getApiProvider } from '../utils/secretStorage';
+
+// Registration order is also the fallback order when the preferred provider isn't configured
+const providers = new Map<string, LlmProvider>();
+
+/**
+ * Register a provider (replaces any provider with the same id)
+ */
+export function registerProvider(provider: LlmProvider): void {
+    providers.set(provider.id, provider);
+}
+
+/**
+ * Get a provider by id
+ */
+export function getProvider(id: string): LlmProvider | undefined {
+    return providers.get(id);
+}
+
+/**
+ * Get all registered providers
+ */
+export function getAllProviders(): LlmProvider[] {
+    return Array.from(providers.values());
+}
+
+/**
+ * Resolve the provider to use: the user's preferred one if configured,
+ * otherwise the first configured provider. Returns undefined if none is configured.
+ */
+export async function resolveActiveProvider(): Promise<LlmProvider | undefined> {
+    const preferred = getProvider(await getApiProvider());
+    if (preferred && await preferred.isConfigured()) {
+        return preferred;
+    }
+
+    for (const provider of providers.values()) {
+        if (await provider.isConfigured()) {
+            return provider;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Check if any provider is ready to generate
+ */
+export async function hasConfiguredProvider(): Promise<boolean> {
+    return (await resolveActiveProvider()) !== undefined;
+}
+
+// Built-in providers
+registerProvider(groqProvider);
+registerProvider(openRouterProvider);
+registerProvider(huggingFaceProvider);
+registerProvider(customEndpointProvider);
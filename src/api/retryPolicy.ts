@@ -0,0 +1,175 @@
+/**
+ * Retry Policy
+ * Shared exponential backoff for rate-limited requests.
+ * Honors server hints (Retry-After, x-ratelimit-reset*), retries the same model
+ * before falling back, and caps the total time spent waiting.
+ * The per-provider settings are read in modelSettings.
+ */
+
+export interface RetryPolicy {
+    // Retries of the same model before falling back to the next one
+    maxRetries: number;
+    initialDelayMs: number;
+    // Cap for computed backoff delays (server hints are honored as long as the total budget allows)
+    maxDelayMs: number;
+    // Cap for all waits within one generation
+    maxTotalWaitMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 2,
+    initialDelayMs: 2000,
+    maxDelayMs: 30000,
+    maxTotalWaitMs: 60000
+};
+
+/**
+ * Parse a duration like "1m30.5s", "7.66s", "250ms" or "12" (seconds) into ms
+ */
+function parseDuration(value: string): number | undefined {
+    const trimmed = value.trim();
+
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return parseFloat(trimmed) * 1000;
+    }
+
+    const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+    let total = 0;
+    let matched = false;
+    for (const match of trimmed.matchAll(pattern)) {
+        const amount = parseFloat(match[1]);
+        const unit = match[2];
+        total += unit === 'h' ? amount * 3600000
+            : unit === 'm' ? amount * 60000
+            : unit === 's' ? amount * 1000
+            : amount;
+        matched = true;
+    }
+
+    return matched ? total : undefined;
+}
+
+/**
+ * Parse a reset timestamp or delta (epoch ms, epoch seconds or seconds from now) into ms from now
+ */
+function parseReset(value: string, now: number): number | undefined {
+    const trimmed = value.trim();
+    if (!/^\d+(\.\d+)?$/.test(trimmed)) {
+        return parseDuration(trimmed);
+    }
+
+    const number = parseFloat(trimmed);
+    if (number > 1e12) {
+        return number - now;             // epoch milliseconds (OpenRouter)
+    }
+    if (number > 1e9) {
+        return number * 1000 - now;      // epoch seconds
+    }
+    return number * 1000;                // seconds from now
+}
+
+/**
+ * Get the wait the server asked for, in ms (undefined if there is no hint)
+ */
+export function getServerRetryDelay(headers: Headers | undefined, now: number = Date.now()): number | undefined {
+    if (!headers) {
+        return undefined;
+    }
+
+    const retryAfter = headers.get('retry-after');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (!isNaN(seconds)) {
+            return Math.max(seconds * 1000, 0);
+        }
+        const date = Date.parse(retryAfter);
+        if (!isNaN(date)) {
+            return Math.max(date - now, 0);
+        }
+    }
+
+    // Use the latest of the reset hints so the retry doesn't hit the limit again
+    const resets = ['x-ratelimit-reset', 'x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']
+        .map(name => headers.get(name))
+        .filter((value): value is string => !!value)
+        .map(value => parseReset(value, now))
+        .filter((ms): ms is number => ms !== undefined && !isNaN(ms));
+
+    return resets.length > 0 ? Math.max(Math.max(...resets), 0) : undefined;
+}
+
+/**
+ * Tracks retries and waiting time for one generation
+ */
+export class RetryTracker {
+    private _attempt = 0;
+    private _totalWaitMs = 0;
+
+    constructor(private readonly _policy: RetryPolicy) {}
+
+    /**
+     * Get the delay before retrying the current model,
+     * or undefined if it should fall back (retries or wait budget exhausted)
+     */
+    public nextDelay(headers?: Headers): number | undefined {
+        if (this._attempt >= this._policy.maxRetries) {
+            return undefined;
+        }
+
+        const backoff = Math.min(
+            this._policy.initialDelayMs * Math.pow(2, this._attempt),
+            this._policy.maxDelayMs
+        );
+        // Small jitter so parallel requests don't retry in lockstep
+        const delay = Math.ceil(getServerRetryDelay(headers) ?? backoff + Math.random() * 250);
+
+        if (this._totalWaitMs + delay > this._policy.maxTotalWaitMs) {
+            return undefined;
+        }
+
+        this._attempt++;
+        this._totalWaitMs += delay;
+        return delay;
+    }
+
+    /**
+     * Start counting retries again for the next model
+     */
+    public resetAttempts(): void {
+        this._attempt = 0;
+    }
+}
+
+/**
+ * Wait before a retry, reporting a countdown ("waiting 12s for rate limit") once per second.
+ * Resolves early if aborted.
+ */
+export async function waitForRetry(
+    delayMs: number,
+    reason: string,
+    onStatus: (message: string) => void,
+    signal?: AbortSignal
+): Promise<void> {
+    const end = Date.now() + delayMs;
+
+    while (!signal?.aborted) {
+        const remaining = end - Date.now();
+        if (remaining <= 0) {
+            break;
+        }
+
+        onStatus(`⏳ Waiting ${Math.ceil(remaining / 1000)}s for ${reason}...`);
+
+        await new Promise<void>(resolve => {
+            const done = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', done);
+                resolve();
+            };
+            const timer = setTimeout(done, Math.min(remaining, 1000));
+            signal?.addEventListener('abort', done, { once: true });
+        });
+    }
+
+    onStatus('');
+}
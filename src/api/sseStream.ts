@@ -0,0 +1,116 @@
+/**
+ * SSE Stream Reader
+ * Parses OpenAI-compatible chat completion streams (`data: {...}` lines)
+ * and delivers content deltas as they arrive.
+ */
+
+export interface StreamResult {
+    content: string;
+    // True when the server signalled the end of the completion ([DONE] or a finish_reason)
+    completed: boolean;
+    finishReason?: string;
+}
+
+/**
+ * Check that a parsed JSON value is an object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a streaming chat completion response, calling onToken for every content delta.
+ * A connection that drops mid-stream is reported as completed: false with the partial content.
+ * Aborting the request's signal rethrows the abort error.
+ */
+export async function readChatCompletionStream(
+    response: Response,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+): Promise<StreamResult> {
+    if (!response.body) {
+        throw new Error('No response body received');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let fullContent = '';
+    let buffer = '';
+    let completed = false;
+    let finishReason: string | undefined;
+
+    const handleLine = (line: string) => {
+        if (!line.startsWith('data:')) {
+            return;
+        }
+
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') {
+            completed = true;
+            return;
+        }
+        if (!data) {
+            return;
+        }
+
+        let json: unknown;
+        try {
+            json = JSON.parse(data);
+        } catch {
+            // Skip malformed JSON chunks
+            return;
+        }
+        if (!isRecord(json)) {
+            return;
+        }
+
+        if (json.error) {
+            const message = isRecord(json.error) ? json.error.message : undefined;
+            throw new Error(typeof message === 'string' && message ? message : 'API returned an error');
+        }
+
+        const choice = Array.isArray(json.choices) && isRecord(json.choices[0]) ? json.choices[0] : undefined;
+        const token = isRecord(choice?.delta) ? choice.delta.content : undefined;
+        if (typeof token === 'string' && token) {
+            fullContent += token;
+            onToken(token);
+        }
+
+        if (typeof choice?.finish_reason === 'string' && choice.finish_reason) {
+            finishReason = choice.finish_reason;
+            completed = true;
+        }
+    };
+
+    while (true) {
+        let chunk: Awaited<ReturnType<typeof reader.read>>;
+        try {
+            chunk = await reader.read();
+        } catch (error) {
+            // Cancelled, or nothing received yet: let the caller handle it
+            if (signal?.aborted || !fullContent) {
+                throw error;
+            }
+            return { content: fullContent, completed: false, finishReason };
+        }
+
+        const { done, value } = chunk;
+
+        if (done) {
+            break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+            handleLine(line.trimEnd());
+        }
+    }
+
+    // Last line may not end with a newline
+    handleLine((buffer + decoder.decode()).trimEnd());
+
+    return { content: fullContent, completed, finishReason };
+}
@@ -8,11 +8,17 @@
  */
 
 import * as vscode from 'vscode';
-import { initializeSecretStorage, setApiKey, hasApiKey, setHuggingFaceApiKey, hasHuggingFaceApiKey, setApiProvider, onDidChange } from './utils/secretStorage';
+import { initializeSecretStorage, setHuggingFaceApiKey, hasHuggingFaceApiKey, setApiProvider, getApiProvider, setProviderApiKey, onDidChange } from './utils/secretStorage';
 import { WebviewProvider } from './providers/webviewProvider';
 import { SidebarProvider } from './providers/sidebarProvider';
-import { testConnection } from './api/openRouterClient';
-import { testHuggingFaceConnection } from './api/huggingFaceClient';
+import { ReadmeDiagnosticsProvider } from './providers/readmeDiagnostics';
+import { ReadmeCodeLensProvider } from './providers/readmeCodeLensProvider';
+import { BatchJobsProvider } from './providers/batchJobsProvider';
+import { BatchReviewPanel } from './providers/batchReviewPanel';
+import { BatchQueue, getBatchOptions } from './generator/batchQueue';
+import { resolveWorkspacePatterns } from './analysis/monorepo';
+import { LlmProvider } from './api/llmProvider';
+import { getAllProviders, getProvider, hasConfiguredProvider } from './api/providerRegistry';
 
 let webviewProvider: WebviewProvider;
 let sidebarProvider: SidebarProvider;
@@ -51,6 +57,43 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
     
+    // Lint README.md against the project and offer quick fixes
+    const readmeDiagnostics = new ReadmeDiagnosticsProvider();
+    context.subscriptions.push(
+        readmeDiagnostics,
+        vscode.languages.registerCodeActionsProvider(
+            { language: 'markdown', scheme: 'file' },
+            readmeDiagnostics,
+            { providedCodeActionKinds: ReadmeDiagnosticsProvider.providedCodeActionKinds }
+        )
+    );
+    
+    // Regenerate / Refine / Translate / History actions above README headings
+    const readmeCodeLens = new ReadmeCodeLensProvider();
+    context.subscriptions.push(
+        readmeCodeLens,
+        vscode.languages.registerCodeLensProvider({ language: 'markdown', scheme: 'file' }, readmeCodeLens),
+        vscode.commands.registerCommand('ai-readme.regenerateSectionInEditor', (uri?: vscode.Uri, sectionId?: string) => readmeCodeLens.regenerate(uri, sectionId)),
+        vscode.commands.registerCommand('ai-readme.refineSectionInEditor', (uri?: vscode.Uri, sectionId?: string) => readmeCodeLens.refine(uri, sectionId)),
+        vscode.commands.registerCommand('ai-readme.translateSectionInEditor', (uri?: vscode.Uri, sectionId?: string) => readmeCodeLens.translate(uri, sectionId)),
+        vscode.commands.registerCommand('ai-readme.showSectionHistory', (uri?: vscode.Uri, sectionId?: string) => readmeCodeLens.showHistory(uri, sectionId))
+    );
+    
+    // Batch generation: job queue, its sidebar view and the review screen
+    const batchQueue = new BatchQueue();
+    const batchJobs = new BatchJobsProvider(batchQueue);
+    const batchReview = new BatchReviewPanel(batchQueue);
+    context.subscriptions.push(
+        batchQueue,
+        batchJobs,
+        batchReview,
+        vscode.window.registerTreeDataProvider(BatchJobsProvider.viewType, batchJobs),
+        vscode.commands.registerCommand('ai-readme.generateBatch', (uri?: vscode.Uri, uris?: vscode.Uri[]) => generateBatch(batchQueue, batchReview, uri, uris)),
+        vscode.commands.registerCommand('ai-readme.reviewBatch', (folderPath?: string) => batchReview.show(typeof folderPath === 'string' ? folderPath : undefined)),
+        vscode.commands.registerCommand('ai-readme.cancelBatch', () => batchQueue.cancel()),
+        vscode.commands.registerCommand('ai-readme.clearBatch', () => batchQueue.clearFinished())
+    );
+    
     // Register commands
     registerCommands(context);
     
@@ -104,7 +147,7 @@ function registerCommands(context: vscode.ExtensionContext): void {
                 // OR we can migrate. Since we are refactoring, let's just use the setHuggingFaceApiKey 
                 // function but wrap it as our main key.
                 await setHuggingFaceApiKey(key.trim());
-                await setApiProvider('huggingface'); 
+                await setApiProvider('groq');
                 
                 vscode.window.showInformationMessage(
                     '✅ Groq API key saved! You now have fast, free AI generation.'
@@ -117,8 +160,46 @@ function registerCommands(context: vscode.ExtensionContext): void {
         }
     });
     
-    // Legacy/Alternative command for manual invocation if needed, mapped to same logic
+    // Set HuggingFace Inference API key command
     const setHuggingFaceApiKeyCmd = vscode.commands.registerCommand('ai-readme.setHuggingFaceApiKey', async () => {
+        const provider = getProvider('huggingface');
+        if (provider && await promptForProviderApiKey(provider)) {
+            await setApiProvider(provider.id);
+        }
+    });
+    
+    // Select AI provider command
+    const selectProviderCmd = vscode.commands.registerCommand('ai-readme.selectProvider', async () => {
+        const current = await getApiProvider();
+        const items = await Promise.all(getAllProviders().map(async provider => ({
+            label: provider.displayName,
+            description: provider.id === current ? 'Current' : undefined,
+            detail: await provider.isConfigured()
+                ? '$(check) Configured'
+                : provider.requiresApiKey ? '$(key) API key required' : '$(gear) Setup required',
+            provider
+        })));
+        
+        const picked = await vscode.window.showQuickPick(items, {
+            title: 'Select AI Provider',
+            placeHolder: 'Choose which provider generates your README'
+        });
+        
+        if (!picked) {
+            return;
+        }
+        
+        if (!await picked.provider.isConfigured()) {
+            const configured = picked.provider.configure
+                ? await picked.provider.configure()
+                : await promptForProviderApiKey(picked.provider);
+            if (!configured) {
+                return;
+            }
+        }
+        
+        await setApiProvider(picked.provider.id);
+        vscode.window.showInformationMessage(`✅ Using ${picked.provider.displayName} for README generation.`);
     });
     
     // View history command
@@ -127,15 +208,23 @@ function registerCommands(context: vscode.ExtensionContext): void {
         // The webview will show history by default
     });
     
-    // Regenerate section command (triggered from webview)
+    // Regenerate section command (asks which section unless a section id is passed;
+    // quick fixes also pass the README file the section is in)
     const regenerateSectionCmd = vscode.commands.registerCommand(
         'ai-readme.regenerateSection',
-        async (sectionId: string) => {
-            // This is handled by the webview
-            vscode.window.showInformationMessage(`Regenerating section: ${sectionId}`);
+        async (sectionId?: string, readmePath?: string) => {
+            await webviewProvider.regenerateSection(
+                typeof sectionId === 'string' ? sectionId : undefined,
+                typeof readmePath === 'string' ? readmePath : undefined
+            );
         }
     );
     
+    // Update existing README command (regenerates only out-of-date sections)
+    const updateReadmeCmd = vscode.commands.registerCommand('ai-readme.updateReadme', async () => {
+        await webviewProvider.updateReadme();
+    });
+    
     // Export command
     const exportCmd = vscode.commands.registerCommand('ai-readme.exportReadme', async () => {
         await webviewProvider.createOrShow();
@@ -148,12 +237,113 @@ function registerCommands(context: vscode.ExtensionContext): void {
         generateForFolderCmd,
         setGroqApiKeyCmd,
         setHuggingFaceApiKeyCmd,
+        selectProviderCmd,
         viewHistoryCmd,
         regenerateSectionCmd,
+        updateReadmeCmd,
         exportCmd
     );
 }
 
+/**
+ * Queue READMEs for several folders: the folders selected in the explorer, or the
+ * folders matching glob patterns typed in (e.g. "packages/*, !packages/legacy")
+ */
+async function generateBatch(queue: BatchQueue, review: BatchReviewPanel, uri?: vscode.Uri, uris?: vscode.Uri[]): Promise<void> {
+    if (!await hasConfiguredProvider()) {
+        vscode.window.showWarningMessage('🔑 Configure an AI provider before generating READMEs in a batch.');
+        return;
+    }
+    
+    let folders = (uris && uris.length > 0 ? uris : uri ? [uri] : []).map(u => u.fsPath);
+    if (folders.length === 0) {
+        const input = await vscode.window.showInputBox({
+            title: 'Generate READMEs for Folders',
+            prompt: 'Folder glob patterns relative to the workspace, separated by commas. Folders need a project manifest (package.json, Cargo.toml, go.mod, ...).',
+            placeHolder: 'packages/*, apps/*, !packages/legacy',
+            ignoreFocusOut: true
+        });
+        if (!input) {
+            return;
+        }
+        const patterns = input.split(',').map(p => p.trim()).filter(Boolean);
+        for (const workspaceFolder of vscode.workspace.workspaceFolders || []) {
+            const matches = await resolveWorkspacePatterns(workspaceFolder.uri.fsPath, patterns);
+            folders.push(...matches.map(m => vscode.Uri.joinPath(workspaceFolder.uri, m).fsPath));
+        }
+        if (folders.length === 0) {
+            vscode.window.showWarningMessage(`No project folder matches ${input}.`);
+            return;
+        }
+    }
+    
+    // Explorer selections may include files; only folders get a README
+    const stats = await Promise.all(folders.map(f => vscode.workspace.fs.stat(vscode.Uri.file(f)).then(s => s, () => undefined)));
+    folders = folders.filter((_, i) => stats[i] && (stats[i]!.type & vscode.FileType.Directory));
+    
+    const added = queue.add(folders);
+    if (added.length === 0) {
+        vscode.window.showInformationMessage('These folders are already in the batch queue.');
+        return;
+    }
+    
+    await vscode.commands.executeCommand(`${BatchJobsProvider.viewType}.focus`);
+    // A running batch picks up the new folders and reports when it is done
+    if (queue.isRunning) {
+        vscode.window.showInformationMessage(`Added ${added.length} folder${added.length === 1 ? '' : 's'} to the running batch.`);
+        return;
+    }
+    await queue.run(getBatchOptions());
+    
+    const done = queue.jobs.filter(j => j.review === 'pending').length;
+    const failed = queue.jobs.filter(j => j.status === 'failed').length;
+    if (done > 0) {
+        const action = await vscode.window.showInformationMessage(
+            `📚 ${done} README${done === 1 ? ' is' : 's are'} ready for review${failed > 0 ? ` (${failed} failed)` : ''}.`,
+            'Review'
+        );
+        if (action === 'Review') {
+            review.show();
+        }
+    } else if (failed > 0) {
+        vscode.window.showErrorMessage(`Batch generation failed for ${failed} folder${failed === 1 ? '' : 's'}. See the Batch Jobs view.`);
+    }
+}
+
+/**
+ * Ask for a provider's API key and store it. Returns true if a key was saved.
+ */
+async function promptForProviderApiKey(provider: LlmProvider): Promise<boolean> {
+    const key = await vscode.window.showInputBox({
+        title: `${provider.displayName} API Key`,
+        prompt: provider.apiKeyUrl
+            ? `Enter your ${provider.displayName} API key (get one at ${provider.apiKeyUrl})`
+            : `Enter your ${provider.displayName} API key`,
+        placeHolder: provider.apiKeyPlaceholder,
+        password: true,
+        ignoreFocusOut: true,
+        validateInput: (value) => {
+            if (!value || value.trim().length === 0) {
+                return 'API key cannot be empty';
+            }
+            return null;
+        }
+    });
+    
+    if (!key) {
+        return false;
+    }
+    
+    try {
+        await setProviderApiKey(provider.id, key.trim());
+        vscode.window.showInformationMessage(`✅ ${provider.displayName} API key saved!`);
+        return true;
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to save API key: ${error}`);
+        return false;
+    }
+}
+
 /**
  * Show welcome message on first install
  */
@@ -6,6 +6,7 @@
 
 import { ProjectInfo } from '../analysis/workspaceScanner';
 import { DetectionResult } from '../analysis/languageDetector';
+import { ManifestEcosystem, normalizePackageName } from '../analysis/manifest';
 
 // ============================================================================
 // TYPES
@@ -93,6 +94,13 @@ const TECH_BADGES: Record<string, TechBadgeConfig> = {
     'gin': { name: 'Gin', color: '00ADD8', logo: 'gin', logoColor: 'white' },
     'fiber': { name: 'Fiber', color: '00ACD7', logo: 'go', logoColor: 'white' },
     'actix': { name: 'Actix', color: '000000', logo: 'rust', logoColor: 'white' },
+    'axum': { name: 'Axum', color: '000000', logo: 'rust', logoColor: 'white' },
+    'rocket': { name: 'Rocket', color: 'D33847', logo: 'rust', logoColor: 'white' },
+    'echo': { name: 'Echo', color: '00ADD8', logo: 'go', logoColor: 'white' },
+    'aspnet': { name: 'ASP.NET%20Core', color: '512BD4', logo: 'dotnet', logoColor: 'white' },
+    'symfony': { name: 'Symfony', color: '000000', logo: 'symfony', logoColor: 'white' },
+    'sinatra': { name: 'Sinatra', color: '000000', logo: 'rubysinatra', logoColor: 'white' },
+    'vapor': { name: 'Vapor', color: '0D0D0D', logo: 'swift', logoColor: 'white' },
     'deno': { name: 'Deno', color: '000000', logo: 'deno', logoColor: 'white' },
     'bun': { name: 'Bun', color: '000000', logo: 'bun', logoColor: 'white' },
 
@@ -137,6 +145,9 @@ const TECH_BADGES: Record<string, TechBadgeConfig> = {
     'vitest': { name: 'Vitest', color: '6E9F18', logo: 'vitest', logoColor: 'white' },
     'pytest': { name: 'Pytest', color: '0A9EDC', logo: 'pytest', logoColor: 'white' },
     'junit': { name: 'JUnit5', color: '25A162', logo: 'junit5', logoColor: 'white' },
+    'phpunit': { name: 'PHPUnit', color: '3C9CD7', logo: 'php', logoColor: 'white' },
+    'rspec': { name: 'RSpec', color: 'CC342D', logo: 'ruby', logoColor: 'white' },
+    'xunit': { name: 'xUnit', color: '512BD4', logo: 'dotnet', logoColor: 'white' },
 
     // ═══════════════════════════════════════════════════════════════════════
     // BUILD TOOLS & BUNDLERS
@@ -209,6 +220,13 @@ const TECH_BADGES: Record<string, TechBadgeConfig> = {
     'pnpm': { name: 'pnpm', color: 'F69220', logo: 'pnpm', logoColor: 'white' },
     'pip': { name: 'pip', color: '3776AB', logo: 'pypi', logoColor: 'white' },
     'cargo': { name: 'Cargo', color: '000000', logo: 'rust', logoColor: 'white' },
+    'poetry': { name: 'Poetry', color: '60A5FA', logo: 'poetry', logoColor: 'white' },
+    'uv': { name: 'uv', color: 'DE5FE9', logo: 'uv', logoColor: 'white' },
+    'maven': { name: 'Maven', color: 'C71A36', logo: 'apachemaven', logoColor: 'white' },
+    'gradle': { name: 'Gradle', color: '02303A', logo: 'gradle', logoColor: 'white' },
+    'dotnet': { name: '.NET', color: '512BD4', logo: 'dotnet', logoColor: 'white' },
+    'composer': { name: 'Composer', color: '885630', logo: 'composer', logoColor: 'white' },
+    'bundler': { name: 'Bundler', color: 'CC342D', logo: 'rubygems', logoColor: 'white' },
 };
 
 // ============================================================================
@@ -267,6 +285,15 @@ const FRAMEWORK_MAP: Record<string, string> = {
     'Ruby on Rails': 'rails',
     'Laravel': 'laravel',
     'Gin': 'gin',
+    'Echo': 'echo',
+    'Fiber': 'fiber',
+    'Actix Web': 'actix',
+    'Axum': 'axum',
+    'Rocket': 'rocket',
+    'ASP.NET Core': 'aspnet',
+    'Symfony': 'symfony',
+    'Sinatra': 'sinatra',
+    'Vapor': 'vapor',
     'TailwindCSS': 'tailwind',
     'Tailwind CSS': 'tailwind',
     'Bootstrap': 'bootstrap',
@@ -358,6 +385,97 @@ const DEPENDENCY_MAP: Record<string, string> = {
     '@tensorflow/tfjs': 'tensorflow',
 };
 
+/** Maps dependencies from other ecosystems' manifests to badge keys (names as written or normalized) */
+const MANIFEST_DEPENDENCY_MAP: Partial<Record<ManifestEcosystem, Record<string, string>>> = {
+    python: {
+        'django': 'django',
+        'flask': 'flask',
+        'fastapi': 'fastapi',
+        'torch': 'pytorch',
+        'tensorflow': 'tensorflow',
+        'openai': 'openai',
+        'langchain': 'langchain',
+        'psycopg': 'postgresql',
+        'psycopg2': 'postgresql',
+        'psycopg2-binary': 'postgresql',
+        'asyncpg': 'postgresql',
+        'pymongo': 'mongodb',
+        'motor': 'mongodb',
+        'redis': 'redis',
+        'pytest': 'pytest',
+    },
+    rust: {
+        'actix-web': 'actix',
+        'axum': 'axum',
+        'rocket': 'rocket',
+        'rusqlite': 'sqlite',
+        'tokio-postgres': 'postgresql',
+        'mongodb': 'mongodb',
+        'redis': 'redis',
+    },
+    go: {
+        'github.com/gin-gonic/gin': 'gin',
+        'github.com/labstack/echo/v4': 'echo',
+        'github.com/gofiber/fiber/v2': 'fiber',
+        'github.com/jackc/pgx/v5': 'postgresql',
+        'github.com/lib/pq': 'postgresql',
+        'github.com/go-sql-driver/mysql': 'mysql',
+        'github.com/mattn/go-sqlite3': 'sqlite',
+        'go.mongodb.org/mongo-driver': 'mongodb',
+        'github.com/redis/go-redis/v9': 'redis',
+    },
+    jvm: {
+        'org.springframework.boot:spring-boot-starter': 'spring',
+        'org.springframework.boot:spring-boot-starter-web': 'spring',
+        'org.springframework.boot:spring-boot-starter-webflux': 'spring',
+        'org.postgresql:postgresql': 'postgresql',
+        'com.mysql:mysql-connector-j': 'mysql',
+        'mysql:mysql-connector-java': 'mysql',
+        'org.mongodb:mongodb-driver-sync': 'mongodb',
+        'redis.clients:jedis': 'redis',
+        'junit:junit': 'junit',
+        'org.junit.jupiter:junit-jupiter': 'junit',
+        'org.junit.jupiter:junit-jupiter-api': 'junit',
+    },
+    dotnet: {
+        'Npgsql': 'postgresql',
+        'Npgsql.EntityFrameworkCore.PostgreSQL': 'postgresql',
+        'Microsoft.EntityFrameworkCore.Sqlite': 'sqlite',
+        'MongoDB.Driver': 'mongodb',
+        'StackExchange.Redis': 'redis',
+        'xunit': 'xunit',
+    },
+    php: {
+        'symfony/framework-bundle': 'symfony',
+        'predis/predis': 'redis',
+        'mongodb/mongodb': 'mongodb',
+        'phpunit/phpunit': 'phpunit',
+    },
+    ruby: {
+        'rails': 'rails',
+        'sinatra': 'sinatra',
+        'pg': 'postgresql',
+        'mysql2': 'mysql',
+        'sqlite3': 'sqlite',
+        'redis': 'redis',
+        'mongoid': 'mongodb',
+        'rspec': 'rspec',
+        'rspec-rails': 'rspec',
+    },
+    dart: {
+        'firebase_core': 'firebase',
+        'cloud_firestore': 'firebase',
+        'supabase_flutter': 'supabase',
+        'sqflite': 'sqlite',
+    },
+    swift: {
+        'vapor': 'vapor',
+        'fluent-postgres-driver': 'postgresql',
+        'fluent-sqlite-driver': 'sqlite',
+        'redis': 'redis',
+    },
+};
+
 /** Maps build tools to badge keys */
 const BUILD_TOOL_MAP: Record<string, string> = {
     'webpack': 'webpack',
@@ -376,6 +494,13 @@ const PACKAGE_MANAGER_MAP: Record<string, string> = {
     'pnpm': 'pnpm',
     'pip': 'pip',
     'cargo': 'cargo',
+    'poetry': 'poetry',
+    'uv': 'uv',
+    'maven': 'maven',
+    'gradle': 'gradle',
+    'dotnet': 'dotnet',
+    'composer': 'composer',
+    'bundler': 'bundler',
 };
 
 // ============================================================================
@@ -412,7 +537,7 @@ function getCategoryForKey(key: string): Badge['category'] {
     if (['aws', 'azure', 'gcp', 'vercel', 'netlify', 'heroku', 'digitalocean', 'cloudflare', 'railway', 'render'].includes(key)) {
         return 'cloud';
     }
-    if (['docker', 'kubernetes', 'git', 'github', 'gitlab', 'actions', 'jenkins', 'circleci', 'nginx', 'apache', 'webpack', 'vite', 'rollup', 'esbuild', 'parcel', 'gulp', 'grunt', 'eslint', 'prettier', 'biome', 'npm', 'yarn', 'pnpm', 'pip', 'cargo'].includes(key)) {
+    if (['docker', 'kubernetes', 'git', 'github', 'gitlab', 'actions', 'jenkins', 'circleci', 'nginx', 'apache', 'webpack', 'vite', 'rollup', 'esbuild', 'parcel', 'gulp', 'grunt', 'eslint', 'prettier', 'biome', 'npm', 'yarn', 'pnpm', 'pip', 'cargo', 'poetry', 'uv', 'maven', 'gradle', 'dotnet', 'composer', 'bundler'].includes(key)) {
         return 'tool';
     }
     return 'framework';
@@ -422,7 +547,7 @@ function getCategoryForKey(key: string): Badge['category'] {
  * Generate license badge
  */
 export function generateLicenseBadge(projectInfo: ProjectInfo): Badge | null {
-    const license = projectInfo.packageJson?.license;
+    const license = projectInfo.packageJson?.license || projectInfo.manifest?.license;
     if (!license) return null;
 
     const encoded = encodeURIComponent(license);
@@ -437,7 +562,7 @@ export function generateLicenseBadge(projectInfo: ProjectInfo): Badge | null {
  * Generate version badge
  */
 export function generateVersionBadge(projectInfo: ProjectInfo): Badge | null {
-    const version = projectInfo.packageJson?.version;
+    const version = projectInfo.packageJson?.version || projectInfo.manifest?.version;
     if (!version) return null;
 
     return {
@@ -459,37 +584,28 @@ export function generatePRsWelcomeBadge(): Badge {
 }
 
 /**
- * Auto-detect and generate all applicable badges based on project analysis
+ * Badge keys the project analysis supports, in badge order (meta badges excluded)
  */
-export function generateAllBadges(
-    projectInfo: ProjectInfo,
-    detection: DetectionResult,
-    style: BadgeStyle = 'flat-square'
-): Badge[] {
-    const badges: Badge[] = [];
-    const addedKeys = new Set<string>();
-
-    // Helper to add badge if not already added
-    const addBadge = (key: string) => {
-        if (!addedKeys.has(key)) {
-            const badge = createBadge(key, style);
-            if (badge) {
-                badges.push(badge);
-                addedKeys.add(key);
-            }
+function collectBadgeKeys(projectInfo: ProjectInfo, detection: DetectionResult): string[] {
+    const keys: string[] = [];
+
+    // Helper to add key if not already added
+    const addKey = (key: string) => {
+        if (!keys.includes(key)) {
+            keys.push(key);
         }
     };
 
     // 1. Add language badges
     for (const lang of detection.languages) {
         const key = LANGUAGE_MAP[lang.name] || LANGUAGE_MAP[lang.name.split(' ')[0]];
-        if (key) addBadge(key);
+        if (key) addKey(key);
     }
 
     // 2. Add framework badges
     for (const fw of detection.frameworks) {
         const key = FRAMEWORK_MAP[fw.name];
-        if (key) addBadge(key);
+        if (key) addKey(key);
     }
 
     // 3. Add badges from package.json dependencies
@@ -500,36 +616,58 @@ export function generateAllBadges(
 
     for (const dep of Object.keys(deps || {})) {
         const key = DEPENDENCY_MAP[dep];
-        if (key) addBadge(key);
+        if (key) addKey(key);
+    }
+
+    // ...and from the manifests of other ecosystems
+    const manifestMap = projectInfo.manifest && MANIFEST_DEPENDENCY_MAP[projectInfo.manifest.ecosystem];
+    for (const dep of projectInfo.manifest?.dependencies || []) {
+        const key = manifestMap?.[dep.name] || manifestMap?.[normalizePackageName(dep.name)];
+        if (key) addKey(key);
     }
 
     // 4. Add build tool badges
     for (const tool of detection.buildTools) {
         const key = BUILD_TOOL_MAP[tool.toLowerCase()];
-        if (key) addBadge(key);
+        if (key) addKey(key);
     }
 
     // 5. Add package manager badge
     if (detection.packageManager) {
         const key = PACKAGE_MANAGER_MAP[detection.packageManager.toLowerCase()];
-        if (key) addBadge(key);
+        if (key) addKey(key);
     }
 
     // 6. Add Node.js badge if applicable
     if (projectInfo.packageJson?.engines?.node) {
-        addBadge('node');
+        addKey('node');
     }
 
     // 7. Add Docker badge if Dockerfile exists
     if (projectInfo.files?.some(f => f.path.toLowerCase().includes('dockerfile'))) {
-        addBadge('docker');
+        addKey('docker');
     }
 
     // 8. Add GitHub Actions badge if .github/workflows exists
     if (projectInfo.files?.some(f => f.path.includes('.github/workflows'))) {
-        addBadge('actions');
+        addKey('actions');
     }
 
+    return keys;
+}
+
+/**
+ * Auto-detect and generate all applicable badges based on project analysis
+ */
+export function generateAllBadges(
+    projectInfo: ProjectInfo,
+    detection: DetectionResult,
+    style: BadgeStyle = 'flat-square'
+): Badge[] {
+    const badges = collectBadgeKeys(projectInfo, detection)
+        .map(key => createBadge(key, style))
+        .filter((badge): badge is Badge => badge !== null);
+
     // 9. Add meta badges
     const licenseBadge = generateLicenseBadge(projectInfo);
     if (licenseBadge) badges.push(licenseBadge);
@@ -542,6 +680,30 @@ export function generateAllBadges(
     return badges;
 }
 
+/**
+ * Find the badge key for a badge label (e.g. "React" or "Vue.js") if the badge
+ * stands for a package.json dependency. Returns null for any other badge.
+ */
+export function getDependencyBadgeKey(label: string): string | null {
+    const normalized = label.trim().toLowerCase();
+    const dependencyKeys = new Set(Object.values(DEPENDENCY_MAP));
+
+    for (const key of dependencyKeys) {
+        const config = TECH_BADGES[key];
+        if (config && decodeURIComponent(config.name).toLowerCase() === normalized) {
+            return key;
+        }
+    }
+    return null;
+}
+
+/**
+ * Check whether the project analysis still supports a badge key
+ */
+export function isBadgeKeyDetected(key: string, projectInfo: ProjectInfo, detection: DetectionResult): boolean {
+    return collectBadgeKeys(projectInfo, detection).includes(key);
+}
+
 /**
  * Get all badges as markdown string
  */
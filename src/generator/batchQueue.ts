@@ -0,0 +1,326 @@
+/**
+ * Batch Queue
+ * Generates READMEs for several folders as a queue of jobs. A few jobs run at once
+ * (ai-readme.batchConcurrency); when the provider starts rate limiting, fewer jobs run
+ * and no new job starts until the wait is over. Every result is kept in its folder's
+ * history and waits for review before anything is written.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ProjectInfo, scanWorkspace } from '../analysis/workspaceScanner';
+import { DetectionResult, detectAll } from '../analysis/languageDetector';
+import { detectProjectType } from '../analysis/projectTypeDetector';
+import { getTemplate } from '../templates/templates';
+import { resolveActiveProvider } from '../api/providerRegistry';
+import { saveVersion } from '../history/historyManager';
+import { GenerationOptions, generateReadme } from './readmeGenerator';
+
+export type BatchJobStatus = 'queued' | 'scanning' | 'generating' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+// What the user decided in the review; 'written' once the README is on disk
+export type BatchReviewState = 'pending' | 'accepted' | 'rejected' | 'written';
+
+export interface BatchJob {
+    // The folder path, which is also the job's id
+    folderPath: string;
+    name: string;
+    status: BatchJobStatus;
+    // Latest progress, rate limit wait or error
+    message?: string;
+    attempts: number;
+    content?: string;
+    // Scan and detection of the folder, for the project snapshot when the README is written
+    projectInfo?: ProjectInfo;
+    detection?: DetectionResult;
+    review?: BatchReviewState;
+}
+
+// Status the clients report while waiting out a 429 ("⏳ Waiting 12s for rate limit (model)...")
+const RATE_LIMIT_STATUS = /rate limit/i;
+
+// Pause before a job that failed on rate limits is tried again
+const RATE_LIMIT_COOLDOWN_MS = 30000;
+
+// Tries per job when the provider keeps rate limiting
+const MAX_ATTEMPTS = 2;
+
+/**
+ * Sleep for a given number of milliseconds (resolves early if aborted)
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done, { once: true });
+    });
+}
+
+/**
+ * How many jobs may run at once (ai-readme.batchConcurrency, 0 = provider default)
+ */
+function getBatchConcurrency(maxConcurrentRequests: number | undefined): number {
+    const config = vscode.workspace.getConfiguration('ai-readme');
+    const configured = config.get<number>('batchConcurrency') || 0;
+    return Math.max(Math.floor(configured > 0 ? configured : maxConcurrentRequests ?? 1), 1);
+}
+
+/**
+ * Generation options for batch jobs, from the ai-readme.default* settings
+ */
+export function getBatchOptions(): GenerationOptions {
+    const config = vscode.workspace.getConfiguration('ai-readme');
+    const template = getTemplate(config.get<string>('defaultTemplate') || 'openSource');
+    return {
+        templateId: template.id,
+        enabledSections: template.sections.filter(s => s.defaultEnabled).map(s => s.id),
+        language: config.get<string>('defaultLanguage') || 'english',
+        tone: config.get<string>('defaultTone') || 'professional',
+        includeBadges: config.get<boolean>('enableBadges', true)
+    };
+}
+
+export class BatchQueue implements vscode.Disposable {
+    private _jobs: BatchJob[] = [];
+    // Jobs allowed to run at once; lowered on rate limits, raised again by jobs that weren't limited
+    private _limit = 1;
+    private _maxLimit = 1;
+    private _active = 0;
+    // No job starts before this time (epoch ms)
+    private _pausedUntil = 0;
+    private _abortController: AbortController | undefined;
+
+    private _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    public get jobs(): readonly BatchJob[] {
+        return this._jobs;
+    }
+
+    public get isRunning(): boolean {
+        return !!this._abortController;
+    }
+
+    /**
+     * Queue folders. Folders already queued or running are skipped; finished jobs
+     * for the same folder are replaced. Returns the jobs that were added.
+     */
+    public add(folderPaths: string[]): BatchJob[] {
+        const added: BatchJob[] = [];
+        for (const folderPath of folderPaths) {
+            const existing = this._jobs.find(j => j.folderPath === folderPath);
+            if (existing && ['queued', 'scanning', 'generating', 'waiting'].includes(existing.status)) {
+                continue;
+            }
+            const job: BatchJob = { folderPath, name: path.basename(folderPath), status: 'queued', attempts: 0 };
+            this._jobs = existing ? this._jobs.map(j => j === existing ? job : j) : [...this._jobs, job];
+            added.push(job);
+        }
+        this._onDidChange.fire();
+        return added;
+    }
+
+    /**
+     * Run the queued jobs. Jobs added while the queue runs are picked up by the same run;
+     * calling run again while it is running does nothing.
+     */
+    public async run(options: GenerationOptions): Promise<void> {
+        if (this._abortController) {
+            return;
+        }
+        const abortController = new AbortController();
+        this._abortController = abortController;
+
+        const provider = await resolveActiveProvider();
+        if (!provider) {
+            // Without a provider every job would get the offline template, which is not worth reviewing
+            for (const job of this._jobs.filter(j => j.status === 'queued')) {
+                job.status = 'failed';
+                job.message = 'No AI provider configured';
+            }
+            this._abortController = undefined;
+            this._onDidChange.fire();
+            return;
+        }
+        this._maxLimit = getBatchConcurrency(provider.maxConcurrentRequests);
+        this._limit = this._maxLimit;
+        this._pausedUntil = 0;
+
+        try {
+            while (!abortController.signal.aborted && this._jobs.some(j => j.status === 'queued')) {
+                await Promise.all(Array.from({ length: this._maxLimit }, () => this.worker(options, abortController.signal)));
+            }
+        } finally {
+            this._abortController = undefined;
+            this._onDidChange.fire();
+        }
+    }
+
+    /**
+     * Stop the running jobs and drop the queued ones
+     */
+    public cancel(): void {
+        this._abortController?.abort();
+        for (const job of this._jobs) {
+            if (job.status === 'queued') {
+                job.status = 'cancelled';
+                job.message = undefined;
+            }
+        }
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Remove finished jobs that need no more review
+     */
+    public clearFinished(): void {
+        this._jobs = this._jobs.filter(j =>
+            ['queued', 'scanning', 'generating', 'waiting'].includes(j.status) || j.review === 'pending' || j.review === 'accepted');
+        this._onDidChange.fire();
+    }
+
+    /**
+     * Record the review decision for a job
+     */
+    public setReview(folderPath: string, review: BatchReviewState): void {
+        const job = this._jobs.find(j => j.folderPath === folderPath);
+        if (job && job.status === 'done') {
+            job.review = review;
+            this._onDidChange.fire();
+        }
+    }
+
+    /**
+     * Take queued jobs one at a time until none is left
+     */
+    private async worker(options: GenerationOptions, signal: AbortSignal): Promise<void> {
+        while (!signal.aborted) {
+            while (!signal.aborted && (this._active >= this._limit || Date.now() < this._pausedUntil)) {
+                await sleep(500, signal);
+            }
+            const job = this._jobs.find(j => j.status === 'queued');
+            if (signal.aborted || !job) {
+                return;
+            }
+
+            // Claimed before the first await, so no other worker takes the same job
+            job.status = 'scanning';
+            job.attempts++;
+            this._active++;
+            try {
+                await this.runJob(job, options, signal);
+            } catch (error) {
+                // A failed scan or history write fails this job only; the worker takes the next one
+                job.status = signal.aborted ? 'cancelled' : 'failed';
+                job.message = signal.aborted ? undefined : error instanceof Error ? error.message : String(error);
+            } finally {
+                this._active--;
+                this._onDidChange.fire();
+            }
+        }
+    }
+
+    /**
+     * Scan, detect and generate one folder's README, then keep it in the folder's history
+     */
+    private async runJob(job: BatchJob, options: GenerationOptions, signal: AbortSignal): Promise<void> {
+        job.message = 'Scanning project...';
+        this._onDidChange.fire();
+
+        const projectInfo = await scanWorkspace(job.folderPath);
+        if (!projectInfo) {
+            job.status = 'failed';
+            job.message = 'Folder could not be scanned';
+            return;
+        }
+        const detection = detectAll(projectInfo);
+        const projectType = detectProjectType(projectInfo, detection);
+        job.name = projectInfo.name;
+        job.projectInfo = projectInfo;
+        job.detection = detection;
+        job.status = 'generating';
+        job.message = 'Generating README...';
+        this._onDidChange.fire();
+
+        let rateLimited = false;
+        let content: string | undefined;
+        let error: Error | undefined;
+        await generateReadme(
+            projectInfo,
+            detection,
+            projectType,
+            {
+                ...options,
+                // Monorepos listed in the batch get their package index
+                enabledSections: projectInfo.monorepo && !options.enabledSections.includes('packages')
+                    ? [...options.enabledSections, 'packages']
+                    : options.enabledSections
+            },
+            () => {},
+            (result) => { content = result; },
+            (err) => { error = err; },
+            signal,
+            (status) => {
+                if (RATE_LIMIT_STATUS.test(status)) {
+                    if (job.status !== 'waiting') {
+                        rateLimited = true;
+                        this.throttle(parseInt(status.match(/(\d+)s\b/)?.[1] || '0', 10) * 1000);
+                    }
+                    job.status = 'waiting';
+                } else if (job.status === 'waiting') {
+                    job.status = 'generating';
+                }
+                job.message = status || 'Generating README...';
+                this._onDidChange.fire();
+            }
+        );
+
+        if (signal.aborted) {
+            job.status = 'cancelled';
+            job.message = undefined;
+            return;
+        }
+
+        // generateReadme reports a failed request and then completes with the offline template:
+        // that template must never be queued for review in place of a generated README
+        if (content !== undefined && !error) {
+            await saveVersion(job.folderPath, content);
+            job.status = 'done';
+            job.content = content;
+            job.message = projectInfo.hasReadme ? 'Replaces the existing README.md' : 'New README.md';
+            job.review = 'pending';
+            if (!rateLimited) {
+                this._limit = Math.min(this._limit + 1, this._maxLimit);
+            }
+            return;
+        }
+
+        const message = error?.message || 'No content was generated';
+        if (RATE_LIMIT_STATUS.test(message) && job.attempts < MAX_ATTEMPTS) {
+            // Back to the queue; it starts again after the cooldown
+            this.throttle(RATE_LIMIT_COOLDOWN_MS);
+            job.status = 'queued';
+            job.message = `Rate limited, trying again in ${RATE_LIMIT_COOLDOWN_MS / 1000}s`;
+            return;
+        }
+        job.status = 'failed';
+        job.message = message;
+    }
+
+    /**
+     * Run one job fewer at a time and start no job for the given wait
+     */
+    private throttle(waitMs: number): void {
+        this._limit = Math.max(this._limit - 1, 1);
+        this._pausedUntil = Math.max(this._pausedUntil, Date.now() + waitMs);
+    }
+
+    public dispose(): void {
+        this._abortController?.abort();
+        this._onDidChange.dispose();
+    }
+}
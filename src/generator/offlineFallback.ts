@@ -7,62 +7,67 @@ import { ProjectInfo } from '../analysis/workspaceScanner';
 import { DetectionResult } from '../analysis/languageDetector';
 import { ProjectTypeResult } from '../analysis/projectTypeDetector';
 import { getBadgesMarkdown } from './badgeGenerator';
+import { getEnvVarTable } from '../analysis/envVarCollector';
+import { getCliUsageTable } from '../analysis/cliExtractor';
+import { renderApiReference } from '../analysis/apiExtractor';
+import { renderPackageIndex } from '../analysis/monorepo';
+import { ProjectManifest } from '../analysis/manifest';
+import { getProjectCommands } from './projectCommands';
+
+/**
+ * Language runtime to list under Prerequisites
+ */
+function getRuntimePrerequisite(manifest: ProjectManifest | undefined, packageManager: string): string {
+    switch (manifest?.ecosystem) {
+        case 'python':
+            return `Python ${manifest.runtimeVersion || '3.x'}`;
+        case 'rust':
+            return `Rust ${manifest.runtimeVersion ? `${manifest.runtimeVersion} or higher` : '(stable)'}`;
+        case 'go':
+            return `Go ${manifest.runtimeVersion || '(latest)'}`;
+        case 'jvm':
+            return `Java ${manifest.runtimeVersion ? `${manifest.runtimeVersion} or higher` : '(JDK 17 or higher)'}`;
+        case 'dotnet':
+            return `.NET SDK ${manifest.runtimeVersion || '8.0 or higher'}`;
+        case 'php':
+            return `PHP ${manifest.runtimeVersion || '8.x'}`;
+        case 'ruby':
+            return `Ruby ${manifest.runtimeVersion || '3.x'}`;
+        case 'dart':
+            return manifest.packageManager === 'flutter'
+                ? `Flutter SDK${manifest.runtimeVersion ? ` (Dart ${manifest.runtimeVersion})` : ''}`
+                : `Dart SDK ${manifest.runtimeVersion || '3.x'}`;
+        case 'swift':
+            return `Swift ${manifest.runtimeVersion ? `${manifest.runtimeVersion} or higher` : '5.x'}`;
+    }
+    return packageManager === 'pip' ? 'Python 3.x' : 'Node.js (v16 or higher)';
+}
 
 /**
  * Generate a basic README template without AI
+ * A rendered Project Structure tree is included when one is given
  */
 export function generateOfflineReadme(
     projectInfo: ProjectInfo,
     detection: DetectionResult,
-    projectType: ProjectTypeResult
+    projectType: ProjectTypeResult,
+    structureTree?: string
 ): string {
     const projectName = projectInfo.name || 'Project';
     const badges = getBadgesMarkdown(projectInfo, detection);
-    const description = projectInfo.packageJson?.description || 'A software project';
+    const manifest = projectInfo.manifest;
+    const description = projectInfo.packageJson?.description || manifest?.description || 'A software project';
     
     const languages = detection.languages.map(l => l.name).join(', ') || 'Not detected';
     const frameworks = detection.frameworks.map(f => f.name).join(', ') || 'None';
+    const envVars = projectInfo.envVars || [];
+    const cliUsage = projectInfo.cliUsage;
+    const cliSynopsis = cliUsage
+        ? [cliUsage.binName, ...(cliUsage.commands.some(c => c.name) ? ['<command>'] : cliUsage.commands[0].arguments), '[options]'].join(' ')
+        : '';
     const packageManager = detection.packageManager || 'npm';
     
-    let installCmd = '';
-    let runCmd = '';
-    
-    // Generate install/run commands based on package manager
-    switch (packageManager) {
-        case 'npm':
-            installCmd = 'npm install';
-            runCmd = projectInfo.packageJson?.scripts?.dev 
-                ? 'npm run dev' 
-                : (projectInfo.packageJson?.scripts?.start ? 'npm start' : 'npm run start');
-            break;
-        case 'yarn':
-            installCmd = 'yarn';
-            runCmd = projectInfo.packageJson?.scripts?.dev 
-                ? 'yarn dev' 
-                : (projectInfo.packageJson?.scripts?.start ? 'yarn start' : 'yarn start');
-            break;
-        case 'pnpm':
-            installCmd = 'pnpm install';
-            runCmd = projectInfo.packageJson?.scripts?.dev 
-                ? 'pnpm dev' 
-                : (projectInfo.packageJson?.scripts?.start ? 'pnpm start' : 'pnpm start');
-            break;
-        case 'pip':
-            installCmd = 'pip install -r requirements.txt';
-            runCmd = 'python main.py';
-            break;
-        case 'cargo':
-            installCmd = 'cargo build';
-            runCmd = 'cargo run';
-            break;
-        case 'go mod':
-            installCmd = 'go mod download';
-            runCmd = 'go run .';
-            break;
-        default:
-            installCmd = 'npm install';
-            runCmd = 'npm start';
-    }
+    const { install: installCmd, run: runCmd } = getProjectCommands(projectInfo, detection);
 
     const readme = `# ${projectName}
 
@@ -76,7 +81,7 @@ ${description}
 - [Features](#features)
 - [Tech Stack](#tech-stack)
 - [Getting Started](#getting-started)
-- [Usage](#usage)
+- [Usage](#usage)${projectInfo.apiReference ? '\n- [API Reference](#api-reference)' : ''}${envVars.length > 0 ? '\n- [Environment Variables](#environment-variables)' : ''}${structureTree ? '\n- [Project Structure](#project-structure)' : ''}${projectInfo.monorepo ? '\n- [Packages](#packages)' : ''}
 - [Contributing](#contributing)
 - [License](#license)
 
@@ -104,7 +109,7 @@ ${description}
 ### Prerequisites
 
 Make sure you have the following installed:
-- ${packageManager === 'pip' ? 'Python 3.x' : 'Node.js (v16 or higher)'}
+- ${getRuntimePrerequisite(manifest, packageManager)}
 - ${packageManager.charAt(0).toUpperCase() + packageManager.slice(1)}
 
 ### Installation
@@ -127,7 +132,31 @@ Run the project:
 \`\`\`bash
 ${runCmd}
 \`\`\`
+${cliUsage ? `
+\`\`\`bash
+${cliSynopsis}
+\`\`\`
+
+${getCliUsageTable(cliUsage)}
+` : ''}${projectInfo.apiReference ? `
+## 📚 API Reference
+
+${renderApiReference(projectInfo.apiReference)}
+` : ''}${envVars.length > 0 ? `
+## 🔐 Environment Variables
+
+${getEnvVarTable(envVars)}
+` : ''}${structureTree ? `
+## 🏗️ Project Structure
+
+\`\`\`text
+${structureTree}
+\`\`\`
+` : ''}${projectInfo.monorepo ? `
+## 📦 Packages
 
+${renderPackageIndex(projectInfo.monorepo)}
+` : ''}
 ## 🤝 Contributing
 
 Contributions are welcome! Please feel free to submit a Pull Request.
@@ -140,8 +169,8 @@ Contributions are welcome! Please feel free to submit a Pull Request.
 
 ## 📄 License
 
-${projectInfo.packageJson?.license 
-    ? `This project is licensed under the ${projectInfo.packageJson.license} License.` 
+${projectInfo.packageJson?.license || manifest?.license
+    ? `This project is licensed under the ${projectInfo.packageJson?.license || manifest?.license} License.` 
     : 'This project is licensed under the MIT License.'}
 
 ---
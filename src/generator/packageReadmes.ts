@@ -0,0 +1,91 @@
+/**
+ * Package README Generator
+ * Generates a README for each package of a monorepo. Every package is scanned and
+ * detected on its own, so its README describes that package and not the whole repo.
+ */
+
+import * as path from 'path';
+import { ProjectInfo, scanWorkspace } from '../analysis/workspaceScanner';
+import { DetectionResult, detectAll } from '../analysis/languageDetector';
+import { detectProjectType } from '../analysis/projectTypeDetector';
+import { MonorepoInfo, WorkspacePackage } from '../analysis/monorepo';
+import { GenerationOptions, generateReadmeSimple } from './readmeGenerator';
+
+export interface PackageReadmeResult {
+    package: WorkspacePackage;
+    // The package scan and detection, for the project snapshot when the README is written
+    projectInfo: ProjectInfo;
+    detection: DetectionResult;
+    content: string;
+    // The request failed (error says why) or no provider is set up: content is the offline template
+    isOffline: boolean;
+    error?: string;
+}
+
+/**
+ * Options for one package: no package index, and instructions that place the
+ * package inside its monorepo
+ */
+function getPackageOptions(options: GenerationOptions, monorepoName: string, workspacePackage: WorkspacePackage): GenerationOptions {
+    const rootReadme = path.posix.relative(workspacePackage.relativePath, 'README.md');
+    const packageInstructions = `This README is for the "${workspacePackage.name}" package in the ${workspacePackage.relativePath} folder of the ${monorepoName} monorepo.
+Describe only this package. Install and run commands should work from the monorepo root or this folder, and mention the other packages only where this one depends on them.
+Link back to the monorepo README at ${rootReadme}.`;
+
+    return {
+        ...options,
+        enabledSections: options.enabledSections.filter(id => id !== 'packages'),
+        customInstructions: options.customInstructions
+            ? `${options.customInstructions}\n\n${packageInstructions}`
+            : packageInstructions,
+        // One request per package keeps a batch over many packages from multiplying requests
+        sectionBySection: false
+    };
+}
+
+/**
+ * Generate the README of every package, one package at a time.
+ * Stops when the signal is aborted, leaving out the package in progress; packages that
+ * fail get the offline template and their error instead of stopping the batch.
+ */
+export async function generatePackageReadmes(
+    rootInfo: ProjectInfo,
+    monorepo: MonorepoInfo,
+    options: GenerationOptions,
+    onPackage?: (workspacePackage: WorkspacePackage, index: number, total: number) => void,
+    signal?: AbortSignal
+): Promise<PackageReadmeResult[]> {
+    const results: PackageReadmeResult[] = [];
+
+    for (const [index, workspacePackage] of monorepo.packages.entries()) {
+        if (signal?.aborted) {
+            break;
+        }
+        onPackage?.(workspacePackage, index, monorepo.packages.length);
+
+        const projectInfo = await scanWorkspace(path.join(rootInfo.rootPath, workspacePackage.relativePath));
+        if (!projectInfo) {
+            continue;
+        }
+        // Keep the package name from the monorepo when its folder has no manifest name
+        projectInfo.name = workspacePackage.name;
+
+        const detection = detectAll(projectInfo);
+        const projectType = detectProjectType(projectInfo, detection);
+        const result = await generateReadmeSimple(projectInfo, detection, projectType, getPackageOptions(options, rootInfo.name, workspacePackage), signal);
+        if (signal?.aborted) {
+            break;
+        }
+
+        results.push({
+            package: workspacePackage,
+            projectInfo,
+            detection,
+            content: result.content,
+            isOffline: result.isOffline,
+            error: result.error
+        });
+    }
+
+    return results;
+}
@@ -0,0 +1,191 @@
+/**
+ * Project Commands
+ * The install and run commands of a project for its package manager or build tool,
+ * used by the offline template and given to the AI so Installation and Usage use the
+ * ecosystem's real commands.
+ */
+
+import { ProjectInfo } from '../analysis/workspaceScanner';
+import { DetectionResult } from '../analysis/languageDetector';
+import { ManifestEcosystem } from '../analysis/manifest';
+
+export interface ProjectCommands {
+    // Installs dependencies (or builds, where that is how dependencies are fetched)
+    install: string;
+    run: string;
+    // Builds the project, when that is a separate step from installing
+    build?: string;
+}
+
+// The file a folder needs to be installed on its own, per ecosystem (Node projects use package.json)
+const MANIFEST_FILES: Record<ManifestEcosystem, string> = {
+    python: 'pyproject.toml, setup.py or requirements.txt',
+    rust: 'Cargo.toml',
+    go: 'go.mod',
+    jvm: 'pom.xml or build.gradle',
+    dotnet: '.csproj or .sln',
+    php: 'composer.json',
+    ruby: 'Gemfile',
+    dart: 'pubspec.yaml',
+    swift: 'Package.swift'
+};
+
+/**
+ * The manifest file a subfolder needs before it gets its own install steps
+ */
+export function getManifestFileName(projectInfo: ProjectInfo): string {
+    return projectInfo.manifest ? MANIFEST_FILES[projectInfo.manifest.ecosystem] : 'package.json';
+}
+
+/**
+ * Install and run commands for the detected package manager
+ */
+export function getProjectCommands(projectInfo: ProjectInfo, detection: DetectionResult): ProjectCommands {
+    const manifest = projectInfo.manifest;
+    const packageManager = detection.packageManager || 'npm';
+    let installCmd = '';
+    let runCmd = '';
+    let buildCmd: string | undefined;
+    // Python projects run their first console script, if they install one
+    const pythonCommand = manifest?.entryPoints[0]?.name || 'python main.py';
+    const mainEntry = manifest?.entryPoints[0];
+    const usesSpringBoot = detection.frameworks.some(f => f.name === 'Spring Boot' && f.confidence >= 1);
+    const gradleCmd = projectInfo.files.some(f => f.relativePath === 'gradlew') ? './gradlew' : 'gradle';
+    const hasFile = (relativePath: string) => projectInfo.files.some(f => f.relativePath === relativePath);
+    
+    switch (packageManager) {
+        case 'npm':
+            installCmd = 'npm install';
+            runCmd = projectInfo.packageJson?.scripts?.dev 
+                ? 'npm run dev' 
+                : (projectInfo.packageJson?.scripts?.start ? 'npm start' : 'npm run start');
+            break;
+        case 'yarn':
+            installCmd = 'yarn';
+            runCmd = projectInfo.packageJson?.scripts?.dev 
+                ? 'yarn dev' 
+                : (projectInfo.packageJson?.scripts?.start ? 'yarn start' : 'yarn start');
+            break;
+        case 'pnpm':
+            installCmd = 'pnpm install';
+            runCmd = projectInfo.packageJson?.scripts?.dev 
+                ? 'pnpm dev' 
+                : (projectInfo.packageJson?.scripts?.start ? 'pnpm start' : 'pnpm start');
+            break;
+        case 'pip':
+            installCmd = projectInfo.files.some(f => f.relativePath === 'requirements.txt') || !manifest?.sources.some(f => /^(pyproject\.toml|setup\.(py|cfg))$/.test(f))
+                ? 'pip install -r requirements.txt'
+                : 'pip install .';
+            runCmd = pythonCommand;
+            break;
+        case 'poetry':
+            installCmd = 'poetry install';
+            runCmd = `poetry run ${pythonCommand}`;
+            break;
+        case 'uv':
+            installCmd = 'uv sync';
+            runCmd = `uv run ${pythonCommand}`;
+            break;
+        case 'pdm':
+            installCmd = 'pdm install';
+            runCmd = `pdm run ${pythonCommand}`;
+            break;
+        case 'hatch':
+            installCmd = 'hatch env create';
+            runCmd = `hatch run ${pythonCommand}`;
+            break;
+        case 'pipenv':
+            installCmd = 'pipenv install --dev';
+            runCmd = `pipenv run ${pythonCommand}`;
+            break;
+        case 'cargo':
+            installCmd = 'cargo build';
+            buildCmd = 'cargo build --release';
+            runCmd = manifest && manifest.entryPoints.length > 1 ? `cargo run --bin ${mainEntry!.name}` : 'cargo run';
+            break;
+        case 'go mod':
+            installCmd = 'go mod download';
+            buildCmd = 'go build ./...';
+            runCmd = mainEntry && !projectInfo.files.some(f => f.relativePath === 'main.go')
+                ? `go run ./cmd/${mainEntry.name}`
+                : 'go run .';
+            break;
+        case 'maven':
+            installCmd = 'mvn install';
+            buildCmd = 'mvn package';
+            runCmd = usesSpringBoot
+                ? 'mvn spring-boot:run'
+                : (mainEntry ? `mvn exec:java -Dexec.mainClass=${mainEntry.target}` : 'mvn test');
+            break;
+        case 'gradle':
+            installCmd = `${gradleCmd} build`;
+            runCmd = usesSpringBoot
+                ? `${gradleCmd} bootRun`
+                : (mainEntry ? `${gradleCmd} run` : `${gradleCmd} test`);
+            break;
+        case 'dotnet':
+            installCmd = 'dotnet restore';
+            buildCmd = 'dotnet build';
+            // A solution or nested project needs the app project named
+            runCmd = !mainEntry
+                ? 'dotnet test'
+                : (manifest!.sources.length > 1 || mainEntry.target.includes('/') ? `dotnet run --project ${mainEntry.target}` : 'dotnet run');
+            break;
+        case 'composer':
+            installCmd = 'composer install';
+            if (hasFile('artisan')) {
+                runCmd = 'php artisan serve';
+            } else if (hasFile('bin/console') && hasFile('public/index.php')) {
+                runCmd = 'symfony server:start';
+            } else if (hasFile('public/index.php')) {
+                runCmd = 'php -S localhost:8000 -t public';
+            } else if (mainEntry) {
+                runCmd = `php ${mainEntry.target}`;
+            } else {
+                runCmd = manifest?.scripts.test ? 'composer test' : 'composer run-script --list';
+            }
+            break;
+        case 'bundler':
+            installCmd = 'bundle install';
+            if (hasFile('bin/rails')) {
+                runCmd = 'bin/rails server';
+            } else if (hasFile('config.ru')) {
+                runCmd = 'bundle exec rackup';
+            } else if (mainEntry) {
+                runCmd = `bundle exec ${mainEntry.target}`;
+            } else {
+                runCmd = 'bundle exec rake';
+            }
+            break;
+        case 'flutter':
+            installCmd = 'flutter pub get';
+            runCmd = 'flutter run';
+            break;
+        case 'dart':
+            installCmd = 'dart pub get';
+            runCmd = mainEntry ? `dart run ${mainEntry.target}` : 'dart test';
+            break;
+        case 'swift':
+            installCmd = 'swift build';
+            runCmd = !mainEntry
+                ? 'swift test'
+                : (manifest!.entryPoints.length > 1 ? `swift run ${mainEntry.name}` : 'swift run');
+            break;
+        default:
+            installCmd = 'npm install';
+            runCmd = 'npm start';
+    }
+
+    return { install: installCmd, run: runCmd, build: buildCmd };
+}
+
+/**
+ * Format the commands for the AI prompt
+ */
+export function getProjectCommandsSummary(projectInfo: ProjectInfo, detection: DetectionResult): string {
+    const commands = getProjectCommands(projectInfo, detection);
+    return `Package manager / build tool: ${detection.packageManager || 'npm'}
+Install: ${commands.install}${commands.build ? `\nBuild: ${commands.build}` : ''}
+Run: ${commands.run}
+Subfolders only get their own install steps if they have their own ${getManifestFileName(projectInfo)}.`;
+}
@@ -5,10 +5,17 @@
  */
 
 import { ProjectInfo, getProjectSummary } from '../analysis/workspaceScanner';
+import { getSourceContextSummary } from '../analysis/sourceContext';
+import { getEnvVarSummary } from '../analysis/envVarCollector';
+import { getCliUsageSummary } from '../analysis/cliExtractor';
+import { getApiReferenceSummary } from '../analysis/apiExtractor';
+import { getMonorepoSummary } from '../analysis/monorepo';
 import { DetectionResult } from '../analysis/languageDetector';
 import { ProjectTypeResult } from '../analysis/projectTypeDetector';
 import { ReadmeTemplate, ReadmeSection } from '../templates/templates';
 import { getBadgesMarkdown } from './badgeGenerator';
+import { getManifestFileName, getProjectCommands, getProjectCommandsSummary } from './projectCommands';
+import { PromptSegment, BudgetReport, fitSegments, truncateToTokens } from './tokenBudget';
 
 // ============================================================================
 // INTERFACES
@@ -22,12 +29,16 @@ export interface PromptOptions {
     customInstructions?: string;
     includeBadges: boolean;
     customBadges?: string;
+    maxPromptTokens?: number;
+    // Project Structure tree rendered from the scan (see structureTree.ts)
+    structureTree?: string;
 }
 
 export interface GeneratedPrompt {
     systemPrompt: string;
     userPrompt: string;
     badges?: string;
+    budget?: BudgetReport;
 }
 
 // ============================================================================
@@ -72,10 +83,110 @@ function getToneInstruction(tone: string): string {
 // SYSTEM PROMPT BUILDER
 // ============================================================================
 
+// Installation rules for Node projects, where every installable folder has a package.json
+const NODE_INSTALLATION_GUIDE = `## 5b. INSTALLATION GUIDE (CRITICAL - ANALYZE ACTUAL PROJECT STRUCTURE)
+
+⚠️ IMPORTANT: ONLY include installation steps for folders that ACTUALLY EXIST in the project!
+- First, analyze the project's folder structure from the provided file list
+- If there's NO "client" folder, DO NOT mention "client" in installation
+- If there's NO "server" folder, DO NOT mention "server" in installation
+- Only include steps for folders that have their own package.json
+
+EXAMPLES OF CORRECT BEHAVIOR:
+
+**If project ONLY has root package.json (single folder project):**
+\`\`\`markdown
+## 📦 Installation
+\`\`\`bash
+git clone <repository-url>
+cd projectname
+npm install
+\`\`\`
+
+## 🚀 Running
+\`\`\`bash
+npm run dev
+\`\`\`
+\`\`\`
+
+**If project has "server" folder but NO "client" folder:**
+\`\`\`markdown
+## � Installation
+
+### 1. Install root dependencies:
+\`\`\`bash
+npm install
+\`\`\`
+
+### 2. Install server dependencies:
+\`\`\`bash
+cd server
+npm install
+\`\`\`
+\`\`\`
+
+**If project has both "client" AND "server" folders:**
+- Then include steps for both
+
+KEY RULES FOR INSTALLATION:
+1. ⚠️ ANALYZE the actual folder structure first - don't assume folders exist
+2. ⚠️ NEVER write installation for folders that don't exist
+3. Only include subfolders that have their own package.json
+4. Use the ACTUAL folder names from the project (might be "frontend", "api", "web", etc.)
+5. Check the file list provided to see what folders actually exist`;
+
+/**
+ * Installation rules with the ecosystem's own install and run commands and manifest file
+ */
+function buildInstallationGuide(projectInfo: ProjectInfo, detection: DetectionResult): string {
+    if (!projectInfo.manifest || projectInfo.packageJson) {
+        return NODE_INSTALLATION_GUIDE;
+    }
+
+    const commands = getProjectCommands(projectInfo, detection);
+    const manifestFile = getManifestFileName(projectInfo);
+    return `## 5b. INSTALLATION GUIDE (CRITICAL - USE THE PROJECT'S OWN TOOLING)
+
+⚠️ IMPORTANT: This is not a Node.js project. Do NOT use npm, yarn or package.json in install or run steps.
+- Install dependencies with: ${commands.install}${commands.build ? `\n- Build with: ${commands.build}` : ''}
+- Run the project with: ${commands.run}
+- Only include steps for subfolders that have their own ${manifestFile}
+
+EXAMPLE OF CORRECT BEHAVIOR:
+\`\`\`markdown
+## 📦 Installation
+\`\`\`bash
+git clone <repository-url>
+cd projectname
+${commands.install}
+\`\`\`
+
+## 🚀 Running
+\`\`\`bash
+${commands.run}
+\`\`\`
+\`\`\`
+
+KEY RULES FOR INSTALLATION:
+1. ⚠️ ANALYZE the actual folder structure first - don't assume folders exist
+2. ⚠️ NEVER write installation for folders that don't exist
+3. Only include subfolders that have their own ${manifestFile}
+4. Use the commands from PROJECT COMMANDS and the manifest, never commands of another ecosystem`;
+}
+
+/**
+ * Rule for the commands used in install and run steps
+ */
+function getCommandRule(projectInfo: ProjectInfo, detection: DetectionResult): string {
+    return projectInfo.manifest && !projectInfo.packageJson
+        ? `Use the ${detection.packageManager || 'project'} commands from PROJECT COMMANDS for install and run commands, never npm`
+        : 'Use the real npm scripts from package.json for run commands';
+}
+
 /**
  * Build the system prompt with explicit style rules
  */
-function buildSystemPrompt(options: PromptOptions): string {
+function buildSystemPrompt(options: PromptOptions, projectInfo: ProjectInfo, detection: DetectionResult): string {
     return `You are an expert technical writer specializing in creating beautiful, professional README.md files that look stunning on GitHub.
 
 ${options.template.promptPrefix}
@@ -165,57 +276,7 @@ Use VARIED, COLORFUL emojis - different for each item:
 ## 🙏 Acknowledgments
 \`\`\`
 
-## 5b. INSTALLATION GUIDE (CRITICAL - ANALYZE ACTUAL PROJECT STRUCTURE)
-
-⚠️ IMPORTANT: ONLY include installation steps for folders that ACTUALLY EXIST in the project!
-- First, analyze the project's folder structure from the provided file list
-- If there's NO "client" folder, DO NOT mention "client" in installation
-- If there's NO "server" folder, DO NOT mention "server" in installation
-- Only include steps for folders that have their own package.json
-
-EXAMPLES OF CORRECT BEHAVIOR:
-
-**If project ONLY has root package.json (single folder project):**
-\`\`\`markdown
-## 📦 Installation
-\`\`\`bash
-git clone <repository-url>
-cd projectname
-npm install
-\`\`\`
-
-## 🚀 Running
-\`\`\`bash
-npm run dev
-\`\`\`
-\`\`\`
-
-**If project has "server" folder but NO "client" folder:**
-\`\`\`markdown
-## � Installation
-
-### 1. Install root dependencies:
-\`\`\`bash
-npm install
-\`\`\`
-
-### 2. Install server dependencies:
-\`\`\`bash
-cd server
-npm install
-\`\`\`
-\`\`\`
-
-**If project has both "client" AND "server" folders:**
-- Then include steps for both
-
-KEY RULES FOR INSTALLATION:
-1. ⚠️ ANALYZE the actual folder structure first - don't assume folders exist
-2. ⚠️ NEVER write installation for folders that don't exist
-3. Only include subfolders that have their own package.json
-4. Use the ACTUAL folder names from the project (might be "frontend", "api", "web", etc.)
-5. Check the file list provided to see what folders actually exist
-
+${buildInstallationGuide(projectInfo, detection)}
 
 ## 6. CODE BLOCKS
 ALWAYS specify the language for syntax highlighting:
@@ -238,9 +299,10 @@ print("Hello World")
 - ONLY show files and folders that ACTUALLY EXIST in the provided file list
 
 HOW TO CREATE THE STRUCTURE:
-1. Look at the "Files:" section in the project analysis
-2. List ONLY those files and folders, nothing else
-3. Use ASCII tree format with descriptions
+1. If a "PROJECT STRUCTURE TREE" is provided, copy it as it is and only add # descriptions
+2. Otherwise look at the "Files:" section in the project analysis
+3. List ONLY those files and folders, nothing else
+4. Use ASCII tree format with descriptions
 
 EXAMPLE FORMAT:
 \`\`\`
@@ -299,6 +361,33 @@ Content here
 Generate the README now. Make it BEAUTIFUL and PROFESSIONAL!`;
 }
 
+// ============================================================================
+// COMPACT SYSTEM PROMPT (used when the full style rules don't fit)
+// ============================================================================
+
+/**
+ * Build a condensed version of the style rules for models with small context windows
+ */
+function buildCompactSystemPrompt(options: PromptOptions, projectInfo: ProjectInfo, detection: DetectionResult): string {
+    return `You are an expert technical writer creating beautiful, professional README.md files for GitHub.
+
+${options.template.promptPrefix}
+
+${getLanguageInstruction(options.language)}
+${getToneInstruction(options.tone)}
+
+STYLE RULES:
+1. Title: # [emoji] [Actual Project Name] - Catchy Tagline, then badges, then a > one-line description
+2. Features: - [emoji] **Feature Name** - Description (different emoji per feature)
+3. Section headers with emojis (## ✨ Features, ## 📦 Installation, ## 💻 Usage, ## 📄 License)
+4. Code blocks ALWAYS have a language specifier
+5. Use tables for structured data (env vars, options)
+6. ONLY mention files, folders and scripts that appear in the project analysis - never invent client/ or server/ folders
+7. ${getCommandRule(projectInfo, detection)}
+
+Generate the README now. Make it BEAUTIFUL and PROFESSIONAL!`;
+}
+
 // ============================================================================
 // SECTION INSTRUCTIONS BUILDER
 // ============================================================================
@@ -316,93 +405,315 @@ function buildSectionInstructions(enabledSections: string[], template: ReadmeTem
 ${sectionDetails}`;
 }
 
+/**
+ * Format a titled prompt block with the standard divider
+ */
+function promptBlock(title: string, body: string): string {
+    return `═══════════════════════════════════════════════════════════════════════════════
+${title}
+═══════════════════════════════════════════════════════════════════════════════
+
+${body}`;
+}
+
+/**
+ * Build the source excerpts segment, shrinking by re-rendering with a smaller budget
+ */
+function buildSourceExcerptsSegment(projectInfo: ProjectInfo, title: string, intro: string, maxChars: number): PromptSegment | null {
+    const render = (chars: number) => {
+        const summary = getSourceContextSummary(projectInfo.sourceContext, chars);
+        return summary ? promptBlock(title, `${intro}${summary}`) : '';
+    };
+
+    const content = render(maxChars);
+    if (!content) {
+        return null;
+    }
+
+    return {
+        id: 'sourceExcerpts',
+        target: 'user',
+        content,
+        priority: 40,
+        shrink: (maxTokens) => render(Math.max((maxTokens - 100) * 4, 0))
+    };
+}
+
+/**
+ * Build the segment with the Project Structure tree the model only annotates
+ */
+function buildStructureTreeSegment(structureTree: string): PromptSegment {
+    return {
+        id: 'structureTree',
+        target: 'user',
+        content: promptBlock('🌳 PROJECT STRUCTURE TREE (Rendered from the real files)', `Use this tree for the Project Structure section exactly as it is.
+Only add a short "# description" after the entries worth explaining - do NOT add, remove, rename or move entries.
+
+\`\`\`text
+${structureTree}
+\`\`\``),
+        priority: 90
+    };
+}
+
+/**
+ * Build the segment with the environment variables found in the code, or null if there are none
+ */
+function buildEnvVarsSegment(projectInfo: ProjectInfo): PromptSegment | null {
+    const summary = getEnvVarSummary(projectInfo.envVars || []);
+    if (!summary) {
+        return null;
+    }
+
+    return {
+        id: 'envVars',
+        target: 'user',
+        content: promptBlock('🔐 ENVIRONMENT VARIABLES (Found in the code and .env templates)', `Use this table for the Environment Variables section.
+Keep the variables and the Required and Default columns as they are. Replace each "_Add a description_" with one line based on where the variable is used.
+Do NOT add variables that are not listed.
+
+${summary}`),
+        priority: 80
+    };
+}
+
+/**
+ * Build the segment with the CLI commands and options read from the code, or null if there are none
+ */
+function buildCliUsageSegment(projectInfo: ProjectInfo): PromptSegment | null {
+    const summary = getCliUsageSummary(projectInfo.cliUsage);
+    if (!summary) {
+        return null;
+    }
+
+    return {
+        id: 'cliUsage',
+        target: 'user',
+        content: promptBlock('⌨️ CLI COMMANDS (Read from the command definitions)', `Use these commands and options in the Usage section, with the tables as they are.
+Examples may only combine the listed commands, arguments and options. Do NOT invent commands or flags.
+
+${summary}`),
+        priority: 85
+    };
+}
+
+/**
+ * Build the segment with the API Reference rendered from the package's exports, or null if there is none
+ */
+function buildApiReferenceSegment(projectInfo: ProjectInfo): PromptSegment | null {
+    const summary = getApiReferenceSummary(projectInfo.apiReference);
+    if (!summary) {
+        return null;
+    }
+
+    return {
+        id: 'apiReference',
+        target: 'user',
+        content: promptBlock('📚 API REFERENCE (Read from the exported TypeScript declarations)', `Put this block into the API Reference section exactly as it is, including the readme-gen:api comments.
+You may add a short introduction before it and notes after it. Do NOT change, shorten or reorder the block, and do NOT document functions, classes or options that are not in it.
+
+${summary}`),
+        priority: 85
+    };
+}
+
+/**
+ * Build the segment with the install and run commands of a non-Node project, or null
+ * for projects with a package.json (their scripts are listed there)
+ */
+function buildProjectCommandsSegment(projectInfo: ProjectInfo, detection: DetectionResult): PromptSegment | null {
+    if (!projectInfo.manifest || projectInfo.packageJson) {
+        return null;
+    }
+
+    return {
+        id: 'projectCommands',
+        target: 'user',
+        content: promptBlock('🛠️ PROJECT COMMANDS (From the package manager / build tool)', `Use these commands in the Installation and Usage sections instead of npm commands.
+
+${getProjectCommandsSummary(projectInfo, detection)}`),
+        priority: 90
+    };
+}
+
+/**
+ * Build the package index segment of a monorepo
+ */
+function buildPackageIndexSegment(projectInfo: ProjectInfo): PromptSegment | null {
+    const summary = getMonorepoSummary(projectInfo.monorepo);
+    if (!summary) {
+        return null;
+    }
+
+    return {
+        id: 'packageIndex',
+        target: 'user',
+        content: promptBlock('📦 PACKAGES (Resolved from the workspace configuration)', `Put this table into the Packages section exactly as it is, including the readme-gen:packages comments.
+You may add a short introduction before it (how the packages relate, how to work on one package) and notes after it. Do NOT add, drop or rename packages.
+
+${summary}`),
+        priority: 85
+    };
+}
+
+/**
+ * Build the detected technologies table
+ */
+function buildTechnologiesTable(detection: DetectionResult, projectType: ProjectTypeResult): string {
+    return `| Category | Detected |
+|----------|----------|
+| **Project Type** | ${projectType.displayName} |
+| **Languages** | ${detection.languages.map(l => l.name).join(', ') || 'None detected'} |
+| **Frameworks** | ${detection.frameworks.map(f => f.name).join(', ') || 'None detected'} |
+| **Package Manager** | ${detection.packageManager || 'Unknown'} |
+| **Build Tools** | ${detection.buildTools.join(', ') || 'None detected'} |
+| **Test Frameworks** | ${detection.testFrameworks.join(', ') || 'None detected'} |`;
+}
+
 // ============================================================================
 // USER PROMPT BUILDER
 // ============================================================================
 
 /**
- * Build the user prompt with project context
+ * Build the prompt segments (system style rules + user project context)
  */
-function buildUserPrompt(
+function buildPromptSegments(
     projectInfo: ProjectInfo,
     detection: DetectionResult,
     projectType: ProjectTypeResult,
     options: PromptOptions,
     badges?: string
-): string {
-    const projectSummary = getProjectSummary(projectInfo);
+): PromptSegment[] {
+    const segments: PromptSegment[] = [];
+
+    segments.push({
+        id: 'styleRules',
+        target: 'system',
+        content: buildSystemPrompt(options, projectInfo, detection),
+        summary: buildCompactSystemPrompt(options, projectInfo, detection),
+        priority: 70
+    });
+
+    segments.push({
+        id: 'request',
+        target: 'user',
+        content: 'Generate a README.md for the following project:',
+        priority: 100,
+        required: true
+    });
+
+    segments.push({
+        id: 'fileList',
+        target: 'user',
+        content: promptBlock('📁 PROJECT INFORMATION', getProjectSummary(projectInfo)),
+        priority: 50
+    });
+
+    segments.push({
+        id: 'technologies',
+        target: 'user',
+        content: promptBlock('🔍 DETECTED TECHNOLOGIES', buildTechnologiesTable(detection, projectType)),
+        priority: 100,
+        required: true
+    });
+
+    // Add real source excerpts from entry points
+    const sourceSegment = buildSourceExcerptsSegment(
+        projectInfo,
+        '🧩 SOURCE EXCERPTS (Ground truth - base features ONLY on this code)',
+        `These are the project's real entry points, exported symbols and doc comments.
+Describe ONLY functionality visible here or in the project information above.
+Do NOT invent features, commands, or APIs that are not shown.
+
+`,
+        6000
+    );
+    if (sourceSegment) {
+        segments.push(sourceSegment);
+    }
 
-    let prompt = `Generate a README.md for the following project:
+    if (options.structureTree && options.enabledSections.includes('structure')) {
+        segments.push(buildStructureTreeSegment(options.structureTree));
+    }
 
-═══════════════════════════════════════════════════════════════════════════════
-📁 PROJECT INFORMATION
-═══════════════════════════════════════════════════════════════════════════════
+    const envVarsSegment = options.enabledSections.includes('envvars') ? buildEnvVarsSegment(projectInfo) : null;
+    if (envVarsSegment) {
+        segments.push(envVarsSegment);
+    }
 
-${projectSummary}
+    const projectCommandsSegment = options.enabledSections.some(id => id === 'installation' || id === 'usage')
+        ? buildProjectCommandsSegment(projectInfo, detection)
+        : null;
+    if (projectCommandsSegment) {
+        segments.push(projectCommandsSegment);
+    }
 
-═══════════════════════════════════════════════════════════════════════════════
-🔍 DETECTED TECHNOLOGIES
-═══════════════════════════════════════════════════════════════════════════════
+    const cliUsageSegment = options.enabledSections.includes('usage') ? buildCliUsageSegment(projectInfo) : null;
+    if (cliUsageSegment) {
+        segments.push(cliUsageSegment);
+    }
 
-| Category | Detected |
-|----------|----------|
-| **Project Type** | ${projectType.displayName} |
-| **Languages** | ${detection.languages.map(l => l.name).join(', ') || 'None detected'} |
-| **Frameworks** | ${detection.frameworks.map(f => f.name).join(', ') || 'None detected'} |
-| **Package Manager** | ${detection.packageManager || 'Unknown'} |
-| **Build Tools** | ${detection.buildTools.join(', ') || 'None detected'} |
-| **Test Frameworks** | ${detection.testFrameworks.join(', ') || 'None detected'} |
+    const apiReferenceSegment = options.enabledSections.includes('api') ? buildApiReferenceSegment(projectInfo) : null;
+    if (apiReferenceSegment) {
+        segments.push(apiReferenceSegment);
+    }
 
-═══════════════════════════════════════════════════════════════════════════════
-📑 TEMPLATE & SECTIONS
-═══════════════════════════════════════════════════════════════════════════════
+    const packageIndexSegment = options.enabledSections.includes('packages') ? buildPackageIndexSegment(projectInfo) : null;
+    if (packageIndexSegment) {
+        segments.push(packageIndexSegment);
+    }
 
-**Template**: "${options.template.name}"
+    segments.push({
+        id: 'sections',
+        target: 'user',
+        content: promptBlock('📑 TEMPLATE & SECTIONS', `**Template**: "${options.template.name}"
 
-${buildSectionInstructions(options.enabledSections, options.template)}`;
+${buildSectionInstructions(options.enabledSections, options.template)}`),
+        priority: 100,
+        required: true
+    });
 
     // Add auto-generated badges
     if (options.includeBadges && badges) {
-        prompt += `
-
-═══════════════════════════════════════════════════════════════════════════════
-🏷️ AUTO-DETECTED BADGES (Include these at the top)
-═══════════════════════════════════════════════════════════════════════════════
-
-${badges}`;
+        segments.push({
+            id: 'badges',
+            target: 'user',
+            content: promptBlock('🏷️ AUTO-DETECTED BADGES (Include these at the top)', badges),
+            priority: 60
+        });
     }
 
     // Add user-selected custom badges
     if (options.customBadges && options.customBadges.trim()) {
-        prompt += `
-
-═══════════════════════════════════════════════════════════════════════════════
-🎯 USER-SELECTED BADGES (Include these prominently)
-═══════════════════════════════════════════════════════════════════════════════
-
-${options.customBadges}`;
+        segments.push({
+            id: 'customBadges',
+            target: 'user',
+            content: promptBlock('🎯 USER-SELECTED BADGES (Include these prominently)', options.customBadges),
+            priority: 100,
+            required: true
+        });
     }
 
     // Add custom instructions
     if (options.customInstructions) {
-        prompt += `
-
-═══════════════════════════════════════════════════════════════════════════════
-📝 ADDITIONAL INSTRUCTIONS
-═══════════════════════════════════════════════════════════════════════════════
-
-${options.customInstructions}`;
+        segments.push({
+            id: 'customInstructions',
+            target: 'user',
+            content: promptBlock('📝 ADDITIONAL INSTRUCTIONS', options.customInstructions),
+            priority: 100,
+            required: true
+        });
     }
 
-    prompt += `
-
-═══════════════════════════════════════════════════════════════════════════════
-🚀 GENERATE NOW
-═══════════════════════════════════════════════════════════════════════════════
-
-Generate the complete README.md content following all style rules above:`;
+    segments.push({
+        id: 'generate',
+        target: 'user',
+        content: promptBlock('🚀 GENERATE NOW', 'Generate the complete README.md content following all style rules above:'),
+        priority: 100,
+        required: true
+    });
 
-    return prompt;
+    return segments;
 }
 
 // ============================================================================
@@ -411,6 +722,7 @@ Generate the complete README.md content following all style rules above:`;
 
 /**
  * Build the complete prompt for README generation
+ * Segments are fitted to options.maxPromptTokens when a budget is given
  */
 export function buildPrompt(
     projectInfo: ProjectInfo,
@@ -423,10 +735,207 @@ export function buildPrompt(
         ? getBadgesMarkdown(projectInfo, detection)
         : undefined;
 
+    const segments = buildPromptSegments(projectInfo, detection, projectType, options, badges);
+    const fitted = fitSegments(segments, options.maxPromptTokens ?? Number.MAX_SAFE_INTEGER);
+
+    return {
+        systemPrompt: fitted.systemPrompt,
+        userPrompt: fitted.userPrompt,
+        badges: badges,
+        budget: options.maxPromptTokens !== undefined ? fitted.report : undefined,
+    };
+}
+
+// ============================================================================
+// SECTION-BY-SECTION GENERATION
+// ============================================================================
+
+// Sections that don't describe the code, so they are generated without source excerpts
+const SECTIONS_WITHOUT_SOURCE = ['license', 'contributing', 'roadmap', 'changelog', 'acknowledgements', 'contact'];
+
+/**
+ * Build the style rules for generating one section on its own
+ */
+function buildSectionSystemPrompt(section: ReadmeSection, options: PromptOptions, projectInfo: ProjectInfo, detection: DetectionResult): string {
+    const headingRule = section.id === 'title'
+        ? 'Start with: # [emoji] [Actual Project Name] - Catchy Tagline, then the badges, then a > one-line description'
+        : `Start with a level-2 header: ## [emoji] ${section.name}`;
+
+    return `You are an expert technical writer creating ONE section of a beautiful, professional README.md for GitHub.
+The other sections are written separately and assembled afterwards.
+
+${options.template.promptPrefix}
+
+${getLanguageInstruction(options.language)}
+${getToneInstruction(options.tone)}
+
+⚠️ Generate ONLY the "${section.name}" section:
+- ${headingRule}
+- Do NOT include any other sections, intro or outro text
+- Do NOT wrap the section in a code block
+
+STYLE RULES:
+1. Features: - [emoji] **Feature Name** - Description (different emoji per feature)
+2. Code blocks ALWAYS have a language specifier
+3. Use tables for structured data (env vars, options)
+4. ONLY mention files, folders and scripts that appear in the project analysis - never invent client/ or server/ folders
+5. ${getCommandRule(projectInfo, detection)}`;
+}
+
+/**
+ * Build the prompt for generating a single section of a new README.
+ * Every section gets the same project context plus the outline, so sections
+ * generated in parallel stay consistent and don't repeat each other.
+ */
+export function buildSectionPrompt(
+    section: ReadmeSection,
+    projectInfo: ProjectInfo,
+    detection: DetectionResult,
+    projectType: ProjectTypeResult,
+    options: PromptOptions,
+    badges?: string
+): GeneratedPrompt {
+    const outline = options.template.sections
+        .filter(s => options.enabledSections.includes(s.id))
+        .map(s => s.id === section.id ? `- **${s.name}** ← write this one` : `- ${s.name}`)
+        .join('\n');
+
+    const segments: PromptSegment[] = [
+        {
+            id: 'styleRules',
+            target: 'system',
+            content: buildSectionSystemPrompt(section, options, projectInfo, detection),
+            priority: 100,
+            required: true
+        },
+        {
+            id: 'request',
+            target: 'user',
+            content: `Write the "${section.name}" section of the README.md for the following project:`,
+            priority: 100,
+            required: true
+        },
+        {
+            id: 'fileList',
+            target: 'user',
+            content: promptBlock('📁 PROJECT INFORMATION', getProjectSummary(projectInfo)),
+            priority: 50
+        },
+        {
+            id: 'technologies',
+            target: 'user',
+            content: promptBlock('🔍 DETECTED TECHNOLOGIES', buildTechnologiesTable(detection, projectType)),
+            priority: 100,
+            required: true
+        }
+    ];
+
+    if (!SECTIONS_WITHOUT_SOURCE.includes(section.id)) {
+        const sourceSegment = buildSourceExcerptsSegment(
+            projectInfo,
+            '🧩 SOURCE EXCERPTS (Ground truth - do NOT invent anything beyond this)',
+            '',
+            3000
+        );
+        if (sourceSegment) {
+            segments.push(sourceSegment);
+        }
+    }
+
+    if (section.id === 'structure' && options.structureTree) {
+        segments.push(buildStructureTreeSegment(options.structureTree));
+    }
+
+    const envVarsSegment = section.id === 'envvars' ? buildEnvVarsSegment(projectInfo) : null;
+    if (envVarsSegment) {
+        segments.push(envVarsSegment);
+    }
+
+    const projectCommandsSegment = section.id === 'installation' || section.id === 'usage'
+        ? buildProjectCommandsSegment(projectInfo, detection)
+        : null;
+    if (projectCommandsSegment) {
+        segments.push(projectCommandsSegment);
+    }
+
+    const cliUsageSegment = section.id === 'usage' ? buildCliUsageSegment(projectInfo) : null;
+    if (cliUsageSegment) {
+        segments.push(cliUsageSegment);
+    }
+
+    const apiReferenceSegment = section.id === 'api' ? buildApiReferenceSegment(projectInfo) : null;
+    if (apiReferenceSegment) {
+        segments.push(apiReferenceSegment);
+    }
+
+    const packageIndexSegment = section.id === 'packages' ? buildPackageIndexSegment(projectInfo) : null;
+    if (packageIndexSegment) {
+        segments.push(packageIndexSegment);
+    }
+
+    segments.push({
+        id: 'outline',
+        target: 'user',
+        content: promptBlock('📑 README OUTLINE (Other sections are written separately - don\'t repeat them)', outline),
+        priority: 100,
+        required: true
+    });
+
+    segments.push({
+        id: 'section',
+        target: 'user',
+        content: promptBlock('🎯 SECTION TO WRITE', `**${section.name}**: ${section.description}`),
+        priority: 100,
+        required: true
+    });
+
+    // Badges belong under the title
+    if (section.id === 'title') {
+        if (options.includeBadges && badges) {
+            segments.push({
+                id: 'badges',
+                target: 'user',
+                content: promptBlock('🏷️ AUTO-DETECTED BADGES (Include these below the title)', badges),
+                priority: 60
+            });
+        }
+
+        if (options.customBadges && options.customBadges.trim()) {
+            segments.push({
+                id: 'customBadges',
+                target: 'user',
+                content: promptBlock('🎯 USER-SELECTED BADGES (Include these prominently)', options.customBadges),
+                priority: 100,
+                required: true
+            });
+        }
+    }
+
+    if (options.customInstructions) {
+        segments.push({
+            id: 'customInstructions',
+            target: 'user',
+            content: promptBlock('📝 ADDITIONAL INSTRUCTIONS', options.customInstructions),
+            priority: 100,
+            required: true
+        });
+    }
+
+    segments.push({
+        id: 'generate',
+        target: 'user',
+        content: promptBlock('🚀 GENERATE NOW', `Generate ONLY the "${section.name}" section now:`),
+        priority: 100,
+        required: true
+    });
+
+    const fitted = fitSegments(segments, options.maxPromptTokens ?? Number.MAX_SAFE_INTEGER);
+
     return {
-        systemPrompt: buildSystemPrompt(options),
-        userPrompt: buildUserPrompt(projectInfo, detection, projectType, options, badges),
+        systemPrompt: fitted.systemPrompt,
+        userPrompt: fitted.userPrompt,
         badges: badges,
+        budget: options.maxPromptTokens !== undefined ? fitted.report : undefined,
     };
 }
 
@@ -443,7 +952,9 @@ export function buildSectionRegeneratePrompt(
     detection: DetectionResult,
     projectType: ProjectTypeResult,
     currentContent: string,
-    customInstructions?: string
+    customInstructions?: string,
+    maxPromptTokens?: number,
+    structureTree?: string
 ): GeneratedPrompt {
     const projectSummary = getProjectSummary(projectInfo);
 
@@ -457,6 +968,7 @@ Generate ONLY the "${section.name}" section.
 - Do NOT include any other sections
 - Do NOT include intro or outro text
 - Do NOT include the full README
+- Leave out blocks between <!-- readme-gen:keep --> markers - they are put back automatically
 
 ═══════════════════════════════════════════════════════════════════════════════
 🎨 FORMATTING RULES
@@ -472,56 +984,120 @@ Generate ONLY the "${section.name}" section.
 Varied emojis to use:
 🎬 🎯 🖥️ 🎤 💬 🎨 ⚡ 🛠️ 🔒 📱 🌐 🚀 ✨ 💡 🔥 📊 🎮 🔧 📦 🎪 🌟 💎 🏆`;
 
-    let userPrompt = `Regenerate the "${section.name}" section for this project:
-
-═══════════════════════════════════════════════════════════════════════════════
-📁 PROJECT CONTEXT
-═══════════════════════════════════════════════════════════════════════════════
-
-${projectSummary}
-
-| Category | Value |
+    const segments: PromptSegment[] = [
+        { id: 'styleRules', target: 'system', content: systemPrompt, priority: 100, required: true },
+        {
+            id: 'request',
+            target: 'user',
+            content: `Regenerate the "${section.name}" section for this project:`,
+            priority: 100,
+            required: true
+        },
+        {
+            id: 'fileList',
+            target: 'user',
+            content: promptBlock('📁 PROJECT CONTEXT', projectSummary),
+            priority: 50
+        },
+        {
+            id: 'technologies',
+            target: 'user',
+            content: `| Category | Value |
 |----------|-------|
 | **Project Type** | ${projectType.displayName} |
 | **Languages** | ${detection.languages.map(l => l.name).join(', ') || 'Unknown'} |
 | **Frameworks** | ${detection.frameworks.map(f => f.name).join(', ') || 'None detected'} |
-| **Package Manager** | ${detection.packageManager || 'Unknown'} |
-
-═══════════════════════════════════════════════════════════════════════════════
-📄 CURRENT README (For Reference)
-═══════════════════════════════════════════════════════════════════════════════
+| **Package Manager** | ${detection.packageManager || 'Unknown'} |`,
+            priority: 100,
+            required: true
+        }
+    ];
+
+    const sourceSegment = buildSourceExcerptsSegment(
+        projectInfo,
+        '🧩 SOURCE EXCERPTS (Ground truth - do NOT invent anything beyond this)',
+        '',
+        3000
+    );
+    if (sourceSegment) {
+        segments.push(sourceSegment);
+    }
 
-\`\`\`markdown
-${currentContent}
-\`\`\`
+    if (section.id === 'structure' && structureTree) {
+        segments.push(buildStructureTreeSegment(structureTree));
+    }
 
-═══════════════════════════════════════════════════════════════════════════════
-🎯 SECTION TO REGENERATE
-═══════════════════════════════════════════════════════════════════════════════
+    const envVarsSegment = section.id === 'envvars' ? buildEnvVarsSegment(projectInfo) : null;
+    if (envVarsSegment) {
+        segments.push(envVarsSegment);
+    }
 
-**${section.name}**: ${section.description}`;
+    const projectCommandsSegment = section.id === 'installation' || section.id === 'usage'
+        ? buildProjectCommandsSegment(projectInfo, detection)
+        : null;
+    if (projectCommandsSegment) {
+        segments.push(projectCommandsSegment);
+    }
 
-    if (customInstructions) {
-        userPrompt += `
+    const cliUsageSegment = section.id === 'usage' ? buildCliUsageSegment(projectInfo) : null;
+    if (cliUsageSegment) {
+        segments.push(cliUsageSegment);
+    }
 
-═══════════════════════════════════════════════════════════════════════════════
-📝 ADDITIONAL INSTRUCTIONS
-═══════════════════════════════════════════════════════════════════════════════
+    const apiReferenceSegment = section.id === 'api' ? buildApiReferenceSegment(projectInfo) : null;
+    if (apiReferenceSegment) {
+        segments.push(apiReferenceSegment);
+    }
 
-${customInstructions}`;
+    const packageIndexSegment = section.id === 'packages' ? buildPackageIndexSegment(projectInfo) : null;
+    if (packageIndexSegment) {
+        segments.push(packageIndexSegment);
     }
 
-    userPrompt += `
+    // The current README is only a reference, so it is trimmed first
+    const renderReadme = (readme: string) => promptBlock('📄 CURRENT README (For Reference)', `\`\`\`markdown
+${readme}
+\`\`\``);
+    segments.push({
+        id: 'existingReadme',
+        target: 'user',
+        content: renderReadme(currentContent),
+        priority: 30,
+        shrink: (maxTokens) => renderReadme(truncateToTokens(currentContent, maxTokens - 40))
+    });
+
+    segments.push({
+        id: 'section',
+        target: 'user',
+        content: promptBlock('🎯 SECTION TO REGENERATE', `**${section.name}**: ${section.description}`),
+        priority: 100,
+        required: true
+    });
 
-═══════════════════════════════════════════════════════════════════════════════
-🚀 GENERATE NOW
-═══════════════════════════════════════════════════════════════════════════════
+    if (customInstructions) {
+        segments.push({
+            id: 'customInstructions',
+            target: 'user',
+            content: promptBlock('📝 ADDITIONAL INSTRUCTIONS', customInstructions),
+            priority: 100,
+            required: true
+        });
+    }
 
-Generate ONLY the "${section.name}" section now:`;
+    segments.push({
+        id: 'generate',
+        target: 'user',
+        content: promptBlock('🚀 GENERATE NOW', `Generate ONLY the "${section.name}" section now:`),
+        priority: 100,
+        required: true
+    });
+
+    const fitted = fitSegments(segments, maxPromptTokens ?? Number.MAX_SAFE_INTEGER);
 
     return {
-        systemPrompt,
-        userPrompt,
+        systemPrompt: fitted.systemPrompt,
+        userPrompt: fitted.userPrompt,
+        budget: maxPromptTokens !== undefined ? fitted.report : undefined,
     };
 }
 
@@ -531,7 +1107,8 @@ Generate ONLY the "${section.name}" section now:`;
 
 /**
  * Build a prompt for refining the README based on natural language instructions
- * Allows users to make specific changes without regenerating the entire README
+ * The model only returns the sections it changes; they are merged back with
+ * ReadmeDocument.merge, so unchanged sections are never rewritten
  */
 export function buildRefinementPrompt(
     instruction: string,
@@ -547,17 +1124,21 @@ CRITICAL RULES:
    - If user says "rewrite installation" → ONLY rewrite installation section, leave all other sections EXACTLY as they are
    - DO NOT modify, improve, or "fix" sections the user didn't mention
 
-2. ⚠️ PRESERVE EXACT FORMATTING for unchanged sections:
-   - If badges are on ONE LINE, keep them on ONE LINE
-   - If there are blank lines between sections, keep them
-   - Copy unchanged sections CHARACTER BY CHARACTER
+2. ⚠️ RETURN ONLY THE SECTIONS YOU CHANGE:
+   - The README is split into the title block (everything before the first ## header) and one section per ## header
+   - Return each changed or new section COMPLETE, starting with its header (# for the title block, ## for sections)
+   - Keep the original header of a changed section unless the user asks to rename it
+   - Sections you don't return are kept exactly as they are - never return unchanged sections
+   - To delete a section, return its ## header followed by a line containing only <!-- remove -->
+   - To reorder sections, return EVERY section in the new order
+   - Leave out blocks between <!-- readme-gen:keep --> and <!-- /readme-gen:keep --> - they are hand-written and put back automatically
 
-3. Keep all badges, emojis, and styling EXACTLY as they appear in unchanged sections
-4. Return the COMPLETE modified README (but only the requested part is different)
-5. Use proper Markdown syntax throughout
+3. Keep badges, emojis, and styling of the original in the sections you change
+   - If badges are on ONE LINE, keep them on ONE LINE
+4. Use proper Markdown syntax throughout
 
 EXAMPLE OF CORRECT BEHAVIOR:
-User says: "Change the heading to say MyApp"
+User says: "Change the heading to say MyApp" (only the title block is returned)
 
 BEFORE:
 # OldName - A Great App
@@ -715,15 +1296,15 @@ ${instruction}
 🚀 GENERATE THE MODIFIED README
 ═══════════════════════════════════════════════════════════════════════════════
 
-Apply the user's instruction and return the COMPLETE modified README.
+Apply the user's instruction and return ONLY the sections you changed, added or removed.
 
 ⚠️ CRITICAL OUTPUT RULES:
 - DO NOT wrap your output in \\\`\\\`\\\`markdown or any code blocks
 - DO NOT add any explanations or comments
-- Just output the raw README content directly, starting with the title (e.g., # Project Name)
-- The first character of your output should be "#" or "!" (for badge)
+- Start directly with the header of the first changed section (e.g., # Project Name or ## 📦 Installation)
+- The first character of your output should be "#"
 
-OUTPUT NOW (no code blocks, just the raw README):`;
+OUTPUT NOW (no code blocks, just the changed sections):`;
 
     return {
         systemPrompt,
@@ -0,0 +1,166 @@
+/**
+ * Protected Blocks
+ * Hand-written parts of a README wrapped in keep markers:
+ *
+ *   <!-- readme-gen:keep -->
+ *   ...runbook, on-call contacts, anything the generator must not touch...
+ *   <!-- /readme-gen:keep -->
+ *
+ * Blocks are taken from the existing README and put back verbatim into newly
+ * generated content, in the same section they were anchored to. Keep blocks the
+ * generated content makes up or rewrites are dropped, so only the originals remain.
+ */
+
+import { ReadmeDocument } from './readmeDocument';
+
+export interface ProtectedBlock {
+    // The block exactly as written, markers included
+    content: string;
+    // Id and header of the section the block starts in
+    sectionId: string;
+    sectionHeading: string;
+    // Position of that section in the README, used when its header was renamed
+    sectionIndex: number;
+    // True if the block came right after the section header (or at the top of the README)
+    atStart: boolean;
+}
+
+export interface RestoreResult {
+    content: string;
+    warnings: string[];
+}
+
+const PROTECTED_BLOCK_PATTERN = /<!--\s*readme-gen:keep\s*-->[\s\S]*?<!--\s*\/readme-gen:keep\s*-->/g;
+
+/**
+ * Find the protected blocks in a README and the section each one belongs to
+ */
+export function extractProtectedBlocks(markdown: string | undefined): ProtectedBlock[] {
+    if (!markdown) {
+        return [];
+    }
+
+    const sections = ReadmeDocument.parse(markdown).sections;
+    const blocks: ProtectedBlock[] = [];
+
+    for (const match of markdown.matchAll(PROTECTED_BLOCK_PATTERN)) {
+        const start = match.index ?? 0;
+
+        // Find the section the block starts in
+        let offset = 0;
+        let sectionStart = 0;
+        let sectionIndex = 0;
+        let section = sections[0];
+        for (const [index, candidate] of sections.entries()) {
+            if (offset > start) {
+                break;
+            }
+            section = candidate;
+            sectionStart = offset;
+            sectionIndex = index;
+            offset += candidate.raw.length;
+        }
+
+        // Text between the header line (or the start of the README) and the block
+        const before = markdown.substring(sectionStart, start);
+        const leading = section && section.level === 2 ? before.replace(/^[^\n]*\n?/, '') : before;
+
+        blocks.push({
+            content: match[0],
+            sectionId: section ? section.id : 'title',
+            sectionHeading: section ? section.heading || section.section.name : '',
+            sectionIndex: sectionIndex,
+            atStart: leading.trim().length === 0
+        });
+    }
+
+    return blocks;
+}
+
+/**
+ * Remove keep blocks that aren't one of the original blocks, and repeats of an original
+ */
+function stripUnknownBlocks(markdown: string, blocks: ProtectedBlock[]): string {
+    const seen = new Set<string>();
+    const pattern = new RegExp(`(\\n*)(${PROTECTED_BLOCK_PATTERN.source})(\\n*)`, 'g');
+
+    return markdown.replace(pattern, (match: string, before: string, block: string, after: string) => {
+        if (blocks.some(b => b.content === block) && !seen.has(block)) {
+            seen.add(block);
+            return match;
+        }
+        // Keep the wider of the two line breaks around the removed block
+        return before.length > after.length ? before : after;
+    });
+}
+
+/**
+ * Put protected blocks back into generated content.
+ * Keep blocks in the generated content that don't match an original exactly are removed
+ * first; originals that are already present verbatim are left alone. A block whose
+ * section header was renamed goes to the section at the same position instead, and only
+ * blocks of a README that has no sections left are appended at the end.
+ */
+export function restoreProtectedBlocks(markdown: string, blocks: ProtectedBlock[]): RestoreResult {
+    const stripped = stripUnknownBlocks(markdown, blocks);
+    const missing = blocks.filter(block => !stripped.includes(block.content));
+    const warnings: string[] = [];
+
+    if (missing.length === 0) {
+        return { content: stripped, warnings };
+    }
+
+    const document = ReadmeDocument.parse(stripped);
+    const orphans: ProtectedBlock[] = [];
+
+    // Where each block goes: its own section, or the one at its old position when the header was renamed
+    const targets = new Map<ProtectedBlock, string>();
+    for (const block of missing) {
+        let section = document.find(block.sectionId);
+        if (!section && document.sections.length > 0) {
+            section = document.sections[Math.min(block.sectionIndex, document.sections.length - 1)];
+            warnings.push(`The "${block.sectionHeading}" section wasn't found, so its protected block was put back in "${section.heading || section.section.name}" where the section used to be.`);
+        }
+        if (section) {
+            targets.set(block, section.id);
+        } else {
+            orphans.push(block);
+        }
+    }
+
+    // Restore section by section so several blocks keep their original order
+    const sectionIds = Array.from(new Set(targets.values()));
+    for (const sectionId of sectionIds) {
+        const sectionBlocks = missing.filter(block => targets.get(block) === sectionId);
+        const section = document.find(sectionId)!;
+
+        const starts = sectionBlocks.filter(block => block.atStart).map(block => block.content);
+        const ends = sectionBlocks.filter(block => !block.atStart).map(block => block.content);
+
+        const raw = section.raw.trim();
+        let header = '';
+        let body = raw;
+        if (section.level === 2) {
+            const newline = raw.indexOf('\n');
+            header = newline < 0 ? raw : raw.substring(0, newline);
+            body = newline < 0 ? '' : raw.substring(newline + 1).trim();
+        }
+
+        const parts = [header, ...starts, body, ...ends].filter(part => part.length > 0);
+        document.replace(sectionId, parts.join('\n\n'));
+    }
+
+    let content = document.toString();
+    if (orphans.length > 0) {
+        const ending = content.match(/\n*$/)?.[0] || '\n';
+        content = [content.trimEnd(), ...orphans.map(block => block.content)]
+            .filter(part => part.length > 0)
+            .join('\n\n') + ending;
+
+        for (const block of orphans) {
+            warnings.push(`The "${block.sectionHeading}" section wasn't found, so its protected block was kept at the end of the README.`);
+        }
+    }
+
+    return { content, warnings };
+}
@@ -0,0 +1,406 @@
+/**
+ * README Document
+ * Shared section model for README files, built on the marked lexer.
+ * A README is split into the title block (everything before the first ## header)
+ * and one section per ## header, each with a stable id mapped to ALL_SECTIONS.
+ *
+ * Sections keep their exact source text, so serializing an unchanged document
+ * returns the original README byte for byte and edits only touch the sections
+ * they target.
+ */
+
+import { Lexer, Token } from 'marked';
+import { ReadmeSection, ALL_SECTIONS } from '../templates/templates';
+
+export interface ReadmeDocumentSection {
+    // Stable id: the template section id, or "custom-<slug>" for other headers
+    id: string;
+    // Header text without the leading #'s ('' for a title block without a header)
+    heading: string;
+    // 1 for the title block, 2 for ## sections
+    level: number;
+    // Exact source text, including the blank lines after the section
+    raw: string;
+    // Matching template section, or an ad-hoc section named after the header
+    section: ReadmeSection;
+}
+
+// Body that marks a section for removal in merge()
+const REMOVE_MARKER = '<!-- remove -->';
+
+// Header keywords for each template section (checked in order, first match wins)
+const SECTION_KEYWORDS: Array<[string, RegExp]> = [
+    ['toc', /table of contents|\bcontents\b/],
+    ['envvars', /environment|\benv\b/],
+    ['techstack', /tech stack|built with|technolog/],
+    ['structure', /structure|layout|folder|directory/],
+    ['prerequisites', /prerequisite|requirement/],
+    ['installation', /install|getting started|setup|quick start/],
+    ['packages', /\bpackages\b|workspace|monorepo/],
+    ['demo', /demo|screenshot|preview/],
+    ['features', /feature|highlight/],
+    ['usage', /usage|how to use/],
+    ['configuration', /config|settings|options/],
+    ['api', /\bapi\b|reference/],
+    ['examples', /example/],
+    ['testing', /\btest/],
+    ['deployment', /deploy/],
+    ['contributing', /contribut/],
+    ['roadmap', /roadmap|todo|future/],
+    ['changelog', /changelog|release|version history/],
+    ['license', /licen[cs]e/],
+    ['acknowledgements', /acknowledg|credit|thanks/],
+    ['contact', /contact|author|support/],
+    ['description', /description|about|overview|introduction/]
+];
+
+/**
+ * Find the template section a README header belongs to.
+ * Unknown headers get an ad-hoc section so they can still be regenerated.
+ */
+export function matchTemplateSection(heading: string): ReadmeSection {
+    const normalized = heading.toLowerCase();
+
+    for (const [id, pattern] of SECTION_KEYWORDS) {
+        if (pattern.test(normalized)) {
+            const section = ALL_SECTIONS.find(s => s.id === id);
+            if (section) {
+                return section;
+            }
+        }
+    }
+
+    const name = heading.replace(/[^\p{L}\p{N}\s&/-]/gu, '').trim() || heading;
+    return {
+        id: `custom-${name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'section'}`,
+        name,
+        description: `The "${name}" section`,
+        defaultEnabled: true
+    };
+}
+
+/**
+ * Find the line index of each top-level ## header.
+ * The lexer decides what is a header (so code blocks and HTML are skipped);
+ * the lines come from the original text because token.raw is normalized
+ * (CRLF, leading tabs) and link definitions don't produce tokens at all.
+ */
+function findSectionStarts(lines: string[]): Array<{ line: number; heading: string }> {
+    const tokens = new Lexer().lex(lines.join('\n').replace(/\r\n?/g, '\n'));
+    const starts: Array<{ line: number; heading: string }> = [];
+    let cursor = 0;
+
+    for (const token of tokens) {
+        if (token.type === 'heading' && token.depth === 2) {
+            const headerLine = token.raw.split('\n')[0].trimEnd();
+            // Dropped link definitions only ever put the real line after the cursor
+            for (let i = cursor; i < lines.length; i++) {
+                if (lines[i].replace(/\r$/, '').trimEnd() === headerLine) {
+                    cursor = i;
+                    break;
+                }
+            }
+            starts.push({ line: cursor, heading: token.text.trim() });
+        }
+        cursor += (token.raw.match(/\n/g) || []).length;
+    }
+
+    return starts;
+}
+
+/**
+ * Plain text of an inline markdown token list (links, emphasis and code reduced to their text)
+ */
+function getPlainText(tokens: Token[] | undefined): string {
+    return (tokens || [])
+        .map(token => {
+            if (token.type === 'image' || token.type === 'html') {
+                return '';
+            }
+            if ('tokens' in token && token.tokens) {
+                return getPlainText(token.tokens);
+            }
+            return 'text' in token ? String(token.text) : '';
+        })
+        .join('');
+}
+
+export class ReadmeDocument {
+    private _sections: ReadmeDocumentSection[] = [];
+    private _eol = '\n';
+    // Line breaks at the very end of the original README, kept through edits
+    private _finalNewlines = '';
+
+    private constructor(markdown: string) {
+        this._finalNewlines = markdown.match(/(\r?\n)*$/)?.[0] ?? '';
+        this.load(markdown);
+    }
+
+    /**
+     * Parse a README into its sections
+     */
+    public static parse(markdown: string): ReadmeDocument {
+        return new ReadmeDocument(markdown);
+    }
+
+    public get sections(): readonly ReadmeDocumentSection[] {
+        return this._sections;
+    }
+
+    /**
+     * Get a section by id
+     */
+    public find(id: string): ReadmeDocumentSection | undefined {
+        return this._sections.find(s => s.id === id);
+    }
+
+    /**
+     * Replace a section with new markdown (which should include its header)
+     */
+    public replace(id: string, markdown: string): this {
+        const index = this._sections.findIndex(s => s.id === id);
+        if (index < 0) {
+            throw new Error(`Section "${id}" not found`);
+        }
+
+        const old = this._sections[index];
+        // Keep the blank lines that separated this section from the next one
+        const trailing = old.raw.match(/(\r?\n)*$/)?.[0] || this._eol + this._eol;
+
+        this._sections[index] = { ...old, raw: this.toEol(markdown.trim()) + trailing };
+        return this.reload();
+    }
+
+    /**
+     * Insert a new section before or after another one.
+     * Without a position it goes where the template order puts it.
+     */
+    public insert(markdown: string, position: { before?: string; after?: string } = {}): this {
+        let index: number;
+        if (position.before !== undefined) {
+            index = this._sections.findIndex(s => s.id === position.before);
+        } else if (position.after !== undefined) {
+            const after = this._sections.findIndex(s => s.id === position.after);
+            index = after < 0 ? -1 : after + 1;
+        } else {
+            index = this.getTemplateInsertIndex(ReadmeDocument.parse(markdown).sections[0]?.section.id);
+        }
+        if (index < 0 || index > this._sections.length) {
+            index = this._sections.length;
+        }
+
+        // The section before the new one needs a blank line after it
+        const previous = this._sections[index - 1];
+        if (previous && !/(\r?\n){2}$/.test(previous.raw)) {
+            previous.raw = previous.raw.replace(/(\r?\n)*$/, this._eol + this._eol);
+        }
+
+        this._sections.splice(index, 0, {
+            id: '',
+            heading: '',
+            level: 2,
+            raw: this.toEol(markdown.trim()) + this._eol + this._eol,
+            section: ALL_SECTIONS[0]
+        });
+        return this.reload();
+    }
+
+    /**
+     * Remove a section
+     */
+    public remove(id: string): this {
+        this._sections = this._sections.filter(s => s.id !== id);
+        return this.reload();
+    }
+
+    /**
+     * Put sections in the given order. The title block stays first and
+     * sections that aren't listed keep their relative order at the end.
+     */
+    public reorder(ids: string[]): this {
+        const title = this._sections.filter(s => s.level === 1);
+        const rest = this._sections.filter(s => s.level !== 1);
+        const rank = (s: ReadmeDocumentSection) => {
+            const position = ids.indexOf(s.id);
+            return position < 0 ? ids.length : position;
+        };
+        const ordered = rest
+            .map((s, i) => ({ s, i }))
+            .sort((a, b) => rank(a.s) - rank(b.s) || a.i - b.i)
+            .map(({ s }) => s);
+
+        // Moved sections need a blank line after them
+        this._sections = [...title, ...ordered].map(s => ({
+            ...s,
+            raw: /(\r?\n){2}$/.test(s.raw) ? s.raw : s.raw.replace(/(\r?\n)*$/, this._eol + this._eol)
+        }));
+        return this.reload();
+    }
+
+    /**
+     * Apply sections returned by a partial edit: sections with a known id are
+     * replaced, new ones are inserted in template order, and a section whose body
+     * is only <!-- remove --> is removed. If every existing section comes back,
+     * their order is taken from the edit as well. A code fence around the whole
+     * edit is ignored.
+     */
+    public merge(markdown: string): this {
+        const changes = ReadmeDocument.parse(stripMarkdownFence(markdown)).sections;
+
+        for (const change of changes) {
+            // Text before the first header is chatter unless the title itself was changed
+            if (change.level === 1 && !change.heading && this.find('title')?.heading) {
+                continue;
+            }
+            const body = change.raw.split(/\r?\n/).slice(change.heading ? 1 : 0).join('\n').trim();
+            if (body === REMOVE_MARKER) {
+                this.remove(change.id);
+            } else if (this.find(change.id)) {
+                this.replace(change.id, change.raw);
+            } else {
+                this.insert(change.raw);
+            }
+        }
+
+        const changedIds = changes.map(s => s.id);
+        if (this._sections.every(s => changedIds.includes(s.id))) {
+            this.reorder(changedIds);
+        }
+
+        return this;
+    }
+
+    /**
+     * Short plain-text summary: the first paragraph that isn't only badges or images
+     */
+    public getSummary(maxLength: number = 100): string {
+        for (const token of new Lexer().lex(this.toString())) {
+            if (token.type !== 'paragraph' && token.type !== 'blockquote') {
+                continue;
+            }
+            const text = getPlainText(token.tokens).replace(/\s+/g, ' ').trim();
+            if (text.length > 10) {
+                return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
+            }
+        }
+
+        const text = this.toString().trim();
+        return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
+    }
+
+    /**
+     * Serialize back to markdown (unchanged sections are returned exactly as parsed)
+     */
+    public toString(): string {
+        return this._sections.map(s => s.raw).join('');
+    }
+
+    private load(markdown: string): void {
+        this._eol = markdown.includes('\r\n') ? '\r\n' : '\n';
+
+        const lines = markdown.split('\n');
+        const starts = findSectionStarts(lines);
+        const slice = (start: number, end: number) => start >= end
+            ? ''
+            : lines.slice(start, end).join('\n') + (end < lines.length ? '\n' : '');
+
+        const sections: ReadmeDocumentSection[] = [];
+
+        // Title block
+        const titleEnd = starts.length > 0 ? starts[0].line : lines.length;
+        const titleRaw = slice(0, titleEnd);
+        if (titleRaw.length > 0) {
+            const title = new Lexer().lex(titleRaw.replace(/\r\n?/g, '\n'))
+                .find((token): token is Token & { type: 'heading'; text: string } => token.type === 'heading');
+            sections.push({
+                id: 'title',
+                heading: title ? title.text.trim() : '',
+                level: 1,
+                raw: titleRaw,
+                section: ALL_SECTIONS.find(s => s.id === 'title')!
+            });
+        }
+
+        starts.forEach((start, i) => {
+            const end = i + 1 < starts.length ? starts[i + 1].line : lines.length;
+            sections.push({
+                id: '',
+                heading: start.heading,
+                level: 2,
+                raw: slice(start.line, end),
+                section: matchTemplateSection(start.heading)
+            });
+        });
+
+        // Make ids unique ("features", "features-2", ...)
+        const used = new Set<string>();
+        for (const section of sections) {
+            if (section.level === 1) {
+                used.add(section.id);
+                continue;
+            }
+            let id = section.section.id;
+            for (let n = 2; used.has(id); n++) {
+                id = `${section.section.id}-${n}`;
+            }
+            used.add(id);
+            section.id = id;
+        }
+
+        this._sections = sections;
+    }
+
+    /**
+     * Re-parse after an edit so headers, ids and boundaries stay accurate.
+     * The README keeps ending the way the original did.
+     */
+    private reload(): this {
+        this.load(this.toString().replace(/(\r?\n)*$/, this._finalNewlines));
+        return this;
+    }
+
+    private toEol(text: string): string {
+        return text.replace(/\r?\n/g, this._eol);
+    }
+
+    /**
+     * Where a template section belongs: after the last existing section that comes before it in ALL_SECTIONS
+     */
+    private getTemplateInsertIndex(sectionId: string | undefined): number {
+        const order = ALL_SECTIONS.findIndex(s => s.id === sectionId);
+        if (order < 0) {
+            return this._sections.length;
+        }
+
+        let index = this._sections.length > 0 && this._sections[0].level === 1 ? 1 : 0;
+        this._sections.forEach((s, i) => {
+            const existing = ALL_SECTIONS.findIndex(t => t.id === s.section.id);
+            if (existing >= 0 && existing < order) {
+                index = i + 1;
+            }
+        });
+        return index;
+    }
+}
+
+/**
+ * Remove a ```markdown fence some models wrap around their answer
+ * (also when they add a sentence before or after it)
+ */
+export function stripMarkdownFence(content: string): string {
+    const trimmed = content.trim();
+    const fenced = trimmed.match(/^```(?:markdown|md)?\s*\n([\s\S]*?)\n```$/)
+        || trimmed.match(/^[^\n]*\n+```(?:markdown|md)\s*\n([\s\S]*?)\n```(?:\n+[^\n]*)?$/);
+    return (fenced ? fenced[1] : trimmed).trim();
+}
+
+/**
+ * Put the original header back if regenerated content doesn't start with one
+ */
+export function withSectionHeading(section: ReadmeDocumentSection, content: string): string {
+    const trimmed = content.trim();
+    if (!section.heading || /^#{1,2}\s/.test(trimmed)) {
+        return trimmed;
+    }
+    return `${'#'.repeat(section.level)} ${section.heading}\n\n${trimmed}`;
+}
@@ -1,18 +1,26 @@
 /**
  * README Generator
  * Main orchestration for README generation
- * Supports both Groq and OpenRouter APIs
+ * Works with any registered LLM provider (Groq, OpenRouter, HuggingFace, ...)
  */
 
-import { ProjectInfo } from '../analysis/workspaceScanner';
+import * as vscode from 'vscode';
+import { ProjectInfo, ensureApiReference } from '../analysis/workspaceScanner';
 import { DetectionResult } from '../analysis/languageDetector';
 import { ProjectTypeResult } from '../analysis/projectTypeDetector';
 import { ReadmeTemplate, ReadmeSection, getTemplate } from '../templates/templates';
-import { buildPrompt, buildSectionRegeneratePrompt, PromptOptions } from './promptBuilder';
-import { generateWithStreaming, ChatMessage, StreamCallback } from '../api/openRouterClient';
-import { generateWithGroq, ChatMessage as GroqChatMessage, StreamCallback as GroqStreamCallback } from '../api/groqClient';
+import { buildPrompt, buildSectionPrompt, buildSectionRegeneratePrompt, buildRefinementPrompt, PromptOptions } from './promptBuilder';
+import { ChatMessage, StreamCallback, LlmProvider } from '../api/llmProvider';
+import { resolveActiveProvider } from '../api/providerRegistry';
+import { getGenerationParameters } from '../api/modelSettings';
+import { getPromptBudget, describeBudgetReport } from './tokenBudget';
 import { generateOfflineReadme } from './offlineFallback';
-import { hasApiKey, hasHuggingFaceApiKey, getApiProvider } from '../utils/secretStorage';
+import { getBadgesMarkdown } from './badgeGenerator';
+import { ReadmeDocument, ReadmeDocumentSection, stripMarkdownFence, withSectionHeading } from './readmeDocument';
+import { ProtectedBlock, extractProtectedBlocks, restoreProtectedBlocks } from './protectedBlocks';
+import { StructureTreeEntry, StructureTreeOptions, DEFAULT_STRUCTURE_TREE_OPTIONS, buildStructureTree, renderStructureTree, applyStructureTree, injectStructureTree } from './structureTree';
+import { applyApiReference, injectApiReference } from '../analysis/apiExtractor';
+import { applyPackageIndex, injectPackageIndex } from '../analysis/monorepo';
 
 export interface GenerationOptions {
     templateId: string;
@@ -22,6 +30,24 @@ export interface GenerationOptions {
     customInstructions?: string;
     includeBadges: boolean;
     customBadges?: string;
+    // Generate each enabled section as its own request instead of one big completion
+    sectionBySection?: boolean;
+    // After the root README of a monorepo, generate a README for each package
+    packageReadmes?: boolean;
+}
+
+export interface SectionProgress {
+    id: string;
+    name: string;
+    status: 'pending' | 'generating' | 'done' | 'failed';
+    error?: string;
+}
+
+export interface SectionUpdate {
+    // Id of the section in the README (ReadmeDocumentSection.id)
+    id: string;
+    // What changed in the project since the section was written
+    reasons: string[];
 }
 
 export interface GenerationResult {
@@ -30,9 +56,60 @@ export interface GenerationResult {
     error?: string;
 }
 
+/**
+ * Prompt token budget for a provider's primary model and configured max tokens
+ */
+function getProviderPromptBudget(provider: LlmProvider): number {
+    return getPromptBudget(provider.models[0], getGenerationParameters(provider.id).maxTokens);
+}
+
+/**
+ * Project Structure tree options (ai-readme.structureTree.*)
+ */
+function getStructureTreeOptions(): StructureTreeOptions {
+    const config = vscode.workspace.getConfiguration('ai-readme.structureTree');
+    return {
+        maxDepth: Math.max(Math.floor(config.get<number>('maxDepth', DEFAULT_STRUCTURE_TREE_OPTIONS.maxDepth)), 1),
+        maxEntries: Math.max(Math.floor(config.get<number>('maxEntries', DEFAULT_STRUCTURE_TREE_OPTIONS.maxEntries)), 2),
+        ignore: config.get<string[]>('ignore', DEFAULT_STRUCTURE_TREE_OPTIONS.ignore)
+    };
+}
+
+// Notes the clients stream through onToken between model output: "🤖 Using Groq model: **...**",
+// "🖥️ Using local model: ...", "⚠️ Rate limited. Switching to ..."
+const PROVIDER_NOTE_PATTERN = /^\n?(?:🤖|🖥️|⚠️)\s[\s\S]*\n\n$/;
+
+/**
+ * Send provider notes to onStatus so only model output reaches onToken
+ */
+function withoutProviderNotes(onToken: (token: string) => void, onStatus?: (status: string) => void): (token: string) => void {
+    return (token) => {
+        if (PROVIDER_NOTE_PATTERN.test(token)) {
+            onStatus?.(token.trim().replace(/\*\*/g, ''));
+        } else {
+            onToken(token);
+        }
+    };
+}
+
+/**
+ * Put protected blocks back into generated content, warning about blocks whose section is gone
+ */
+function restoreProtectedContent(content: string, blocks: ProtectedBlock[]): string {
+    const { content: restored, warnings } = restoreProtectedBlocks(content, blocks);
+    for (const warning of warnings) {
+        vscode.window.showWarningMessage(`🔒 ${warning}`);
+    }
+    return restored;
+}
+
 /**
  * Generate README with streaming
- * Automatically uses HuggingFace if configured, otherwise OpenRouter
+ * Uses the preferred provider if configured, otherwise the first configured one.
+ * With options.sectionBySection, sections are generated separately and reported
+ * through onSectionProgress instead of onToken.
+ * Protected (readme-gen:keep) blocks from the existing README are put back before onComplete.
+ * If the signal is aborted, generation stops and neither onComplete nor onError is called.
  */
 export async function generateReadme(
     projectInfo: ProjectInfo,
@@ -41,20 +118,29 @@ export async function generateReadme(
     options: GenerationOptions,
     onToken: (token: string) => void,
     onComplete: (content: string) => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    signal?: AbortSignal,
+    onStatus?: (status: string) => void,
+    onSectionProgress?: (sections: SectionProgress[], content: string) => void
 ): Promise<void> {
-    // Check which API to use
-    const hasGroqKey = await hasHuggingFaceApiKey(); // Reusing HF storage for Groq key
-    const hasOrKey = await hasApiKey();
-    const provider = await getApiProvider();
+    if (options.enabledSections.includes('api')) {
+        await ensureApiReference(projectInfo);
+    }
+    // Hand-written keep blocks in the README on disk survive regeneration
+    const protectedBlocks = extractProtectedBlocks(projectInfo.existingReadmeContent);
+    // The Project Structure tree, API Reference and package index come from the scan; the model only writes around them
+    const structureTree = buildStructureTree(projectInfo, getStructureTreeOptions());
+    const complete = (content: string) => onComplete(restoreProtectedContent(
+        injectRenderedContent(content, projectInfo, structureTree),
+        protectedBlocks
+    ));
     
-    // Use Groq if configured, or if it's the preferred provider
-    const useGroq = hasGroqKey && (provider === 'huggingface' || !hasOrKey);
+    const provider = await resolveActiveProvider();
     
-    if (!hasGroqKey && !hasOrKey) {
+    if (!provider) {
         // Use offline fallback
-        const offlineContent = generateOfflineReadme(projectInfo, detection, projectType);
-        onComplete(offlineContent);
+        const offlineContent = generateOfflineReadme(projectInfo, detection, projectType, renderStructureTree(structureTree));
+        complete(offlineContent);
         return;
     }
     
@@ -67,16 +153,40 @@ export async function generateReadme(
         tone: options.tone,
         customInstructions: options.customInstructions,
         includeBadges: options.includeBadges,
-        customBadges: options.customBadges
+        customBadges: options.customBadges,
+        maxPromptTokens: getProviderPromptBudget(provider),
+        structureTree: renderStructureTree(structureTree)
     };
     
-    const { systemPrompt, userPrompt } = buildPrompt(
+    if (options.sectionBySection) {
+        await generateReadmeBySections(
+            provider,
+            projectInfo,
+            detection,
+            projectType,
+            promptOptions,
+            complete,
+            onError,
+            signal,
+            onStatus,
+            onSectionProgress
+        );
+        return;
+    }
+    
+    const { systemPrompt, userPrompt, budget } = buildPrompt(
         projectInfo,
         detection,
         projectType,
         promptOptions
     );
     
+    // Let the user know when project context had to be trimmed
+    const budgetNote = budget ? describeBudgetReport(budget) : '';
+    if (budgetNote) {
+        onToken(`✂️ ${budgetNote}\n\n`);
+    }
+    
     const messages: ChatMessage[] = [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
@@ -84,28 +194,207 @@ export async function generateReadme(
     
     const callbacks: StreamCallback = {
         onToken: onToken,
-        onComplete: onComplete,
-        onError: onError
+        onComplete: complete,
+        onError: onError,
+        onStatus: onStatus
     };
     
     try {
-        if (useGroq) {
-            // Use Groq API
-            await generateWithGroq(messages as GroqChatMessage[], callbacks as GroqStreamCallback);
-        } else {
-            // Use OpenRouter API
-            await generateWithStreaming(messages, callbacks);
-        }
+        await provider.generate(messages, callbacks, signal);
     } catch (error) {
+        if (signal?.aborted) {
+            return;
+        }
+        
         // Fallback to offline mode on error
-        const offlineContent = generateOfflineReadme(projectInfo, detection, projectType);
+        const offlineContent = generateOfflineReadme(projectInfo, detection, projectType, renderStructureTree(structureTree));
         onError(new Error('API request failed. Using offline template.'));
-        onComplete(offlineContent);
+        complete(offlineContent);
+    }
+}
+
+// ============================================================================
+// SECTION-BY-SECTION GENERATION
+// ============================================================================
+
+/**
+ * How many section requests may run at once (ai-readme.sectionConcurrency, 0 = provider default)
+ */
+function getSectionConcurrency(provider: LlmProvider): number {
+    const config = vscode.workspace.getConfiguration('ai-readme');
+    const configured = config.get<number>('sectionConcurrency') || 0;
+    return Math.max(Math.floor(configured > 0 ? configured : provider.maxConcurrentRequests ?? 1), 1);
+}
+
+/**
+ * Run a provider request and collect its final content.
+ * Resolves with neither content nor error if the request was cancelled.
+ */
+function collectCompletion(
+    provider: LlmProvider,
+    messages: ChatMessage[],
+    signal?: AbortSignal,
+    onStatus?: (status: string) => void
+): Promise<{ content?: string; error?: Error }> {
+    return new Promise(resolve => {
+        const callbacks: StreamCallback = {
+            // Progress is reported per section, so streamed tokens are not needed
+            onToken: () => { /* ignored */ },
+            onComplete: (content) => resolve({ content }),
+            onError: (error) => resolve({ error }),
+            onStatus: onStatus
+        };
+        
+        provider.generate(messages, callbacks, signal).then(
+            () => resolve({}),
+            (error) => resolve({ error: error instanceof Error ? error : new Error(String(error)) })
+        );
+    });
+}
+
+/**
+ * GitHub heading anchor: lowercase, punctuation and emojis removed, spaces to hyphens
+ */
+function getHeadingAnchor(heading: string): string {
+    return heading
+        .trim()
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+        .replace(/\s/g, '-');
+}
+
+/**
+ * Build the Table of Contents from the level-2 headers of the generated sections
+ */
+function buildTableOfContents(contents: string[]): string {
+    const links = contents
+        .map(content => content.match(/^##\s+(.+)$/m)?.[1])
+        .filter((heading): heading is string => !!heading)
+        .map(heading => `- [${heading.trim()}](#${getHeadingAnchor(heading)})`);
+    
+    return `## 📋 Table of Contents\n\n${links.join('\n')}`;
+}
+
+/**
+ * Assemble finished sections in template order (the Table of Contents is built from the others)
+ */
+function assembleSections(sections: ReadmeSection[], contents: Map<string, string>): string {
+    const toc = contents.has('toc')
+        ? buildTableOfContents(sections.filter(s => s.id !== 'toc').map(s => contents.get(s.id) || ''))
+        : '';
+    
+    return sections
+        .map(s => s.id === 'toc' ? toc : contents.get(s.id) || '')
+        .filter(content => content.length > 0)
+        .join('\n\n') + '\n';
+}
+
+/**
+ * Generate every enabled section as its own request, running up to the provider's
+ * concurrency limit at once, then assemble them in template order.
+ * Failed sections are left out (and reported) so the rest of the README is still usable.
+ */
+async function generateReadmeBySections(
+    provider: LlmProvider,
+    projectInfo: ProjectInfo,
+    detection: DetectionResult,
+    projectType: ProjectTypeResult,
+    promptOptions: PromptOptions,
+    onComplete: (content: string) => void,
+    onError: (error: Error) => void,
+    signal?: AbortSignal,
+    onStatus?: (status: string) => void,
+    onSectionProgress?: (sections: SectionProgress[], content: string) => void
+): Promise<void> {
+    const sections = promptOptions.template.sections
+        .filter(s => promptOptions.enabledSections.includes(s.id));
+    
+    if (sections.length === 0) {
+        onError(new Error('No sections selected. Enable at least one section.'));
+        return;
+    }
+    
+    // Badges are detected once and shared with the title section
+    const badges = promptOptions.includeBadges
+        ? getBadgesMarkdown(projectInfo, detection)
+        : undefined;
+    
+    const progress: SectionProgress[] = sections.map(s => ({ id: s.id, name: s.name, status: 'pending' }));
+    const contents = new Map<string, string>();
+    const reportProgress = () => onSectionProgress?.(progress.map(p => ({ ...p })), assembleSections(sections, contents));
+    
+    // The Table of Contents needs the other headers, so it is built instead of generated
+    const tocIndex = sections.findIndex(s => s.id === 'toc');
+    if (tocIndex >= 0) {
+        contents.set('toc', '');
+        progress[tocIndex].status = 'done';
+    }
+    
+    reportProgress();
+    
+    const queue = sections.filter(s => s.id !== 'toc');
+    
+    const worker = async () => {
+        while (queue.length > 0 && !signal?.aborted) {
+            const section = queue.shift()!;
+            const entry = progress.find(p => p.id === section.id)!;
+            
+            entry.status = 'generating';
+            reportProgress();
+            
+            const { systemPrompt, userPrompt } = buildSectionPrompt(
+                section,
+                projectInfo,
+                detection,
+                projectType,
+                promptOptions,
+                badges
+            );
+            
+            const result = await collectCompletion(
+                provider,
+                [
+                    { role: 'system', content: systemPrompt },
+                    { role: 'user', content: userPrompt }
+                ],
+                signal,
+                (status) => onStatus?.(status ? `${section.name}: ${status}` : '')
+            );
+            
+            if (signal?.aborted) {
+                return;
+            }
+            
+            if (result.content !== undefined && result.content.trim()) {
+                contents.set(section.id, stripMarkdownFence(result.content));
+                entry.status = 'done';
+            } else {
+                entry.status = 'failed';
+                entry.error = result.error?.message || 'Empty response';
+            }
+            reportProgress();
+        }
+    };
+    
+    const workerCount = Math.min(getSectionConcurrency(provider), queue.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    
+    if (signal?.aborted) {
+        return;
+    }
+    
+    const failed = progress.filter(p => p.status === 'failed');
+    if (failed.length > 0 && failed.length === sections.filter(s => s.id !== 'toc').length) {
+        onError(new Error(`No section could be generated: ${failed[0].error}`));
+        return;
     }
+    
+    onComplete(assembleSections(sections, contents));
 }
 
 /**
  * Regenerate a specific section
+ * Nothing is reported if the signal is aborted
  */
 export async function regenerateSection(
     section: ReadmeSection,
@@ -116,22 +405,33 @@ export async function regenerateSection(
     customInstructions: string | undefined,
     onToken: (token: string) => void,
     onComplete: (content: string) => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    signal?: AbortSignal,
+    onStatus?: (status: string) => void
 ): Promise<void> {
-    const hasKey = await hasApiKey();
+    if (section.id === 'api') {
+        await ensureApiReference(projectInfo);
+    }
+    const provider = await resolveActiveProvider();
     
-    if (!hasKey) {
-        onError(new Error('API key not configured. Cannot regenerate section.'));
+    if (!provider) {
+        onError(new Error('No AI provider configured. Cannot regenerate section.'));
         return;
     }
     
+    const structureTree = section.id === 'structure'
+        ? buildStructureTree(projectInfo, getStructureTreeOptions())
+        : undefined;
+    
     const { systemPrompt, userPrompt } = buildSectionRegeneratePrompt(
         section,
         projectInfo,
         detection,
         projectType,
         currentContent,
-        customInstructions
+        customInstructions,
+        getProviderPromptBudget(provider),
+        structureTree && renderStructureTree(structureTree)
     );
     
     const messages: ChatMessage[] = [
@@ -139,43 +439,322 @@ export async function regenerateSection(
         { role: 'user', content: userPrompt }
     ];
     
+    const callbacks: StreamCallback = {
+        // The section is shown streaming in place, so provider notes must not become section text
+        onToken: withoutProviderNotes(onToken, onStatus),
+        onComplete: (content) => onComplete(withRenderedContent(section.id, stripMarkdownFence(content), projectInfo, structureTree)),
+        onError: onError,
+        onStatus: onStatus
+    };
+    
+    try {
+        await provider.generate(messages, callbacks, signal);
+    } catch (error) {
+        if (!signal?.aborted) {
+            onError(error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+}
+
+/**
+ * Put the rendered tree into regenerated Project Structure content, the rendered
+ * reference into API Reference content and the package index into Packages content
+ * (other sections are returned as they are)
+ */
+function withRenderedContent(sectionId: string, content: string, projectInfo: ProjectInfo, structureTree: StructureTreeEntry | undefined): string {
+    if (sectionId === 'structure' && structureTree) {
+        return applyStructureTree(content, structureTree);
+    }
+    if (sectionId === 'api' && projectInfo.apiReference) {
+        return applyApiReference(content, projectInfo.apiReference);
+    }
+    if (sectionId === 'packages' && projectInfo.monorepo) {
+        return applyPackageIndex(content, projectInfo.monorepo);
+    }
+    return content;
+}
+
+/**
+ * Put everything rendered from the scan into a whole generated README
+ */
+function injectRenderedContent(readme: string, projectInfo: ProjectInfo, structureTree: StructureTreeEntry): string {
+    return injectPackageIndex(injectApiReference(injectStructureTree(readme, structureTree), projectInfo.apiReference), projectInfo.monorepo);
+}
+
+/**
+ * Refine a README with a natural language instruction.
+ * The model returns only the sections it changed; they are merged into the current
+ * README and protected blocks are put back before onComplete.
+ * Nothing is reported if the signal is aborted.
+ */
+export async function refineReadme(
+    currentContent: string,
+    instruction: string,
+    onToken: (token: string) => void,
+    onComplete: (content: string) => void,
+    onError: (error: Error) => void,
+    signal?: AbortSignal,
+    onStatus?: (status: string) => void
+): Promise<void> {
+    const provider = await resolveActiveProvider();
+    
+    if (!provider) {
+        onError(new Error('🔑 No AI provider configured. Please set an API key first.'));
+        return;
+    }
+    
+    const { systemPrompt, userPrompt } = buildRefinementPrompt(instruction, currentContent);
+    
+    const messages: ChatMessage[] = [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+    ];
+    
     const callbacks: StreamCallback = {
         onToken: onToken,
-        onComplete: onComplete,
-        onError: onError
+        onComplete: (content) => onComplete(restoreProtectedContent(
+            ReadmeDocument.parse(currentContent).merge(content).toString(),
+            extractProtectedBlocks(currentContent)
+        )),
+        onError: onError,
+        onStatus: onStatus
+    };
+    
+    try {
+        await provider.generate(messages, callbacks, signal);
+    } catch (error) {
+        if (!signal?.aborted) {
+            onError(error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+}
+
+/**
+ * Refine one section of a README with a natural language instruction.
+ * onComplete gets the new section (header included): the returned section with the
+ * same id, or the only one returned (a translated header no longer matches the id).
+ * Nothing is reported if the signal is aborted.
+ */
+export async function refineReadmeSection(
+    currentContent: string,
+    section: ReadmeDocumentSection,
+    instruction: string,
+    onComplete: (content: string) => void,
+    onError: (error: Error) => void,
+    signal?: AbortSignal,
+    onStatus?: (status: string) => void
+): Promise<void> {
+    const provider = await resolveActiveProvider();
+    
+    if (!provider) {
+        onError(new Error('🔑 No AI provider configured. Please set an API key first.'));
+        return;
+    }
+    
+    const name = section.heading || section.section.name;
+    const { systemPrompt, userPrompt } = buildRefinementPrompt(
+        `Change ONLY the "${name}" section: ${instruction}`,
+        currentContent
+    );
+    
+    const messages: ChatMessage[] = [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+    ];
+    
+    const callbacks: StreamCallback = {
+        onToken: () => { /* the section is applied when complete */ },
+        onComplete: (content) => {
+            const returned = ReadmeDocument.parse(stripMarkdownFence(content)).sections
+                .filter(s => s.level === section.level && s.raw.trim());
+            const refined = returned.find(s => s.id === section.id)
+                || (returned.length === 1 ? returned[0] : undefined);
+            
+            if (!refined) {
+                onError(new Error(`The response didn't contain the "${name}" section.`));
+                return;
+            }
+            onComplete(refined.raw.trim());
+        },
+        onError: onError,
+        onStatus: onStatus
     };
     
-    // Check which API to use
-    const hasGroqKey = await hasHuggingFaceApiKey(); // Reusing HF storage for Groq
-    const hasOrKey = await hasApiKey();
-    const provider = await getApiProvider();
-    const useGroq = hasGroqKey && (provider === 'huggingface' || !hasOrKey);
+    try {
+        await provider.generate(messages, callbacks, signal);
+    } catch (error) {
+        if (!signal?.aborted) {
+            onError(error instanceof Error ? error : new Error(String(error)));
+        }
+    }
+}
+
+/**
+ * Splice regenerated sections into a README.
+ * Applied from the last section up, so replacing one never shifts the ids of those still to do.
+ */
+function applySectionUpdates(readme: string, contents: Map<string, string>): string {
+    const document = ReadmeDocument.parse(readme);
+    const sections = document.sections.filter(s => contents.has(s.id)).reverse();
     
-    if (useGroq) {
-        await generateWithGroq(messages as GroqChatMessage[], callbacks as GroqStreamCallback);
-    } else {
-        await generateWithStreaming(messages, callbacks);
+    for (const section of sections) {
+        document.replace(section.id, withSectionHeading(section, contents.get(section.id)!));
     }
+    return document.toString();
+}
+
+/**
+ * Update an existing README by regenerating only the given sections.
+ * Each section is told what changed in the project; everything else is kept as written.
+ * Sections that fail keep their current content. Protected blocks are put back before onComplete.
+ * Nothing is reported if the signal is aborted.
+ */
+export async function updateReadmeSections(
+    projectInfo: ProjectInfo,
+    detection: DetectionResult,
+    projectType: ProjectTypeResult,
+    readme: string,
+    updates: SectionUpdate[],
+    onComplete: (content: string) => void,
+    onError: (error: Error) => void,
+    signal?: AbortSignal,
+    onStatus?: (status: string) => void,
+    onSectionProgress?: (sections: SectionProgress[], content: string) => void
+): Promise<void> {
+    const provider = await resolveActiveProvider();
+    
+    if (!provider) {
+        onError(new Error('No AI provider configured. Cannot update the README.'));
+        return;
+    }
+    
+    const sections = ReadmeDocument.parse(readme).sections
+        .filter(s => updates.some(u => u.id === s.id));
+    
+    if (sections.length === 0) {
+        onError(new Error('None of the selected sections were found in the README.'));
+        return;
+    }
+    if (sections.some(s => s.section.id === 'api')) {
+        await ensureApiReference(projectInfo);
+    }
+    
+    const progress: SectionProgress[] = sections.map(s => ({
+        id: s.id,
+        name: s.heading || s.section.name,
+        status: 'pending'
+    }));
+    const contents = new Map<string, string>();
+    const reportProgress = () => onSectionProgress?.(progress.map(p => ({ ...p })), applySectionUpdates(readme, contents));
+    
+    reportProgress();
+    
+    const queue = [...sections];
+    const budget = getProviderPromptBudget(provider);
+    const structureTree = sections.some(s => s.section.id === 'structure')
+        ? buildStructureTree(projectInfo, getStructureTreeOptions())
+        : undefined;
+    
+    const worker = async () => {
+        while (queue.length > 0 && !signal?.aborted) {
+            const section = queue.shift()!;
+            const entry = progress.find(p => p.id === section.id)!;
+            const reasons = updates.find(u => u.id === section.id)?.reasons || [];
+            
+            entry.status = 'generating';
+            reportProgress();
+            
+            const instructions = [
+                'Update this section of the CURRENT README so it matches the project as it is now.',
+                'Keep the wording, structure and anything that is still accurate; only change what the project changes below affect.',
+                ...(reasons.length > 0 ? ['', 'Changes since the README was written:', ...reasons.map(r => `- ${r}`)] : [])
+            ].join('\n');
+            
+            const { systemPrompt, userPrompt } = buildSectionRegeneratePrompt(
+                section.section,
+                projectInfo,
+                detection,
+                projectType,
+                readme,
+                instructions,
+                budget,
+                section.section.id === 'structure' && structureTree ? renderStructureTree(structureTree) : undefined
+            );
+            
+            const result = await collectCompletion(
+                provider,
+                [
+                    { role: 'system', content: systemPrompt },
+                    { role: 'user', content: userPrompt }
+                ],
+                signal,
+                (status) => onStatus?.(status ? `${entry.name}: ${status}` : '')
+            );
+            
+            if (signal?.aborted) {
+                return;
+            }
+            
+            if (result.content !== undefined && result.content.trim()) {
+                const content = stripMarkdownFence(result.content);
+                contents.set(section.id, withRenderedContent(section.section.id, content, projectInfo, structureTree));
+                entry.status = 'done';
+            } else {
+                entry.status = 'failed';
+                entry.error = result.error?.message || 'Empty response';
+            }
+            reportProgress();
+        }
+    };
+    
+    const workerCount = Math.min(getSectionConcurrency(provider), queue.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    
+    if (signal?.aborted) {
+        return;
+    }
+    
+    const failed = progress.filter(p => p.status === 'failed');
+    if (failed.length === sections.length) {
+        onError(new Error(`No section could be updated: ${failed[0].error}`));
+        return;
+    }
+    
+    onComplete(restoreProtectedContent(applySectionUpdates(readme, contents), extractProtectedBlocks(readme)));
 }
 
 /**
  * Generate README non-streaming (for simple use cases)
- * Uses a promise-based wrapper around the streaming API
+ * Uses a promise-based wrapper around the streaming API.
+ * Protected (readme-gen:keep) blocks from the existing README are put back. When the
+ * request fails the offline template is returned with isOffline and the error; when the
+ * signal is aborted the result is empty, with the error 'Cancelled'.
  */
 export async function generateReadmeSimple(
     projectInfo: ProjectInfo,
     detection: DetectionResult,
     projectType: ProjectTypeResult,
-    options: GenerationOptions
+    options: GenerationOptions,
+    signal?: AbortSignal
 ): Promise<GenerationResult> {
-    const hasGroqKey = await hasHuggingFaceApiKey(); // Reusing HF storage for Groq key
-    const hasOrKey = await hasApiKey();
+    if (options.enabledSections.includes('api')) {
+        await ensureApiReference(projectInfo);
+    }
+    const protectedBlocks = extractProtectedBlocks(projectInfo.existingReadmeContent);
+    const structureTree = buildStructureTree(projectInfo, getStructureTreeOptions());
+    const cancelled: GenerationResult = { content: '', isOffline: true, error: 'Cancelled' };
+    const offline = (error?: string): GenerationResult => ({
+        content: restoreProtectedContent(
+            generateOfflineReadme(projectInfo, detection, projectType, renderStructureTree(structureTree)),
+            protectedBlocks
+        ),
+        isOffline: true,
+        error: error
+    });
+    const provider = await resolveActiveProvider();
     
-    if (!hasGroqKey && !hasOrKey) {
-        return {
-            content: generateOfflineReadme(projectInfo, detection, projectType),
-            isOffline: true
-        };
+    if (!provider) {
+        return offline();
     }
     
     const template = getTemplate(options.templateId);
@@ -187,7 +766,9 @@ export async function generateReadmeSimple(
         tone: options.tone,
         customInstructions: options.customInstructions,
         includeBadges: options.includeBadges,
-        customBadges: options.customBadges
+        customBadges: options.customBadges,
+        maxPromptTokens: getProviderPromptBudget(provider),
+        structureTree: renderStructureTree(structureTree)
     };
     
     const { systemPrompt, userPrompt } = buildPrompt(
@@ -202,36 +783,34 @@ export async function generateReadmeSimple(
         { role: 'user', content: userPrompt }
     ];
     
-    // Use a promise wrapper to collect the streamed content
-    return new Promise((resolve) => {
-        let content = '';
-        
-        const callbacks: StreamCallback = {
-            onToken: (token: string) => { content += token; },
-            onComplete: (fullContent: string) => {
-                resolve({
-                    content: fullContent,
-                    isOffline: false
-                });
-            },
-            onError: () => {
-                resolve({
-                    content: generateOfflineReadme(projectInfo, detection, projectType),
-                    isOffline: true,
-                    error: 'API request failed'
-                });
-            }
-        };
-        
-        // Check which API to use
-        const useGroq = hasGroqKey && (!hasOrKey);
-        
-        if (useGroq) {
-            generateWithGroq(messages as GroqChatMessage[], callbacks as GroqStreamCallback);
-        } else {
-            generateWithStreaming(messages, callbacks);
+    // Collect the streamed content; the first of onComplete, onError or a thrown error wins
+    let result: GenerationResult | undefined;
+    const callbacks: StreamCallback = {
+        onToken: () => {},
+        onComplete: (fullContent: string) => {
+            result ??= {
+                content: restoreProtectedContent(injectRenderedContent(fullContent, projectInfo, structureTree), protectedBlocks),
+                isOffline: false
+            };
+        },
+        onError: (error: Error) => {
+            result ??= offline(error.message || 'API request failed');
         }
-    });
+    };
+    
+    try {
+        await provider.generate(messages, callbacks, signal);
+    } catch (error) {
+        if (signal?.aborted) {
+            return cancelled;
+        }
+        result ??= offline(error instanceof Error ? error.message : String(error));
+    }
+    
+    if (signal?.aborted) {
+        return cancelled;
+    }
+    return result ?? offline('No content was generated');
 }
 
 /**
@@ -252,7 +831,8 @@ export function getPromptPreview(
         tone: options.tone,
         customInstructions: options.customInstructions,
         includeBadges: options.includeBadges,
-        customBadges: options.customBadges
+        customBadges: options.customBadges,
+        structureTree: renderStructureTree(buildStructureTree(projectInfo, getStructureTreeOptions()))
     };
     
     const { systemPrompt, userPrompt } = buildPrompt(
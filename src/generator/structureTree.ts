@@ -0,0 +1,284 @@
+/**
+ * Project Structure Tree
+ * Renders the Project Structure tree from the workspace scan, so the README only
+ * lists files that exist. The model is only asked for one-line descriptions,
+ * which are read back from its answer and put behind the rendered entries.
+ */
+
+import * as path from 'path';
+import ignore from 'ignore';
+import { ProjectInfo } from '../analysis/workspaceScanner';
+import { ReadmeDocument } from './readmeDocument';
+
+export interface StructureTreeOptions {
+    // Folder levels below the project root that are expanded
+    maxDepth: number;
+    // Entries listed per folder before the rest is collapsed into "… N more"
+    maxEntries: number;
+    // Extra .gitignore-style patterns left out of the tree
+    ignore: string[];
+}
+
+export interface StructureTreeEntry {
+    // Path relative to the project root with forward slashes ('' for the root)
+    path: string;
+    name: string;
+    isDirectory: boolean;
+    children: StructureTreeEntry[];
+    // Entries of a collapsed folder that are not listed
+    hiddenCount: number;
+}
+
+export const DEFAULT_STRUCTURE_TREE_OPTIONS: StructureTreeOptions = {
+    maxDepth: 3,
+    maxEntries: 12,
+    ignore: []
+};
+
+// Descriptions for well-known entries, used when the model doesn't describe them
+const WELL_KNOWN_DESCRIPTIONS: Record<string, string> = {
+    'src/': 'Source code',
+    'lib/': 'Library code',
+    'app/': 'Application code',
+    'test/': 'Tests',
+    'tests/': 'Tests',
+    '__tests__/': 'Tests',
+    'docs/': 'Documentation',
+    'scripts/': 'Helper scripts',
+    'public/': 'Static assets',
+    'assets/': 'Static assets',
+    'examples/': 'Usage examples',
+    '.github/': 'GitHub workflows and templates',
+    'package.json': 'Dependencies and scripts',
+    'tsconfig.json': 'TypeScript configuration',
+    'Dockerfile': 'Container image',
+    'docker-compose.yml': 'Local services',
+    '.env.example': 'Example environment variables',
+    'README.md': 'Project documentation',
+    'CONTRIBUTING.md': 'Contribution guidelines',
+    'CHANGELOG.md': 'Release notes',
+    'LICENSE': 'License'
+};
+
+// Longest entry a description column is aligned to; longer lines get two spaces
+const MAX_DESCRIPTION_COLUMN = 40;
+
+/**
+ * Build the tree of scanned files, sorted folders first, limited to the configured depth
+ */
+export function buildStructureTree(projectInfo: ProjectInfo, options: StructureTreeOptions = DEFAULT_STRUCTURE_TREE_OPTIONS): StructureTreeEntry {
+    const ig = ignore().add(options.ignore);
+    const root: StructureTreeEntry = {
+        path: '',
+        name: path.basename(projectInfo.rootPath) || projectInfo.name,
+        isDirectory: true,
+        children: [],
+        hiddenCount: 0
+    };
+
+    const directories = new Map<string, StructureTreeEntry>([['', root]]);
+    const getDirectory = (relativePath: string): StructureTreeEntry => {
+        let entry = directories.get(relativePath);
+        if (!entry) {
+            const parent = getDirectory(path.posix.dirname(relativePath) === '.' ? '' : path.posix.dirname(relativePath));
+            entry = { path: relativePath, name: path.posix.basename(relativePath), isDirectory: true, children: [], hiddenCount: 0 };
+            parent.children.push(entry);
+            directories.set(relativePath, entry);
+        }
+        return entry;
+    };
+
+    for (const file of projectInfo.files) {
+        const relativePath = file.relativePath.replace(/\\/g, '/');
+        const segments = relativePath.split('/');
+        if (segments.length > options.maxDepth + 1 || ig.ignores(file.isDirectory ? `${relativePath}/` : relativePath)) {
+            continue;
+        }
+
+        if (file.isDirectory) {
+            getDirectory(relativePath);
+        } else {
+            const parent = getDirectory(segments.length > 1 ? segments.slice(0, -1).join('/') : '');
+            parent.children.push({ path: relativePath, name: file.name, isDirectory: false, children: [], hiddenCount: 0 });
+        }
+    }
+
+    const compare = (a: StructureTreeEntry, b: StructureTreeEntry) => a.isDirectory !== b.isDirectory
+        ? (a.isDirectory ? -1 : 1)
+        : a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+    const sortAndCollapse = (entry: StructureTreeEntry) => {
+        entry.children.sort(compare);
+
+        if (entry.children.length > options.maxEntries) {
+            // One line is kept for the "… N more" marker; well-known entries are listed first
+            const shown = Math.max(options.maxEntries - 1, 1);
+            const kept = [
+                ...entry.children.filter(isWellKnown),
+                ...entry.children.filter(child => !isWellKnown(child))
+            ].slice(0, shown);
+            entry.hiddenCount = entry.children.length - kept.length;
+            entry.children = kept.sort(compare);
+        }
+        entry.children.forEach(sortAndCollapse);
+    };
+    sortAndCollapse(root);
+
+    return root;
+}
+
+/**
+ * Key an entry is described by: its path, with a trailing slash for folders
+ */
+function getEntryKey(entry: StructureTreeEntry): string {
+    return entry.isDirectory ? `${entry.path}/` : entry.path;
+}
+
+function getWellKnownDescription(entry: StructureTreeEntry): string | undefined {
+    return WELL_KNOWN_DESCRIPTIONS[entry.isDirectory ? `${entry.name}/` : entry.name];
+}
+
+function isWellKnown(entry: StructureTreeEntry): boolean {
+    return getWellKnownDescription(entry) !== undefined;
+}
+
+/**
+ * Render the tree as `tree`-style ASCII with aligned "# description" comments.
+ * Descriptions are keyed by path (folders end with "/"); well-known entries
+ * without one get a default description.
+ */
+export function renderStructureTree(root: StructureTreeEntry, descriptions: Map<string, string> = new Map()): string {
+    const lines: Array<{ text: string; description?: string }> = [{ text: `${root.name}/` }];
+
+    const walk = (entry: StructureTreeEntry, prefix: string) => {
+        const count = entry.children.length + (entry.hiddenCount > 0 ? 1 : 0);
+        entry.children.forEach((child, i) => {
+            const isLast = i === count - 1;
+            lines.push({
+                text: `${prefix}${isLast ? '└── ' : '├── '}${child.name}${child.isDirectory ? '/' : ''}`,
+                description: descriptions.get(getEntryKey(child)) || getWellKnownDescription(child)
+            });
+            if (child.isDirectory) {
+                walk(child, prefix + (isLast ? '    ' : '│   '));
+            }
+        });
+        if (entry.hiddenCount > 0) {
+            lines.push({ text: `${prefix}└── … ${entry.hiddenCount} more` });
+        }
+    };
+    walk(root, '');
+
+    const column = Math.min(
+        Math.max(...lines.filter(l => l.description).map(l => l.text.length), 0),
+        MAX_DESCRIPTION_COLUMN
+    ) + 2;
+
+    return lines
+        .map(({ text, description }) => description
+            ? `${text.padEnd(Math.max(column, text.length + 2))}# ${description}`
+            : text)
+        .join('\n');
+}
+
+/**
+ * Read the "# description" comments of a tree written by the model, keyed by path.
+ * Paths are rebuilt from the indentation; a single wrapping entry is the project folder.
+ */
+export function parseStructureDescriptions(tree: string): Map<string, string> {
+    const entries: Array<{ indent: number; name: string; isDirectory: boolean; description?: string }> = [];
+    for (const line of tree.split(/\r?\n/)) {
+        const match = line.match(/^([\s│├└─|`+\-]*)([^\s#]+)\s*(?:#\s*(.*))?$/);
+        if (!match || /^\.{2,}$|^…/.test(match[2])) {
+            continue;
+        }
+        entries.push({
+            indent: match[1].length,
+            name: match[2].replace(/\/$/, ''),
+            isDirectory: match[2].endsWith('/'),
+            description: match[3]?.trim() || undefined
+        });
+    }
+
+    entries.forEach((entry, i) => {
+        if (i + 1 < entries.length && entries[i + 1].indent > entry.indent) {
+            entry.isDirectory = true;
+        }
+    });
+
+    let rest = entries;
+    if (entries.length > 1 && entries.slice(1).every(e => e.indent > entries[0].indent)) {
+        rest = entries.slice(1);
+    }
+
+    const descriptions = new Map<string, string>();
+    const parents: Array<{ indent: number; name: string }> = [];
+    for (const entry of rest) {
+        while (parents.length > 0 && parents[parents.length - 1].indent >= entry.indent) {
+            parents.pop();
+        }
+
+        const relativePath = [...parents.map(p => p.name), entry.name].join('/');
+        if (entry.isDirectory) {
+            parents.push({ indent: entry.indent, name: entry.name });
+        }
+        if (entry.description) {
+            descriptions.set(entry.isDirectory ? `${relativePath}/` : relativePath, entry.description);
+        }
+    }
+    return descriptions;
+}
+
+/**
+ * Put the rendered tree into a Project Structure section, replacing the first code
+ * block (the model's tree) and keeping the descriptions the model gave. Descriptions
+ * of entries the tree doesn't have are dropped; unknown paths fall back to a unique name.
+ */
+export function applyStructureTree(sectionMarkdown: string, root: StructureTreeEntry): string {
+    const fence = /^(```|~~~)[^\n]*\n([\s\S]*?)\n\1[ \t]*$/m;
+    const match = sectionMarkdown.match(fence);
+    const written = match ? parseStructureDescriptions(match[2]) : new Map<string, string>();
+
+    // Entries by key and by name, to place descriptions whose path the model got wrong
+    const byKey = new Map<string, StructureTreeEntry>();
+    const byName = new Map<string, StructureTreeEntry[]>();
+    const collect = (entry: StructureTreeEntry) => {
+        for (const child of entry.children) {
+            byKey.set(getEntryKey(child), child);
+            const name = child.isDirectory ? `${child.name}/` : child.name;
+            byName.set(name, [...(byName.get(name) || []), child]);
+            collect(child);
+        }
+    };
+    collect(root);
+
+    const descriptions = new Map<string, string>();
+    for (const [key, description] of written) {
+        let entry = byKey.get(key);
+        if (!entry) {
+            const name = path.posix.basename(key) + (key.endsWith('/') ? '/' : '');
+            const candidates = byName.get(name) || [];
+            entry = candidates.length === 1 ? candidates[0] : undefined;
+        }
+        if (entry && !descriptions.has(getEntryKey(entry))) {
+            descriptions.set(getEntryKey(entry), description);
+        }
+    }
+
+    const block = '```text\n' + renderStructureTree(root, descriptions) + '\n```';
+    if (match) {
+        return sectionMarkdown.replace(fence, () => block);
+    }
+    return `${sectionMarkdown.trimEnd()}\n\n${block}`;
+}
+
+/**
+ * Put the rendered tree into the Project Structure section of a README (if it has one)
+ */
+export function injectStructureTree(readme: string, root: StructureTreeEntry): string {
+    const document = ReadmeDocument.parse(readme);
+    const section = document.find('structure');
+    if (!section) {
+        return readme;
+    }
+    return document.replace('structure', applyStructureTree(section.raw, root)).toString();
+}
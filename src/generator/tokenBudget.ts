@@ -0,0 +1,261 @@
+/**
+ * Token Budget Manager
+ * Estimates prompt size per segment, knows each model's limits,
+ * and trims or summarizes the lowest-priority segments before sending.
+ */
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export interface ModelLimits {
+    contextWindow: number;
+    // Per-request cap below the context window (e.g. free tier tokens-per-minute)
+    maxRequestTokens?: number;
+}
+
+export interface PromptSegment {
+    id: string;
+    target: 'system' | 'user';
+    content: string;
+    // Higher priority segments are kept longer
+    priority: number;
+    // Required segments are never trimmed
+    required?: boolean;
+    // Cheaper replacement tried before truncating
+    summary?: string;
+    // Custom shrinking that keeps the segment well-formed (e.g. closed code fences)
+    shrink?: (maxTokens: number) => string;
+}
+
+export type SegmentTrim = 'none' | 'summarized' | 'truncated' | 'dropped';
+
+export interface SegmentReport {
+    id: string;
+    tokens: number;
+    originalTokens: number;
+    trim: SegmentTrim;
+}
+
+export interface BudgetReport {
+    budgetTokens: number;
+    totalTokens: number;
+    segments: SegmentReport[];
+    fits: boolean;
+}
+
+export interface FittedPrompt {
+    systemPrompt: string;
+    userPrompt: string;
+    report: BudgetReport;
+}
+
+// ============================================================================
+// MODEL LIMITS
+// ============================================================================
+
+// Tokens reserved for the completion (default max_tokens, configurable per provider)
+export const OUTPUT_TOKEN_RESERVE = 4096;
+
+// Safety margin for estimation error and chat formatting overhead
+const SAFETY_MARGIN_TOKENS = 256;
+
+const DEFAULT_MODEL_LIMITS: ModelLimits = { contextWindow: 8192 };
+
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+    // Groq (free tier caps tokens per minute well below the context window)
+    'llama-3.3-70b-versatile': { contextWindow: 131072, maxRequestTokens: 12000 },
+    'llama-3.1-8b-instant': { contextWindow: 131072, maxRequestTokens: 6000 },
+
+    // OpenRouter free models
+    'google/gemini-2.0-flash-exp:free': { contextWindow: 1048576 },
+    'google/gemma-2-9b-it:free': { contextWindow: 8192 },
+    'meta-llama/llama-3.2-3b-instruct:free': { contextWindow: 131072 },
+    'meta-llama/llama-3.1-8b-instruct:free': { contextWindow: 131072 },
+    'mistralai/mistral-7b-instruct:free': { contextWindow: 32768 },
+    'microsoft/phi-3-mini-128k-instruct:free': { contextWindow: 128000 },
+    'openchat/openchat-7b:free': { contextWindow: 8192 },
+    'huggingfaceh4/zephyr-7b-beta:free': { contextWindow: 4096 },
+
+    // HuggingFace Inference API
+    'mistralai/Mistral-7B-Instruct-v0.3': { contextWindow: 32768 },
+    'HuggingFaceH4/zephyr-7b-beta': { contextWindow: 4096 },
+    'microsoft/Phi-3-mini-4k-instruct': { contextWindow: 4096 },
+    'google/gemma-2b-it': { contextWindow: 8192 },
+    'tiiuae/falcon-7b-instruct': { contextWindow: 2048 }
+};
+
+/**
+ * Get the known limits for a model (conservative default for unknown models)
+ */
+export function getModelLimits(model: string): ModelLimits {
+    return MODEL_LIMITS[model] || DEFAULT_MODEL_LIMITS;
+}
+
+/**
+ * Get the total tokens (prompt + completion) a single request to this model may use
+ */
+export function getRequestTokenLimit(model: string): number {
+    const limits = getModelLimits(model);
+    return Math.min(limits.contextWindow, limits.maxRequestTokens ?? limits.contextWindow);
+}
+
+/**
+ * Get the prompt token budget for a model after reserving room for the output
+ */
+export function getPromptBudget(model: string, outputTokens: number = OUTPUT_TOKEN_RESERVE): number {
+    const limit = getRequestTokenLimit(model);
+    // Small models get half their window for the prompt rather than nothing
+    const reserve = Math.min(outputTokens, Math.floor(limit / 2));
+    return Math.max(limit - reserve - SAFETY_MARGIN_TOKENS, 256);
+}
+
+// ============================================================================
+// TOKEN ESTIMATION
+// ============================================================================
+
+/**
+ * Estimate the token count of a text.
+ * Roughly 4 characters per token for ASCII text, ~1 token per CJK/emoji character.
+ */
+export function estimateTokens(text: string): number {
+    if (!text) {
+        return 0;
+    }
+
+    let asciiChars = 0;
+    let wideChars = 0;
+    for (const char of text) {
+        if (char.charCodeAt(0) < 128) {
+            asciiChars++;
+        } else {
+            wideChars++;
+        }
+    }
+
+    return Math.ceil(asciiChars / 4) + wideChars;
+}
+
+/**
+ * Estimate tokens for a list of chat messages (including per-message overhead)
+ */
+export function estimateMessagesTokens(messages: { content: string }[]): number {
+    return messages.reduce((total, m) => total + estimateTokens(m.content) + 4, 0);
+}
+
+/**
+ * Check whether a set of messages fits a model, leaving room for the output
+ */
+export function messagesFitModel(messages: { content: string }[], model: string, outputTokens: number = OUTPUT_TOKEN_RESERVE): boolean {
+    return estimateMessagesTokens(messages) + Math.min(outputTokens, getRequestTokenLimit(model) / 2) <= getRequestTokenLimit(model);
+}
+
+/**
+ * Truncate text at a line boundary so it fits within maxTokens
+ */
+export function truncateToTokens(text: string, maxTokens: number, marker: string = '... (truncated to fit model context)'): string {
+    if (estimateTokens(text) <= maxTokens) {
+        return text;
+    }
+
+    const markerTokens = estimateTokens(marker) + 1;
+    const lines = text.split('\n');
+    const kept: string[] = [];
+    let used = 0;
+
+    for (const line of lines) {
+        const lineTokens = estimateTokens(line) + 1;
+        if (used + lineTokens > maxTokens - markerTokens) {
+            break;
+        }
+        kept.push(line);
+        used += lineTokens;
+    }
+
+    return kept.length > 0 ? `${kept.join('\n')}\n${marker}` : '';
+}
+
+// ============================================================================
+// BUDGET FITTING
+// ============================================================================
+
+/**
+ * Fit prompt segments into a token budget.
+ * Pass 1 swaps in summaries, lowest priority first.
+ * Pass 2 truncates (or drops) the lowest priority segments until the prompt fits.
+ */
+export function fitSegments(segments: PromptSegment[], budgetTokens: number): FittedPrompt {
+    const state = segments.map(segment => ({
+        segment,
+        content: segment.content,
+        originalTokens: estimateTokens(segment.content),
+        tokens: estimateTokens(segment.content),
+        trim: 'none' as SegmentTrim
+    }));
+
+    const total = () => state.reduce((sum, s) => sum + s.tokens, 0);
+    const byPriority = state
+        .filter(s => !s.segment.required)
+        .sort((a, b) => a.segment.priority - b.segment.priority);
+
+    // Pass 1: summaries
+    for (const s of byPriority) {
+        if (total() <= budgetTokens) break;
+        if (s.segment.summary !== undefined && estimateTokens(s.segment.summary) < s.tokens) {
+            s.content = s.segment.summary;
+            s.tokens = estimateTokens(s.content);
+            s.trim = 'summarized';
+        }
+    }
+
+    // Pass 2: truncation
+    for (const s of byPriority) {
+        const overflow = total() - budgetTokens;
+        if (overflow <= 0) break;
+
+        const target = s.tokens - overflow;
+        const shrunk = target > 32
+            ? (s.segment.shrink ? s.segment.shrink(target) : truncateToTokens(s.content, target))
+            : '';
+
+        s.content = shrunk;
+        s.tokens = estimateTokens(shrunk);
+        s.trim = shrunk ? 'truncated' : 'dropped';
+    }
+
+    const join = (target: 'system' | 'user') => state
+        .filter(s => s.segment.target === target && s.content)
+        .map(s => s.content)
+        .join('\n\n');
+
+    const totalTokens = total();
+
+    return {
+        systemPrompt: join('system'),
+        userPrompt: join('user'),
+        report: {
+            budgetTokens,
+            totalTokens,
+            fits: totalTokens <= budgetTokens,
+            segments: state.map(s => ({
+                id: s.segment.id,
+                tokens: s.tokens,
+                originalTokens: s.originalTokens,
+                trim: s.trim
+            }))
+        }
+    };
+}
+
+/**
+ * Describe what was trimmed, for status messages (empty if nothing was trimmed)
+ */
+export function describeBudgetReport(report: BudgetReport): string {
+    const trimmed = report.segments.filter(s => s.trim !== 'none');
+    if (trimmed.length === 0) {
+        return '';
+    }
+
+    const details = trimmed.map(s => `${s.id} ${s.trim}`).join(', ');
+    return `Prompt fitted to ~${report.budgetTokens} tokens (${details})`;
+}
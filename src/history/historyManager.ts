@@ -7,9 +7,12 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as crypto from 'crypto';
+import { ReadmeDocument } from '../generator/readmeDocument';
+import { ProjectSnapshot } from '../analysis/projectSnapshot';
 
 const HISTORY_FOLDER = '.readme-generator';
 const HISTORY_SUBFOLDER = 'history';
+const SNAPSHOT_FILE = 'snapshot.json';
 const MAX_VERSIONS = 20;
 
 export interface ReadmeVersion {
@@ -59,22 +62,10 @@ function generateHash(content: string): string {
 }
 
 /**
- * Get preview text from content
+ * Get preview text from content (first real paragraph, badges and headers skipped)
  */
 function getPreview(content: string, maxLength: number = 100): string {
-    // Get first non-empty line that isn't a badge or header
-    const lines = content.split('\n');
-    for (const line of lines) {
-        const trimmed = line.trim();
-        if (trimmed && 
-            !trimmed.startsWith('#') && 
-            !trimmed.startsWith('![') &&
-            !trimmed.startsWith('[![') &&
-            trimmed.length > 10) {
-            return trimmed.substring(0, maxLength) + (trimmed.length > maxLength ? '...' : '');
-        }
-    }
-    return content.substring(0, maxLength) + '...';
+    return ReadmeDocument.parse(content).getSummary(maxLength);
 }
 
 /**
@@ -224,3 +215,26 @@ export async function hasHistory(workspacePath: string): Promise<boolean> {
     const versions = await getVersions(workspacePath);
     return versions.length > 0;
 }
+
+/**
+ * Save the project snapshot the current README was written from
+ */
+export async function saveProjectSnapshot(workspacePath: string, snapshot: ProjectSnapshot): Promise<void> {
+    await ensureHistoryDir(workspacePath);
+    const snapshotPath = path.join(workspacePath, HISTORY_FOLDER, SNAPSHOT_FILE);
+    await fs.promises.writeFile(snapshotPath, JSON.stringify(snapshot, null, 2), 'utf-8');
+}
+
+/**
+ * Get the saved project snapshot (null if the README was never saved by the extension)
+ */
+export async function getProjectSnapshot(workspacePath: string): Promise<ProjectSnapshot | null> {
+    const snapshotPath = path.join(workspacePath, HISTORY_FOLDER, SNAPSHOT_FILE);
+    
+    try {
+        const snapshot = JSON.parse(await fs.promises.readFile(snapshotPath, 'utf-8'));
+        return snapshot && Array.isArray(snapshot.files) ? snapshot as ProjectSnapshot : null;
+    } catch (e) {
+        return null;
+    }
+}
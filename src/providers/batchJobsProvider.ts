@@ -0,0 +1,64 @@
+/**
+ * Batch Jobs View
+ * Lists the jobs of the batch queue with their progress in the sidebar.
+ * Finished jobs open the review screen.
+ */
+
+import * as vscode from 'vscode';
+import { BatchQueue, BatchJob } from '../generator/batchQueue';
+
+// Icon per job status; review decisions replace the icon of finished jobs
+const STATUS_ICONS: Record<BatchJob['status'], string> = {
+    queued: 'clock',
+    scanning: 'loading~spin',
+    generating: 'loading~spin',
+    waiting: 'watch',
+    done: 'pass',
+    failed: 'error',
+    cancelled: 'circle-slash'
+};
+
+const REVIEW_ICONS: Record<NonNullable<BatchJob['review']>, string> = {
+    pending: 'eye',
+    accepted: 'check',
+    rejected: 'close',
+    written: 'check-all'
+};
+
+export class BatchJobsProvider implements vscode.TreeDataProvider<BatchJob>, vscode.Disposable {
+    public static readonly viewType = 'ai-readme.batchView';
+
+    private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private _queueListener: vscode.Disposable;
+
+    constructor(private readonly _queue: BatchQueue) {
+        this._queueListener = _queue.onDidChange(() => this._onDidChangeTreeData.fire());
+    }
+
+    public getChildren(element?: BatchJob): BatchJob[] {
+        return element ? [] : [...this._queue.jobs];
+    }
+
+    public getTreeItem(job: BatchJob): vscode.TreeItem {
+        const item = new vscode.TreeItem(job.name, vscode.TreeItemCollapsibleState.None);
+        const folder = vscode.workspace.asRelativePath(job.folderPath);
+        item.id = job.folderPath;
+        item.description = [folder !== job.name ? folder : undefined, job.review === 'pending' || !job.review ? job.message : job.review]
+            .filter(Boolean)
+            .join(' · ');
+        item.tooltip = `${job.folderPath}\n${job.message || job.status}${job.attempts > 1 ? `\nAttempt ${job.attempts}` : ''}`;
+        item.iconPath = new vscode.ThemeIcon(job.review ? REVIEW_ICONS[job.review] : STATUS_ICONS[job.status]);
+        item.contextValue = `batchJob.${job.status}`;
+        if (job.status === 'done') {
+            item.command = { command: 'ai-readme.reviewBatch', title: 'Review', arguments: [job.folderPath] };
+        }
+        return item;
+    }
+
+    public dispose(): void {
+        this._queueListener.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+}
@@ -0,0 +1,386 @@
+/**
+ * Batch Review Panel
+ * Shows the READMEs generated by the batch queue one by one, so each can be accepted
+ * or rejected before anything is written. Accepted READMEs are written together.
+ */
+
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { marked } from 'marked';
+import { BatchQueue, BatchJob } from '../generator/batchQueue';
+import { createProjectSnapshot } from '../analysis/projectSnapshot';
+import { saveProjectSnapshot } from '../history/historyManager';
+import { saveReadme, showDiff } from '../utils/diffHelper';
+
+export class BatchReviewPanel implements vscode.Disposable {
+    public static readonly viewType = 'ai-readme.batchReview';
+
+    private _panel: vscode.WebviewPanel | undefined;
+    private _selected: string | undefined;
+    private _queueListener: vscode.Disposable;
+
+    constructor(private readonly _queue: BatchQueue) {
+        this._queueListener = _queue.onDidChange(() => this.postState());
+    }
+
+    /**
+     * Open the review screen, optionally on one job
+     */
+    public show(folderPath?: string): void {
+        if (folderPath) {
+            this._selected = folderPath;
+        }
+
+        if (this._panel) {
+            this._panel.reveal();
+            this.postState();
+            return;
+        }
+
+        this._panel = vscode.window.createWebviewPanel(
+            BatchReviewPanel.viewType,
+            'Review Batch READMEs',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this._panel.webview.html = this.getHtmlContent(this._panel.webview);
+        this._panel.webview.onDidReceiveMessage(message => this.handleMessage(message));
+        this._panel.onDidDispose(() => {
+            this._panel = undefined;
+        });
+    }
+
+    /**
+     * Jobs that have a README to review
+     */
+    private getReviewJobs(): BatchJob[] {
+        return this._queue.jobs.filter(j => j.status === 'done' && j.content !== undefined);
+    }
+
+    private async handleMessage(message: { type: string; folderPath?: string }): Promise<void> {
+        const job = this._queue.jobs.find(j => j.folderPath === message.folderPath);
+
+        switch (message.type) {
+            case 'ready':
+                this.postState();
+                break;
+            case 'select':
+                this._selected = message.folderPath;
+                this.postState();
+                break;
+            case 'accept':
+            case 'reject':
+                if (job && job.review !== 'written') {
+                    this._queue.setReview(job.folderPath, message.type === 'accept' ? 'accepted' : 'rejected');
+                    // Move on to the next README that still needs a decision
+                    this._selected = this.getReviewJobs().find(j => j.review === 'pending')?.folderPath || job.folderPath;
+                    this.postState();
+                }
+                break;
+            case 'acceptAll':
+                for (const pending of this.getReviewJobs().filter(j => j.review === 'pending')) {
+                    this._queue.setReview(pending.folderPath, 'accepted');
+                }
+                break;
+            case 'diff':
+                if (job?.content !== undefined) {
+                    await showDiff(job.folderPath, job.content, job.projectInfo?.existingReadmeContent);
+                }
+                break;
+            case 'writeAccepted':
+                await this.writeAccepted();
+                break;
+        }
+    }
+
+    /**
+     * Write every accepted README and remember what it was generated from
+     */
+    private async writeAccepted(): Promise<void> {
+        const accepted = this.getReviewJobs().filter(j => j.review === 'accepted');
+        if (accepted.length === 0) {
+            vscode.window.showWarningMessage('No README is accepted yet.');
+            return;
+        }
+
+        const failed: string[] = [];
+        for (const job of accepted) {
+            if (!await saveReadme(job.folderPath, job.content!)) {
+                failed.push(job.name);
+                continue;
+            }
+            // Remember what the README was written from, for "Update Existing README"
+            if (job.projectInfo && job.detection) {
+                await saveProjectSnapshot(job.folderPath, createProjectSnapshot(job.projectInfo, job.detection));
+            }
+            this._queue.setReview(job.folderPath, 'written');
+        }
+
+        if (failed.length > 0) {
+            vscode.window.showErrorMessage(`Failed to write README.md for ${failed.join(', ')}`);
+        }
+        const written = accepted.length - failed.length;
+        if (written > 0) {
+            vscode.window.showInformationMessage(`✅ Wrote ${written} README${written === 1 ? '' : 's'}.`);
+        }
+    }
+
+    /**
+     * Send the jobs and the rendered README of the selected job to the webview
+     */
+    private postState(): void {
+        if (!this._panel) {
+            return;
+        }
+
+        const jobs = this.getReviewJobs();
+        const selected = jobs.find(j => j.folderPath === this._selected) || jobs.find(j => j.review === 'pending') || jobs[0];
+        this._selected = selected?.folderPath;
+
+        this._panel.webview.postMessage({
+            type: 'state',
+            data: {
+                jobs: jobs.map(j => ({
+                    folderPath: j.folderPath,
+                    name: j.name,
+                    folder: vscode.workspace.asRelativePath(j.folderPath),
+                    review: j.review,
+                    replaces: !!j.projectInfo?.hasReadme
+                })),
+                running: this._queue.isRunning,
+                remaining: this._queue.jobs.filter(j => ['queued', 'scanning', 'generating', 'waiting'].includes(j.status)).length,
+                selected: selected?.folderPath,
+                preview: selected?.content !== undefined ? marked.parse(selected.content, { async: false }) as string : ''
+            }
+        });
+    }
+
+    private getHtmlContent(webview: vscode.Webview): string {
+        const nonce = crypto.randomBytes(16).toString('base64');
+        // The preview is generated Markdown rendered to HTML: only this page's script may run
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Review Batch READMEs</title>
+    <style>
+        * {
+            box-sizing: border-box;
+        }
+
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+            margin: 0;
+            display: flex;
+            height: 100vh;
+        }
+
+        .job-list {
+            width: 260px;
+            border-right: 1px solid var(--vscode-panel-border);
+            display: flex;
+            flex-direction: column;
+        }
+
+        .jobs {
+            flex: 1;
+            overflow-y: auto;
+        }
+
+        .job {
+            padding: 8px 12px;
+            cursor: pointer;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .job:hover {
+            background: var(--vscode-list-hoverBackground);
+        }
+
+        .job.selected {
+            background: var(--vscode-list-activeSelectionBackground);
+            color: var(--vscode-list-activeSelectionForeground);
+        }
+
+        .job-folder {
+            font-size: 11px;
+            opacity: 0.75;
+        }
+
+        .review {
+            font-size: 11px;
+            float: right;
+        }
+
+        .list-actions {
+            padding: 8px 12px;
+            display: flex;
+            flex-direction: column;
+            gap: 6px;
+            border-top: 1px solid var(--vscode-panel-border);
+        }
+
+        .status {
+            font-size: 11px;
+            opacity: 0.75;
+        }
+
+        .detail {
+            flex: 1;
+            display: flex;
+            flex-direction: column;
+            min-width: 0;
+        }
+
+        .toolbar {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 8px 16px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .toolbar .title {
+            flex: 1;
+            font-weight: 600;
+        }
+
+        .preview {
+            flex: 1;
+            overflow-y: auto;
+            padding: 0 24px 24px;
+        }
+
+        .preview img {
+            max-width: 100%;
+        }
+
+        .preview pre {
+            background: var(--vscode-textCodeBlock-background);
+            padding: 8px;
+            overflow-x: auto;
+        }
+
+        button {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 6px 12px;
+            border-radius: 2px;
+            cursor: pointer;
+        }
+
+        button.secondary {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+
+        button:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+
+        .empty {
+            padding: 24px;
+            opacity: 0.75;
+        }
+    </style>
+</head>
+<body>
+    <div class="job-list">
+        <div class="jobs" id="jobs"></div>
+        <div class="list-actions">
+            <div class="status" id="status"></div>
+            <button class="secondary" id="accept-all-btn">Accept All Pending</button>
+            <button id="write-btn">Write Accepted</button>
+        </div>
+    </div>
+    <div class="detail">
+        <div class="toolbar" id="toolbar">
+            <span class="title" id="title"></span>
+            <button class="secondary" id="diff-btn">Show Diff</button>
+            <button class="secondary" id="reject-btn">Reject</button>
+            <button id="accept-btn">Accept</button>
+        </div>
+        <div class="preview" id="preview"></div>
+    </div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const REVIEW_LABELS = { pending: '● Pending', accepted: '✓ Accepted', rejected: '✕ Rejected', written: '✓ Written' };
+        let state = { jobs: [], selected: undefined };
+
+        function escapeHtml(text) {
+            const div = document.createElement('div');
+            div.textContent = text;
+            return div.innerHTML;
+        }
+
+        function post(type) {
+            vscode.postMessage({ type, folderPath: state.selected });
+        }
+
+        function render() {
+            const jobs = document.getElementById('jobs');
+            jobs.innerHTML = state.jobs.length > 0
+                ? state.jobs.map((job, index) => \`
+                    <div class="job \${job.folderPath === state.selected ? 'selected' : ''}" data-index="\${index}">
+                        <span class="review">\${REVIEW_LABELS[job.review] || ''}</span>
+                        <div>\${escapeHtml(job.name)}</div>
+                        <div class="job-folder">\${escapeHtml(job.folder)}\${job.replaces ? ' · replaces README.md' : ''}</div>
+                    </div>\`).join('')
+                : '<div class="empty">No README to review yet.</div>';
+            jobs.querySelectorAll('.job').forEach(element => {
+                element.addEventListener('click', () => {
+                    vscode.postMessage({ type: 'select', folderPath: state.jobs[Number(element.dataset.index)].folderPath });
+                });
+            });
+
+            const accepted = state.jobs.filter(j => j.review === 'accepted').length;
+            const pending = state.jobs.filter(j => j.review === 'pending').length;
+            document.getElementById('status').textContent = state.running
+                ? \`Generating... \${state.remaining} job\${state.remaining === 1 ? '' : 's'} left\`
+                : \`\${pending} pending, \${accepted} accepted\`;
+            document.getElementById('write-btn').textContent = \`Write Accepted (\${accepted})\`;
+            document.getElementById('write-btn').disabled = accepted === 0;
+            document.getElementById('accept-all-btn').disabled = pending === 0;
+
+            const job = state.jobs.find(j => j.folderPath === state.selected);
+            document.getElementById('toolbar').style.display = job ? 'flex' : 'none';
+            if (job) {
+                document.getElementById('title').textContent = \`\${job.name} — \${job.folder}/README.md\`;
+                document.getElementById('diff-btn').textContent = job.replaces ? 'Show Diff' : 'Show as New File';
+                document.getElementById('accept-btn').disabled = job.review === 'accepted' || job.review === 'written';
+                document.getElementById('reject-btn').disabled = job.review === 'rejected' || job.review === 'written';
+            }
+            document.getElementById('preview').innerHTML = state.preview || '';
+        }
+
+        document.getElementById('accept-btn').addEventListener('click', () => post('accept'));
+        document.getElementById('reject-btn').addEventListener('click', () => post('reject'));
+        document.getElementById('diff-btn').addEventListener('click', () => post('diff'));
+        document.getElementById('accept-all-btn').addEventListener('click', () => post('acceptAll'));
+        document.getElementById('write-btn').addEventListener('click', () => post('writeAccepted'));
+
+        window.addEventListener('message', event => {
+            if (event.data.type === 'state') {
+                state = event.data.data;
+                render();
+            }
+        });
+
+        vscode.postMessage({ type: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+
+    public dispose(): void {
+        this._queueListener.dispose();
+        this._panel?.dispose();
+    }
+}
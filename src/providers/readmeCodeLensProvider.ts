@@ -0,0 +1,374 @@
+/**
+ * README CodeLens Provider
+ * Puts "Regenerate", "Refine…", "Translate" and "History" actions above every
+ * ## heading of an open README.md. Results are applied as a WorkspaceEdit, so
+ * the editor's own undo reverts them.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { scanWorkspace } from '../analysis/workspaceScanner';
+import { detectAll } from '../analysis/languageDetector';
+import { detectProjectType } from '../analysis/projectTypeDetector';
+import { regenerateSection, refineReadmeSection } from '../generator/readmeGenerator';
+import { ReadmeDocument, ReadmeDocumentSection, withSectionHeading } from '../generator/readmeDocument';
+import { extractProtectedBlocks, restoreProtectedBlocks } from '../generator/protectedBlocks';
+import { saveVersion, getVersions, getVersionContent } from '../history/historyManager';
+
+// Languages offered by "Translate" (same as the generator's language options)
+const TRANSLATION_LANGUAGES = [
+    'English',
+    'Simple English',
+    'Spanish',
+    'French',
+    'German',
+    'Chinese (Simplified)',
+    'Japanese',
+    'Hindi'
+];
+
+interface SectionLocation {
+    section: ReadmeDocumentSection;
+    // Offset of the section's first character in the document text
+    start: number;
+    // Offset just after the section's content (trailing blank lines excluded)
+    end: number;
+}
+
+export class ReadmeCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+    private _configListener: vscode.Disposable;
+
+    constructor() {
+        this._configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('ai-readme.codeLens.enabled')) {
+                this._onDidChangeCodeLenses.fire();
+            }
+        });
+    }
+
+    public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (!isReadme(document) || !vscode.workspace.getConfiguration('ai-readme').get<boolean>('codeLens.enabled', true)) {
+            return [];
+        }
+
+        const lenses: vscode.CodeLens[] = [];
+        for (const { section, start } of locateSections(document.getText())) {
+            if (section.level !== 2) {
+                continue;
+            }
+
+            const range = document.lineAt(document.positionAt(start).line).range;
+            const args = [document.uri, section.id];
+            lenses.push(
+                new vscode.CodeLens(range, { title: '$(sync) Regenerate', command: 'ai-readme.regenerateSectionInEditor', arguments: args }),
+                new vscode.CodeLens(range, { title: '$(edit) Refine…', command: 'ai-readme.refineSectionInEditor', arguments: args }),
+                new vscode.CodeLens(range, { title: '$(globe) Translate', command: 'ai-readme.translateSectionInEditor', arguments: args }),
+                new vscode.CodeLens(range, { title: '$(history) History', command: 'ai-readme.showSectionHistory', arguments: args })
+            );
+        }
+        return lenses;
+    }
+
+    /**
+     * Regenerate one section in place
+     */
+    public async regenerate(uri?: vscode.Uri, sectionId?: string): Promise<void> {
+        const target = await resolveTarget(uri, sectionId);
+        if (!target) {
+            return;
+        }
+        const { document, section } = target;
+        const name = section.heading || section.section.name;
+        const root = path.dirname(document.uri.fsPath);
+
+        await runWithProgress(`Regenerating "${name}"`, async (signal, onStatus) => {
+            const projectInfo = await scanWorkspace(root);
+            if (!projectInfo) {
+                throw new Error('Could not scan the project folder.');
+            }
+            const detection = detectAll(projectInfo);
+            const projectType = detectProjectType(projectInfo, detection);
+            const currentContent = document.getText();
+
+            const content = await new Promise<string | undefined>((resolve, reject) => {
+                regenerateSection(
+                    section.section,
+                    projectInfo,
+                    detection,
+                    projectType,
+                    currentContent,
+                    undefined,
+                    () => { /* applied when complete */ },
+                    resolve,
+                    reject,
+                    signal,
+                    onStatus
+                ).then(() => resolve(undefined), reject);
+            });
+
+            if (content !== undefined) {
+                await applySectionContent(document, section, content);
+            }
+        });
+    }
+
+    /**
+     * Refine one section with a natural language instruction
+     */
+    public async refine(uri?: vscode.Uri, sectionId?: string): Promise<void> {
+        const target = await resolveTarget(uri, sectionId);
+        if (!target) {
+            return;
+        }
+        const name = target.section.heading || target.section.section.name;
+
+        const instruction = await vscode.window.showInputBox({
+            title: `Refine "${name}"`,
+            prompt: 'How should this section change?',
+            placeHolder: 'e.g. make it shorter, add a Docker example, use a table',
+            ignoreFocusOut: true
+        });
+        if (!instruction?.trim()) {
+            return;
+        }
+
+        await this.refineSection(target.document, target.section, instruction.trim(), `Refining "${name}"`);
+    }
+
+    /**
+     * Translate one section into another language
+     */
+    public async translate(uri?: vscode.Uri, sectionId?: string): Promise<void> {
+        const target = await resolveTarget(uri, sectionId);
+        if (!target) {
+            return;
+        }
+        const name = target.section.heading || target.section.section.name;
+
+        const language = await vscode.window.showQuickPick(TRANSLATION_LANGUAGES, {
+            title: `Translate "${name}"`,
+            placeHolder: 'Language to translate the section into'
+        });
+        if (!language) {
+            return;
+        }
+
+        await this.refineSection(
+            target.document,
+            target.section,
+            `Translate it (header included) into ${language}. Keep emojis, code blocks, commands, links, badges and the Markdown structure exactly as they are.`,
+            `Translating "${name}" into ${language}`
+        );
+    }
+
+    /**
+     * Show the saved versions of one section and compare or restore them
+     */
+    public async showHistory(uri?: vscode.Uri, sectionId?: string): Promise<void> {
+        const target = await resolveTarget(uri, sectionId);
+        if (!target) {
+            return;
+        }
+        const { document, section } = target;
+        const name = section.heading || section.section.name;
+        const root = path.dirname(document.uri.fsPath);
+        const current = section.raw.trim();
+
+        // Distinct earlier versions of the section, newest first
+        const items: Array<vscode.QuickPickItem & { content: string }> = [];
+        for (const version of await getVersions(root)) {
+            const content = await getVersionContent(root, version.id);
+            const previous = content ? findMatchingSection(ReadmeDocument.parse(content), section) : undefined;
+            const raw = previous?.raw.trim();
+            if (!raw || raw === current || items.some(item => item.content === raw)) {
+                continue;
+            }
+
+            items.push({
+                label: version.date,
+                description: `${raw.split('\n').length} lines`,
+                detail: ReadmeDocument.parse(raw).getSummary(100) || undefined,
+                content: raw
+            });
+        }
+
+        if (items.length === 0) {
+            vscode.window.showInformationMessage(`No earlier versions of "${name}" in the README history.`);
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: `History of "${name}"`,
+            placeHolder: 'Pick a version to compare with the current section',
+            matchOnDetail: true
+        });
+        if (!picked) {
+            return;
+        }
+
+        const [left, right] = await Promise.all([
+            vscode.workspace.openTextDocument({ content: picked.content, language: 'markdown' }),
+            vscode.workspace.openTextDocument({ content: current, language: 'markdown' })
+        ]);
+        await vscode.commands.executeCommand('vscode.diff', left.uri, right.uri, `${name}: ${picked.label} ↔ Current`);
+
+        const action = await vscode.window.showInformationMessage(`Restore "${name}" from ${picked.label}?`, 'Restore');
+        if (action === 'Restore') {
+            await applySectionContent(document, section, picked.content);
+        }
+    }
+
+    /**
+     * Run a refinement scoped to one section and apply the result
+     */
+    private async refineSection(
+        document: vscode.TextDocument,
+        section: ReadmeDocumentSection,
+        instruction: string,
+        title: string
+    ): Promise<void> {
+        await runWithProgress(title, async (signal, onStatus) => {
+            const content = await new Promise<string | undefined>((resolve, reject) => {
+                refineReadmeSection(
+                    document.getText(),
+                    section,
+                    instruction,
+                    resolve,
+                    reject,
+                    signal,
+                    onStatus
+                ).then(() => resolve(undefined), reject);
+            });
+
+            if (content !== undefined) {
+                await applySectionContent(document, section, content);
+            }
+        });
+    }
+
+    public dispose(): void {
+        this._configListener.dispose();
+        this._onDidChangeCodeLenses.dispose();
+    }
+}
+
+/**
+ * Check whether a document is a README.md on disk
+ */
+function isReadme(document: vscode.TextDocument): boolean {
+    return document.uri.scheme === 'file' && path.basename(document.uri.fsPath).toLowerCase() === 'readme.md';
+}
+
+/**
+ * Sections of a README with their offsets in the text
+ */
+function locateSections(text: string): SectionLocation[] {
+    const locations: SectionLocation[] = [];
+    let offset = 0;
+    for (const section of ReadmeDocument.parse(text).sections) {
+        locations.push({ section, start: offset, end: offset + section.raw.trimEnd().length });
+        offset += section.raw.length;
+    }
+    return locations;
+}
+
+/**
+ * Find the same section in another version of the README: by id, then by header
+ */
+function findMatchingSection(document: ReadmeDocument, section: ReadmeDocumentSection): ReadmeDocumentSection | undefined {
+    return document.find(section.id) || document.sections.find(s => s.heading === section.heading);
+}
+
+/**
+ * Get the README and section a command is for. Without arguments (command palette),
+ * the section under the cursor in the active README is used.
+ */
+async function resolveTarget(uri?: vscode.Uri, sectionId?: string): Promise<{ document: vscode.TextDocument; section: ReadmeDocumentSection } | undefined> {
+    const editor = vscode.window.activeTextEditor;
+    const document = uri instanceof vscode.Uri
+        ? await vscode.workspace.openTextDocument(uri)
+        : editor?.document;
+
+    if (!document || !isReadme(document)) {
+        vscode.window.showInformationMessage('Open a README.md to act on one of its sections.');
+        return undefined;
+    }
+
+    const locations = locateSections(document.getText());
+    let location = typeof sectionId === 'string'
+        ? locations.find(l => l.section.id === sectionId)
+        : undefined;
+
+    if (!location && editor?.document === document) {
+        const cursor = document.offsetAt(editor.selection.active);
+        location = locations.filter(l => l.start <= cursor).pop();
+    }
+
+    if (!location) {
+        vscode.window.showWarningMessage('That section is no longer in the README.');
+        return undefined;
+    }
+    return { document, section: location.section };
+}
+
+/**
+ * Run a generation with a cancellable progress notification
+ */
+async function runWithProgress(
+    title: string,
+    task: (signal: AbortSignal, onStatus: (status: string) => void) => Promise<void>
+): Promise<void> {
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+        async (progress, token) => {
+            const abortController = new AbortController();
+            token.onCancellationRequested(() => abortController.abort());
+
+            try {
+                await task(abortController.signal, (status) => progress.report({ message: status }));
+            } catch (error) {
+                if (!abortController.signal.aborted) {
+                    vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+                }
+            }
+        }
+    );
+}
+
+/**
+ * Replace a section in the editor with new content as a single undoable edit.
+ * The section is looked up again in the current text, so edits made while
+ * generating are kept. Protected blocks of the section are put back.
+ */
+async function applySectionContent(document: vscode.TextDocument, section: ReadmeDocumentSection, content: string): Promise<void> {
+    const text = document.getText();
+    const location = locateSections(text).find(l => l.section.id === section.id)
+        || locateSections(text).find(l => l.section.heading === section.heading);
+
+    if (!location) {
+        throw new Error(`The "${section.heading || section.section.name}" section is no longer in the README.`);
+    }
+
+    const original = text.substring(location.start, location.end);
+    const { content: restored, warnings } = restoreProtectedBlocks(
+        withSectionHeading(location.section, content),
+        extractProtectedBlocks(original)
+    );
+    for (const warning of warnings) {
+        vscode.window.showWarningMessage(`🔒 ${warning}`);
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+        document.uri,
+        new vscode.Range(document.positionAt(location.start), document.positionAt(location.end)),
+        restored.trimEnd()
+    );
+    await vscode.workspace.applyEdit(edit);
+
+    // Keep the result in the README history, like generations from the generator panel
+    await saveVersion(path.dirname(document.uri.fsPath), document.getText());
+}
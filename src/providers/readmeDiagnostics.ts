@@ -0,0 +1,283 @@
+/**
+ * README Diagnostics
+ * Lints README.md files in the background against the latest workspace scan
+ * and offers quick fixes that remove the stale reference or regenerate its section.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ProjectInfo, scanWorkspace } from '../analysis/workspaceScanner';
+import { detectAll, DetectionResult } from '../analysis/languageDetector';
+import { lintReadme, ReadmeIssue, ReadmeRange } from '../analysis/readmeLinter';
+
+const DIAGNOSTIC_SOURCE = 'AI README';
+const LINT_DELAY_MS = 500;
+// Wait for a burst of file events (checkout, install, build) to settle before rescanning
+const RESCAN_DELAY_MS = 1000;
+
+// Manifests the scan reads scripts, dependencies and license from, at any depth
+const MANIFEST_GLOB = '**/{package.json,pyproject.toml,requirements.txt,Cargo.toml,go.mod,pom.xml,build.gradle,build.gradle.kts,composer.json,Gemfile,pubspec.yaml,Package.swift}';
+
+// Folders whose changes never affect the scan
+const IGNORED_FOLDERS = ['node_modules', '.git', '.readme-generator', 'out', 'dist', 'build'];
+
+interface ProjectScan {
+    projectInfo: ProjectInfo;
+    detection: DetectionResult;
+}
+
+export class ReadmeDiagnosticsProvider implements vscode.CodeActionProvider, vscode.Disposable {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private _collection = vscode.languages.createDiagnosticCollection('ai-readme');
+    private _disposables: vscode.Disposable[] = [];
+
+    // Issues behind the published diagnostics, per README uri
+    private _issues = new Map<string, ReadmeIssue[]>();
+    // Scans per project folder, dropped when project files change
+    private _scans = new Map<string, Promise<ProjectScan | null>>();
+    // Watchers of the top-level files and folders of each scanned project
+    private _rootWatchers = new Map<string, vscode.Disposable>();
+    private _timers = new Map<string, NodeJS.Timeout>();
+    // Files changed since the last rescan, handled together after RESCAN_DELAY_MS
+    private _changedFiles = new Set<string>();
+    private _rescanTimer: NodeJS.Timeout | undefined;
+
+    constructor() {
+        const manifestWatcher = vscode.workspace.createFileSystemWatcher(MANIFEST_GLOB);
+
+        this._disposables.push(
+            this._collection,
+            manifestWatcher,
+            vscode.workspace.onDidOpenTextDocument(document => this.scheduleLint(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.scheduleLint(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.clear(document.uri)),
+            // Manifest edits: rescan and lint again
+            manifestWatcher.onDidChange(uri => this.onProjectFileChanged(uri)),
+            manifestWatcher.onDidCreate(uri => this.onProjectFileChanged(uri)),
+            manifestWatcher.onDidDelete(uri => this.onProjectFileChanged(uri)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('ai-readme.diagnostics.enabled')) {
+                    this.lintOpenReadmes();
+                }
+            })
+        );
+
+        this.lintOpenReadmes();
+    }
+
+    /**
+     * Offer quick fixes for our diagnostics in the requested range
+     */
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const issues = this._issues.get(document.uri.toString()) || [];
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+                continue;
+            }
+
+            const issue = issues.find(i => i.code === diagnostic.code && toRange(i.range).isEqual(diagnostic.range));
+            if (!issue) {
+                continue;
+            }
+
+            if (issue.fix) {
+                const action = new vscode.CodeAction(issue.fix.title, vscode.CodeActionKind.QuickFix);
+                action.edit = new vscode.WorkspaceEdit();
+                action.edit.replace(document.uri, toRange(issue.fix.range), issue.fix.newText);
+                action.diagnostics = [diagnostic];
+                action.isPreferred = true;
+                actions.push(action);
+            }
+
+            if (issue.sectionId) {
+                const action = new vscode.CodeAction(`Regenerate the "${issue.sectionName}" section`, vscode.CodeActionKind.QuickFix);
+                action.command = {
+                    command: 'ai-readme.regenerateSection',
+                    title: action.title,
+                    arguments: [issue.sectionId, document.uri.fsPath]
+                };
+                action.diagnostics = [diagnostic];
+                actions.push(action);
+            }
+        }
+
+        return actions;
+    }
+
+    public dispose(): void {
+        for (const timer of this._timers.values()) {
+            clearTimeout(timer);
+        }
+        clearTimeout(this._rescanTimer);
+        this._rootWatchers.forEach(w => w.dispose());
+        this._disposables.forEach(d => d.dispose());
+    }
+
+    /**
+     * Check whether a document is a README.md on disk
+     */
+    private isReadme(document: vscode.TextDocument): boolean {
+        return document.uri.scheme === 'file' && path.basename(document.uri.fsPath).toLowerCase() === 'readme.md';
+    }
+
+    private isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('ai-readme').get<boolean>('diagnostics.enabled', true);
+    }
+
+    private lintOpenReadmes(): void {
+        for (const document of vscode.workspace.textDocuments) {
+            this.scheduleLint(document);
+        }
+    }
+
+    /**
+     * Lint a README after typing pauses
+     */
+    private scheduleLint(document: vscode.TextDocument): void {
+        if (!this.isReadme(document)) {
+            return;
+        }
+
+        const key = document.uri.toString();
+        clearTimeout(this._timers.get(key));
+        this._timers.set(key, setTimeout(() => {
+            this._timers.delete(key);
+            this.lint(document).catch(error => this.reportLintFailure(document, error));
+        }, LINT_DELAY_MS));
+    }
+
+    private clear(uri: vscode.Uri): void {
+        this._collection.delete(uri);
+        this._issues.delete(uri.toString());
+    }
+
+    /**
+     * Show a lint that failed as a diagnostic on the README instead of leaving stale ones
+     */
+    private reportLintFailure(document: vscode.TextDocument, error: unknown): void {
+        if (document.isClosed) {
+            return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(0, 0, 0, 0),
+            `README could not be checked against the project: ${message}`,
+            vscode.DiagnosticSeverity.Information
+        );
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        this._issues.delete(document.uri.toString());
+        this._collection.set(document.uri, [diagnostic]);
+    }
+
+    /**
+     * Queue a changed project file; the scans it affects are dropped after the changes settle
+     */
+    private onProjectFileChanged(uri: vscode.Uri): void {
+        const segments = vscode.workspace.asRelativePath(uri, false).split(/[\\/]/);
+        if (segments.some(segment => IGNORED_FOLDERS.includes(segment))) {
+            return;
+        }
+        // Editing the README itself is handled by onDidChangeTextDocument
+        if (path.basename(uri.fsPath).toLowerCase() === 'readme.md') {
+            return;
+        }
+
+        this._changedFiles.add(uri.fsPath);
+        clearTimeout(this._rescanTimer);
+        this._rescanTimer = setTimeout(() => this.dropChangedScans(), RESCAN_DELAY_MS);
+    }
+
+    /**
+     * Drop cached scans of the projects the queued files belong to and lint their READMEs again
+     */
+    private dropChangedScans(): void {
+        this._rescanTimer = undefined;
+        const changedFiles = Array.from(this._changedFiles);
+        this._changedFiles.clear();
+
+        let changed = false;
+        for (const root of Array.from(this._scans.keys())) {
+            if (changedFiles.some(file => file.startsWith(root + path.sep))) {
+                this._scans.delete(root);
+                this._rootWatchers.get(root)?.dispose();
+                this._rootWatchers.delete(root);
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            this.lintOpenReadmes();
+        }
+    }
+
+    /**
+     * Watch the top-level files and folders of a scanned project for new and deleted entries
+     */
+    private watchRoot(root: string): void {
+        if (this._rootWatchers.has(root)) {
+            return;
+        }
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(root, '*'), false, true, false);
+        this._rootWatchers.set(root, vscode.Disposable.from(
+            watcher,
+            watcher.onDidCreate(uri => this.onProjectFileChanged(uri)),
+            watcher.onDidDelete(uri => this.onProjectFileChanged(uri))
+        ));
+    }
+
+    /**
+     * Scan the project a README belongs to (cached until its files change)
+     */
+    private getScan(root: string): Promise<ProjectScan | null> {
+        let scan = this._scans.get(root);
+        if (!scan) {
+            scan = scanWorkspace(root).then(projectInfo => projectInfo
+                ? { projectInfo, detection: detectAll(projectInfo) }
+                : null);
+            this._scans.set(root, scan);
+            this.watchRoot(root);
+        }
+        return scan;
+    }
+
+    private async lint(document: vscode.TextDocument): Promise<void> {
+        if (!this.isEnabled() || document.isClosed) {
+            this.clear(document.uri);
+            return;
+        }
+
+        const root = path.dirname(document.uri.fsPath);
+        const scan = await this.getScan(root);
+        if (!scan || document.isClosed) {
+            this.clear(document.uri);
+            return;
+        }
+
+        const issues = lintReadme(
+            document.getText(),
+            scan.projectInfo,
+            scan.detection,
+            (relativePath) => fs.existsSync(path.join(root, relativePath))
+        );
+
+        this._issues.set(document.uri.toString(), issues);
+        this._collection.set(document.uri, issues.map(issue => {
+            const diagnostic = new vscode.Diagnostic(toRange(issue.range), issue.message, vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostic.code = issue.code;
+            return diagnostic;
+        }));
+    }
+}
+
+function toRange(range: ReadmeRange): vscode.Range {
+    return new vscode.Range(range.startLine, range.startColumn, range.endLine, range.endColumn);
+}
@@ -9,15 +9,29 @@ import * as fs from 'fs';
 import { ProjectInfo, scanWorkspace, getProjectSummary } from '../analysis/workspaceScanner';
 import { detectAll, DetectionResult } from '../analysis/languageDetector';
 import { detectProjectType, ProjectTypeResult } from '../analysis/projectTypeDetector';
+import { createProjectSnapshot, findStaleSections } from '../analysis/projectSnapshot';
+import { validateGeneratedContent, buildRepairInstruction, UnverifiedClaim } from '../analysis/contentValidator';
 import { getAllTemplates, getTemplate, ALL_SECTIONS, ReadmeTemplate } from '../templates/templates';
-import { generateReadme, getPromptPreview, GenerationOptions } from '../generator/readmeGenerator';
-import { buildRefinementPrompt } from '../generator/promptBuilder';
-import { ChatMessage, StreamCallback, generateWithStreaming } from '../api/openRouterClient';
-import { generateWithGroq, ChatMessage as GroqChatMessage, StreamCallback as GroqStreamCallback } from '../api/groqClient';
-import { hasApiKey, getApiKey, hasHuggingFaceApiKey, getApiProvider, hasAnyApiKey } from '../utils/secretStorage';
-import { saveVersion, getVersions, getVersionContent, rollbackToVersion, ReadmeVersion } from '../history/historyManager';
+import { generateReadme, regenerateSection, refineReadme, updateReadmeSections, getPromptPreview, GenerationOptions, SectionUpdate } from '../generator/readmeGenerator';
+import { ReadmeDocument, ReadmeDocumentSection, withSectionHeading } from '../generator/readmeDocument';
+import { extractProtectedBlocks, restoreProtectedBlocks } from '../generator/protectedBlocks';
+import { resolveActiveProvider, hasConfiguredProvider, getAllProviders, getProvider } from '../api/providerRegistry';
+import { getProviderSettings, updateProviderSettings, getGenerationParameters, GenerationParameters } from '../api/modelSettings';
+import { getApiProvider, setApiProvider } from '../utils/secretStorage';
+import { saveVersion, getVersions, getVersionContent, rollbackToVersion, saveProjectSnapshot, getProjectSnapshot, ReadmeVersion } from '../history/historyManager';
 import { readmeExists, showDiff, saveReadme, getExistingReadme, promptForExistingReadme, openReadme } from '../utils/diffHelper';
 import { promptAndExport } from '../utils/fileExporter';
+import { generatePackageReadmes } from '../generator/packageReadmes';
+
+// A provider as the model settings in the webview show it
+interface ProviderModelInfo extends GenerationParameters {
+    id: string;
+    displayName: string;
+    configured: boolean;
+    models: string[];
+    // The provider has a models endpoint to refresh the list from
+    canRefresh: boolean;
+}
 
 export class WebviewProvider {
     public static readonly viewType = 'ai-readme.webview';
@@ -31,6 +45,11 @@ export class WebviewProvider {
     private _detection: DetectionResult | null = null;
     private _projectType: ProjectTypeResult | null = null;
     private _generatedContent: string = '';
+    // Claims in the generated README the project scan couldn't verify
+    private _unverifiedClaims: UnverifiedClaim[] = [];
+    
+    // Cancels the generation / refinement in progress
+    private _abortController: AbortController | undefined;
     
     constructor(context: vscode.ExtensionContext) {
         this._context = context;
@@ -81,6 +100,7 @@ export class WebviewProvider {
         this._panel.onDidDispose(
             () => {
                 this._panel = undefined;
+                this._abortController?.abort();
             },
             undefined,
             this._context.subscriptions
@@ -142,7 +162,7 @@ export class WebviewProvider {
         });
         
         // Check API key
-        const hasKey = await hasAnyApiKey();
+        const hasKey = await hasConfiguredProvider();
         
         // Step 4: Loading history
         this._panel.webview.postMessage({
@@ -166,7 +186,8 @@ export class WebviewProvider {
                     name: this._projectInfo.name,
                     path: this._projectInfo.rootPath,
                     hasReadme: this._projectInfo.hasReadme,
-                    totalFiles: this._projectInfo.totalFiles
+                    totalFiles: this._projectInfo.totalFiles,
+                    packageCount: this._projectInfo.monorepo?.packages.length || 0
                 },
                 detection: {
                     languages: this._detection.languages,
@@ -191,11 +212,32 @@ export class WebviewProvider {
                     id: v.id,
                     date: v.date,
                     preview: v.preview
-                }))
+                })),
+                ...await this.getProviderModelInfo()
             }
         });
     }
     
+    /**
+     * Get providers with their model order and generation parameters for the model picker
+     */
+    private async getProviderModelInfo(): Promise<{ providers: ProviderModelInfo[]; activeProviderId: string }> {
+        const providers = await Promise.all(getAllProviders().map(async (provider): Promise<ProviderModelInfo> => ({
+            id: provider.id,
+            displayName: provider.displayName,
+            configured: await provider.isConfigured(),
+            models: provider.models,
+            canRefresh: !!provider.listModels,
+            ...getGenerationParameters(provider.id)
+        })));
+        
+        const active = await resolveActiveProvider();
+        return {
+            providers,
+            activeProviderId: active ? active.id : await getApiProvider()
+        };
+    }
+    
     /**
      * Handle messages from webview
      */
@@ -205,6 +247,18 @@ export class WebviewProvider {
                 await this.handleGenerate(message.data);
                 break;
             
+            case 'cancel':
+                this._abortController?.abort();
+                break;
+            
+            case 'refreshModels':
+                await this.handleRefreshModels(message.data.providerId);
+                break;
+            
+            case 'saveModelSettings':
+                await this.handleSaveModelSettings(message.data);
+                break;
+            
             case 'previewPrompt':
                 await this.handlePreviewPrompt(message.data);
                 break;
@@ -245,6 +299,14 @@ export class WebviewProvider {
                 await this.handleRefine(message.data.instruction, message.data.currentContent);
                 break;
             
+            case 'repairClaims':
+                await this.handleRepairClaims();
+                break;
+            
+            case 'regenerateSection':
+                await this.handleRegenerateSection(message.data);
+                break;
+            
             case 'saveApiKey':
                 const { setHuggingFaceApiKey } = await import('../utils/secretStorage');
                 await setHuggingFaceApiKey(message.data.apiKey);
@@ -261,8 +323,8 @@ export class WebviewProvider {
             return;
         }
         
-        // Check if API key is set
-        const hasKey = await hasHuggingFaceApiKey();
+        // Check if an AI provider is configured
+        const hasKey = await hasConfiguredProvider();
         if (!hasKey) {
             this._panel.webview.postMessage({
                 type: 'error',
@@ -274,7 +336,9 @@ export class WebviewProvider {
         }
         
         // Clear previous content
+        const previousContent = this._generatedContent;
         this._generatedContent = '';
+        const abortController = this.beginOperation();
         
         // Show generating state
         this._panel.webview.postMessage({
@@ -283,6 +347,7 @@ export class WebviewProvider {
         });
         
         // Generate README with streaming
+        let completed = false;
         await generateReadme(
             this._projectInfo,
             this._detection,
@@ -298,27 +363,17 @@ export class WebviewProvider {
             },
             // onComplete
             async (content) => {
+                completed = true;
                 this._generatedContent = content;
                 this._panel?.webview.postMessage({
                     type: 'generated',
                     data: { content }
                 });
                 
+                await this.checkGeneratedContent(content);
+                
                 // Save to history
-                if (this._projectInfo) {
-                    await saveVersion(this._projectInfo.rootPath, content);
-                    const versions = await getVersions(this._projectInfo.rootPath);
-                    this._panel?.webview.postMessage({
-                        type: 'historyUpdated',
-                        data: {
-                            history: versions.map(v => ({
-                                id: v.id,
-                                date: v.date,
-                                preview: v.preview
-                            }))
-                        }
-                    });
-                }
+                await this.saveToHistory(content);
             },
             // onError
             (error) => {
@@ -326,8 +381,243 @@ export class WebviewProvider {
                     type: 'error',
                     data: { message: error.message }
                 });
+            },
+            abortController.signal,
+            // onStatus
+            (status) => this.postStatus(status),
+            // onSectionProgress
+            (sections, content) => {
+                this._generatedContent = content;
+                this._panel?.webview.postMessage({
+                    type: 'sectionProgress',
+                    data: { sections, content }
+                });
             }
         );
+        
+        this.endOperation(abortController, previousContent);
+        
+        // The root README is done; the packages of a monorepo get theirs in one batch
+        if (completed && options.packageReadmes) {
+            await this.handleGeneratePackageReadmes(options);
+        }
+    }
+    
+    /**
+     * Generate a README for each package of the monorepo, keep each in the package's
+     * history and write them once the user confirms
+     */
+    private async handleGeneratePackageReadmes(options: GenerationOptions): Promise<void> {
+        const rootInfo = this._projectInfo;
+        const monorepo = rootInfo?.monorepo;
+        if (!rootInfo || !monorepo) {
+            return;
+        }
+        
+        const results = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: '📦 Generating package READMEs', cancellable: true },
+            async (progress, token) => {
+                const abortController = new AbortController();
+                token.onCancellationRequested(() => abortController.abort());
+                
+                return generatePackageReadmes(rootInfo, monorepo, options, (workspacePackage, index, total) => {
+                    progress.report({ message: `${workspacePackage.name} (${index + 1}/${total})`, increment: index === 0 ? 0 : 100 / total });
+                }, abortController.signal);
+            }
+        );
+        if (results.length === 0) {
+            return;
+        }
+        
+        for (const result of results) {
+            await saveVersion(result.projectInfo.rootPath, result.content);
+        }
+        
+        // Packages that fell back to the offline template are only written when the user asks for it
+        const generated = results.filter(r => !r.isOffline);
+        const offline = results.length - generated.length;
+        const existing = generated.filter(r => r.projectInfo.hasReadme).length;
+        const errors = Array.from(new Set(results.map(r => r.error).filter(Boolean)));
+        const summary = `Generated READMEs for ${generated.length} of ${monorepo.packages.length} packages`
+            + (offline > 0 ? ` (${offline} fell back to the offline template${errors.length > 0 ? `: ${errors.join('; ')}` : ''})` : '')
+            + (existing > 0 ? `. ${existing} already have a README.md.` : '.');
+        const actions: string[] = [];
+        if (generated.length > 0) {
+            actions.push('Write All');
+        }
+        if (existing > 0 && existing < generated.length) {
+            actions.push('Write New Only');
+        }
+        if (offline > 0) {
+            actions.push('Write All Including Offline');
+        }
+        const action = await vscode.window.showInformationMessage(summary, ...actions);
+        if (!action) {
+            return;
+        }
+        
+        let written = 0;
+        for (const result of action === 'Write All Including Offline' ? results : generated) {
+            if (action === 'Write New Only' && result.projectInfo.hasReadme) {
+                continue;
+            }
+            if (await saveReadme(result.projectInfo.rootPath, result.content)) {
+                await saveProjectSnapshot(result.projectInfo.rootPath, createProjectSnapshot(result.projectInfo, result.detection));
+                written++;
+            }
+        }
+        vscode.window.showInformationMessage(`📦 Wrote ${written} package README${written === 1 ? '' : 's'}.`);
+    }
+    
+    /**
+     * Fetch the provider's current model list from its models endpoint
+     */
+    private async handleRefreshModels(providerId: string): Promise<void> {
+        const provider = getProvider(providerId);
+        if (!this._panel || !provider?.listModels) {
+            return;
+        }
+        
+        try {
+            const models = await provider.listModels();
+            this._panel.webview.postMessage({
+                type: 'modelsUpdated',
+                data: { providerId, models }
+            });
+        } catch (error) {
+            this._panel.webview.postMessage({
+                type: 'error',
+                data: { message: `Could not refresh ${provider.displayName} models: ${error instanceof Error ? error.message : error}` }
+            });
+        }
+    }
+    
+    /**
+     * Save model order and generation parameters, and make the provider the preferred one
+     */
+    private async handleSaveModelSettings(data: {
+        providerId: string;
+        model: string;
+        fallbackModels: string[];
+        temperature: number;
+        maxTokens: number;
+    }): Promise<void> {
+        const provider = getProvider(data.providerId);
+        if (!this._panel || !provider) {
+            return;
+        }
+        
+        await updateProviderSettings(provider.id, {
+            ...getProviderSettings(provider.id),
+            model: data.model || undefined,
+            fallbackModels: data.fallbackModels,
+            temperature: Number.isFinite(data.temperature) ? data.temperature : undefined,
+            maxTokens: Number.isFinite(data.maxTokens) ? data.maxTokens : undefined
+        });
+        await setApiProvider(provider.id);
+        
+        this._panel.webview.postMessage({
+            type: 'providersUpdated',
+            data: await this.getProviderModelInfo()
+        });
+        vscode.window.showInformationMessage(`✅ ${provider.displayName} model settings saved.`);
+    }
+    
+    /**
+     * Save a README version and refresh the history list in the webview
+     */
+    private async saveToHistory(content: string): Promise<void> {
+        if (!this._projectInfo) {
+            return;
+        }
+        
+        await saveVersion(this._projectInfo.rootPath, content);
+        const versions = await getVersions(this._projectInfo.rootPath);
+        this._panel?.webview.postMessage({
+            type: 'historyUpdated',
+            data: {
+                history: versions.map(v => ({
+                    id: v.id,
+                    date: v.date,
+                    preview: v.preview
+                }))
+            }
+        });
+    }
+    
+    /**
+     * Put back protected (readme-gen:keep) blocks of the previous README that an edit dropped
+     */
+    private keepProtectedBlocks(previousContent: string, content: string): string {
+        const { content: restored, warnings } = restoreProtectedBlocks(content, extractProtectedBlocks(previousContent));
+        for (const warning of warnings) {
+            vscode.window.showWarningMessage(`🔒 ${warning}`);
+        }
+        return restored;
+    }
+    
+    /**
+     * Validate generated content against the project scan and show what couldn't be verified
+     */
+    private async checkGeneratedContent(content: string): Promise<void> {
+        const enabled = vscode.workspace.getConfiguration('ai-readme').get<boolean>('validateGeneratedContent', true);
+        this._unverifiedClaims = enabled && this._projectInfo && this._detection
+            ? await validateGeneratedContent(content, this._projectInfo, this._detection)
+            : [];
+        
+        this._panel?.webview.postMessage({
+            type: 'validation',
+            data: { claims: this._unverifiedClaims }
+        });
+    }
+    
+    /**
+     * Fix the unverified claims with a refinement that only touches those references
+     */
+    private async handleRepairClaims(): Promise<void> {
+        if (this._unverifiedClaims.length === 0 || !this._generatedContent) {
+            return;
+        }
+        await this.handleRefine(buildRepairInstruction(this._unverifiedClaims), this._generatedContent);
+    }
+    
+    /**
+     * Show transient progress (e.g. rate limit countdown) in the webview
+     */
+    private postStatus(status: string): void {
+        this._panel?.webview.postMessage({
+            type: 'status',
+            data: { message: status }
+        });
+    }
+    
+    /**
+     * Start a cancellable operation, aborting any operation still running
+     */
+    private beginOperation(): AbortController {
+        this._abortController?.abort();
+        this._abortController = new AbortController();
+        return this._abortController;
+    }
+    
+    /**
+     * Finish a cancellable operation. If it was cancelled, restore the previous
+     * content (history is left untouched) and tell the webview.
+     */
+    private endOperation(abortController: AbortController, previousContent: string): void {
+        // Superseded by a newer operation
+        if (this._abortController !== abortController) {
+            return;
+        }
+        this._abortController = undefined;
+        
+        if (abortController.signal.aborted) {
+            this._generatedContent = previousContent;
+            this._panel?.webview.postMessage({
+                type: 'cancelled',
+                data: { content: previousContent }
+            });
+        }
     }
     
     /**
@@ -344,74 +634,273 @@ export class WebviewProvider {
             data: { message: '✨ Refining README' }
         });
         
-        // Build refinement prompt
-        const { systemPrompt, userPrompt } = buildRefinementPrompt(instruction, currentContent);
-        
-        const messages: ChatMessage[] = [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-        ];
-        
         // Clear previous content
+        const previousContent = this._generatedContent;
         this._generatedContent = '';
+        const abortController = this.beginOperation();
         
-        // Check which API to use
-        const hasGroqKey = await hasHuggingFaceApiKey();
-        const hasOrKey = await hasApiKey();
-        const provider = await getApiProvider();
-        const useGroq = hasGroqKey && (provider === 'huggingface' || !hasOrKey);
-        
-        const callbacks: StreamCallback = {
-            onToken: (token: string) => {
+        await refineReadme(
+            currentContent,
+            instruction,
+            // onToken
+            (token) => {
                 this._generatedContent += token;
                 this._panel?.webview.postMessage({
                     type: 'token',
                     data: { token }
                 });
             },
-            onComplete: async (content: string) => {
-                this._generatedContent = content;
+            // onComplete: only the changed sections came back and were merged into the current README
+            async (merged) => {
+                this._generatedContent = merged;
                 this._panel?.webview.postMessage({
                     type: 'generated',
-                    data: { content }
+                    data: { content: merged }
                 });
                 
+                await this.checkGeneratedContent(merged);
+                
                 // Save to history
-                if (this._projectInfo) {
-                    await saveVersion(this._projectInfo.rootPath, content);
-                    const versions = await getVersions(this._projectInfo.rootPath);
-                    this._panel?.webview.postMessage({
-                        type: 'historyUpdated',
-                        data: {
-                            history: versions.map(v => ({
-                                id: v.id,
-                                date: v.date,
-                                preview: v.preview
-                            }))
-                        }
-                    });
-                }
+                await this.saveToHistory(merged);
             },
-            onError: (error: Error) => {
+            // onError
+            (error) => {
                 this._panel?.webview.postMessage({
                     type: 'error',
                     data: { message: error.message }
                 });
-            }
-        };
+            },
+            abortController.signal,
+            // onStatus
+            (status) => this.postStatus(status)
+        );
         
-        try {
-            if (useGroq) {
-                await generateWithGroq(messages as GroqChatMessage[], callbacks as GroqStreamCallback);
-            } else {
-                await generateWithStreaming(messages, callbacks);
+        this.endOperation(abortController, previousContent);
+    }
+    
+    /**
+     * Regenerate one section of the current README (command palette entry point).
+     * Asks which section to regenerate unless a section id is given.
+     * With a README path (diagnostics quick fix), that file's folder is scanned and
+     * the file on disk is used instead of the preview.
+     */
+    public async regenerateSection(sectionId?: string, readmePath?: string): Promise<void> {
+        await this.createOrShow(readmePath ? path.dirname(readmePath) : this._targetFolder);
+        await this.handleRegenerateSection({ sectionId, fromFile: !!readmePath });
+    }
+    
+    /**
+     * Regenerate a single section and splice it back into the README.
+     * The section is picked by template section id, by its position in the
+     * preview (level 1 = title block, otherwise the index-th ## header), or via quick pick.
+     */
+    private async handleRegenerateSection(target?: { sectionId?: string; level?: number; index?: number; fromFile?: boolean }): Promise<void> {
+        if (!this._panel || !this._projectInfo || !this._detection || !this._projectType) {
+            return;
+        }
+        
+        // Work on the README in the preview, or the README on disk if nothing was generated yet
+        const currentContent = this._generatedContent.trim() && !target?.fromFile
+            ? this._generatedContent
+            : await getExistingReadme(this._projectInfo.rootPath) || '';
+        const sections = ReadmeDocument.parse(currentContent).sections;
+        
+        if (sections.length === 0) {
+            vscode.window.showInformationMessage('No README to update yet. Generate a README first, then regenerate individual sections.');
+            return;
+        }
+        
+        let section: ReadmeDocumentSection | undefined;
+        if (target?.sectionId) {
+            section = sections.find(s => s.id === target.sectionId);
+        } else if (target?.level === 1) {
+            section = sections.find(s => s.level === 1);
+        } else if (target?.index !== undefined) {
+            section = sections.filter(s => s.level === 2)[target.index];
+        }
+        
+        if (!section) {
+            const picked = await vscode.window.showQuickPick(
+                sections.map(s => ({
+                    label: s.heading || s.section.name,
+                    description: s.section.id.startsWith('custom-') ? undefined : s.section.name,
+                    section: s
+                })),
+                {
+                    title: 'Regenerate Section',
+                    placeHolder: 'Choose the section to regenerate (the rest of the README stays as is)'
+                }
+            );
+            if (!picked) {
+                return;
             }
-        } catch (error) {
-            this._panel?.webview.postMessage({
-                type: 'error',
-                data: { message: error instanceof Error ? error.message : String(error) }
-            });
+            section = picked.section;
         }
+        
+        const regenerated = section;
+        const abortController = this.beginOperation();
+        let sectionContent = '';
+        
+        this._panel.webview.postMessage({
+            type: 'generating',
+            data: { message: `🔄 Regenerating "${regenerated.heading || regenerated.section.name}"` }
+        });
+        
+        await regenerateSection(
+            regenerated.section,
+            this._projectInfo,
+            this._detection,
+            this._projectType,
+            currentContent,
+            undefined,
+            // onToken: show the section streaming in place
+            (token) => {
+                sectionContent += token;
+                this._generatedContent = ReadmeDocument.parse(currentContent).replace(regenerated.id, sectionContent).toString();
+                this._panel?.webview.postMessage({
+                    type: 'sectionRegenerating',
+                    data: { content: this._generatedContent }
+                });
+            },
+            // onComplete
+            async (content) => {
+                const updated = this.keepProtectedBlocks(currentContent, ReadmeDocument.parse(currentContent)
+                    .replace(regenerated.id, withSectionHeading(regenerated, content))
+                    .toString());
+                this._generatedContent = updated;
+                this._panel?.webview.postMessage({
+                    type: 'generated',
+                    data: { content: updated }
+                });
+                
+                await this.checkGeneratedContent(updated);
+                
+                // Save to history
+                await this.saveToHistory(updated);
+            },
+            // onError: keep the README as it was
+            (error) => {
+                this._generatedContent = currentContent;
+                this._panel?.webview.postMessage({
+                    type: 'error',
+                    data: { message: error.message, content: currentContent }
+                });
+            },
+            abortController.signal,
+            // onStatus
+            (status) => this.postStatus(status)
+        );
+        
+        this.endOperation(abortController, currentContent);
+    }
+    
+    /**
+     * Update the README on disk by regenerating only the sections that no longer
+     * match the project (command palette entry point).
+     * Stale sections come from comparing the current scan with the snapshot saved
+     * alongside the history when the README was last saved; they are preselected
+     * in a quick pick so the user can add or drop sections before anything runs.
+     */
+    public async updateReadme(): Promise<void> {
+        await this.createOrShow(this._targetFolder);
+        
+        if (!this._panel || !this._projectInfo || !this._detection || !this._projectType) {
+            return;
+        }
+        
+        const readme = await getExistingReadme(this._projectInfo.rootPath);
+        const sections = readme ? ReadmeDocument.parse(readme).sections : [];
+        
+        if (!readme || sections.length === 0) {
+            vscode.window.showInformationMessage('No README.md to update. Generate and save a README first.');
+            return;
+        }
+        
+        const snapshot = await getProjectSnapshot(this._projectInfo.rootPath);
+        const stale = snapshot
+            ? findStaleSections(snapshot, createProjectSnapshot(this._projectInfo, this._detection))
+            : [];
+        
+        const items = sections.map(s => {
+            const reasons = stale.find(st => st.sectionId === s.section.id)?.reasons || [];
+            return {
+                label: s.heading || s.section.name,
+                description: reasons.length > 0 ? '$(warning) Out of date' : undefined,
+                detail: reasons.length > 0 ? reasons.join(' · ') : undefined,
+                picked: reasons.length > 0,
+                update: { id: s.id, reasons } as SectionUpdate
+            };
+        });
+        
+        let placeHolder: string;
+        if (!snapshot) {
+            placeHolder = 'No snapshot of the project yet (it is saved with the README). Choose the sections to update';
+        } else if (stale.length === 0) {
+            placeHolder = `No project changes since ${new Date(snapshot.timestamp).toLocaleString()}. Choose sections to update anyway`;
+        } else {
+            placeHolder = 'Out-of-date sections are selected. The rest of the README stays as is';
+        }
+        
+        const picked = await vscode.window.showQuickPick(items, {
+            title: 'Update README',
+            placeHolder,
+            canPickMany: true,
+            matchOnDetail: true
+        });
+        
+        if (!picked || picked.length === 0) {
+            return;
+        }
+        
+        const abortController = this.beginOperation();
+        const previousContent = this._generatedContent;
+        
+        this._panel.webview.postMessage({
+            type: 'generating',
+            data: { message: `🔄 Updating ${picked.length} section${picked.length === 1 ? '' : 's'}` }
+        });
+        
+        await updateReadmeSections(
+            this._projectInfo,
+            this._detection,
+            this._projectType,
+            readme,
+            picked.map(item => item.update),
+            // onComplete
+            async (content) => {
+                this._generatedContent = content;
+                this._panel?.webview.postMessage({
+                    type: 'generated',
+                    data: { content }
+                });
+                
+                await this.checkGeneratedContent(content);
+                
+                // Save to history
+                await this.saveToHistory(content);
+            },
+            // onError: keep the README as it was
+            (error) => {
+                this._generatedContent = readme;
+                this._panel?.webview.postMessage({
+                    type: 'error',
+                    data: { message: error.message, content: readme }
+                });
+            },
+            abortController.signal,
+            // onStatus
+            (status) => this.postStatus(status),
+            // onSectionProgress
+            (progress, content) => {
+                this._generatedContent = content;
+                this._panel?.webview.postMessage({
+                    type: 'sectionProgress',
+                    data: { sections: progress, content }
+                });
+            }
+        );
+        
+        this.endOperation(abortController, previousContent);
     }
     
     /**
@@ -468,6 +957,11 @@ export class WebviewProvider {
         const saved = await saveReadme(this._projectInfo.rootPath, content);
         
         if (saved) {
+            // Remember what the README was written from, for "Update Existing README"
+            if (this._detection) {
+                await saveProjectSnapshot(this._projectInfo.rootPath, createProjectSnapshot(this._projectInfo, this._detection));
+            }
+            
             vscode.window.showInformationMessage('README.md saved successfully!');
             await openReadme(this._projectInfo.rootPath);
             
@@ -851,6 +1345,100 @@ function getWebviewHtml(): string {
             border-color: var(--vscode-focusBorder);
         }
         
+        .model-settings textarea,
+        .model-settings input[type="number"] {
+            font-family: inherit;
+            font-size: 12px;
+            padding: 6px 10px;
+            border-radius: var(--border-radius);
+            border: 1px solid var(--vscode-input-border);
+            background: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            resize: vertical;
+        }
+        
+        .model-settings select {
+            min-width: 0;
+        }
+        
+        .section-regen-btn {
+            margin-left: 8px;
+            padding: 0 4px;
+            font-size: 12px;
+            background: transparent;
+            border: none;
+            cursor: pointer;
+            opacity: 0;
+            transition: opacity 0.15s;
+        }
+        
+        h1:hover .section-regen-btn,
+        h2:hover .section-regen-btn,
+        .section-regen-btn:focus {
+            opacity: 1;
+        }
+        
+        .section-progress {
+            display: flex;
+            flex-direction: column;
+            gap: 4px;
+            padding: var(--spacing-sm) var(--spacing-md);
+            margin-bottom: var(--spacing-md);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: var(--border-radius);
+            font-family: var(--vscode-font-family);
+            font-size: 12px;
+        }
+        
+        .section-progress-title {
+            font-weight: 600;
+            margin-bottom: 4px;
+        }
+        
+        .section-progress-item {
+            display: flex;
+            gap: 8px;
+        }
+        
+        .section-progress-item.pending {
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .section-progress-error {
+            color: var(--vscode-errorForeground);
+        }
+        
+        .validation-panel {
+            display: flex;
+            flex-direction: column;
+            gap: 4px;
+            padding: var(--spacing-sm) var(--spacing-md);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            border-left: 3px solid var(--vscode-editorWarning-foreground);
+            background: var(--vscode-inputValidation-warningBackground, transparent);
+            font-size: 12px;
+        }
+        
+        .validation-title {
+            font-weight: 600;
+        }
+        
+        .validation-item {
+            display: flex;
+            gap: 8px;
+            flex-wrap: wrap;
+        }
+        
+        .validation-item .validation-location {
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .validation-actions {
+            display: flex;
+            gap: 8px;
+            margin-top: 4px;
+        }
+        
         .preview-panel {
             display: flex;
             flex-direction: column;
@@ -1284,6 +1872,7 @@ function getWebviewHtml(): string {
         </div>
         
         <div id="error-container"></div>
+        <div id="status-container"></div>
         
         <div class="main-grid">
             <div class="sidebar">
@@ -1385,6 +1974,60 @@ function getWebviewHtml(): string {
                                 <input type="checkbox" id="include-badges" checked>
                                 <label for="include-badges">Include Badges</label>
                             </div>
+                            <div class="checkbox-row" title="Generate each section as its own request, so long READMEs don't run out of output tokens">
+                                <input type="checkbox" id="section-by-section">
+                                <label for="section-by-section">Generate Section by Section</label>
+                            </div>
+                            <div class="checkbox-row" id="package-readmes-row" style="display: none;" title="After the root README, generate a README for each workspace package">
+                                <input type="checkbox" id="package-readmes">
+                                <label for="package-readmes" id="package-readmes-label">Also Generate Package READMEs</label>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+                
+                <!-- AI Model -->
+                <div class="panel">
+                    <div class="panel-header">
+                        <span>
+                            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" style="vertical-align: text-bottom; margin-right: 4px;" xmlns="http://www.w3.org/2000/svg">
+                                <rect x="4" y="4" width="16" height="16" rx="2" stroke="currentColor" stroke-width="2"/><rect x="9" y="9" width="6" height="6" stroke="currentColor" stroke-width="2"/>
+                                <path d="M9 1v3M15 1v3M9 20v3M15 20v3M20 9h3M20 14h3M1 9h3M1 14h3" stroke="currentColor" stroke-width="2" stroke-linecap="round"/>
+                            </svg>
+                            AI Model
+                        </span>
+                    </div>
+                    <div class="panel-content">
+                        <div class="options-grid model-settings">
+                            <div class="option-group">
+                                <label class="option-label">Provider</label>
+                                <select id="provider-select" onchange="renderModelSettings()"></select>
+                            </div>
+                            <div class="option-group">
+                                <label class="option-label">Primary Model</label>
+                                <div style="display: flex; gap: 6px; align-items: center;">
+                                    <select id="model-select" style="flex: 1;"></select>
+                                    <button class="btn-icon" onclick="refreshModels()" id="refresh-models-btn" title="Refresh models from provider">
+                                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                            <polyline points="23 4 23 10 17 10" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+                                            <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+                                        </svg>
+                                    </button>
+                                </div>
+                            </div>
+                            <div class="option-group">
+                                <label class="option-label">Fallback Models (in order, one per line)</label>
+                                <textarea id="fallback-models" rows="3"></textarea>
+                            </div>
+                            <div class="option-group">
+                                <label class="option-label">Temperature: <span id="temperature-value"></span></label>
+                                <input type="range" id="temperature-input" min="0" max="2" step="0.1" oninput="document.getElementById('temperature-value').textContent = this.value">
+                            </div>
+                            <div class="option-group">
+                                <label class="option-label">Max Tokens</label>
+                                <input type="number" id="max-tokens-input" min="256" max="65536" step="256">
+                            </div>
+                            <button class="btn-secondary" onclick="saveModelSettings()">Save Model Settings</button>
                         </div>
                     </div>
                 </div>
@@ -1440,6 +2083,13 @@ function getWebviewHtml(): string {
                             </svg>
                             Generate
                         </button>
+                        <button class="btn-secondary" onclick="cancelGeneration()" id="cancel-btn" style="display: none;">
+                            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                <line x1="18" y1="6" x2="6" y2="18" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+                                <line x1="6" y1="6" x2="18" y2="18" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
+                            </svg>
+                            Cancel
+                        </button>
                     </div>
                 </div>
                 <div class="panel-content" style="flex: 1; display: flex; flex-direction: column;">
@@ -1472,6 +2122,7 @@ function getWebviewHtml(): string {
                             💡 Examples: "Rewrite features section", "Add architecture diagram", "Make it shorter", "Add more emojis", "Fix installation steps"
                         </div>
                     </div>
+                    <div class="validation-panel" id="validation-panel" style="display: none;"></div>
                     <div class="preview-content" id="preview-content" style="flex: 1; overflow: auto;">
                         <div class="placeholder">
                             <div class="placeholder-icon">
@@ -1548,7 +2199,10 @@ function getWebviewHtml(): string {
             selectedTemplate: 'openSource',
             enabledSections: [],
             generatedContent: '',
-            selectedBadges: []
+            previousContent: '',
+            selectedBadges: [],
+            providers: [],
+            availableModels: {}
         };
         
         // Initialize
@@ -1572,8 +2226,34 @@ function getWebviewHtml(): string {
                     showGenerated(message.data.content);
                     break;
                 case 'error':
+                    if (message.data.content) {
+                        // Failed section regeneration: keep the README as it was
+                        showGenerated(message.data.content);
+                    }
                     showError(message.data.message);
                     break;
+                case 'sectionRegenerating':
+                    showStreamingContent(message.data.content);
+                    break;
+                case 'cancelled':
+                    showCancelled(message.data.content);
+                    break;
+                case 'sectionProgress':
+                    showSectionProgress(message.data.sections, message.data.content);
+                    break;
+                case 'validation':
+                    showValidation(message.data.claims);
+                    break;
+                case 'status':
+                    showStatus(message.data.message);
+                    break;
+                case 'providersUpdated':
+                    renderProviders(message.data.providers, message.data.activeProviderId);
+                    break;
+                case 'modelsUpdated':
+                    state.availableModels[message.data.providerId] = message.data.models;
+                    renderModelSettings();
+                    break;
                 case 'promptPreview':
                     showPromptPreview(message.data.prompt);
                     break;
@@ -1599,19 +2279,89 @@ function getWebviewHtml(): string {
             // Set default enabled sections based on template
             const template = data.templates.find(t => t.id === state.selectedTemplate);
             state.enabledSections = state.sections
-                .filter(s => s.defaultEnabled)
+                .filter(s => s.defaultEnabled || (s.id === 'packages' && data.project.packageCount > 0))
                 .map(s => s.id);
             
+            // Per-package READMEs are only offered for monorepos
+            const isMonorepo = data.project.packageCount > 0;
+            document.getElementById('package-readmes-row').style.display = isMonorepo ? 'flex' : 'none';
+            document.getElementById('package-readmes-label').textContent = \`Also Generate Package READMEs (\${data.project.packageCount})\`;
+            if (!isMonorepo) {
+                document.getElementById('package-readmes').checked = false;
+            }
+            
             // Render sections
             renderSections(data.sections);
             
             // Render history
             renderHistory(data.history);
             
+            // Render model picker
+            renderProviders(data.providers, data.activeProviderId);
+            
             // Show ready state in preview panel
             showReadyState(data);
         }
         
+        function renderProviders(providers, activeProviderId) {
+            state.providers = providers;
+            const select = document.getElementById('provider-select');
+            select.innerHTML = providers.map(p => \`
+                <option value="\${p.id}" \${p.id === activeProviderId ? 'selected' : ''}>
+                    \${escapeHtml(p.displayName)}\${p.configured ? '' : ' (not configured)'}
+                </option>
+            \`).join('');
+            renderModelSettings();
+        }
+        
+        function renderModelSettings() {
+            const providerId = document.getElementById('provider-select').value;
+            const provider = state.providers.find(p => p.id === providerId);
+            if (!provider) {
+                return;
+            }
+            
+            // Configured order first, then models discovered via refresh
+            const available = state.availableModels[provider.id] || [];
+            const models = [...new Set([...provider.models, ...available])];
+            const primary = provider.models[0] || '';
+            
+            document.getElementById('model-select').innerHTML = models.length > 0
+                ? models.map(m => \`<option value="\${escapeHtml(m)}" \${m === primary ? 'selected' : ''}>\${escapeHtml(m)}</option>\`).join('')
+                : '<option value="">First model reported by the server</option>';
+            document.getElementById('fallback-models').value = provider.models.slice(1).join('\\n');
+            document.getElementById('temperature-input').value = provider.temperature;
+            document.getElementById('temperature-value').textContent = provider.temperature;
+            document.getElementById('max-tokens-input').value = provider.maxTokens;
+            document.getElementById('refresh-models-btn').style.display = provider.canRefresh ? 'inline-flex' : 'none';
+        }
+        
+        function refreshModels() {
+            vscode.postMessage({
+                type: 'refreshModels',
+                data: { providerId: document.getElementById('provider-select').value }
+            });
+        }
+        
+        function saveModelSettings() {
+            const model = document.getElementById('model-select').value;
+            const fallbackModels = document.getElementById('fallback-models').value
+                .split('\\n')
+                .map(m => m.trim())
+                .filter(m => m && m !== model);
+            
+            vscode.postMessage({
+                type: 'saveModelSettings',
+                data: {
+                    providerId: document.getElementById('provider-select').value,
+                    model: model,
+                    fallbackModels: fallbackModels,
+                    temperature: parseFloat(document.getElementById('temperature-input').value),
+                    maxTokens: parseInt(document.getElementById('max-tokens-input').value, 10)
+                }
+            });
+        }
+        
         function showReadyState(data) {
             const container = document.getElementById('preview-content');
             const fileCount = data.project.totalFiles || 0;
@@ -1748,6 +2498,8 @@ function getWebviewHtml(): string {
                 language: document.getElementById('language-select').value,
                 tone: document.getElementById('tone-select').value,
                 includeBadges: document.getElementById('include-badges').checked,
+                sectionBySection: document.getElementById('section-by-section').checked,
+                packageReadmes: document.getElementById('package-readmes').checked,
                 customBadges: state.selectedBadges.map(b => b.markdown).join(' ')
             };
         }
@@ -1759,6 +2511,27 @@ function getWebviewHtml(): string {
             });
         }
         
+        function cancelGeneration() {
+            const cancelBtn = document.getElementById('cancel-btn');
+            cancelBtn.disabled = true;
+            vscode.postMessage({ type: 'cancel' });
+        }
+        
+        function setGenerationRunning(running) {
+            const cancelBtn = document.getElementById('cancel-btn');
+            cancelBtn.style.display = running ? 'inline-flex' : 'none';
+            cancelBtn.disabled = false;
+            document.getElementById('generate-btn').disabled = running;
+            if (!running) {
+                showStatus('');
+            }
+        }
+        
+        function showStatus(message) {
+            const container = document.getElementById('status-container');
+            container.innerHTML = message ? \`<div class="warning">\${escapeHtml(message)}</div>\` : '';
+        }
+        
         let isPreviewOpen = false;
 
         function previewPrompt() {
@@ -1802,11 +2575,33 @@ function getWebviewHtml(): string {
             document.getElementById('preview-actions').style.display = 'none';
             document.getElementById('refine-section').style.display = 'none';
             document.getElementById('refine-toggle-btn').style.display = 'none';
+            document.getElementById('validation-panel').style.display = 'none';
+            
+            // Keep the previous README so it can be restored if cancelled
+            state.previousContent = state.generatedContent;
+            state.generatedContent = '';
             
             // Disable generate button and show loading state
             const generateBtn = document.getElementById('generate-btn');
-            generateBtn.disabled = true;
             generateBtn.innerHTML = '<span class="btn-spinner"></span> Processing...';
+            setGenerationRunning(true);
+        }
+        
+        function showCancelled(previousContent) {
+            setGenerationRunning(false);
+            if (previousContent) {
+                showGenerated(previousContent);
+            } else {
+                state.generatedContent = '';
+                showReadyState({
+                    project: state.project,
+                    detection: state.detection,
+                    projectType: state.projectType
+                });
+            }
+            const container = document.getElementById('error-container');
+            container.innerHTML = '<div class="error">⏹️ Generation cancelled</div>';
+            setTimeout(() => container.innerHTML = '', 3000);
         }
         
         function appendToken(token) {
@@ -1818,17 +2613,99 @@ function getWebviewHtml(): string {
             container.innerHTML = renderMarkdown(state.generatedContent);
         }
         
+        function showSectionProgress(sections, content) {
+            const icons = { pending: '⏸️', generating: '⏳', done: '✅', failed: '❌' };
+            const done = sections.filter(s => s.status === 'done').length;
+            const container = document.getElementById('preview-content');
+            state.generatedContent = content;
+            container.innerHTML = \`
+                <div class="section-progress">
+                    <div class="section-progress-title">Sections: \${done} of \${sections.length} done</div>
+                    \${sections.map(s => \`
+                        <div class="section-progress-item \${s.status}">
+                            <span>\${icons[s.status]}</span>
+                            <span>\${escapeHtml(s.name)}</span>
+                            \${s.error ? \`<span class="section-progress-error">\${escapeHtml(s.error)}</span>\` : ''}
+                        </div>
+                    \`).join('')}
+                </div>
+                \${renderMarkdown(content)}
+            \`;
+        }
+        
+        function showValidation(claims) {
+            const panel = document.getElementById('validation-panel');
+            if (!claims || claims.length === 0) {
+                panel.style.display = 'none';
+                panel.innerHTML = '';
+                return;
+            }
+            
+            panel.innerHTML = \`
+                <div class="validation-title">⚠️ \${claims.length} \${claims.length === 1 ? 'reference' : 'references'} couldn't be verified against the project</div>
+                \${claims.map(c => \`
+                    <div class="validation-item">
+                        <code>\${escapeHtml(c.value)}</code>
+                        <span>\${escapeHtml(c.reason)}</span>
+                        <span class="validation-location">line \${c.line}\${c.section ? ' · ' + escapeHtml(c.section) : ''}</span>
+                    </div>
+                \`).join('')}
+                <div class="validation-actions">
+                    <button class="btn-primary" onclick="repairClaims()">🩹 Repair</button>
+                    <button class="btn-secondary" onclick="dismissValidation()">Dismiss</button>
+                </div>
+            \`;
+            panel.style.display = 'flex';
+        }
+        
+        function repairClaims() {
+            vscode.postMessage({ type: 'repairClaims' });
+        }
+        
+        function dismissValidation() {
+            document.getElementById('validation-panel').style.display = 'none';
+        }
+        
+        function showStreamingContent(content) {
+            state.generatedContent = content;
+            document.getElementById('preview-content').innerHTML = renderMarkdown(content);
+        }
+        
+        function addSectionButtons(container) {
+            // Headers rendered inside code blocks are not sections
+            const headings = Array.from(container.querySelectorAll('h1, h2')).filter(h => !h.closest('pre'));
+            let index = 0;
+            headings.forEach(heading => {
+                const isTitle = heading.tagName === 'H1';
+                if (isTitle && index > 0) {
+                    return;
+                }
+                const target = isTitle ? { level: 1 } : { level: 2, index: index++ };
+                const button = document.createElement('button');
+                button.className = 'section-regen-btn';
+                button.title = 'Regenerate this section';
+                button.textContent = '🔄';
+                button.onclick = () => regenerateSection(target);
+                heading.appendChild(button);
+            });
+        }
+        
+        function regenerateSection(target) {
+            vscode.postMessage({ type: 'regenerateSection', data: target });
+        }
+        
         function showGenerated(content) {
             state.generatedContent = content;
             const container = document.getElementById('preview-content');
             container.innerHTML = renderMarkdown(content);
+            addSectionButtons(container);
             document.getElementById('preview-actions').style.display = 'flex';
             document.getElementById('refine-toggle-btn').style.display = 'inline-flex';
             // Don't auto-show refine - user clicks button to open it
             document.getElementById('refine-section').style.display = 'none';
             // Re-enable and change button to Regenerate after first generation
+            setGenerationRunning(false);
             const generateBtn = document.getElementById('generate-btn');
-            generateBtn.disabled = false;
             generateBtn.textContent = '🔄 Regenerate';
         }
         
@@ -1884,6 +2761,13 @@ function getWebviewHtml(): string {
         }
         
         function showError(message) {
+            // A failed generation is no longer running
+            const generateBtn = document.getElementById('generate-btn');
+            if (generateBtn.disabled) {
+                setGenerationRunning(false);
+                generateBtn.textContent = state.previousContent ? '🔄 Regenerate' : '✨ Generate';
+            }
+            
             // Check if this is a multi-line important message (like API key warning)
             if (message.includes('\\n')) {
                 const container = document.getElementById('preview-content');
@@ -28,6 +28,7 @@ export const ALL_SECTIONS: ReadmeSection[] = [
     { id: 'features', name: 'Features', description: 'Key features and capabilities', defaultEnabled: true },
     { id: 'techstack', name: 'Tech Stack', description: 'Technologies and tools used', defaultEnabled: true },
     { id: 'structure', name: 'Project Structure', description: 'File tree and directory layout', defaultEnabled: true },
+    { id: 'packages', name: 'Packages', description: 'Index of the packages in a monorepo', defaultEnabled: false },
     { id: 'prerequisites', name: 'Prerequisites', description: 'System requirements and dependencies', defaultEnabled: true },
     { id: 'installation', name: 'Installation', description: 'How to install the project', defaultEnabled: true },
     { id: 'envvars', name: 'Environment Variables', description: 'Environment configuration table', defaultEnabled: false },
@@ -0,0 +1,62 @@
+/**
+ * Dart Manifest Parser tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { collectDartManifest } from '../analysis/dartManifest';
+import { withProject } from './projectFixture';
+
+test('reads a Flutter app', async () => {
+    const pubspec = [
+        'name: weather_app',
+        'description: Weather forecasts',
+        'version: 1.2.0+7',
+        'publish_to: none',
+        'environment:',
+        '  sdk: ">=3.3.0 <4.0.0"',
+        'dependencies:',
+        '  flutter:',
+        '    sdk: flutter',
+        '  http: ^1.2.0',
+        '  shared:',
+        '    path: ../shared',
+        'dev_dependencies:',
+        '  flutter_test:',
+        '    sdk: flutter'
+    ].join('\n');
+
+    await withProject({ 'pubspec.yaml': pubspec, 'lib/main.dart': 'void main() {}' }, async (rootPath, files) => {
+        const manifest = await collectDartManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.name, 'weather_app');
+        assert.equal(manifest.version, '1.2.0+7');
+        assert.equal(manifest.runtimeVersion, '>=3.3.0 <4.0.0');
+        assert.equal(manifest.packageManager, 'flutter');
+        assert.equal(manifest.library, false);
+        assert.deepEqual(manifest.dependencies.map(d => [d.name, d.version, d.dev, d.group]), [
+            ['flutter', undefined, false, 'sdk'],
+            ['http', '^1.2.0', false, undefined],
+            ['shared', undefined, false, 'path'],
+            ['flutter_test', undefined, true, 'sdk']
+        ]);
+    });
+});
+
+test('reads Dart command-line executables and keeps versions as written', async () => {
+    const pubspec = 'name: fmt_tool\nversion: 2.0\nexecutables:\n  fmt: main\n  fmt-check:\n';
+
+    await withProject({ 'pubspec.yaml': pubspec, 'bin/main.dart': '', 'bin/fmt-check.dart': '' }, async (rootPath, files) => {
+        const manifest = await collectDartManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.version, '2.0');
+        assert.equal(manifest.packageManager, 'dart');
+        assert.equal(manifest.library, false);
+        assert.deepEqual(manifest.entryPoints, [
+            { name: 'fmt', target: 'bin/main.dart' },
+            { name: 'fmt-check', target: 'bin/fmt-check.dart' }
+        ]);
+    });
+});
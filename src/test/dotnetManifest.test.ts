@@ -0,0 +1,84 @@
+/**
+ * .NET Manifest Parser tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { collectDotnetManifest } from '../analysis/dotnetManifest';
+import { withProject } from './projectFixture';
+
+const SOLUTION = [
+    'Microsoft Visual Studio Solution File, Format Version 12.00',
+    'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Shop.Api", "src\\Shop.Api\\Shop.Api.csproj", "{1}"',
+    'EndProject',
+    'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Shop.Core", "src\\Shop.Core\\Shop.Core.csproj", "{2}"',
+    'EndProject',
+    'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Shop.Tests", "tests\\Shop.Tests\\Shop.Tests.csproj", "{3}"',
+    'EndProject'
+].join('\n');
+
+test('reads the projects of a solution', async () => {
+    await withProject({
+        'Shop.sln': SOLUTION,
+        'src/Shop.Api/Shop.Api.csproj': `<Project Sdk="Microsoft.NET.Sdk.Web">
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+    <Version>1.3.0</Version>
+  </PropertyGroup>
+  <ItemGroup>
+    <PackageReference Include="Serilog.AspNetCore" Version="8.0.1" />
+    <!-- <PackageReference Include="Old.Package" Version="1.0.0" /> -->
+  </ItemGroup>
+</Project>`,
+        'src/Shop.Core/Shop.Core.csproj': `<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+    <Description>Shop domain model</Description>
+    <PackageLicenseExpression>MIT</PackageLicenseExpression>
+  </PropertyGroup>
+  <ItemGroup>
+    <PackageReference Include="FluentValidation">
+      <Version>11.9.0</Version>
+    </PackageReference>
+  </ItemGroup>
+</Project>`,
+        'tests/Shop.Tests/Shop.Tests.csproj': `<Project Sdk="Microsoft.NET.Sdk">
+  <ItemGroup>
+    <PackageReference Include="xunit" Version="2.7.0" />
+    <PackageReference Include="FluentValidation" Version="11.9.0" />
+  </ItemGroup>
+</Project>`
+    }, async (rootPath, files) => {
+        const manifest = await collectDotnetManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.name, 'Shop');
+        assert.equal(manifest.version, '1.3.0');
+        assert.equal(manifest.description, 'Shop domain model');
+        assert.equal(manifest.license, 'MIT');
+        assert.equal(manifest.runtimeVersion, '8.0');
+        assert.equal(manifest.library, false);
+        assert.deepEqual(manifest.entryPoints, [{ name: 'Shop.Api', target: 'src/Shop.Api/Shop.Api.csproj' }]);
+        assert.equal(manifest.workspaceMembers?.length, 3);
+        assert.deepEqual(manifest.dependencies.map(d => [d.name, d.version, d.dev]), [
+            ['Serilog.AspNetCore', '8.0.1', false],
+            ['Microsoft.AspNetCore.App', undefined, false],
+            ['FluentValidation', '11.9.0', false],
+            ['xunit', '2.7.0', true]
+        ]);
+    });
+});
+
+test('reads a single class library project', async () => {
+    await withProject({
+        'Parsing.csproj': '<Project Sdk="Microsoft.NET.Sdk"><PropertyGroup><TargetFramework>netcoreapp3.1</TargetFramework><PackageId>Acme.Parsing</PackageId></PropertyGroup></Project>'
+    }, async (rootPath, files) => {
+        const manifest = await collectDotnetManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.name, 'Acme.Parsing');
+        assert.equal(manifest.runtimeVersion, 'Core 3.1');
+        assert.equal(manifest.library, true);
+        assert.deepEqual(manifest.entryPoints, []);
+    });
+});
@@ -0,0 +1,56 @@
+/**
+ * Go Manifest Parser tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { collectGoManifest } from '../analysis/goManifest';
+import { withProject } from './projectFixture';
+
+test('reads the module, direct requirements and main packages', async () => {
+    const goMod = [
+        'module github.com/acme/deployctl/v2',
+        '',
+        'go 1.22',
+        '',
+        'toolchain go1.22.3',
+        '',
+        'require github.com/spf13/cobra v1.8.0',
+        '',
+        'require (',
+        '\t// logging',
+        '\tgo.uber.org/zap v1.27.0',
+        '\tgolang.org/x/sys v0.20.0 // indirect',
+        ')'
+    ].join('\n');
+
+    await withProject({ 'go.mod': goMod, 'main.go': 'package main', 'cmd/agent/main.go': 'package main' }, async (rootPath, files) => {
+        const manifest = await collectGoManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.name, 'deployctl');
+        assert.equal(manifest.runtimeVersion, '1.22 (toolchain 1.22.3)');
+        assert.deepEqual(manifest.dependencies.map(d => [d.name, d.version]), [
+            ['go.uber.org/zap', 'v1.27.0'],
+            ['github.com/spf13/cobra', 'v1.8.0']
+        ]);
+        assert.deepEqual(manifest.entryPoints, [
+            { name: 'deployctl', target: 'github.com/acme/deployctl/v2' },
+            { name: 'agent', target: 'github.com/acme/deployctl/v2/cmd/agent' }
+        ]);
+    });
+});
+
+test('reads go.work members without a root module', async () => {
+    const goWork = 'go 1.21\n\nuse (\n\t./api\n\t./worker\n)\n';
+
+    await withProject({ 'go.work': goWork }, async (rootPath, files) => {
+        const manifest = await collectGoManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.deepEqual(manifest.sources, ['go.work']);
+        assert.equal(manifest.name, undefined);
+        assert.equal(manifest.runtimeVersion, '1.21');
+        assert.deepEqual(manifest.workspaceMembers, ['api', 'worker']);
+    });
+});
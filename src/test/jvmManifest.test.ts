@@ -0,0 +1,92 @@
+/**
+ * JVM Manifest Parser tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { collectJvmManifest } from '../analysis/jvmManifest';
+import { withProject } from './projectFixture';
+
+test('reads pom.xml coordinates, properties and dependency scopes', async () => {
+    const pom = `<project>
+  <parent>
+    <groupId>org.springframework.boot</groupId>
+    <artifactId>spring-boot-starter-parent</artifactId>
+    <version>3.2.5</version>
+  </parent>
+  <artifactId>orders</artifactId>
+  <version>1.4.0</version>
+  <name>Orders Service</name>
+  <description>Takes orders</description>
+  <licenses><license><name>Apache-2.0</name></license></licenses>
+  <properties>
+    <java.version>17</java.version>
+    <start-class>com.acme.orders.App</start-class>
+    <jackson.version>2.17.0</jackson.version>
+  </properties>
+  <modules><module>api</module><module>core</module></modules>
+  <dependencies>
+    <dependency>
+      <groupId>com.fasterxml.jackson.core</groupId>
+      <artifactId>jackson-databind</artifactId>
+      <version>\${jackson.version}</version>
+    </dependency>
+    <!-- <dependency><groupId>old</groupId><artifactId>gone</artifactId></dependency> -->
+    <dependency>
+      <groupId>org.junit.jupiter</groupId>
+      <artifactId>junit-jupiter</artifactId>
+      <scope>test</scope>
+    </dependency>
+  </dependencies>
+</project>`;
+
+    await withProject({ 'pom.xml': pom }, async (rootPath, files) => {
+        const manifest = await collectJvmManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.packageManager, 'maven');
+        assert.equal(manifest.name, 'Orders Service');
+        assert.equal(manifest.version, '1.4.0');
+        assert.equal(manifest.description, 'Takes orders');
+        assert.equal(manifest.license, 'Apache-2.0');
+        assert.equal(manifest.runtimeVersion, '17');
+        assert.deepEqual(manifest.workspaceMembers, ['api', 'core']);
+        assert.deepEqual(manifest.entryPoints, [{ name: 'orders', target: 'com.acme.orders.App' }]);
+        assert.deepEqual(manifest.dependencies.map(d => [d.name, d.version, d.dev]), [
+            ['com.fasterxml.jackson.core:jackson-databind', '2.17.0', false],
+            ['org.junit.jupiter:junit-jupiter', undefined, true]
+        ]);
+    });
+});
+
+test('reads Gradle Kotlin DSL builds and settings', async () => {
+    const build = [
+        'plugins { application }',
+        'version = "0.2.0"',
+        'java { toolchain { languageVersion.set(JavaLanguageVersion.of(21)) } }',
+        'application { mainClass.set("com.acme.cli.MainKt") }',
+        'dependencies {',
+        '    implementation("com.github.ajalt.clikt:clikt:4.4.0")',
+        '    // implementation("old:gone:1.0")',
+        '    testImplementation("io.kotest:kotest-runner-junit5:5.9.0")',
+        '}'
+    ].join('\n');
+    const settings = 'rootProject.name = "acme-cli"\ninclude("core", ":plugins:git")\n';
+
+    await withProject({ 'build.gradle.kts': build, 'settings.gradle.kts': settings }, async (rootPath, files) => {
+        const manifest = await collectJvmManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.deepEqual(manifest.sources, ['build.gradle.kts', 'settings.gradle.kts']);
+        assert.equal(manifest.packageManager, 'gradle');
+        assert.equal(manifest.name, 'acme-cli');
+        assert.equal(manifest.version, '0.2.0');
+        assert.equal(manifest.runtimeVersion, '21');
+        assert.deepEqual(manifest.workspaceMembers, ['core', 'plugins/git']);
+        assert.deepEqual(manifest.entryPoints, [{ name: 'acme-cli', target: 'com.acme.cli.MainKt' }]);
+        assert.deepEqual(manifest.dependencies.map(d => [d.name, d.version, d.dev]), [
+            ['com.github.ajalt.clikt:clikt', '4.4.0', false],
+            ['io.kotest:kotest-runner-junit5', '5.9.0', true]
+        ]);
+    });
+});
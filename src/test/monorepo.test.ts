@@ -0,0 +1,97 @@
+/**
+ * Monorepo Detector tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { collectMonorepo, injectPackageIndex, resolveWorkspacePatterns } from '../analysis/monorepo';
+import { withProject } from './projectFixture';
+
+const PACKAGES = {
+    'packages/core/package.json': '{ "name": "@acme/core", "version": "1.2.0", "description": "Core | utils" }',
+    'packages/ui/package.json': '{ "name": "@acme/ui", "private": true }',
+    'packages/legacy/package.json': '{ "name": "@acme/legacy" }',
+    'packages/docs/README.md': '# Not a package',
+    'apps/web/nested/site/package.json': '{ "name": "site" }',
+    'apps/web/node_modules/dep/package.json': '{ "name": "dep" }',
+    'crates/parser/Cargo.toml': '[package]\nname = "parser"\nversion = "0.3.0"\n'
+};
+
+// ============================================================================
+// resolveWorkspacePatterns
+// ============================================================================
+
+test('expands * to folders that have a package manifest', async () => {
+    await withProject(PACKAGES, async rootPath => {
+        assert.deepEqual(
+            await resolveWorkspacePatterns(rootPath, ['packages/*']),
+            ['packages/core', 'packages/legacy', 'packages/ui']
+        );
+    });
+});
+
+test('applies negations, braces, ./ prefixes and trailing slashes', async () => {
+    await withProject(PACKAGES, async rootPath => {
+        assert.deepEqual(await resolveWorkspacePatterns(rootPath, ['./packages/*/', '!packages/legacy']), ['packages/core', 'packages/ui']);
+        assert.deepEqual(await resolveWorkspacePatterns(rootPath, ['packages/{core,ui}', 'crates/*']), ['crates/parser', 'packages/core', 'packages/ui']);
+    });
+});
+
+test('searches ** across folders but skips dependencies', async () => {
+    await withProject(PACKAGES, async rootPath => {
+        assert.deepEqual(await resolveWorkspacePatterns(rootPath, ['apps/**']), ['apps/web/nested/site']);
+        assert.deepEqual(await resolveWorkspacePatterns(rootPath, ['**/site']), ['apps/web/nested/site']);
+        assert.deepEqual(await resolveWorkspacePatterns(rootPath, ['missing/*']), []);
+    });
+});
+
+// ============================================================================
+// collectMonorepo
+// ============================================================================
+
+test('reads pnpm workspaces and each package\'s manifest', async () => {
+    await withProject({ ...PACKAGES, 'pnpm-workspace.yaml': 'packages:\n  - "packages/*"\n  - "crates/*"\n  - "!packages/legacy"\n', 'turbo.json': '{}' }, async (rootPath, files) => {
+        const monorepo = await collectMonorepo(rootPath, files, { name: 'acme' }, undefined);
+
+        assert.ok(monorepo);
+        assert.deepEqual(monorepo.tools, ['pnpm', 'turborepo']);
+        assert.deepEqual(monorepo.packages.map(p => [p.name, p.version, p.manifestFile]), [
+            ['parser', '0.3.0', 'Cargo.toml'],
+            ['@acme/core', '1.2.0', 'package.json'],
+            ['@acme/ui', undefined, 'package.json']
+        ]);
+        assert.equal(monorepo.packages[2].private, true);
+    });
+});
+
+test('returns undefined for a project without workspaces', async () => {
+    await withProject({ 'package.json': '{ "name": "single" }' }, async (rootPath, files) => {
+        assert.equal(await collectMonorepo(rootPath, files, { name: 'single' }, undefined), undefined);
+    });
+});
+
+test('renders the package index into the Packages section', async () => {
+    await withProject(PACKAGES, async (rootPath, files) => {
+        const monorepo = await collectMonorepo(rootPath, files, { workspaces: ['packages/core'] }, undefined);
+        const readme = injectPackageIndex('# Acme\n\n## Packages\n\nAll packages:\n\n| old | table |\n\n## License\n\nMIT\n', monorepo);
+
+        assert.equal(readme, [
+            '# Acme',
+            '',
+            '## Packages',
+            '',
+            'All packages:',
+            '',
+            '<!-- readme-gen:packages -->',
+            '| Package | Path | Version | Description |',
+            '|---------|------|---------|-------------|',
+            '| [`@acme/core`](packages/core) | `packages/core` | 1.2.0 | Core \\| utils |',
+            '<!-- /readme-gen:packages -->',
+            '',
+            '## License',
+            '',
+            'MIT',
+            ''
+        ].join('\n'));
+    });
+});
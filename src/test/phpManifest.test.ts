@@ -0,0 +1,45 @@
+/**
+ * PHP Manifest Parser tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { collectPhpManifest } from '../analysis/phpManifest';
+import { withProject } from './projectFixture';
+
+test('reads composer.json metadata, requirements, binaries and scripts', async () => {
+    const composer = {
+        name: 'acme/deployer',
+        description: 'Deploys things',
+        license: ['MIT', 'GPL-3.0-only'],
+        require: { 'php': '>=8.1', 'ext-json': '*', 'symfony/console': '^7.0' },
+        'require-dev': { 'phpunit/phpunit': '^10.5' },
+        bin: ['bin/deployer.php'],
+        scripts: { test: 'phpunit', check: ['@test', 'phpstan analyse'] }
+    };
+
+    await withProject({ 'composer.json': JSON.stringify(composer) }, async (rootPath, files) => {
+        const manifest = await collectPhpManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.name, 'deployer');
+        assert.equal(manifest.license, 'MIT OR GPL-3.0-only');
+        assert.equal(manifest.runtimeVersion, '>=8.1');
+        assert.equal(manifest.library, true);
+        assert.deepEqual(manifest.dependencies.map(d => [d.name, d.version, d.dev]), [
+            ['symfony/console', '^7.0', false],
+            ['phpunit/phpunit', '^10.5', true]
+        ]);
+        assert.deepEqual(manifest.entryPoints, [{ name: 'deployer', target: 'bin/deployer.php' }]);
+        assert.deepEqual(manifest.scripts, { test: 'phpunit', check: '@test && phpstan analyse' });
+    });
+});
+
+test('treats projects with a front controller as applications and skips invalid files', async () => {
+    await withProject({ 'composer.json': '{ "name": "acme/shop", "require": { "laravel/framework": "^11.0" } }', 'artisan': '' }, async (rootPath, files) => {
+        assert.equal((await collectPhpManifest(rootPath, files))?.library, false);
+    });
+    await withProject({ 'composer.json': '{ "name": ' }, async (rootPath, files) => {
+        assert.equal(await collectPhpManifest(rootPath, files), undefined);
+    });
+});
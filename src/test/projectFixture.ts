@@ -0,0 +1,51 @@
+/**
+ * Project Fixture
+ * Writes a throwaway project to a temp folder for tests of the file-based analyzers.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectFile } from '../analysis/workspaceScanner';
+
+/**
+ * List every file and folder below the root, like the workspace scanner does
+ */
+function listFiles(rootPath: string, relativeDir = ''): ProjectFile[] {
+    const files: ProjectFile[] = [];
+    for (const entry of fs.readdirSync(path.join(rootPath, relativeDir), { withFileTypes: true })) {
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        files.push({
+            path: path.join(rootPath, relativePath),
+            relativePath,
+            name: entry.name,
+            extension: path.extname(entry.name).toLowerCase(),
+            isDirectory: entry.isDirectory()
+        });
+        if (entry.isDirectory()) {
+            files.push(...listFiles(rootPath, relativePath));
+        }
+    }
+    return files;
+}
+
+/**
+ * Create a project from a map of relative paths to file contents, run the test
+ * against it and remove it afterwards
+ */
+export async function withProject<T>(
+    contents: Record<string, string>,
+    run: (rootPath: string, files: ProjectFile[]) => Promise<T>
+): Promise<T> {
+    const rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-readme-test-'));
+    try {
+        for (const [relativePath, content] of Object.entries(contents)) {
+            const filePath = path.join(rootPath, relativePath);
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, content);
+        }
+        return await run(rootPath, listFiles(rootPath));
+    } finally {
+        fs.rmSync(rootPath, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,115 @@
+/**
+ * Protected Blocks tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { extractProtectedBlocks, restoreProtectedBlocks } from '../generator/protectedBlocks';
+
+const RUNBOOK = '<!-- readme-gen:keep -->\nPage the on-call team at #ops.\n<!-- /readme-gen:keep -->';
+const NOTICE = '<!-- readme-gen:keep -->\nInternal use only.\n<!-- /readme-gen:keep -->';
+
+const EXISTING = [
+    '# Service',
+    '',
+    NOTICE,
+    '',
+    'Handles payments.',
+    '',
+    '## Deployment',
+    '',
+    'Deploy with the pipeline.',
+    '',
+    RUNBOOK,
+    '',
+    '## License',
+    '',
+    'MIT',
+    ''
+].join('\n');
+
+// ============================================================================
+// extractProtectedBlocks
+// ============================================================================
+
+test('finds each block with its section and position', () => {
+    const blocks = extractProtectedBlocks(EXISTING);
+
+    assert.equal(blocks.length, 2);
+    assert.deepEqual(
+        blocks.map(({ content, sectionId, sectionHeading, sectionIndex, atStart }) => ({ content, sectionId, sectionHeading, sectionIndex, atStart })),
+        [
+            { content: NOTICE, sectionId: 'title', sectionHeading: 'Service', sectionIndex: 0, atStart: false },
+            { content: RUNBOOK, sectionId: 'deployment', sectionHeading: 'Deployment', sectionIndex: 1, atStart: false }
+        ]
+    );
+});
+
+test('marks blocks right after the header as at the start', () => {
+    const blocks = extractProtectedBlocks(`# Service\n\n## Deployment\n\n${RUNBOOK}\n\nDeploy it.\n`);
+
+    assert.equal(blocks[0].atStart, true);
+    assert.deepEqual(extractProtectedBlocks(undefined), []);
+});
+
+// ============================================================================
+// restoreProtectedBlocks
+// ============================================================================
+
+test('puts blocks back into their sections', () => {
+    const generated = '# Service\n\nA payment service.\n\n## Deployment\n\nRun `make deploy`.\n\n## License\n\nMIT\n';
+    const { content, warnings } = restoreProtectedBlocks(generated, extractProtectedBlocks(EXISTING));
+
+    assert.deepEqual(warnings, []);
+    assert.equal(content, [
+        '# Service',
+        '',
+        'A payment service.',
+        '',
+        NOTICE,
+        '',
+        '## Deployment',
+        '',
+        'Run `make deploy`.',
+        '',
+        RUNBOOK,
+        '',
+        '## License',
+        '',
+        'MIT',
+        ''
+    ].join('\n'));
+});
+
+test('leaves blocks the generated content already kept verbatim', () => {
+    const { content, warnings } = restoreProtectedBlocks(EXISTING, extractProtectedBlocks(EXISTING));
+
+    assert.equal(content, EXISTING);
+    assert.deepEqual(warnings, []);
+});
+
+test('drops keep blocks the model made up or rewrote, and repeats', () => {
+    const invented = '<!-- readme-gen:keep -->\nPage the on-call team at #sre.\n<!-- /readme-gen:keep -->';
+    const generated = `# Service\n\n${NOTICE}\n\n## Deployment\n\n${invented}\n\nDeploy it.\n\n${NOTICE}\n`;
+    const { content } = restoreProtectedBlocks(generated, extractProtectedBlocks(EXISTING));
+
+    assert.ok(!content.includes('#sre'));
+    assert.equal(content.split(NOTICE).length - 1, 1);
+    assert.ok(content.includes(`Deploy it.\n\n${RUNBOOK}\n`));
+});
+
+test('uses the section at the same position when a header was renamed', () => {
+    const generated = '# Service\n\n## Shipping\n\nDeploy it.\n\n## License\n\nMIT\n';
+    const { content, warnings } = restoreProtectedBlocks(generated, extractProtectedBlocks(EXISTING));
+
+    assert.ok(content.includes(`## Shipping\n\nDeploy it.\n\n${RUNBOOK}\n\n## License`));
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /"Deployment" section wasn't found.*"Shipping"/);
+});
+
+test('appends blocks at the end when the README has no sections', () => {
+    const { content, warnings } = restoreProtectedBlocks('', extractProtectedBlocks(EXISTING));
+
+    assert.equal(content, `${NOTICE}\n\n${RUNBOOK}\n`);
+    assert.equal(warnings.length, 2);
+});
@@ -0,0 +1,125 @@
+/**
+ * Python Manifest Parser tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { collectPythonManifest } from '../analysis/pythonManifest';
+import { collectManifest } from '../analysis/manifest';
+import { withProject } from './projectFixture';
+
+test('reads PEP 621 metadata, scripts and extras from pyproject.toml', async () => {
+    const pyproject = [
+        '[project]',
+        'name = "weather-cli"',
+        'version = "0.4.1"',
+        'description = "Forecasts in your terminal"',
+        'requires-python = ">=3.10"',
+        'license = { text = "MIT" }',
+        'dependencies = ["httpx>=0.27", "rich[jupyter] ; python_version >= \'3.10\'"]',
+        '',
+        '[project.optional-dependencies]',
+        'test = ["pytest>=8"]',
+        '',
+        '[project.scripts]',
+        'weather = "weather_cli.main:app"',
+        '',
+        '[tool.uv]',
+        'dev-dependencies = ["ruff"]'
+    ].join('\n');
+
+    await withProject({ 'pyproject.toml': pyproject, 'uv.lock': '' }, async (rootPath, files) => {
+        const manifest = await collectPythonManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.name, 'weather-cli');
+        assert.equal(manifest.version, '0.4.1');
+        assert.equal(manifest.description, 'Forecasts in your terminal');
+        assert.equal(manifest.license, 'MIT');
+        assert.equal(manifest.runtimeVersion, '>=3.10');
+        assert.equal(manifest.packageManager, 'uv');
+        assert.deepEqual(manifest.entryPoints, [{ name: 'weather', target: 'weather_cli.main:app' }]);
+        assert.deepEqual(
+            manifest.dependencies.map(d => [d.name, d.version, d.dev]),
+            [['httpx', '>=0.27', false], ['rich', undefined, false], ['pytest', '>=8', true], ['ruff', undefined, true]]
+        );
+    });
+});
+
+test('reads Poetry projects', async () => {
+    const pyproject = [
+        '[tool.poetry]',
+        'name = "shop"',
+        'version = "2.0.0"',
+        'description = "Online shop"',
+        '',
+        '[tool.poetry.dependencies]',
+        'python = "^3.11"',
+        'django = "^5.0"',
+        '',
+        '[tool.poetry.group.dev.dependencies]',
+        'pytest = "*"',
+        '',
+        '[tool.poetry.scripts]',
+        'shop = "shop.cli:main"'
+    ].join('\n');
+
+    await withProject({ 'pyproject.toml': pyproject }, async (rootPath, files) => {
+        const manifest = await collectPythonManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.name, 'shop');
+        assert.equal(manifest.runtimeVersion, '^3.11');
+        assert.equal(manifest.packageManager, 'poetry');
+        assert.deepEqual(manifest.dependencies.map(d => [d.name, d.dev]), [['django', false], ['pytest', true]]);
+        assert.deepEqual(manifest.entryPoints, [{ name: 'shop', target: 'shop.cli:main' }]);
+    });
+});
+
+test('merges setup.py literals with requirements files', async () => {
+    const setupPy = [
+        'from setuptools import setup',
+        '',
+        'setup(',
+        '    name="legacy-tool",',
+        '    version="1.0",',
+        '    entry_points={"console_scripts": ["legacy = legacy.cli:main"]},',
+        ')'
+    ].join('\n');
+
+    await withProject({
+        'setup.py': setupPy,
+        'requirements.txt': '# runtime\nflask==3.0.0\nrequests>=2 ; python_version < "4"\n-r requirements-dev.txt\n',
+        'requirements-dev.txt': 'pytest\nflask\n'
+    }, async (rootPath, files) => {
+        const manifest = await collectPythonManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.deepEqual(manifest.sources, ['setup.py', 'requirements-dev.txt', 'requirements.txt']);
+        assert.equal(manifest.name, 'legacy-tool');
+        assert.equal(manifest.packageManager, 'pip');
+        assert.deepEqual(manifest.entryPoints, [{ name: 'legacy', target: 'legacy.cli:main' }]);
+        // flask is a runtime dependency, so it isn't repeated as a dev one
+        assert.deepEqual(
+            manifest.dependencies.map(d => [d.name, d.version, d.dev]).sort(),
+            [['flask', '==3.0.0', false], ['pytest', undefined, true], ['requests', '>=2', false]]
+        );
+    });
+});
+
+test('returns undefined without Python manifests and reads the license file', async () => {
+    await withProject({ 'main.py': 'print("hi")' }, async (rootPath, files) => {
+        assert.equal(await collectPythonManifest(rootPath, files), undefined);
+    });
+
+    await withProject({
+        'Pipfile': '[packages]\nrequests = "*"\n\n[dev-packages]\nblack = "*"\n',
+        'LICENSE': 'Apache License\nVersion 2.0, January 2004'
+    }, async (rootPath, files) => {
+        const manifest = await collectManifest(rootPath, files);
+
+        assert.equal(manifest?.packageManager, 'pipenv');
+        assert.equal(manifest?.license, 'Apache-2.0');
+        assert.deepEqual(manifest?.dependencies.map(d => [d.name, d.dev]), [['requests', false], ['black', true]]);
+    });
+});
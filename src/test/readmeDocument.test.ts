@@ -0,0 +1,130 @@
+/**
+ * README Document tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ReadmeDocument, matchTemplateSection, stripMarkdownFence, withSectionHeading } from '../generator/readmeDocument';
+
+const README = [
+    '# My Project',
+    '',
+    '[![npm](https://img.shields.io/npm/v/my-project.svg)](https://npmjs.com/package/my-project)',
+    '',
+    'A tool that does **useful** things.',
+    '',
+    '## Features',
+    '',
+    '- Fast',
+    '',
+    '```bash',
+    '## not a header',
+    '```',
+    '',
+    '## Getting Started',
+    '',
+    'npm install my-project',
+    '',
+    '## License',
+    '',
+    'MIT',
+    ''
+].join('\n');
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+test('splits a README into the title block and ## sections', () => {
+    const document = ReadmeDocument.parse(README);
+
+    assert.deepEqual(document.sections.map(s => s.id), ['title', 'features', 'installation', 'license']);
+    assert.equal(document.find('title')?.heading, 'My Project');
+    assert.equal(document.find('installation')?.heading, 'Getting Started');
+    assert.ok(document.find('features')?.raw.includes('## not a header'));
+});
+
+test('serializes an unchanged document byte for byte', () => {
+    const crlf = README.replace(/\n/g, '\r\n');
+    assert.equal(ReadmeDocument.parse(README).toString(), README);
+    assert.equal(ReadmeDocument.parse(crlf).toString(), crlf);
+    assert.equal(ReadmeDocument.parse('no headers\n\n').toString(), 'no headers\n\n');
+});
+
+test('gives duplicate and unknown headers unique ids', () => {
+    const document = ReadmeDocument.parse('# T\n\n## Features\n\na\n\n## Highlights\n\nb\n\n## Why Bother?\n\nc\n');
+
+    assert.deepEqual(document.sections.map(s => s.id), ['title', 'features', 'features-2', 'custom-why-bother']);
+    assert.equal(matchTemplateSection('Why Bother?').name, 'Why Bother');
+});
+
+test('summarizes the first paragraph that is not only badges', () => {
+    assert.equal(ReadmeDocument.parse(README).getSummary(), 'A tool that does useful things.');
+    assert.equal(ReadmeDocument.parse(README).getSummary(10), 'A tool tha...');
+});
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+test('replaces only the targeted section', () => {
+    const updated = ReadmeDocument.parse(README).replace('features', '## Features\n\n- Faster\n').toString();
+
+    assert.equal(updated, README.replace(/- Fast\n\n```bash\n## not a header\n```\n/, '- Faster\n'));
+    assert.throws(() => ReadmeDocument.parse(README).replace('missing', '## Missing'), /not found/);
+});
+
+test('inserts sections in template order or at a given position', () => {
+    const document = ReadmeDocument.parse(README).insert('## Usage\n\nRun it.');
+    assert.deepEqual(document.sections.map(s => s.id), ['title', 'features', 'installation', 'usage', 'license']);
+    assert.ok(document.toString().includes('npm install my-project\n\n## Usage\n\nRun it.\n\n## License'));
+
+    document.insert('## FAQ\n\nAsk away.', { before: 'features' });
+    assert.deepEqual(document.sections.map(s => s.id), ['title', 'custom-faq', 'features', 'installation', 'usage', 'license']);
+});
+
+test('removes and reorders sections, keeping the title first', () => {
+    const document = ReadmeDocument.parse(README).remove('features').reorder(['license', 'title', 'installation']);
+
+    assert.deepEqual(document.sections.map(s => s.id), ['title', 'license', 'installation']);
+    assert.ok(document.toString().endsWith('npm install my-project\n'));
+});
+
+test('merges partial edits: replace, insert and remove', () => {
+    const document = ReadmeDocument.parse(README).merge([
+        'Here are the changes:',
+        '',
+        '## Features',
+        '',
+        '- Fast and small',
+        '',
+        '## Usage',
+        '',
+        'Run it.',
+        '',
+        '## License',
+        '',
+        '<!-- remove -->'
+    ].join('\n'));
+
+    assert.deepEqual(document.sections.map(s => s.id), ['title', 'features', 'installation', 'usage']);
+    assert.ok(document.find('title')?.raw.includes('A tool that does'));
+    assert.ok(document.find('features')?.raw.includes('- Fast and small'));
+});
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+test('strips a markdown fence around the whole answer', () => {
+    assert.equal(stripMarkdownFence('```markdown\n# Title\n```'), '# Title');
+    assert.equal(stripMarkdownFence('Here it is:\n\n```md\n# Title\n```\n\nEnjoy!'), '# Title');
+    assert.equal(stripMarkdownFence('# Title\n\n```bash\nnpm i\n```'), '# Title\n\n```bash\nnpm i\n```');
+});
+
+test('puts the section header back when the content has none', () => {
+    const section = ReadmeDocument.parse(README).find('installation')!;
+
+    assert.equal(withSectionHeading(section, 'npm i\n'), '## Getting Started\n\nnpm i');
+    assert.equal(withSectionHeading(section, '## Setup\n\nnpm i'), '## Setup\n\nnpm i');
+});
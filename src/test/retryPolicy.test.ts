@@ -0,0 +1,107 @@
+/**
+ * Retry Policy tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { RetryPolicy, RetryTracker, getServerRetryDelay, waitForRetry } from '../api/retryPolicy';
+
+const NOW = Date.UTC(2026, 0, 1);
+
+const policy: RetryPolicy = {
+    maxRetries: 2,
+    initialDelayMs: 1000,
+    maxDelayMs: 1500,
+    maxTotalWaitMs: 10000
+};
+
+// ============================================================================
+// getServerRetryDelay
+// ============================================================================
+
+test('returns undefined without hints', () => {
+    assert.equal(getServerRetryDelay(undefined, NOW), undefined);
+    assert.equal(getServerRetryDelay(new Headers(), NOW), undefined);
+});
+
+test('reads Retry-After in seconds and as an HTTP date', () => {
+    assert.equal(getServerRetryDelay(new Headers({ 'retry-after': '12' }), NOW), 12000);
+    assert.equal(
+        getServerRetryDelay(new Headers({ 'retry-after': new Date(NOW + 5000).toUTCString() }), NOW),
+        5000
+    );
+});
+
+test('reads reset durations, epoch seconds and epoch milliseconds', () => {
+    assert.equal(getServerRetryDelay(new Headers({ 'x-ratelimit-reset-requests': '1m30.5s' }), NOW), 90500);
+    assert.equal(getServerRetryDelay(new Headers({ 'x-ratelimit-reset-tokens': '250ms' }), NOW), 250);
+    assert.equal(getServerRetryDelay(new Headers({ 'x-ratelimit-reset': String(NOW / 1000 + 7) }), NOW), 7000);
+    assert.equal(getServerRetryDelay(new Headers({ 'x-ratelimit-reset': String(NOW + 3000) }), NOW), 3000);
+});
+
+test('uses the latest reset hint and never returns a negative delay', () => {
+    const headers = new Headers({ 'x-ratelimit-reset-requests': '2s', 'x-ratelimit-reset-tokens': '7.66s' });
+    assert.equal(getServerRetryDelay(headers, NOW), 7660);
+    assert.equal(getServerRetryDelay(new Headers({ 'x-ratelimit-reset': String(NOW - 5000) }), NOW), 0);
+});
+
+// ============================================================================
+// RetryTracker
+// ============================================================================
+
+test('backs off exponentially up to the delay cap, then falls back', () => {
+    const tracker = new RetryTracker({ ...policy, maxRetries: 3 });
+
+    const first = tracker.nextDelay();
+    const second = tracker.nextDelay();
+    const third = tracker.nextDelay();
+
+    assert.ok(first !== undefined && first >= 1000 && first <= 1250);
+    assert.ok(second !== undefined && second >= 1500 && second <= 1750);
+    assert.ok(third !== undefined && third >= 1500 && third <= 1750);
+    assert.equal(tracker.nextDelay(), undefined);
+});
+
+test('honors server hints and the total wait budget', () => {
+    const tracker = new RetryTracker(policy);
+    const headers = new Headers({ 'retry-after': '6' });
+
+    assert.equal(tracker.nextDelay(headers), 6000);
+    // A second 6s wait would exceed the 10s budget
+    assert.equal(tracker.nextDelay(headers), undefined);
+});
+
+test('resets attempts for the next model but keeps the wait budget', () => {
+    const tracker = new RetryTracker(policy);
+    const headers = new Headers({ 'retry-after': '4' });
+
+    assert.equal(tracker.nextDelay(headers), 4000);
+    assert.equal(tracker.nextDelay(headers), 4000);
+    assert.equal(tracker.nextDelay(headers), undefined);
+
+    tracker.resetAttempts();
+    assert.equal(tracker.nextDelay(new Headers({ 'retry-after': '1' })), 1000);
+    assert.equal(tracker.nextDelay(headers), undefined);
+});
+
+// ============================================================================
+// waitForRetry
+// ============================================================================
+
+test('reports a countdown and clears the status when done', async () => {
+    const statuses: string[] = [];
+    await waitForRetry(20, 'rate limit', status => statuses.push(status));
+
+    assert.equal(statuses[0], '⏳ Waiting 1s for rate limit...');
+    assert.equal(statuses[statuses.length - 1], '');
+});
+
+test('resolves early when aborted', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 10);
+
+    await waitForRetry(60000, 'rate limit', () => undefined, controller.signal);
+
+    assert.ok(Date.now() - started < 1000);
+});
@@ -0,0 +1,75 @@
+/**
+ * Ruby Manifest Parser tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { collectRubyManifest } from '../analysis/rubyManifest';
+import { withProject } from './projectFixture';
+
+test('reads Gemfile groups and the Ruby version', async () => {
+    const gemfile = [
+        'source "https://rubygems.org"',
+        'ruby "3.3.0"',
+        '',
+        'gem "rails", "~> 7.1"',
+        'gem "pg", ">= 1.1", "< 2.0" # database',
+        'gem "rubocop", require: false, group: :development',
+        '',
+        'group :development, :test do',
+        '  gem "rspec-rails"',
+        'end',
+        '',
+        'platforms :mri do',
+        '  gem "byebug"',
+        'end'
+    ].join('\n');
+
+    await withProject({ 'Gemfile': gemfile }, async (rootPath, files) => {
+        const manifest = await collectRubyManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.runtimeVersion, '3.3.0');
+        assert.equal(manifest.library, false);
+        assert.deepEqual(manifest.dependencies.map(d => [d.name, d.version, d.dev]), [
+            ['rails', '~> 7.1', false],
+            ['pg', '>= 1.1, < 2.0', false],
+            ['rubocop', undefined, true],
+            ['rspec-rails', undefined, true],
+            ['byebug', undefined, false]
+        ]);
+    });
+});
+
+test('reads a gemspec with its version file and executables', async () => {
+    const gemspec = [
+        'Gem::Specification.new do |spec|',
+        '  spec.name = "log-tail"',
+        '  spec.version = Log::Tail::VERSION',
+        '  spec.summary = "Tail logs with colors"',
+        '  spec.license = "MIT"',
+        '  spec.required_ruby_version = ">= 3.0"',
+        '  spec.executables = %w[log-tail]',
+        '  spec.add_dependency "thor", "~> 1.3"',
+        '  spec.add_development_dependency "minitest"',
+        'end'
+    ].join('\n');
+
+    await withProject({
+        'log-tail.gemspec': gemspec,
+        'lib/log/tail/version.rb': 'module Log\n  module Tail\n    VERSION = "0.5.2"\n  end\nend\n',
+        'Gemfile': 'gemspec\ngem "rake"\n'
+    }, async (rootPath, files) => {
+        const manifest = await collectRubyManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.deepEqual(manifest.sources, ['Gemfile', 'log-tail.gemspec']);
+        assert.equal(manifest.name, 'log-tail');
+        assert.equal(manifest.version, '0.5.2');
+        assert.equal(manifest.description, 'Tail logs with colors');
+        assert.equal(manifest.runtimeVersion, '>= 3.0');
+        assert.equal(manifest.library, true);
+        assert.deepEqual(manifest.entryPoints, [{ name: 'log-tail', target: 'exe/log-tail' }]);
+        assert.deepEqual(manifest.dependencies.map(d => [d.name, d.dev]), [['thor', false], ['minitest', true], ['rake', false]]);
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * Rust Manifest Parser tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { collectRustManifest } from '../analysis/rustManifest';
+import { withProject } from './projectFixture';
+
+test('reads package metadata, dependencies and binaries', async () => {
+    const cargoToml = [
+        '[package]',
+        'name = "ripfind"',
+        'version = "0.9.0"',
+        'description = "Find files fast"',
+        'license = "MIT OR Apache-2.0"',
+        'rust-version = "1.74"',
+        '',
+        '[dependencies]',
+        'clap = { version = "4", features = ["derive"] }',
+        'regex = "1.10"',
+        'json = { package = "serde_json", version = "1" }',
+        '',
+        '[dev-dependencies]',
+        'tempfile = "3"',
+        '',
+        '[build-dependencies]',
+        'cc = "1"'
+    ].join('\n');
+
+    await withProject({ 'Cargo.toml': cargoToml, 'src/main.rs': 'fn main() {}', 'src/bin/rf-index.rs': 'fn main() {}' }, async (rootPath, files) => {
+        const manifest = await collectRustManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.name, 'ripfind');
+        assert.equal(manifest.version, '0.9.0');
+        assert.equal(manifest.license, 'MIT OR Apache-2.0');
+        assert.equal(manifest.runtimeVersion, '1.74');
+        assert.deepEqual(manifest.dependencies.map(d => [d.name, d.version, d.dev, d.group]), [
+            ['clap', '4', false, undefined],
+            ['regex', '1.10', false, undefined],
+            ['serde_json', '1', false, undefined],
+            ['tempfile', '3', true, undefined],
+            ['cc', '1', true, 'build']
+        ]);
+        assert.deepEqual(manifest.entryPoints, [
+            { name: 'ripfind', target: 'src/main.rs' },
+            { name: 'rf-index', target: 'src/bin/rf-index.rs' }
+        ]);
+    });
+});
+
+test('inherits workspace package fields and dependency versions', async () => {
+    const cargoToml = [
+        '[workspace]',
+        'members = ["crates/*", "tools/cli"]',
+        '',
+        '[workspace.package]',
+        'version = "2.1.0"',
+        'license = "MIT"',
+        '',
+        '[workspace.dependencies]',
+        'tokio = { version = "1.37" }',
+        '',
+        '[package]',
+        'name = "server"',
+        'version.workspace = true',
+        'license.workspace = true',
+        '',
+        '[dependencies]',
+        'tokio = { workspace = true }'
+    ].join('\n');
+
+    await withProject({ 'Cargo.toml': cargoToml }, async (rootPath, files) => {
+        const manifest = await collectRustManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.version, '2.1.0');
+        assert.equal(manifest.license, 'MIT');
+        assert.deepEqual(manifest.dependencies.map(d => [d.name, d.version]), [['tokio', '1.37']]);
+        assert.deepEqual(manifest.workspaceMembers, ['crates/*', 'tools/cli']);
+    });
+});
+
+test('ignores invalid and missing Cargo.toml files', async () => {
+    await withProject({ 'Cargo.toml': '[package\nname = ' }, async (rootPath, files) => {
+        assert.equal(await collectRustManifest(rootPath, files), undefined);
+    });
+    await withProject({ 'src/main.rs': '' }, async (rootPath, files) => {
+        assert.equal(await collectRustManifest(rootPath, files), undefined);
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * SSE Stream Reader tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { readChatCompletionStream } from '../api/sseStream';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build a streaming response that delivers the given chunks in order
+ */
+function streamResponse(chunks: string[], failAfterChunks = false): Response {
+    const encoder = new TextEncoder();
+    let index = 0;
+    // Deliver one chunk per read so a failure doesn't discard the queued chunks
+    const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+            if (index < chunks.length) {
+                controller.enqueue(encoder.encode(chunks[index++]));
+            } else if (failAfterChunks) {
+                controller.error(new Error('socket hang up'));
+            } else {
+                controller.close();
+            }
+        }
+    });
+    return new Response(body);
+}
+
+function delta(content: string, finishReason: string | null = null): string {
+    return `data: ${JSON.stringify({ choices: [{ delta: { content }, finish_reason: finishReason }] })}\n\n`;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+test('collects content deltas and completes on [DONE]', async () => {
+    const tokens: string[] = [];
+    const result = await readChatCompletionStream(
+        streamResponse([delta('# Title'), delta('\nBody'), 'data: [DONE]\n\n']),
+        token => tokens.push(token)
+    );
+
+    assert.deepEqual(tokens, ['# Title', '\nBody']);
+    assert.equal(result.content, '# Title\nBody');
+    assert.equal(result.completed, true);
+});
+
+test('joins lines split across chunks', async () => {
+    const line = delta('split');
+    const result = await readChatCompletionStream(
+        streamResponse([line.slice(0, 12), line.slice(12), 'data: [DONE]']),
+        () => undefined
+    );
+
+    assert.equal(result.content, 'split');
+    assert.equal(result.completed, true);
+});
+
+test('reports the finish reason', async () => {
+    const result = await readChatCompletionStream(
+        streamResponse([delta('cut', 'length')]),
+        () => undefined
+    );
+
+    assert.equal(result.completed, true);
+    assert.equal(result.finishReason, 'length');
+});
+
+test('skips comments, blank data and malformed chunks', async () => {
+    const result = await readChatCompletionStream(
+        streamResponse([': keep-alive\n', 'data: \n', 'data: {not json\n', 'data: [1, 2]\n', delta('ok')]),
+        () => undefined
+    );
+
+    assert.equal(result.content, 'ok');
+    assert.equal(result.completed, false);
+});
+
+test('throws errors sent in the stream', async () => {
+    await assert.rejects(
+        readChatCompletionStream(
+            streamResponse([`data: ${JSON.stringify({ error: { message: 'Rate limit reached' } })}\n`]),
+            () => undefined
+        ),
+        /Rate limit reached/
+    );
+});
+
+test('returns partial content when the connection drops mid-stream', async () => {
+    const result = await readChatCompletionStream(
+        streamResponse([delta('partial')], true),
+        () => undefined
+    );
+
+    assert.equal(result.content, 'partial');
+    assert.equal(result.completed, false);
+});
+
+test('rethrows when the connection drops before any content', async () => {
+    await assert.rejects(
+        readChatCompletionStream(streamResponse([], true), () => undefined),
+        /socket hang up/
+    );
+});
+
+test('rejects a response without a body', async () => {
+    await assert.rejects(
+        readChatCompletionStream(new Response(null), () => undefined),
+        /No response body/
+    );
+});
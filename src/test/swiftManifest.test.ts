@@ -0,0 +1,64 @@
+/**
+ * Swift Manifest Parser tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { collectSwiftManifest } from '../analysis/swiftManifest';
+import { withProject } from './projectFixture';
+
+test('reads the tools version, dependencies and executable products', async () => {
+    const packageSwift = [
+        '// swift-tools-version:5.9',
+        'import PackageDescription',
+        '',
+        'let package = Package(',
+        '    name: "SwApp",',
+        '    products: [',
+        '        .executable(name: "swapp", targets: ["SwApp"]),',
+        '        // .executable(name: "old", targets: ["Old"]),',
+        '    ],',
+        '    dependencies: [',
+        '        .package(url: "https://github.com/apple/swift-argument-parser.git", from: "1.3.0"),',
+        '        .package(url: "https://github.com/vapor/vapor.git", .upToNextMajor(from: "4.92.0")),',
+        '        .package(path: "../Shared"),',
+        '    ],',
+        '    targets: [',
+        '        .executableTarget(name: "SwApp", dependencies: [.product(name: "ArgumentParser", package: "swift-argument-parser")]),',
+        '        .executableTarget(name: "tool", path: "Tools/tool"),',
+        '        .target(name: "Core"),',
+        '    ]',
+        ')'
+    ].join('\n');
+
+    await withProject({ 'Package.swift': packageSwift }, async (rootPath, files) => {
+        const manifest = await collectSwiftManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.name, 'SwApp');
+        assert.equal(manifest.runtimeVersion, '5.9');
+        assert.equal(manifest.library, false);
+        assert.deepEqual(manifest.dependencies.map(d => [d.name, d.version, d.group]), [
+            ['swift-argument-parser', '1.3.0', undefined],
+            ['vapor', '4.92.0', undefined],
+            ['Shared', undefined, 'path']
+        ]);
+        assert.deepEqual(manifest.entryPoints, [
+            { name: 'swapp', target: 'Sources/SwApp' },
+            { name: 'tool', target: 'Tools/tool' }
+        ]);
+    });
+});
+
+test('reads library packages', async () => {
+    const packageSwift = '// swift-tools-version: 5.10\nlet package = Package(\n    name: "Geometry",\n    products: [.library(name: "Geometry", targets: ["Geometry"])],\n    targets: [.target(name: "Geometry")]\n)\n';
+
+    await withProject({ 'Package.swift': packageSwift }, async (rootPath, files) => {
+        const manifest = await collectSwiftManifest(rootPath, files);
+
+        assert.ok(manifest);
+        assert.equal(manifest.runtimeVersion, '5.10');
+        assert.equal(manifest.library, true);
+        assert.deepEqual(manifest.entryPoints, []);
+    });
+});
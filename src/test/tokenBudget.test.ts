@@ -0,0 +1,130 @@
+/**
+ * Token Budget Manager tests
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+    PromptSegment,
+    describeBudgetReport,
+    estimateTokens,
+    fitSegments,
+    getPromptBudget,
+    truncateToTokens
+} from '../generator/tokenBudget';
+
+/**
+ * Build text of roughly the given token count (15-character lines, ~4 tokens each)
+ */
+function lines(tokens: number, label = 'line'): string {
+    return Array.from({ length: Math.ceil(tokens / 4) }, (_, i) => `${label} ${String(i).padStart(10, '0')}`.slice(0, 15)).join('\n');
+}
+
+// ============================================================================
+// Estimation and limits
+// ============================================================================
+
+test('estimates ~4 ASCII characters per token and one per wide character', () => {
+    assert.equal(estimateTokens(''), 0);
+    assert.equal(estimateTokens('abcd'), 1);
+    assert.equal(estimateTokens('abcde'), 2);
+    assert.equal(estimateTokens('日本語'), 3);
+    assert.equal(estimateTokens('ab🚀'), 2);
+});
+
+test('reserves output tokens, capped at half of small windows', () => {
+    // 131072 window capped at 12000 per request
+    assert.equal(getPromptBudget('llama-3.3-70b-versatile'), 12000 - 4096 - 256);
+    // 2048 window: half goes to the output
+    assert.equal(getPromptBudget('tiiuae/falcon-7b-instruct'), 2048 - 1024 - 256);
+    // Unknown models use a conservative default
+    assert.equal(getPromptBudget('unknown/model', 1000), 8192 - 1000 - 256);
+});
+
+// ============================================================================
+// truncateToTokens
+// ============================================================================
+
+test('leaves text that fits untouched', () => {
+    assert.equal(truncateToTokens('short text', 100), 'short text');
+});
+
+test('truncates at a line boundary and appends the marker', () => {
+    const text = lines(400);
+    const truncated = truncateToTokens(text, 100, '...');
+
+    assert.ok(estimateTokens(truncated) <= 100);
+    assert.ok(truncated.endsWith('\n...'));
+    for (const line of truncated.split('\n').slice(0, -1)) {
+        assert.ok(text.split('\n').includes(line));
+    }
+});
+
+test('returns an empty string when not even one line fits', () => {
+    assert.equal(truncateToTokens('x'.repeat(400), 10), '');
+});
+
+// ============================================================================
+// fitSegments
+// ============================================================================
+
+test('keeps everything when the prompt fits', () => {
+    const result = fitSegments([
+        { id: 'rules', target: 'system', content: 'Be concise.', priority: 100, required: true },
+        { id: 'files', target: 'user', content: 'a.ts', priority: 10 },
+        { id: 'deps', target: 'user', content: 'marked', priority: 20 }
+    ], 1000);
+
+    assert.equal(result.systemPrompt, 'Be concise.');
+    assert.equal(result.userPrompt, 'a.ts\n\nmarked');
+    assert.equal(result.report.fits, true);
+    assert.equal(describeBudgetReport(result.report), '');
+});
+
+test('summarizes the lowest priority segments first', () => {
+    const segments: PromptSegment[] = [
+        { id: 'rules', target: 'system', content: 'Be concise.', priority: 100, required: true },
+        { id: 'tree', target: 'user', content: lines(200, 'tree'), priority: 10, summary: '12 files' },
+        { id: 'deps', target: 'user', content: lines(200, 'deps'), priority: 50, summary: '3 deps' }
+    ];
+    const result = fitSegments(segments, 250);
+
+    const trims = Object.fromEntries(result.report.segments.map(s => [s.id, s.trim]));
+    assert.deepEqual(trims, { rules: 'none', tree: 'summarized', deps: 'none' });
+    assert.ok(result.userPrompt.startsWith('12 files\n\n'));
+    assert.equal(result.report.fits, true);
+    assert.equal(describeBudgetReport(result.report), 'Prompt fitted to ~250 tokens (tree summarized)');
+});
+
+test('truncates, then drops low priority segments but never required ones', () => {
+    const result = fitSegments([
+        { id: 'rules', target: 'system', content: lines(100, 'rule'), priority: 100, required: true },
+        { id: 'tree', target: 'user', content: lines(200, 'tree'), priority: 10 },
+        { id: 'deps', target: 'user', content: lines(200, 'deps'), priority: 50 }
+    ], 250);
+
+    const byId = Object.fromEntries(result.report.segments.map(s => [s.id, s]));
+    assert.equal(byId.rules.trim, 'none');
+    assert.equal(byId.tree.trim, 'dropped');
+    assert.equal(byId.deps.trim, 'truncated');
+    assert.ok(!result.userPrompt.includes('tree'));
+    assert.equal(result.report.fits, true);
+});
+
+test('uses a segment\'s own shrink function', () => {
+    const result = fitSegments([
+        { id: 'code', target: 'user', content: lines(400), priority: 10, shrink: () => '```\nshrunk\n```' }
+    ], 100);
+
+    assert.equal(result.userPrompt, '```\nshrunk\n```');
+    assert.equal(result.report.segments[0].trim, 'truncated');
+});
+
+test('reports when required segments alone exceed the budget', () => {
+    const result = fitSegments([
+        { id: 'rules', target: 'system', content: lines(400), priority: 100, required: true }
+    ], 100);
+
+    assert.equal(result.report.fits, false);
+    assert.equal(result.report.segments[0].trim, 'none');
+});
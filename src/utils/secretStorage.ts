@@ -1,7 +1,7 @@
 /**
  * Secret Storage Utility
  * Securely stores and retrieves API keys using VS Code's SecretStorage API.
- * Supports both OpenRouter and HuggingFace API keys.
+ * Keys are stored per LLM provider id (groq, openrouter, huggingface, ...).
  * The API keys are never logged or exposed.
  */
 
@@ -10,8 +10,25 @@ import * as vscode from 'vscode';
 const OPENROUTER_API_KEY_SECRET = 'ai-readme-generator.openrouter-api-key';
 const HUGGINGFACE_API_KEY_SECRET = 'ai-readme-generator.huggingface-api-key';
 const API_PROVIDER_SECRET = 'ai-readme-generator.api-provider';
+const LLM_PROVIDER_SECRET = 'ai-readme-generator.llm-provider';
 
-export type ApiProvider = 'openrouter' | 'huggingface';
+// Groq keys have always been stored in the HuggingFace slot, so keep reading them from there
+const PROVIDER_KEY_SECRETS: Record<string, string> = {
+    groq: HUGGINGFACE_API_KEY_SECRET,
+    openrouter: OPENROUTER_API_KEY_SECRET,
+    huggingface: 'ai-readme-generator.hf-inference-api-key'
+};
+
+// Values written by older versions to the api-provider secret
+const LEGACY_PROVIDER_IDS: Record<string, string> = {
+    huggingface: 'groq',
+    openrouter: 'openrouter'
+};
+
+const DEFAULT_PROVIDER = 'groq';
+
+// Id of a registered LLM provider
+export type ApiProvider = string;
 
 let secretStorage: vscode.SecretStorage;
 
@@ -116,29 +133,81 @@ export async function hasHuggingFaceApiKey(): Promise<boolean> {
     return !!key && key.length > 0;
 }
 
+// ============================================================================
+// PROVIDER API KEYS
+// ============================================================================
+
+function getProviderKeySecret(providerId: string): string {
+    return PROVIDER_KEY_SECRETS[providerId] || `ai-readme-generator.${providerId}-api-key`;
+}
+
+/**
+ * Store the API key for an LLM provider
+ */
+export async function setProviderApiKey(providerId: string, key: string): Promise<void> {
+    if (!secretStorage) {
+        throw new Error('Secret storage not initialized');
+    }
+    await secretStorage.store(getProviderKeySecret(providerId), key);
+}
+
+/**
+ * Retrieve the API key for an LLM provider
+ */
+export async function getProviderApiKey(providerId: string): Promise<string | undefined> {
+    if (!secretStorage) {
+        throw new Error('Secret storage not initialized');
+    }
+    return await secretStorage.get(getProviderKeySecret(providerId));
+}
+
+/**
+ * Delete the API key for an LLM provider
+ */
+export async function deleteProviderApiKey(providerId: string): Promise<void> {
+    if (!secretStorage) {
+        throw new Error('Secret storage not initialized');
+    }
+    await secretStorage.delete(getProviderKeySecret(providerId));
+}
+
+/**
+ * Check if an LLM provider has an API key configured
+ */
+export async function hasProviderApiKey(providerId: string): Promise<boolean> {
+    const key = await getProviderApiKey(providerId);
+    return !!key && key.length > 0;
+}
+
 // ============================================================================
 // API PROVIDER SELECTION
 // ============================================================================
 
 /**
- * Set the active API provider
+ * Set the preferred LLM provider
  */
 export async function setApiProvider(provider: ApiProvider): Promise<void> {
     if (!secretStorage) {
         throw new Error('Secret storage not initialized');
     }
-    await secretStorage.store(API_PROVIDER_SECRET, provider);
+    await secretStorage.store(LLM_PROVIDER_SECRET, provider);
 }
 
 /**
- * Get the active API provider (defaults to 'huggingface')
+ * Get the preferred LLM provider (defaults to 'groq')
  */
 export async function getApiProvider(): Promise<ApiProvider> {
     if (!secretStorage) {
         throw new Error('Secret storage not initialized');
     }
-    const provider = await secretStorage.get(API_PROVIDER_SECRET);
-    return (provider as ApiProvider) || 'huggingface';
+    const provider = await secretStorage.get(LLM_PROVIDER_SECRET);
+    if (provider) {
+        return provider;
+    }
+
+    // Migrate the selection stored by older versions
+    const legacy = await secretStorage.get(API_PROVIDER_SECRET);
+    return (legacy && LEGACY_PROVIDER_IDS[legacy]) || DEFAULT_PROVIDER;
 }
 
 /**
@@ -154,9 +223,5 @@ export async function hasAnyApiKey(): Promise<boolean> {
  * Get the active API key based on selected provider
  */
 export async function getActiveApiKey(): Promise<string | undefined> {
-    const provider = await getApiProvider();
-    if (provider === 'huggingface') {
-        return await getHuggingFaceApiKey();
-    }
-    return await getApiKey();
+    return await getProviderApiKey(await getApiProvider());
 }